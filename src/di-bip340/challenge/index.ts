@@ -0,0 +1,191 @@
+import { randomBytes } from 'crypto';
+import {
+  ChallengeManagerParams,
+  ChallengeRecord,
+  IssueChallengeParams,
+  VerifyChallengeParams
+} from '../../types/challenge.js';
+import { VerificationResult } from '../../types/di-proof.js';
+import { ChallengeError, ProofError } from '../../utils/error.js';
+import { ProblemDetailsUtils } from '../../utils/problem-details.js';
+import { IChallengeManager, IChallengeStore } from './interface.js';
+
+/** @type {number} The default time to live of a challenge: 5 minutes */
+const DEFAULT_TTL = 5 * 60 * 1000;
+
+/**
+ * An in-memory challenge store, for a single verifier process or tests. Expired challenges are swept whenever a
+ * challenge is stored.
+ * @export
+ * @class MemoryChallengeStore
+ * @type {MemoryChallengeStore}
+ * @implements {IChallengeStore}
+ */
+export class MemoryChallengeStore implements IChallengeStore {
+  /** @type {Map<string, ChallengeRecord>} The challenge records keyed by challenge */
+  private readonly _records: Map<string, ChallengeRecord> = new Map();
+
+  /** @type {() => Date} The clock used to sweep expired challenges */
+  private readonly _clock: () => Date;
+
+  /**
+   * Creates an instance of MemoryChallengeStore.
+   * @constructor
+   * @param {() => Date} clock The clock used to sweep expired challenges (optional, defaults to the system clock).
+   */
+  constructor(clock: () => Date = () => new Date()) {
+    this._clock = clock;
+  }
+
+  /** @type {number} The number of stored challenges */
+  get size(): number {
+    return this._records.size;
+  }
+
+  /** @see IChallengeStore.put */
+  public async put(record: ChallengeRecord): Promise<void> {
+    // Sweep the expired challenges: an unknown challenge is rejected just like an expired one
+    const now = this._clock().getTime();
+    for (const [challenge, { expires }] of this._records) {
+      if (Date.parse(expires) <= now) this._records.delete(challenge);
+    }
+    this._records.set(record.challenge, { ...record });
+  }
+
+  /** @see IChallengeStore.get */
+  public async get(challenge: string): Promise<ChallengeRecord | undefined> {
+    const record = this._records.get(challenge);
+    return record ? { ...record } : undefined;
+  }
+
+  /** @see IChallengeStore.consume */
+  public async consume(challenge: string): Promise<boolean> {
+    // Get the record and check:
+    // if it is unknown or already consumed, do not consume it
+    const record = this._records.get(challenge);
+    if (!record || record.consumed) return false;
+    record.consumed = true;
+    return true;
+  }
+
+  /** @see IChallengeStore.delete */
+  public async delete(challenge: string): Promise<void> {
+    this._records.delete(challenge);
+  }
+}
+
+/**
+ * Issues random challenges and protects proofs over them against replay: a challenge expires after its time to
+ * live, can be bound to a domain and is consumed once a proof over it verifies.
+ * @export
+ * @class ChallengeManager
+ * @type {ChallengeManager}
+ * @implements {IChallengeManager}
+ */
+export class ChallengeManager implements IChallengeManager {
+  /** @type {IChallengeStore} The store of issued challenges */
+  public readonly store: IChallengeStore;
+
+  /** @type {number} The default time to live of a challenge in milliseconds */
+  public readonly ttl: number;
+
+  /** @type {() => Date} The clock used to expire challenges */
+  private readonly _clock: () => Date;
+
+  /**
+   * Creates an instance of ChallengeManager.
+   * @constructor
+   * @param {ChallengeManagerParams} params The parameters to create the manager (optional).
+   * @param {IChallengeStore} params.store The store of issued challenges (optional, defaults to an in-memory store
+   * sharing the manager's clock).
+   * @param {number} params.ttl The default time to live of a challenge in milliseconds (optional, defaults to 5
+   * minutes).
+   * @param {() => Date} params.clock The clock used to expire challenges (optional, defaults to the system clock).
+   * @throws {ChallengeError} if the time to live is not a positive number.
+   */
+  constructor({ store, ttl = DEFAULT_TTL, clock = () => new Date() }: ChallengeManagerParams = {}) {
+    this.ttl = this.checkTtl(ttl);
+    this._clock = clock;
+    this.store = store ?? new MemoryChallengeStore(clock);
+  }
+
+  /** @see IChallengeManager.issue */
+  public async issue({ domain, ttl = this.ttl }: IssueChallengeParams = {}): Promise<ChallengeRecord> {
+    // Generate a random 128-bit challenge that expires after the time to live
+    const challenge = randomBytes(16).toString('base64url');
+    const expires = new Date(this._clock().getTime() + this.checkTtl(ttl)).toISOString();
+
+    // Store and return the challenge record
+    const record: ChallengeRecord = domain === undefined
+      ? { challenge, expires, consumed: false }
+      : { challenge, domain, expires, consumed: false };
+    await this.store.put(record);
+    return record;
+  }
+
+  /** @see IChallengeManager.verifyProof */
+  public async verifyProof({ diProof, ...params }: VerifyChallengeParams): Promise<VerificationResult> {
+    const { expectedChallenge, mediaType, throwOnError = true } = params;
+
+    try {
+      // Check the challenge was issued and can still be used
+      const { domain } = await this.check(expectedChallenge);
+
+      // Verify the proof over the challenge and, if the challenge is bound to a domain, with that domain
+      const result = await diProof.verifyProof({ ...params, expectedDomain: domain ?? params.expectedDomain });
+      if (!result.verified) return result;
+
+      // Consume the challenge and check:
+      // if another verification consumed it first, the proof is a replay
+      if (!(await this.store.consume(expectedChallenge))) {
+        throw new ProofError(`Challenge already used: ${expectedChallenge}`, 'INVALID_CHALLENGE_ERROR');
+      }
+      return result;
+    } catch (error: any) {
+      if (throwOnError) throw error;
+      return { verified: false, mediaType, problemDetails: [ProblemDetailsUtils.fromError(error)] };
+    }
+  }
+
+  /**
+   * Check a challenge was issued, has not expired and has not been consumed.
+   * @private
+   * @param {string} challenge The challenge.
+   * @returns {Promise<ChallengeRecord>} The challenge record.
+   * @throws {ProofError} with type INVALID_CHALLENGE_ERROR if the challenge is unknown, expired or consumed.
+   */
+  private async check(challenge: string): Promise<ChallengeRecord> {
+    // Get the challenge record and check:
+    // if it was never issued, throw an error
+    const record = await this.store.get(challenge);
+    if (!record) {
+      throw new ProofError(`Unknown challenge: ${challenge}`, 'INVALID_CHALLENGE_ERROR');
+    }
+
+    // Check if the challenge was already consumed
+    if (record.consumed) {
+      throw new ProofError(`Challenge already used: ${challenge}`, 'INVALID_CHALLENGE_ERROR');
+    }
+
+    // Check if the challenge has expired
+    if (Date.parse(record.expires) <= this._clock().getTime()) {
+      throw new ProofError(`Challenge expired at ${record.expires}: ${challenge}`, 'INVALID_CHALLENGE_ERROR');
+    }
+
+    return record;
+  }
+
+  /**
+   * Check a time to live is a positive number of milliseconds.
+   * @private
+   * @param {number} ttl The time to live.
+   * @returns {number} The time to live.
+   * @throws {ChallengeError} if the time to live is not a positive finite number.
+   */
+  private checkTtl(ttl: number): number {
+    if (!Number.isFinite(ttl) || ttl <= 0) {
+      throw new ChallengeError(`Invalid challenge time to live: ${ttl}`, 'INVALID_TTL_ERROR');
+    }
+    return ttl;
+  }
+}
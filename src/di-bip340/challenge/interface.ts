@@ -0,0 +1,73 @@
+import { ChallengeRecord, IssueChallengeParams, VerifyChallengeParams } from '../../types/challenge.js';
+import { VerificationResult } from '../../types/di-proof.js';
+
+/**
+ * Interface representing the storage of issued challenges. Implementations backed by a shared database must make
+ * `consume` atomic, so that two verifiers racing on the same challenge cannot both consume it.
+ * @export
+ * @interface IChallengeStore
+ * @type {IChallengeStore}
+ */
+export interface IChallengeStore {
+  /**
+   * Store a newly issued challenge.
+   * @param {ChallengeRecord} record The challenge record.
+   * @returns {Promise<void>}
+   */
+  put(record: ChallengeRecord): Promise<void>;
+
+  /**
+   * Get an issued challenge.
+   * @param {string} challenge The challenge.
+   * @returns {Promise<ChallengeRecord | undefined>} The challenge record, or undefined if it was never issued or
+   * has been removed.
+   */
+  get(challenge: string): Promise<ChallengeRecord | undefined>;
+
+  /**
+   * Mark an issued challenge as consumed, if it is not already.
+   * @param {string} challenge The challenge.
+   * @returns {Promise<boolean>} Whether this call consumed the challenge: false if it is unknown or was already
+   * consumed.
+   */
+  consume(challenge: string): Promise<boolean>;
+
+  /**
+   * Remove a challenge.
+   * @param {string} challenge The challenge.
+   * @returns {Promise<void>}
+   */
+  delete(challenge: string): Promise<void>;
+}
+
+/**
+ * Interface representing a manager of challenges protecting proofs against replay.
+ * @export
+ * @interface IChallengeManager
+ * @type {IChallengeManager}
+ */
+export interface IChallengeManager {
+  /**
+   * Issue a random challenge that expires after a time to live and is optionally bound to a domain.
+   * @param {IssueChallengeParams} params The parameters to issue the challenge (optional).
+   * @param {string | string[]} params.domain The domain the proof over the challenge must have (optional).
+   * @param {number} params.ttl The time to live of the challenge in milliseconds (optional, defaults to the
+   * manager's).
+   * @returns {Promise<ChallengeRecord>} The issued challenge record.
+   * @throws {ChallengeError} if the time to live is not a positive number.
+   */
+  issue(params?: IssueChallengeParams): Promise<ChallengeRecord>;
+
+  /**
+   * Verify the proof of a document over an issued challenge, and consume the challenge once the proof verifies.
+   * The challenge must be known, unexpired and unconsumed; the proof must have the challenge and, if the challenge
+   * is bound to a domain, that domain.
+   * @param {VerifyChallengeParams} params The parameters to verify the proof.
+   * @param {DataIntegrityProof} params.diProof The DataIntegrityProof to verify the document with.
+   * @param {string} params.expectedChallenge The issued challenge the proof must have.
+   * @returns {Promise<VerificationResult>} The result of verifying the proof.
+   * @throws {ProofError} with type INVALID_CHALLENGE_ERROR, in throw mode, if the challenge is unknown, expired or
+   * already consumed, or any error of DataIntegrityProof.verifyProof.
+   */
+  verifyProof(params: VerifyChallengeParams): Promise<VerificationResult>;
+}
@@ -0,0 +1,281 @@
+import { DidDocument } from '@web5/dids';
+import {
+  CredentialIssuer,
+  IssueCredentialParams,
+  UnsecuredCredential,
+  VerifyCredentialParams
+} from '../../types/credential.js';
+import { Proof, SecureDocument, VerificationResult } from '../../types/di-proof.js';
+import { DateTimeUtils } from '../../utils/date-time.js';
+import { CredentialError, ProofError } from '../../utils/error.js';
+import { ProblemDetailsUtils } from '../../utils/problem-details.js';
+import { DataIntegrityProof } from '../data-integrity-proof/index.js';
+import { CREDENTIALS_V2_URL } from '../document-loader/contexts.js';
+import { LocalResolver, ResolverUtils } from '../resolver/index.js';
+import { ICredential } from './interface.js';
+
+/** @type {string} The type every Verifiable Credential has */
+const VERIFIABLE_CREDENTIAL = 'VerifiableCredential';
+
+/** @type {string} Error type thrown when a credential breaks a VC Data Model v2 rule */
+const MALFORMED_VALUE_ERROR = 'MALFORMED_VALUE_ERROR';
+
+/**
+ * Issues and verifies {@link https://www.w3.org/TR/vc-data-model-2.0 | VC Data Model v2} credentials secured with
+ * DataIntegrityProof for assertion.
+ * @export
+ * @class Credential
+ * @type {Credential}
+ * @implements {ICredential}
+ */
+export class Credential implements ICredential {
+  /** @type {DataIntegrityProof} The DataIntegrityProof used to sign and verify credentials */
+  public diProof: DataIntegrityProof;
+
+  /**
+   * Creates an instance of Credential.
+   * @constructor
+   * @param {DataIntegrityProof} diProof The DataIntegrityProof used to sign credentials (with the issuer's
+   * cryptosuite) and verify them (with a resolver to verify credentials of other issuers).
+   */
+  constructor(diProof: DataIntegrityProof) {
+    this.diProof = diProof;
+  }
+
+  /** @see ICredential.issueCredential */
+  public async issueCredential({ credential, options }: IssueCredentialParams): Promise<SecureDocument> {
+    // Check if there is a cryptosuite to sign with
+    const { cryptosuite } = this.diProof;
+    if (!cryptosuite) {
+      throw new ProofError('Cannot issue credential: no cryptosuite', 'PROOF_GENERATION_ERROR');
+    }
+
+    // Check the credential against the VC Data Model v2 rules
+    CredentialUtils.validate(credential);
+
+    // Check if the issuer is the controller of the multikey signing the credential
+    const issuer = CredentialUtils.issuerId(credential.issuer);
+    const { controller } = cryptosuite.multikey;
+    if (issuer !== controller) {
+      throw new CredentialError(`Issuer mismatch: ${issuer} !== ${controller}`, MALFORMED_VALUE_ERROR);
+    }
+
+    // Sign the credential for assertion
+    return await this.diProof.addProof({
+      document : credential,
+      options  : { type: 'DataIntegrityProof', ...options, proofPurpose: 'assertionMethod' }
+    });
+  }
+
+  /** @see ICredential.verifyCredential */
+  public async verifyCredential(params: VerifyCredentialParams): Promise<VerificationResult> {
+    const { document, mediaType, clock = () => new Date(), clockSkew = 0, throwOnError = true } = params;
+
+    // Parse the credential and check it against the VC Data Model v2 rules
+    let credential: UnsecuredCredential;
+    try {
+      credential = CredentialUtils.parse(document);
+    } catch (error: any) {
+      if (throwOnError) throw error;
+      return { verified: false, mediaType, problemDetails: [ProblemDetailsUtils.fromError(error)] };
+    }
+
+    // Verify the proof of the credential for assertion
+    const result = await this.diProof.verifyProof({ ...params, expectedPurpose: 'assertionMethod' });
+    const problemDetails = [...result.problemDetails ?? []];
+
+    // Check the issuer controls the verification method of each proof and the credential is currently valid
+    try {
+      await this.checkIssuer(credential, params.controllerDocument);
+      CredentialUtils.checkValidity(credential, clock().getTime(), clockSkew);
+    } catch (error: any) {
+      if (throwOnError) throw error;
+      problemDetails.push(ProblemDetailsUtils.fromError(error));
+    }
+
+    // The credential verifies if its proof does and it has no other problem
+    const verified = result.verified && problemDetails.length === 0;
+    return { ...result, verified, verifiedDocument: verified ? result.verifiedDocument : undefined, problemDetails };
+  }
+
+  /**
+   * Check the issuer of a credential is the controller of the verification method of each of its proofs: the DID
+   * of the verification method URL. In verifier mode, or given the controller document, the verification method is
+   * also resolved, which checks the document of that DID controls it; otherwise it is the cryptosuite's multikey.
+   * @private
+   * @param {UnsecuredCredential} credential The secured credential.
+   * @param {DidDocument} controllerDocument The controller document of the verification methods (optional).
+   * @returns {Promise<void>}
+   * @throws {CredentialError} with type INVALID_ISSUER_ERROR if the issuer is not the controller of a verification
+   * method.
+   * @throws {ResolverError} if a verification method cannot be resolved.
+   */
+  private async checkIssuer(credential: UnsecuredCredential, controllerDocument?: DidDocument): Promise<void> {
+    const issuer = CredentialUtils.issuerId(credential.issuer);
+    const resolver = controllerDocument ? new LocalResolver([controllerDocument]) : this.diProof.resolver;
+
+    const proofs: Proof[] = [credential.proof ?? []].flat();
+    for (const { verificationMethod } of proofs) {
+      // Get the controller of the verification method, the DID of its URL, and check:
+      // if the issuer is not the controller, throw an error
+      const [controller] = verificationMethod.split('#');
+      if (controller !== issuer) {
+        const message = `Issuer ${issuer} is not the controller of ${verificationMethod}: ${controller}`;
+        throw new CredentialError(message, 'INVALID_ISSUER_ERROR');
+      }
+
+      // Resolve the verification method, checking the controller's document controls it
+      if (resolver) await ResolverUtils.dereference(resolver, verificationMethod);
+    }
+  }
+}
+
+/**
+ * A utility class checking credentials against the
+ * {@link https://www.w3.org/TR/vc-data-model-2.0 | VC Data Model v2} rules.
+ * @export
+ * @class CredentialUtils
+ * @type {CredentialUtils}
+ */
+export class CredentialUtils {
+  /**
+   * Parse a credential and check it against the VC Data Model v2 rules.
+   * @static
+   * @param {string} document The credential.
+   * @returns {UnsecuredCredential} The parsed credential, with its proof if any.
+   * @throws {CredentialError} with type PARSING_ERROR if the document is not JSON, or MALFORMED_VALUE_ERROR if it
+   * breaks a rule.
+   */
+  public static parse(document: string): UnsecuredCredential {
+    let credential: unknown;
+    try {
+      credential = JSON.parse(document);
+    } catch (error: any) {
+      throw new CredentialError(`Invalid JSON document: ${error.message}`, 'PARSING_ERROR');
+    }
+    this.validate(credential);
+    return credential;
+  }
+
+  /**
+   * Check a credential against the VC Data Model v2 rules: its `@context` starts with the VC v2 context, its
+   * `type` includes VerifiableCredential, its `id` and `issuer` are URLs, its `validFrom` and `validUntil` are
+   * dateTimeStamps in order, and its `credentialSubject` is one or more objects with claims.
+   * @static
+   * @param {unknown} credential The credential.
+   * @throws {CredentialError} with type MALFORMED_VALUE_ERROR if the credential breaks a rule.
+   */
+  public static validate(credential: unknown): asserts credential is UnsecuredCredential {
+    // Check if the credential is an object
+    if (typeof credential !== 'object' || credential === null || Array.isArray(credential)) {
+      throw new CredentialError('Invalid credential: not a JSON object', MALFORMED_VALUE_ERROR);
+    }
+    const { '@context': context, id, type, issuer, validFrom, validUntil, credentialSubject } =
+      credential as Record<string, unknown>;
+
+    // Check if the first @context is the VC v2 context
+    if ([context].flat()[0] !== CREDENTIALS_V2_URL) {
+      const message = `Invalid @context: the first context must be ${CREDENTIALS_V2_URL}`;
+      throw new CredentialError(message, MALFORMED_VALUE_ERROR);
+    }
+
+    // Check if the type includes VerifiableCredential
+    if (![type].flat().includes(VERIFIABLE_CREDENTIAL)) {
+      throw new CredentialError(`Invalid type: must include ${VERIFIABLE_CREDENTIAL}`, MALFORMED_VALUE_ERROR);
+    }
+
+    // Check if the id, if any, is a URL
+    if (id !== undefined && !this.isUrl(id)) {
+      throw new CredentialError(`Invalid id: not a URL: ${id}`, MALFORMED_VALUE_ERROR);
+    }
+
+    // Check if the issuer is a URL or an object with a URL id
+    if (!this.isUrl(this.issuerId(issuer as CredentialIssuer))) {
+      throw new CredentialError('Invalid issuer: must be a URL or an object with a URL id', MALFORMED_VALUE_ERROR);
+    }
+
+    // Check if validFrom and validUntil, if any, are dateTimeStamps and in order
+    const validFromTime = this.time('validFrom', validFrom);
+    const validUntilTime = this.time('validUntil', validUntil);
+    if (validFromTime !== undefined && validUntilTime !== undefined && validUntilTime < validFromTime) {
+      throw new CredentialError(`Invalid validity period: ${validUntil} is before ${validFrom}`, MALFORMED_VALUE_ERROR);
+    }
+
+    // Check if the credentialSubject is one or more objects with claims
+    const subjects = [credentialSubject ?? []].flat();
+    const claims = (subject: unknown) => typeof subject === 'object' && subject !== null && Object.keys(subject).length;
+    if (!subjects.length || !subjects.every(claims)) {
+      throw new CredentialError('Invalid credentialSubject: must be one or more objects', MALFORMED_VALUE_ERROR);
+    }
+  }
+
+  /**
+   * Check a credential is within its validity period.
+   * @static
+   * @param {Pick<UnsecuredCredential, 'validFrom' | 'validUntil'>} credential The credential, with valid validFrom
+   * and validUntil if any.
+   * @param {number} now The current time in milliseconds.
+   * @param {number} clockSkew The allowed clock skew in milliseconds (optional, defaults to 0).
+   * @throws {CredentialError} with type CREDENTIAL_NOT_YET_VALID_ERROR if validFrom is in the future,
+   * CREDENTIAL_EXPIRED_ERROR if validUntil is in the past, or MALFORMED_VALUE_ERROR if either is not a
+   * dateTimeStamp.
+   */
+  public static checkValidity(
+    { validFrom, validUntil }: Pick<UnsecuredCredential, 'validFrom' | 'validUntil'>,
+    now: number,
+    clockSkew: number = 0
+  ): void {
+    const validFromTime = this.time('validFrom', validFrom);
+    if (validFromTime !== undefined && validFromTime > now + clockSkew) {
+      throw new CredentialError(`Credential not valid until ${validFrom}`, 'CREDENTIAL_NOT_YET_VALID_ERROR');
+    }
+    const validUntilTime = this.time('validUntil', validUntil);
+    if (validUntilTime !== undefined && validUntilTime < now - clockSkew) {
+      throw new CredentialError(`Credential expired at ${validUntil}`, 'CREDENTIAL_EXPIRED_ERROR');
+    }
+  }
+
+  /**
+   * Parse a validity timestamp of a credential.
+   * @private
+   * @static
+   * @param {string} name The name of the timestamp: validFrom or validUntil.
+   * @param {unknown} value The timestamp, if any.
+   * @returns {number | undefined} The time in milliseconds, or undefined if there is no timestamp.
+   * @throws {CredentialError} with type MALFORMED_VALUE_ERROR if the timestamp is not a dateTimeStamp.
+   */
+  private static time(name: string, value: unknown): number | undefined {
+    if (value === undefined) return undefined;
+    const time = typeof value === 'string' ? DateTimeUtils.parse(value) : undefined;
+    if (time === undefined) {
+      throw new CredentialError(`Invalid ${name}: not a dateTimeStamp: ${value}`, MALFORMED_VALUE_ERROR);
+    }
+    return time;
+  }
+
+  /**
+   * Get the id of the issuer of a credential.
+   * @static
+   * @param {CredentialIssuer} issuer The issuer: a URL or an object with a URL id.
+   * @returns {string} The issuer id.
+   */
+  public static issuerId(issuer: CredentialIssuer): string {
+    return typeof issuer === 'object' && issuer !== null ? issuer.id : issuer;
+  }
+
+  /**
+   * Check a value is a URL, such as a DID or a URN.
+   * @private
+   * @static
+   * @param {unknown} value The value to check.
+   * @returns {boolean} Whether the value is a URL.
+   */
+  private static isUrl(value: unknown): boolean {
+    if (typeof value !== 'string') return false;
+    try {
+      return !!new URL(value).protocol;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { IssueCredentialParams, VerifyCredentialParams } from '../../types/credential.js';
+import { SecureDocument, VerificationResult } from '../../types/di-proof.js';
+import { DataIntegrityProof } from '../data-integrity-proof/index.js';
+
+/**
+ * Interface representing a Verifiable Credential layer over DataIntegrityProof.
+ * @export
+ * @interface ICredential
+ * @type {ICredential}
+ */
+export interface ICredential {
+  /** @type {DataIntegrityProof} The DataIntegrityProof used to sign and verify credentials */
+  diProof: DataIntegrityProof;
+
+  /**
+   * Issue a credential: check it against the VC Data Model v2 rules and that its issuer is the controller of the
+   * cryptosuite's multikey, then sign it for assertion.
+   * @param {IssueCredentialParams} params Parameters for issuing the credential.
+   * @param {UnsecuredCredential} params.credential The credential to issue.
+   * @param {CredentialOptions} params.options The proof options, without proofPurpose.
+   * @returns {Promise<SecureDocument>} The secured credential.
+   * @throws {CredentialError} with type MALFORMED_VALUE_ERROR if the credential breaks a VC Data Model v2 rule or
+   * its issuer is not the controller of the multikey.
+   * @throws {ProofError} if the DataIntegrityProof has no cryptosuite.
+   */
+  issueCredential({ credential, options }: IssueCredentialParams): Promise<SecureDocument>;
+
+  /**
+   * Verify a credential: check it against the VC Data Model v2 rules, verify its proof for assertion, and check
+   * the issuer is the controller of the verification method of each proof and the credential is within its
+   * validity period.
+   * @param {VerifyCredentialParams} params Parameters for verifying the credential, as for
+   * DataIntegrityProof.verifyProof without expectedPurpose.
+   * @returns {Promise<VerificationResult>} The result of verifying the credential, with a problem detail for each
+   * failure.
+   * @throws {CredentialError} if throwOnError is true and the credential is malformed, its issuer is not the
+   * controller of a verification method, or it is outside of its validity period.
+   * @throws {ProofError} if throwOnError is true and DataIntegrityProof.verifyProof throws.
+   */
+  verifyCredential(params: VerifyCredentialParams): Promise<VerificationResult>;
+}
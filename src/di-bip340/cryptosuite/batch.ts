@@ -0,0 +1,90 @@
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { SchnorrBatchItem } from '../../types/cryptosuite.js';
+
+const { ProjectivePoint: Point, CURVE } = secp256k1;
+const { bytesToNumberBE, lift_x, mod, taggedHash } = schnorr.utils;
+
+/**
+ * Verifies many BIP340 signatures at once, possibly over different public keys, following
+ * {@link https://github.com/bitcoin/bips/blob/master/bip-0340.mediawiki#batch-verification | BIP340 Batch Verification}.
+ * Each signature is weighted by a random scalar and the weighted equations are summed into a single
+ * multi-scalar multiplication, which is much cheaper than verifying each signature.
+ * @export
+ * @class SchnorrBatch
+ * @type {SchnorrBatch}
+ */
+export class SchnorrBatch {
+  /**
+   * Batch verify BIP340 signatures: check that (s1 + a2⋅s2 + ... + au⋅su)⋅G equals
+   * R1 + a2⋅R2 + ... + au⋅Ru + e1⋅P1 + (a2⋅e2)⋅P2 + ... + (au⋅eu)⋅Pu for random scalars a2...au.
+   * @static
+   * @param {SchnorrBatchItem[]} items The x-only public keys, messages and signatures to verify.
+   * @returns {boolean} Whether every signature is valid; an empty batch is valid.
+   */
+  public static verify(items: SchnorrBatchItem[]): boolean {
+    const { n, Fp: { ORDER: p } } = CURVE;
+    const points = [];
+    const scalars = [];
+    let s = 0n;
+
+    try {
+      for (const [i, { publicKey, message, signature }] of items.entries()) {
+        // Check the public key and signature lengths
+        if (publicKey.length !== 32 || signature.length !== 64) return false;
+
+        // Get the public key point: fail if it is not the x coordinate of a point
+        const P = lift_x(bytesToNumberBE(publicKey));
+
+        // Get r and s: fail if r ≥ p or s is not in [1, n)
+        const rBytes = signature.subarray(0, 32);
+        const r = bytesToNumberBE(rBytes);
+        const si = bytesToNumberBE(signature.subarray(32, 64));
+        if (r >= p || si === 0n || si >= n) return false;
+
+        // Get the nonce point: fail if r is not the x coordinate of a point
+        const R = lift_x(r);
+
+        // Compute the challenge e = int(hash_BIP0340/challenge(bytes(r) || bytes(P) || m)) mod n
+        const e = mod(bytesToNumberBE(taggedHash('BIP0340/challenge', rBytes, publicKey, message)), n);
+
+        // Weight the equation by a random scalar, the first by 1
+        const a = i === 0 ? 1n : bytesToNumberBE(secp256k1.utils.randomPrivateKey());
+        s = mod(s + a * si, n);
+        points.push(R, P);
+        scalars.push(a, mod(a * e, n));
+      }
+    } catch {
+      return false;
+    }
+
+    // An empty batch has nothing to verify
+    if (!points.length) return true;
+
+    // Check the weighted sum of the equations in one multi-scalar multiplication:
+    // (-s)⋅G + R1 + e1⋅P1 + ... + au⋅Ru + (au⋅eu)⋅Pu must be the point at infinity
+    return Point.msm([Point.BASE, ...points], [mod(-s, n), ...scalars]).equals(Point.ZERO);
+  }
+
+  /**
+   * Verify each BIP340 signature of a batch. The batch is checked at once and, only if it fails, each
+   * signature is verified on its own to find the invalid ones.
+   * @static
+   * @param {SchnorrBatchItem[]} items The x-only public keys, messages and signatures to verify.
+   * @returns {boolean[]} Whether each signature is valid, in the order of the items.
+   */
+  public static verifyEach(items: SchnorrBatchItem[]): boolean[] {
+    // If the whole batch verifies, every signature is valid
+    if (this.verify(items)) {
+      return items.map(() => true);
+    }
+
+    // Otherwise fall back to verifying each signature
+    return items.map(({ publicKey, message, signature }) => {
+      try {
+        return schnorr.verify(signature, message, publicKey);
+      } catch {
+        return false;
+      }
+    });
+  }
+}
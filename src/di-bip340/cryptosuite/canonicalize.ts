@@ -1,52 +1,257 @@
-import { CanonicalizableObject } from '../../types/cryptosuite.js';
+import jsonld from 'jsonld';
 import rdfc from 'rdf-canonize';
+import { CanonicalizableObject } from '../../types/cryptosuite.js';
+import { DocumentLoader } from '../../types/document-loader.js';
+import { CryptosuiteError } from '../../utils/error.js';
+import { DocumentLoaderUtils } from '../document-loader/index.js';
 
 export type JSONObject = { [key: string]: any };
+export type RdfcOptions = { documentLoader?: DocumentLoader; safeMode?: boolean };
+
+/** Error type thrown when a value cannot be canonicalized */
+const CANONICALIZATION_ERROR = 'CANONICALIZATION_ERROR';
+
+/** Matches a high surrogate not followed by a low surrogate or a low surrogate not preceded by a high one */
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
 
 export class Canonicalize {
   /**
-   * Canonicalizes a given object according to RFC 8785 (https://tools.ietf.org/html/rfc8785),
-   * which describes JSON Canonicalization Scheme (JCS). This function sorts the keys of the
-   * object and its nested objects alphabetically and then returns a stringified version of it.
-   * This method handles nested objects, array values, and null values appropriately.
+   * Canonicalizes a given value according to RFC 8785 (https://tools.ietf.org/html/rfc8785),
+   * which describes JSON Canonicalization Scheme (JCS). Object properties are sorted by their
+   * UTF-16 code units, numbers are serialized using the ECMAScript Number-to-String algorithm
+   * and strings are serialized using the ECMAScript JSON string escaping rules.
    *
-   * @param object - The object to canonicalize.
-   * @returns The stringified version of the input object with its keys sorted alphabetically
-   * per RFC 8785.
-   */
-  public static jcs(object: CanonicalizableObject): string {
-    /**
-     * Recursively sorts the keys of an object.
-     * @param {CanonicalizableObject} object The object whose keys are to be sorted.
-     * @returns {Promise<string>} A new object with sorted keys.
-     */
-    const sortObjKeys = (object: JSONObject): JSONObject => {
-      if (object !== null && typeof object === 'object' && !Array.isArray(object)) {
-        const sortedKeys = Object.keys(object).sort();
-        const sortedObj: { [key: string]: any } = {};
-        for (const key of sortedKeys) {
-          // Recursively sort keys of nested objects.
-          sortedObj[key] = sortObjKeys(object[key]);
-        }
-        return sortedObj;
+   * @param object - The object (or array) to canonicalize.
+   * @returns The canonical JSON string of the input per RFC 8785.
+   * @throws {CryptosuiteError} if the input contains a value that cannot be represented in
+   * I-JSON: `undefined`, functions, symbols, bigints, non-finite numbers, lone surrogates,
+   * non-plain objects or circular references.
+   */
+  public static jcs(object: CanonicalizableObject | Array<any>): string {
+    return this.serialize(object, '', new Set());
+  }
+
+  /**
+   * Recursively serializes a JSON value per RFC 8785 Section 3.2.
+   * @private
+   * @static
+   * @param {any} value The value to serialize.
+   * @param {string} path The JSON pointer of the value, used for error messages.
+   * @param {Set<object>} seen The set of ancestors of the value, used to detect cycles.
+   * @returns {string} The canonical serialization of the value.
+   * @throws {CryptosuiteError} if the value is not a valid I-JSON value.
+   */
+  private static serialize(value: any, path: string, seen: Set<object>): string {
+    // Literals serialize as-is
+    if (value === null || value === true || value === false) {
+      return String(value);
+    }
+
+    switch (typeof value) {
+      case 'number':
+        return this.serializeNumber(value, path);
+      case 'string':
+        return this.serializeString(value, path);
+      case 'object':
+        break;
+      default:
+        throw new CryptosuiteError(`Invalid JSON value at "${path}": ${typeof value}`, CANONICALIZATION_ERROR);
+    }
+
+    // Only plain objects and arrays are JSON
+    const proto = Object.getPrototypeOf(value);
+    if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) {
+      const name = value.constructor?.name ?? 'unknown';
+      throw new CryptosuiteError(`Invalid JSON value at "${path}": ${name} object`, CANONICALIZATION_ERROR);
+    }
+
+    // Reject circular references
+    if (seen.has(value)) {
+      throw new CryptosuiteError(`Circular reference at "${path}"`, CANONICALIZATION_ERROR);
+    }
+    seen.add(value);
+
+    let serialized: string;
+    if (Array.isArray(value)) {
+      // Serialize each element in order
+      const elements = [];
+      for (let i = 0; i < value.length; i++) {
+        elements.push(this.serialize(value[i], `${path}/${i}`, seen));
       }
-      return object;
-    };
+      serialized = `[${elements.join(',')}]`;
+    } else {
+      // Sort property names by UTF-16 code units and serialize each member
+      const members = Object.keys(value)
+        .sort(this.compareCodeUnits)
+        .map(key => {
+          const pointer = `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+          return `${this.serializeString(key, pointer)}:${this.serialize(value[key], pointer, seen)}`;
+        });
+      serialized = `{${members.join(',')}}`;
+    }
 
-    // Stringify and return the final sorted object.
-    const sortedObj = sortObjKeys(object);
-    return JSON.stringify(sortedObj);
+    seen.delete(value);
+    return serialized;
   }
 
+  /**
+   * Serializes a number per RFC 8785 Section 3.2.2.3 (ECMAScript Number.prototype.toString).
+   * @private
+   * @static
+   * @param {number} value The number to serialize.
+   * @param {string} path The JSON pointer of the value, used for error messages.
+   * @returns {string} The serialized number.
+   * @throws {CryptosuiteError} if the number is NaN or Infinity.
+   */
+  private static serializeNumber(value: number, path: string): string {
+    if (!Number.isFinite(value)) {
+      throw new CryptosuiteError(`Invalid JSON number at "${path}": ${value}`, CANONICALIZATION_ERROR);
+    }
+    // -0 serializes as 0; every other number uses the ECMAScript shortest round-trip form
+    return Object.is(value, -0) ? '0' : String(value);
+  }
 
   /**
-   * Canonicalizes a given object according to RDF Canonicalization (RDFC) 1.0
+   * Serializes a string per RFC 8785 Section 3.2.2.2.
+   * @private
+   * @static
+   * @param {string} value The string to serialize.
+   * @param {string} path The JSON pointer of the value, used for error messages.
+   * @returns {string} The serialized string.
+   * @throws {CryptosuiteError} if the string contains a lone surrogate.
+   */
+  private static serializeString(value: string, path: string): string {
+    if (LONE_SURROGATE.test(value)) {
+      throw new CryptosuiteError(`Invalid JSON string at "${path}": lone surrogate`, CANONICALIZATION_ERROR);
+    }
+    // JSON.stringify escapes exactly the characters required by RFC 8785 for well-formed strings
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Compares two strings by their UTF-16 code units per RFC 8785 Section 3.2.3.
+   * @private
+   * @static
+   * @param {string} a The first string.
+   * @param {string} b The second string.
+   * @returns {number} A negative number, zero or a positive number.
+   */
+  private static compareCodeUnits(a: string, b: string): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      const diff = a.charCodeAt(i) - b.charCodeAt(i);
+      if (diff !== 0) return diff;
+    }
+    return a.length - b.length;
+  }
+
+  /**
+   * Canonicalizes a given JSON-LD object according to RDF Canonicalization (RDFC) 1.0. The object is
+   * first expanded and converted to an RDF dataset, resolving its `@context` with the document loader,
+   * and the dataset is then canonicalized to N-Quads.
+   *
+   * JSON-LD expansion silently drops terms that are not defined by the `@context` (and values it
+   * cannot turn into absolute IRIs), so they are not covered by a signature over the N-Quads. In safe
+   * mode every dropped term is collected and the canonicalization fails instead.
+   * @public
+   * @static
+   * @param {CanonicalizableObject} object The JSON-LD object to canonicalize.
+   * @param {string} algorithm The canonicalization algorithm (e.g. RDFC-1.0).
+   * @param {RdfcOptions} options The canonicalization options (optional).
+   * @param {DocumentLoader} options.documentLoader The JSON-LD document loader (optional, defaults to
+   * the offline loader of bundled contexts).
+   * @param {boolean} options.safeMode Whether to fail on terms dropped during expansion (optional,
+   * defaults to false).
+   * @returns {Promise<string>} The canonical N-Quads of the object.
+   * @throws {CryptosuiteError} if the object cannot be converted to RDF or canonicalized, or with type
+   * PROOF_TRANSFORMATION_ERROR if safe mode is on and terms were dropped during expansion.
+   */
+  public static async rdfc(
+    object: CanonicalizableObject,
+    algorithm: string,
+    { documentLoader = DocumentLoaderUtils.offline(), safeMode = false }: RdfcOptions = {}
+  ): Promise<string> {
+    try {
+      // In safe mode, collect every term that expansion warns about dropping
+      const dropped = new Set<string>();
+      const eventHandler = this.droppedTermsHandler(dropped);
+
+      // Expand the JSON-LD object and convert it to an RDF dataset
+      const options = safeMode ? { documentLoader, eventHandler } : { documentLoader };
+      const dataset = await jsonld.toRDF(object, options);
+
+      // If any term was dropped, the dataset does not represent the whole object
+      this.checkDropped(dropped);
+
+      // Canonicalize the dataset to N-Quads
+      return await rdfc.canonize(dataset, { algorithm });
+    } catch (error: any) {
+      if (error instanceof CryptosuiteError) throw error;
+      const cause = error.details?.cause?.message ?? error.message;
+      throw new CryptosuiteError(`RDFC canonicalization failed: ${cause}`, CANONICALIZATION_ERROR);
+    }
+  }
+
+  /**
+   * Expands a given JSON-LD object, resolving its `@context` with the document loader. In safe mode the
+   * expansion fails on terms it would drop, as {@link Canonicalize.rdfc} does.
    * @public
    * @static
-   * @param {CanonicalizableObject} object
-   * @returns {Promise<string>}
+   * @param {CanonicalizableObject} object The JSON-LD object to expand.
+   * @param {RdfcOptions} options The expansion options (optional).
+   * @param {DocumentLoader} options.documentLoader The JSON-LD document loader (optional, defaults to
+   * the offline loader of bundled contexts).
+   * @param {boolean} options.safeMode Whether to fail on terms dropped during expansion (optional,
+   * defaults to false).
+   * @returns {Promise<CanonicalizableObject[]>} The expanded JSON-LD object.
+   * @throws {CryptosuiteError} if the object cannot be expanded, or with type PROOF_TRANSFORMATION_ERROR if
+   * safe mode is on and terms were dropped during expansion.
+   */
+  public static async expand(
+    object: CanonicalizableObject,
+    { documentLoader = DocumentLoaderUtils.offline(), safeMode = false }: RdfcOptions = {}
+  ): Promise<CanonicalizableObject[]> {
+    try {
+      const dropped = new Set<string>();
+      const eventHandler = this.droppedTermsHandler(dropped);
+      const expanded = await jsonld.expand(object, safeMode ? { documentLoader, eventHandler } : { documentLoader });
+      this.checkDropped(dropped);
+      return expanded;
+    } catch (error: any) {
+      if (error instanceof CryptosuiteError) throw error;
+      const cause = error.details?.cause?.message ?? error.message;
+      throw new CryptosuiteError(`JSON-LD expansion failed: ${cause}`, CANONICALIZATION_ERROR);
+    }
+  }
+
+  /**
+   * Creates a JSON-LD event handler collecting the terms that expansion warns about dropping.
+   * @private
+   * @static
+   * @param {Set<string>} dropped The set to collect the dropped terms into.
+   * @returns {Function} The JSON-LD event handler.
+   */
+  private static droppedTermsHandler(dropped: Set<string>): (params: { event: any; next: () => void }) => void {
+    return ({ event, next }) => {
+      if (event.level === 'warning') {
+        const { property, type, id, predicate } = event.details ?? {};
+        dropped.add(property ?? type ?? id ?? predicate ?? event.code);
+      }
+      next();
+    };
+  }
+
+  /**
+   * Checks that no term was dropped during expansion.
+   * @private
+   * @static
+   * @param {Set<string>} dropped The terms dropped during expansion.
+   * @throws {CryptosuiteError} with type PROOF_TRANSFORMATION_ERROR if any term was dropped.
    */
-  public static async rdfc(object: CanonicalizableObject, algorithm: string): Promise<string> {
-    return await rdfc.canonize([object], { algorithm });
+  private static checkDropped(dropped: Set<string>): void {
+    if (dropped.size) {
+      const message = `Terms dropped during JSON-LD expansion: ${[...dropped].join(', ')}`;
+      throw new CryptosuiteError(message, 'PROOF_TRANSFORMATION_ERROR');
+    }
   }
-}
\ No newline at end of file
+}
@@ -7,6 +7,7 @@ import {
   GenerateHashParams,
   InsecureDocumentParams,
   ProofOptionsParam,
+  SchnorrBatchItem,
   SerializeParams,
   TransformParams,
   VerificationParams
@@ -14,18 +15,25 @@ import {
 import {
   CanonicalizedProofConfig,
   DataIntegrityProofType,
+  InsecureDocument,
   Proof,
+  ProofOptions,
   SecureDocument,
   VerificationResult
 } from '../../types/di-proof.js';
-import { HashBytes, SignatureBytes } from '../../types/shared.js';
+import { DocumentLoader } from '../../types/document-loader.js';
+import { Bytes, HashBytes, SignatureBytes } from '../../types/shared.js';
+import { DateTimeUtils } from '../../utils/date-time.js';
 import { CryptosuiteError } from '../../utils/error.js';
+import { ProblemDetailsUtils } from '../../utils/problem-details.js';
+import { DocumentLoaderUtils } from '../document-loader/index.js';
 import { Multikey } from '../multikey/index.js';
+import { AuxRandSource } from '../multikey/interface.js';
+import { SchnorrBatch } from './batch.js';
 import { ICryptosuite } from './interface.js';
 import { Canonicalize } from './canonicalize.js';
 
 /**
- * TODO: Test RDFC and figure out what the contexts should be
  * Implements
  * {@link https://dcdpr.github.io/data-integrity-schnorr-secp256k1/#schnorr-secp256k1-rdfc-2025 | 3.2 schnorr-secp256k1-rdfc-2025}
  * {@link https://dcdpr.github.io/data-integrity-schnorr-secp256k1/#schnorr-secp256k1-jcs-2025 | 3.3 schnorr-secp256k1-jcs-2025}
@@ -35,6 +43,9 @@ import { Canonicalize } from './canonicalize.js';
  * @type {Cryptosuite}
  */
 export class Cryptosuite implements ICryptosuite {
+  /** @type {CryptosuiteType[]} The names of the cryptosuites this class implements */
+  public static readonly cryptosuites: CryptosuiteType[] = ['bip340-jcs-2025', 'bip340-rdfc-2025'];
+
   /** @type {DataIntegrityProofType} The type of proof produced by the Cryptosuite */
   public type: DataIntegrityProofType = 'DataIntegrityProof';
 
@@ -47,28 +58,53 @@ export class Cryptosuite implements ICryptosuite {
   /** @type {string} The algorithm used for canonicalization */
   public algorithm: string;
 
+  /** @type {Bytes | AuxRandSource} BIP340 auxiliary randomness (or its source) used when signing (optional) */
+  public auxRand?: Bytes | AuxRandSource;
+
+  /** @type {DocumentLoader} The JSON-LD document loader used for RDFC canonicalization */
+  public documentLoader: DocumentLoader;
+
+  /** @type {boolean} Whether RDFC canonicalization fails on terms dropped during JSON-LD expansion */
+  public safeMode: boolean;
+
   /**
    * Creates an instance of Cryptosuite.
    * @constructor
-   * @param {Multikey} multikey The parameters to create the multikey
+   * @param {CryptosuiteParams} params The parameters to create the cryptosuite
+   * @param {CryptosuiteType} params.cryptosuite The name of the cryptosuite
+   * @param {Multikey} params.multikey The multikey used to sign and verify proofs
+   * @param {Bytes | AuxRandSource} params.auxRand Fixed auxiliary randomness or a source of it (optional,
+   * defaults to the auxRand source of the multikey)
+   * @param {DocumentLoader} params.documentLoader The JSON-LD document loader used for RDFC canonicalization
+   * (optional, defaults to an offline loader of the bundled contexts)
+   * @param {boolean} params.safeMode Whether RDFC canonicalization fails on terms dropped during JSON-LD
+   * expansion, which a signature would not cover (optional, defaults to true)
+   * @throws {CryptosuiteError} with type UNKNOWN_CRYPTOSUITE_ERROR if the cryptosuite is not bip340-jcs-2025 or
+   * bip340-rdfc-2025
    */
-  constructor({ cryptosuite, multikey }: CryptosuiteParams) {
+  constructor({ cryptosuite, multikey, auxRand, documentLoader, safeMode = true }: CryptosuiteParams) {
+    if (!Cryptosuite.cryptosuites.includes(cryptosuite)) {
+      throw new CryptosuiteError(`Unknown cryptosuite: ${cryptosuite}`, 'UNKNOWN_CRYPTOSUITE_ERROR');
+    }
     this.cryptosuite = cryptosuite;
     this.multikey = multikey;
-    this.algorithm = cryptosuite.includes('rdfc') ? 'RDFC-1.0' : 'JCS';
+    this.auxRand = auxRand;
+    this.documentLoader = documentLoader ?? DocumentLoaderUtils.offline();
+    this.safeMode = safeMode;
+    this.algorithm = cryptosuite === 'bip340-rdfc-2025' ? 'RDFC-1.0' : 'JCS';
   }
 
   /** @see ICryptosuite.canonicalize */
   public async canonicalize(object: CanonicalizableObject): Promise<string> {
     const algorithm = this.algorithm;
-    // If the cryptosuite includes 'rdfc', use RDFC canonicalization else use JCS
+    // If the cryptosuite is bip340-rdfc-2025, use RDFC canonicalization else use JCS
     return algorithm === 'RDFC-1.0'
-      ? Canonicalize.rdfc(object, algorithm)
+      ? Canonicalize.rdfc(object, algorithm, { documentLoader: this.documentLoader, safeMode: this.safeMode })
       : Canonicalize.jcs(object);
   }
 
   /** @see ICryptosuite.createProof */
-  public async createProof({ document, options }: InsecureDocumentParams): Promise<Proof> {
+  public async createProof({ document, options, previousProofs = [] }: InsecureDocumentParams): Promise<Proof> {
     // Get the context from the document
     const context = document['@context'];
 
@@ -82,39 +118,106 @@ export class Cryptosuite implements ICryptosuite {
     // Create a canonical form of the proof configuration
     const canonicalConfig = await this.proofConfiguration({ options: proof });
 
-    // Transform the document into a canonical form
-    const canonicalDocument = await this.transformDocument({ document, options });
+    // Transform the document, with the previous proofs it chains to, into a canonical form
+    const chained = this.chainDocument(document, options, previousProofs, 'PROOF_GENERATION_ERROR');
+    const canonicalDocument = await this.transformDocument({ document: chained, options });
 
     // Generate a hash of the canonical proof configuration and canonical document
     const hash = this.generateHash({ canonicalConfig, canonicalDocument });
 
     // Serialize the proof
-    const serialized = this.proofSerialization({ hash, options });
+    const serialized = await this.proofSerialization({ hash, options });
 
     // Encode the proof bytes to base
     proof.proofValue = base58btc.encode(serialized);
-    if(this.cryptosuite.includes('rdfc'))
-      proof['@type'] = this.type;
-    else
-      proof.type = this.type;
+    proof.type = this.type;
 
     // Return the proof
     return proof;
   }
 
   /** @see ICryptosuite.verifyProof */
-  public async verifyProof(secure: SecureDocument): Promise<VerificationResult> {
+  public async verifyProof(secure: SecureDocument, previousProofs: Proof[] = []): Promise<VerificationResult> {
+    // Canonicalize and hash the document and proof configuration and decode the signature
+    const { hash, signature, options } = await this.prepareVerification(secure, previousProofs);
+
+    // Verify the hashed data against the proof bytes
+    const verified = this.proofVerification({ hash, signature, options });
+
+    // Return the verification result
+    return { verified, verifiedDocument: verified ? secure : undefined };
+  }
+
+  /** @see ICryptosuite.verifyProofs */
+  public async verifyProofs(secures: SecureDocument[]): Promise<VerificationResult[]> {
+    // Prepare every document concurrently, so canonicalization of one overlaps the others
+    const prepared = await Promise.allSettled(secures.map(secure => this.batchItem(secure)));
+
+    // Batch verify the signatures of the prepared documents
+    const items = prepared.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const checks = SchnorrBatch.verifyEach(items);
+
+    // Return the result of each document, with the problem of those that could not be prepared
+    let next = 0;
+    return prepared.map((result, i) => {
+      if (result.status === 'rejected') {
+        return { verified: false, problemDetails: [ProblemDetailsUtils.fromError(result.reason, 0)] };
+      }
+      const verified = checks[next++];
+      return { verified, verifiedDocument: verified ? secures[i] : undefined };
+    });
+  }
+
+  /** @see ICryptosuite.batchItem */
+  public async batchItem(secure: SecureDocument, previousProofs: Proof[] = []): Promise<SchnorrBatchItem> {
+    // Canonicalize and hash the document and proof configuration and decode the signature
+    const { hash, signature, options } = await this.prepareVerification(secure, previousProofs);
+
+    // Check the proof is verified by the multikey
+    this.checkVerificationMethod(options, 'PROOF_VERIFICATION_ERROR');
+
+    // Return the x-only public key, the hash and the signature
+    return { publicKey: this.multikey.publicKey.x, message: hash, signature };
+  }
+
+  /**
+   * Prepare the verification of a proof: canonicalize and hash the document and the proof configuration
+   * and decode the proof value.
+   * @private
+   * @param {SecureDocument} secure The secure document to verify.
+   * @param {Proof[]} previousProofs The proofs referenced by the proof previousProof, in order.
+   * @returns {Promise<VerificationParams>} The hash, the signature and the proof options.
+   * @throws {CryptosuiteError} if the document has a proof set, the proofValue is malformed or the document
+   * cannot be transformed.
+   */
+  private async prepareVerification(secure: SecureDocument, previousProofs: Proof[]): Promise<VerificationParams> {
+    // The cryptosuite verifies a single proof; DataIntegrityProof verifies proof sets proof by proof
+    if (Array.isArray(secure.proof)) {
+      const message = 'Cannot verify a proof set: verify each proof separately';
+      throw new CryptosuiteError(message, 'PROOF_VERIFICATION_ERROR');
+    }
+
     // Create an insecure document from the secure document by removing the proof
-    const insecure = { ...secure, proof: undefined };
+    const { proof: _proof, ...insecure } = secure;
 
     // Create a copy of the proof options removing the proof value
-    const options = { ...secure.proof, proofValue: undefined };
-
-    // Decode the secure document proof value from base58btc to bytes
-    const proof = base58btc.decode(secure.proof.proofValue);
+    const { proofValue, ...options } = secure.proof;
+
+    // Decode the secure document proof value from base58btc to bytes and check:
+    // if it is not a base58btc multibase 64 byte signature, throw an error
+    let proof: SignatureBytes;
+    try {
+      proof = base58btc.decode(proofValue);
+    } catch (error: any) {
+      throw new CryptosuiteError(`Malformed proofValue: ${error.message}`, 'MALFORMED_PROOF_ERROR');
+    }
+    if (proof.length !== 64) {
+      throw new CryptosuiteError(`Malformed proofValue: ${proof.length} bytes, expected 64`, 'MALFORMED_PROOF_ERROR');
+    }
 
-    // Transform the newly insecured document to canonical form
-    const canonicalDocument = await this.transformDocument({ document: insecure, options });
+    // Transform the newly insecured document, with the previous proofs it chains to, to canonical form
+    const chained = this.chainDocument(insecure, options, previousProofs, 'PROOF_VERIFICATION_ERROR');
+    const canonicalDocument = await this.transformDocument({ document: chained, options });
 
     // Canonicalize the proof options to create a proof configuration
     const canonicalConfig = await this.proofConfiguration({ options });
@@ -122,11 +225,8 @@ export class Cryptosuite implements ICryptosuite {
     // Generate a hash of the canonical insecured document and the canonical proof configuration`
     const hash = this.generateHash({ canonicalConfig, canonicalDocument });
 
-    // Verify the hashed data against the proof bytes
-    const verified = this.proofVerification({ hash, signature: proof, options });
-
-    // Return the verification result
-    return { verified, verifiedDocument: verified ? secure : undefined };
+    // Return the hash, the proof bytes and the proof options
+    return { hash, signature: proof, options };
   }
 
   /** @see ICryptosuite.transformDocument */
@@ -187,9 +287,11 @@ export class Cryptosuite implements ICryptosuite {
       throw new CryptosuiteError(message, ERROR_TYPE);
     }
 
-    // TODO: check valid XMLSchema DateTime
-    if(options.created) {
-      console.log('TODO: check valid XMLSchema DateTime');
+    // If created or expires is set but is not a valid XMLSchema dateTimeStamp, throw
+    for (const key of ['created', 'expires'] as const) {
+      if (options[key] !== undefined && !DateTimeUtils.isDateTimeStamp(options[key])) {
+        throw new CryptosuiteError(`Invalid "${key}": not an XMLSchema dateTimeStamp: ${options[key]}`, ERROR_TYPE);
+      }
     }
 
     // Return the RDFC canonicalized proof configuration
@@ -197,34 +299,67 @@ export class Cryptosuite implements ICryptosuite {
   }
 
   /** @see ICryptosuite.proofSerialization */
-  public proofSerialization({ hash, options }: SerializeParams): SignatureBytes {
-    // Error type for the proofSerialization method
-    const ERROR_TYPE = 'PROOF_SERIALIZATION_ERROR';
-    // Get the verification method from the options
-    const vm = options.verificationMethod;
-    // Get the multikey fullId
-    const fullId = this.multikey.fullId();
-    // If the verification method does not match the multikey fullId, throw an error
-    if (vm !== fullId) {
-      throw new CryptosuiteError(`Mismatch on "fullId" in options and multikey: ${fullId} !== ${vm}`, ERROR_TYPE);
-    }
-    // Return the signed hash
-    return this.multikey.sign(hash);
+  public async proofSerialization({ hash, options }: SerializeParams): Promise<SignatureBytes> {
+    // Check the verification method is the multikey
+    this.checkVerificationMethod(options, 'PROOF_SERIALIZATION_ERROR');
+    // Resolve the auxiliary randomness: fixed bytes, drawn from a source, or left to the multikey
+    const auxRand = typeof this.auxRand === 'function' ? this.auxRand() : this.auxRand;
+    // Return the signed hash, signed by the multikey's external signer if it has one
+    return await this.multikey.signAsync(hash, auxRand);
   }
 
   /** @see ICryptosuite.proofVerification */
   public proofVerification({ hash, signature, options }: VerificationParams): boolean {
-    // Error type for the proofVerification method
-    const ERROR_TYPE = 'PROOF_VERIFICATION_ERROR';
+    // Check the verification method is the multikey
+    this.checkVerificationMethod(options, 'PROOF_VERIFICATION_ERROR');
+    // Return the verified hashData and signedProof
+    return this.multikey.verify(signature, hash);
+  }
+
+  /**
+   * Check the verification method of the proof options is the multikey of the cryptosuite.
+   * @private
+   * @param {ProofOptions} options The proof options.
+   * @param {string} type The error type to throw.
+   * @throws {CryptosuiteError} if the verification method does not match the multikey fullId.
+   */
+  private checkVerificationMethod(options: ProofOptions, type: string): void {
     // Get the verification method from the options
     const vm = options.verificationMethod;
     // Get the multikey fullId
     const fullId = this.multikey.fullId();
     // If the verification method does not match the multikey fullId, throw an error
     if (vm !== fullId) {
-      throw new CryptosuiteError(`Mismatch on "fullId" in options and multikey: ${fullId} !== ${vm}`, ERROR_TYPE);
+      throw new CryptosuiteError(`Mismatch on "fullId" in options and multikey: ${fullId} !== ${vm}`, type);
     }
-    // Return the verified hashData and signedProof
-    return this.multikey.verify(signature, hash);
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the document a chained proof signs over: the insecure document with the proofs referenced by the
+   * proof previousProof set as its proof. A proof without previousProof signs over the document alone.
+   * @private
+   * @param {InsecureDocument} document The insecure document.
+   * @param {ProofOptions} options The proof options, with the previousProof id or ids (optional).
+   * @param {Proof[]} previousProofs The proofs referenced by previousProof, in order.
+   * @param {string} type The error type to throw.
+   * @returns {InsecureDocument} The document to canonicalize.
+   * @throws {CryptosuiteError} if the previous proofs do not match the previousProof ids.
+   */
+  private chainDocument(
+    document: InsecureDocument,
+    options: ProofOptions,
+    previousProofs: Proof[],
+    type: string
+  ): InsecureDocument {
+    // Get the ids of the previous proofs and check:
+    // if the previous proofs do not match them one for one, throw an error
+    const ids = [options.previousProof ?? []].flat();
+    if (ids.length !== previousProofs.length || previousProofs.some((proof, i) => proof.id !== ids[i])) {
+      const found = previousProofs.map(proof => proof.id).join(', ');
+      throw new CryptosuiteError(`Mismatch between previousProof and previous proofs: ${ids} !== ${found}`, type);
+    }
+
+    // Set the previous proofs as the document proof
+    return ids.length ? { ...document, proof: previousProofs } : document;
+  }
+}
@@ -3,6 +3,7 @@ import {
   GenerateHashParams,
   InsecureDocumentParams,
   ProofOptionsParam,
+  SchnorrBatchItem,
   SerializeParams,
   TransformParams,
   VerificationParams
@@ -46,16 +47,39 @@ export interface ICryptosuite {
    * @param {InsecureDocumentParams} params The parameters to use when creating the proof.
    * @param {InsecureDocument} params.document The document to create a proof for.
    * @param {ProofOptions} params.options The options to use when creating the proof.
+   * @param {Proof[]} params.previousProofs The proofs referenced by options.previousProof, in order (optional).
+   * They are set as the document proof, so the proof also signs over them.
    * @returns {Proof} The proof for the document.
    */
-  createProof({ document, options }: InsecureDocumentParams): Promise<Proof>;
+  createProof({ document, options, previousProofs }: InsecureDocumentParams): Promise<Proof>;
 
   /**
    * Verify a proof for a secure document.
    * @param {SecureDocument} secure The secure document to verify.
+   * @param {Proof[]} previousProofs The proofs referenced by the proof previousProof, in order (optional).
    * @returns {VerificationResult} The result of the verification.
    */
-  verifyProof(secure: SecureDocument): Promise<VerificationResult>;
+  verifyProof(secure: SecureDocument, previousProofs?: Proof[]): Promise<VerificationResult>;
+
+  /**
+   * Verify the proofs of many secure documents at once. Documents are canonicalized concurrently and their
+   * signatures are checked with BIP340 batch verification, falling back to checking each signature if the
+   * batch fails.
+   * @param {SecureDocument[]} secures The secure documents to verify, each with a single proof.
+   * @returns {VerificationResult[]} The result of each verification, in order, with the problem details of
+   * the documents that could not be verified.
+   */
+  verifyProofs(secures: SecureDocument[]): Promise<VerificationResult[]>;
+
+  /**
+   * Prepare the proof of a secure document for batch verification.
+   * @param {SecureDocument} secure The secure document to verify.
+   * @param {Proof[]} previousProofs The proofs referenced by the proof previousProof, in order (optional).
+   * @returns {SchnorrBatchItem} The x-only public key, the hash data and the signature of the proof.
+   * @throws {CryptosuiteError} if the proof is malformed, is not verified by the multikey, or the document
+   * cannot be transformed.
+   */
+  batchItem(secure: SecureDocument, previousProofs?: Proof[]): Promise<SchnorrBatchItem>;
 
   /**
    * Transform a document (secure or insecure) into canonical form.
@@ -90,10 +114,10 @@ export interface ICryptosuite {
    * @param {SerializeParams} params The parameters to use when serializing the proof.
    * @param {HashBytes} params.hash The canonicalized proof configuration.
    * @param {ProofOptions} params.options The options to use when serializing the proof.
-   * @returns {SignatureBytes} The serialized proof.
+   * @returns {Promise<SignatureBytes>} The serialized proof.
    * @throws {CryptosuiteError} if the multikey does not match the verification method.
    */
-  proofSerialization({ hash, options }: SerializeParams): SignatureBytes;
+  proofSerialization({ hash, options }: SerializeParams): Promise<SignatureBytes>;
 
   /**
    * Verify the proof by comparing the hash of the proof configuration and document to the proof bytes.
@@ -1,9 +1,41 @@
-import { AddProofParams, Proof, SecureDocument, VerificationResult, VerifyProofParams } from '../../types/di-proof.js';
+import { DidDocument } from '@web5/dids';
+import { SchnorrBatchItem } from '../../types/cryptosuite.js';
+import {
+  AddProofParams,
+  BatchVerifyProofParams,
+  InsecureDocument,
+  ProblemDetails,
+  Proof,
+  ProofOptions,
+  ProofResult,
+  ProofSet,
+  ProofSetPolicy,
+  SecureDocument,
+  VerificationResult,
+  VerifyProofParams
+} from '../../types/di-proof.js';
+import { VerificationRelationship } from '../../types/shared.js';
+import { DateTimeUtils } from '../../utils/date-time.js';
 import { ProofError } from '../../utils/error.js';
-import ObjectUtils from '../../utils/object-utils.js';
+import { ProblemDetailsUtils } from '../../utils/problem-details.js';
+import { SchnorrBatch } from '../cryptosuite/batch.js';
 import { Cryptosuite } from '../cryptosuite/index.js';
+import { LocalResolver, ResolverUtils } from '../resolver/index.js';
+import { IDidResolver } from '../resolver/interface.js';
 import { IDataIntegrityProof } from './interface.js';
 
+/** Matches a host name: dot-separated labels of letters, digits and inner hyphens, with an optional port */
+const HOST = /^(?=.{1,253}(?::|$))([a-z\d]([a-z\d-]{0,61}[a-z\d])?)(\.[a-z\d]([a-z\d-]{0,61}[a-z\d])?)*(:\d{1,5})?$/i;
+
+/** Matches a DID: the did scheme, a method name and a colon-separated method-specific id */
+const DID = /^did:[a-z\d]+:([\w.%-]*:)*[\w.%-]+$/;
+
+/** The URL protocols of a domain */
+const DOMAIN_PROTOCOLS = ['http:', 'https:'];
+
+/** A document prepared for batch verification: its batch item, or its result if it cannot be batched */
+type PreparedProof = { insecure?: InsecureDocument; item?: SchnorrBatchItem; result?: VerificationResult };
+
 /**
  * Implements section
  * {@link https://dcdpr.github.io/data-integrity-schnorr-secp256k1/#dataintegrityproof | 2.2.1 DataIntegrityProof}
@@ -14,22 +46,48 @@ import { IDataIntegrityProof } from './interface.js';
  * @implements {IDataIntegrityProof}
  */
 export class DataIntegrityProof implements IDataIntegrityProof {
-  /** @type {Cryptosuite} The cryptosuite to use for proof generation and verification. */
-  public cryptosuite: Cryptosuite;
+  /** @type {Cryptosuite} The cryptosuite to use for proof generation and verification (optional in verifier mode). */
+  public cryptosuite?: Cryptosuite;
+
+  /** @type {IDidResolver} The resolver used to look up the verificationMethod of a proof (optional). */
+  public resolver?: IDidResolver;
 
   /**
-   * Creates an instance of DataIntegrityProof.
+   * Creates an instance of DataIntegrityProof. Given a resolver, proofs are verified in verifier mode: the
+   * verificationMethod of each proof is resolved to a public-only Multikey instead of using the cryptosuite's, and
+   * must be listed in its controller document under the verification relationship named by the proofPurpose.
    * @constructor
-   * @param {Cryptosuite} cryptosuite The cryptosuite to use for proof generation and verification.
+   * @param {Cryptosuite} cryptosuite The cryptosuite to use for proof generation and verification (optional,
+   * required to add proofs or to verify without a resolver).
+   * @param {IDidResolver} resolver The resolver used to look up the verificationMethod of a proof (optional).
    */
-  constructor(cryptosuite: Cryptosuite) {
+  constructor(cryptosuite?: Cryptosuite, resolver?: IDidResolver) {
     this.cryptosuite = cryptosuite;
+    this.resolver = resolver;
   }
 
   /** @see IDataIntegrityProof.addProof */
   public async addProof({ document, options }: AddProofParams): Promise<SecureDocument> {
+    // Check if there is a cryptosuite to sign with
+    if (!this.cryptosuite) {
+      throw new ProofError('Cannot add proof: no cryptosuite', 'PROOF_GENERATION_ERROR');
+    }
+
+    // Check if the options domain, if defined, is a host, DID or URL, or a non-empty array of them, before signing
+    const domains = this.domains(options.domain);
+    if (options.domain !== undefined && (!domains.length || domains.some(entry => !this.isDomain(entry)))) {
+      throw new ProofError(`Invalid domain: not a host, DID or URL: ${options.domain}`, 'PROOF_GENERATION_ERROR');
+    }
+
+    // Remove any existing proofs: each proof in a set secures the document without the others
+    const { proof: existing, ...insecure } = document;
+
+    // Get the existing proofs referenced by previousProof, which the proof also signs over
+    const proofs: Proof[] = existing ? [existing].flat() : [];
+    const previousProofs = this.previousProofs(options, proofs, 'PROOF_GENERATION_ERROR');
+
     // Generate the proof
-    const proof = await this.cryptosuite.createProof({ document, options });
+    const proof = await this.cryptosuite.createProof({ document: insecure, options, previousProofs });
 
     // Deconstruct the proof object
     const { type, verificationMethod, proofPurpose } = proof;
@@ -41,9 +99,8 @@ export class DataIntegrityProof implements IDataIntegrityProof {
 
     // Deconstruct the domain from the proof object and check:
     // if the options domain is defined, ensure it matches the proof domain
-    // TODO: Adjust the domain check to match the spec (domain as a list of urls)
     const { domain } = proof;
-    if (options.domain && options.domain !== domain) {
+    if (options.domain !== undefined && !this.sameDomains(domains, this.domains(domain))) {
       throw new ProofError('Domain mismatch between options and domain passed', 'PROOF_GENERATION_ERROR');
     }
 
@@ -54,68 +111,478 @@ export class DataIntegrityProof implements IDataIntegrityProof {
       throw new ProofError('Challenge mismatch options and challenge passed', 'PROOF_GENERATION_ERROR');
     }
 
+    // If the document is already secured, append the proof to its proof set
+    if (existing) {
+      return { ...insecure, proof: [existing, proof].flat() } as SecureDocument;
+    }
+
     // Set the proof in the document and return as a SecureDocument
-    return { ...document, proof } as SecureDocument;
+    return { ...insecure, proof } as SecureDocument;
   }
 
   /** @see IDataIntegrityProof.verifyProof */
-  public async verifyProof({
-    mediaType,
-    document,
-    expectedPurpose,
-    expectedDomain,
-    expectedChallenge
-  }: VerifyProofParams): Promise<VerificationResult> {
+  public async verifyProof(params: VerifyProofParams): Promise<VerificationResult> {
+    try {
+      return await this.verifyDocument(params);
+    } catch (error: any) {
+      // Throw the error, or return it as the problem of a failed verification result
+      if (params.throwOnError ?? true) throw error;
+      return { verified: false, mediaType: params.mediaType, problemDetails: [ProblemDetailsUtils.fromError(error)] };
+    }
+  }
+
+  /**
+   * Verify the proof or proof set of a document, recording a problem for each proof that does not verify.
+   * @private
+   * @param {VerifyProofParams} params The verification parameters.
+   * @returns {Promise<VerificationResult>} The result of verifying the proof or proof set.
+   * @throws {ProofError} if the document cannot be parsed, its proof chain is malformed or, in throw mode, its
+   * single proof is malformed or does not match the expected purpose, domain or challenge.
+   */
+  private async verifyDocument(params: VerifyProofParams): Promise<VerificationResult> {
+    const { mediaType, throwOnError = true } = params;
+
+    // Parse the document to get the proof or proof set and the document without it
+    const { proof, insecure } = this.parseDocument(params.document);
+
+    // Order the proofs so each follows the proofs it references, rejecting dangling or cyclic references
+    const proofs: Proof[] = [proof].flat();
+    const chain = this.chainOrder(proofs);
+
+    // Verify each proof against the document without the proof or proof set, recording why a proof failed
+    const results: ProofResult[] = [];
+    const problemDetails: ProblemDetails[] = [];
+    for (const [proofIndex, member] of proofs.entries()) {
+      try {
+        const previousProofs = this.previousProofs(member, proofs, 'MALFORMED_PROOF_ERROR');
+        const verified = await this.verifySingleProof({ ...insecure, proof: member }, member, params, previousProofs);
+        if (!verified) {
+          problemDetails.push(this.signatureProblem(proofIndex));
+        }
+        results.push({ proof: member, verified });
+      } catch (error: any) {
+        // In throw mode, a single proof that cannot be verified is thrown; proofs of a set are recorded
+        if (throwOnError && !Array.isArray(proof)) throw error;
+        problemDetails.push(ProblemDetailsUtils.fromError(error, proofIndex));
+        results.push({ proof: member, verified: false, error: error.message });
+      }
+    }
+
+    // A single proof is verified on its own
+    if (!Array.isArray(proof)) {
+      const [{ verified }] = results;
+      const verifiedDocument = verified ? insecure as SecureDocument : undefined;
+      return { verified, verifiedDocument, mediaType, problemDetails };
+    }
+
+    // Apply the policy to the results, defaulting to every proof having to verify
+    const verified = this.satisfies(params.policy ?? { type: 'all' }, results);
+
+    // Return the verification result with the per-proof results and the chain order
+    return {
+      verified,
+      verifiedDocument : verified ? insecure as SecureDocument : undefined,
+      mediaType,
+      results,
+      chain,
+      problemDetails
+    };
+  }
+
+  /** @see IDataIntegrityProof.verifyProofs */
+  public async verifyProofs({ documents, ...params }: BatchVerifyProofParams): Promise<VerificationResult[]> {
+    // Prepare every document concurrently, so canonicalization of one overlaps the others
+    const prepared = await Promise.all(documents.map(document => this.prepareProof(document, params)));
+
+    // Batch verify the signatures of the documents secured by a single proof
+    const items = prepared.flatMap(({ item }) => item ? [item] : []);
+    const checks = SchnorrBatch.verifyEach(items);
+
+    // Return the result of each document, with a problem for each signature that does not verify
+    let next = 0;
+    return prepared.map(({ insecure, item, result }) => {
+      if (!item) return result!;
+      const verified = checks[next++];
+      return {
+        verified,
+        verifiedDocument : verified ? insecure as SecureDocument : undefined,
+        mediaType        : params.mediaType,
+        problemDetails   : verified ? [] : [this.signatureProblem(0)]
+      };
+    });
+  }
+
+  /**
+   * Prepare a document for batch verification: parse it, check its proof and canonicalize and hash it. A
+   * document that cannot be prepared gets its failed result, and a proof set is verified on its own.
+   * @private
+   * @param {string} document The secure document.
+   * @param {Omit<VerifyProofParams, 'document'>} params The verification parameters.
+   * @returns {Promise<PreparedProof>} The document without its proof and its batch item, or its result.
+   */
+  private async prepareProof(document: string, params: Omit<VerifyProofParams, 'document'>): Promise<PreparedProof> {
+    const { mediaType } = params;
+
+    // Parse the document to get the proof or proof set and the document without it
+    let parsed;
+    try {
+      parsed = this.parseDocument(document);
+    } catch (error: any) {
+      return { result: { verified: false, mediaType, problemDetails: [ProblemDetailsUtils.fromError(error)] } };
+    }
+    const { proof, insecure } = parsed;
+
+    // A proof set is verified on its own, against its policy
+    if (Array.isArray(proof)) {
+      return { result: await this.verifyProof({ ...params, document, throwOnError: false }) };
+    }
+
+    try {
+      // Check the proof chains to no other proof and matches the expected purpose, domain and challenge
+      this.chainOrder([proof]);
+      this.checkProof(proof, params);
+
+      // Get the cryptosuite for the proof and prepare the batch item
+      const cryptosuite = await this.verifier(proof, params.controllerDocument);
+      return { insecure, item: await cryptosuite.batchItem({ ...insecure, proof }) };
+    } catch (error: any) {
+      return { result: { verified: false, mediaType, problemDetails: [ProblemDetailsUtils.fromError(error, 0)] } };
+    }
+  }
+
+  /**
+   * Parse a secure document into its proof or proof set and the document without it.
+   * @private
+   * @param {string} document The secure document.
+   * @returns {{ proof: Proof | ProofSet; insecure: InsecureDocument }} The proof or proof set and the document
+   * without it.
+   * @throws {ProofError} if the document is not a JSON object or has no proof.
+   */
+  private parseDocument(document: string): { proof: Proof | ProofSet; insecure: InsecureDocument } {
     // Parse the document
-    const secure = JSON.parse(document) as SecureDocument;
+    let secure: SecureDocument;
+    try {
+      secure = JSON.parse(document);
+    } catch (error: any) {
+      throw new ProofError(`Invalid JSON document: ${error.message}`, 'PARSING_ERROR');
+    }
 
-    // Deconstruct the secure object to get the proof
-    const { proof }: { proof: Proof } = secure;
+    // Check if the document is an object
+    if (typeof secure !== 'object' || secure === null || Array.isArray(secure)) {
+      throw new ProofError('Invalid document: not a JSON object', 'PARSING_ERROR');
+    }
 
-    // Check if the proof object is an object
-    if (typeof secure !== 'object' || typeof proof !== 'object') {
-      throw new Error('PARSING_ERROR');
+    // Deconstruct the secure object to get the proof or proof set and check it is an object
+    const { proof, ...insecure } = secure;
+    if (typeof proof !== 'object' || proof === null) {
+      throw new ProofError('Missing proof: the document is not secured', 'MALFORMED_PROOF_ERROR');
     }
 
+    return { proof, insecure };
+  }
+
+  /**
+   * Get the problem detail of a proof whose signature does not verify.
+   * @private
+   * @param {number} proofIndex The index of the proof in the document.
+   * @returns {ProblemDetails} The problem detail.
+   */
+  private signatureProblem(proofIndex: number): ProblemDetails {
+    const error = new ProofError('Invalid signature: the proofValue does not verify', 'PROOF_VERIFICATION_ERROR');
+    return ProblemDetailsUtils.fromError(error, proofIndex);
+  }
+
+  /**
+   * Verify a single proof of a secure document.
+   * @private
+   * @param {SecureDocument} secure The document secured by the proof only.
+   * @param {Proof} proof The proof to verify.
+   * @param {VerifyProofParams} params The verification parameters: the expected purpose, domain and challenge.
+   * @param {Proof[]} previousProofs The proofs referenced by the proof previousProof, in order (optional).
+   * @returns {Promise<boolean>} Whether the proof signature verifies.
+   * @throws {ProofError} if the proof is malformed or does not match the expected purpose, domain or challenge.
+   */
+  private async verifySingleProof(
+    secure: SecureDocument,
+    proof: Proof,
+    params: VerifyProofParams,
+    previousProofs: Proof[] = []
+  ): Promise<boolean> {
+    // Check the proof matches the expected purpose, domain and challenge
+    this.checkProof(proof, params);
+
+    // Get the cryptosuite for the proof and verify the proof
+    const cryptosuite = await this.verifier(proof, params.controllerDocument);
+    const { verified } = await cryptosuite.verifyProof(secure, previousProofs);
+    return verified;
+  }
+
+  /**
+   * Check a proof is well formed, matches the expected purpose, domain and challenge and is within its time
+   * window.
+   * @private
+   * @param {Proof} proof The proof to check.
+   * @param {Omit<VerifyProofParams, 'document'>} params The expected purpose, domain and challenge and the
+   * time window options.
+   * @throws {ProofError} if the proof is malformed or of an unknown cryptosuite, does not match the expected
+   * purpose, domain or challenge, or is outside of its time window.
+   */
+  private checkProof(proof: Proof, params: Omit<VerifyProofParams, 'document'>): void {
+    const { expectedPurpose, expectedDomain, expectedChallenge, domainMatch = 'exact' } = params;
+
     // Deconstruct the proof object
-    const { type, proofPurpose, verificationMethod, challenge, domain } = proof;
-    // Check if the type, proofPurpose, and verificationMethod are defined
-    if (!type || !verificationMethod || !proofPurpose) {
-      throw new Error('PROOF_VERIFICATION_ERROR');
+    const { type, cryptosuite, proofPurpose, verificationMethod, challenge, domain } = proof;
+    // Check if the type, cryptosuite, proofPurpose, and verificationMethod are defined
+    if (!type || !cryptosuite || !verificationMethod || !proofPurpose) {
+      const message = 'Missing properties: type, cryptosuite, verificationMethod or proofPurpose';
+      throw new ProofError(message, 'MALFORMED_PROOF_ERROR');
+    }
+
+    // Check if the cryptosuite is one this library verifies
+    if (!Cryptosuite.cryptosuites.includes(cryptosuite)) {
+      throw new ProofError(`Unknown cryptosuite: ${cryptosuite}`, 'MALFORMED_PROOF_ERROR');
     }
 
     // Check if the expectedPurpose is defined and if it matches the proofPurpose
     if (expectedPurpose && expectedPurpose !== proofPurpose) {
-      throw new Error('PROOF_VERIFICATION_ERROR');
+      const message = `Proof purpose mismatch: ${proofPurpose} !== ${expectedPurpose}`;
+      throw new ProofError(message, 'MISMATCHED_PROOF_PURPOSE_ERROR');
     }
 
     // Check if the expectedChallenge is defined and if it matches the challenge
     if (expectedChallenge && expectedChallenge !== challenge) {
-      throw new Error('INVALID_CHALLENGE_ERROR');
+      throw new ProofError(`Challenge mismatch: ${challenge} !== ${expectedChallenge}`, 'INVALID_CHALLENGE_ERROR');
     }
 
-    // Check if the expectedDomain length matches the proof.domain length
-    if(expectedDomain && expectedDomain?.length !== domain?.length) {
-      throw new Error('INVALID_DOMAIN_ERROR');
+    // If defined, check the expectedDomain against the proof domain, both as lists of domains:
+    // in exact mode they must hold the same domains, in membership mode one expected domain must be in the proof
+    if (expectedDomain !== undefined) {
+      const [expected, domains] = [this.domains(expectedDomain), this.domains(domain)];
+      const matches = domainMatch === 'membership'
+        ? expected.some(entry => domains.includes(entry))
+        : this.sameDomains(expected, domains);
+      if (!matches) {
+        throw new ProofError(`Domain mismatch: ${domain} !== ${expectedDomain}`, 'INVALID_DOMAIN_ERROR');
+      }
     }
 
-    // If defined, check that each entry in expectedDomain can be found in proof.domain
-    if(expectedDomain && !expectedDomain?.every(url => domain?.includes(url))) {
-      throw new Error('INVALID_DOMAIN_ERROR');
+    // Check the proof is within its time window
+    this.checkProofTime(proof, params);
+  }
+
+  /**
+   * Check the created and expires timestamps of a proof are valid XMLSchema dateTimeStamps and that the current
+   * time, give or take the clock skew, is within the window they and the maximum proof age allow.
+   * @private
+   * @param {Proof} proof The proof to check.
+   * @param {Omit<VerifyProofParams, 'document'>} params The clock, clock skew and maximum proof age.
+   * @param {() => Date} params.clock The clock giving the current time (optional, defaults to the system clock).
+   * @param {number} params.clockSkew The allowed clock skew in milliseconds (optional, defaults to 0).
+   * @param {number} params.maxProofAge The maximum age of the proof in milliseconds since it was created
+   * (optional, requires created).
+   * @throws {ProofError} with type INVALID_PROOF_DATETIME_ERROR if a timestamp is malformed or missing,
+   * PROOF_CREATED_IN_FUTURE_ERROR if the proof is future-dated or PROOF_EXPIRED_ERROR if the proof has expired
+   * or is older than the maximum proof age.
+   */
+  private checkProofTime(
+    { created, expires }: Proof,
+    { clock = () => new Date(), clockSkew = 0, maxProofAge }: Omit<VerifyProofParams, 'document'>
+  ): void {
+    // Error type for malformed or missing timestamps
+    const ERROR_TYPE = 'INVALID_PROOF_DATETIME_ERROR';
+
+    // Parse the timestamps and check:
+    // if either is set but is not a valid dateTimeStamp, or expires is before created, throw an error
+    const createdTime = created === undefined ? undefined : DateTimeUtils.parse(created);
+    const expiresTime = expires === undefined ? undefined : DateTimeUtils.parse(expires);
+    if (created !== undefined && createdTime === undefined) {
+      throw new ProofError(`Invalid created: not an XMLSchema dateTimeStamp: ${created}`, ERROR_TYPE);
     }
+    if (expires !== undefined && expiresTime === undefined) {
+      throw new ProofError(`Invalid expires: not an XMLSchema dateTimeStamp: ${expires}`, ERROR_TYPE);
+    }
+    if (createdTime !== undefined && expiresTime !== undefined && expiresTime < createdTime) {
+      throw new ProofError(`Invalid expires: ${expires} is before created ${created}`, ERROR_TYPE);
+    }
+
+    // Get the current time
+    const now = clock().getTime();
 
-    // Verify the proof
-    const { verified, verifiedDocument, mediaType: mt } = await this.cryptosuite.verifyProof(secure);
+    // Check the proof was not created in the future
+    if (createdTime !== undefined && createdTime > now + clockSkew) {
+      throw new ProofError(`Proof created in the future: ${created}`, 'PROOF_CREATED_IN_FUTURE_ERROR');
+    }
+
+    // Check the proof has not expired
+    if (expiresTime !== undefined && expiresTime < now - clockSkew) {
+      throw new ProofError(`Proof expired: ${expires}`, 'PROOF_EXPIRED_ERROR');
+    }
+
+    // Check the proof is not older than the maximum proof age, which requires created
+    if (maxProofAge !== undefined) {
+      if (createdTime === undefined) {
+        throw new ProofError('Missing created: required to check the maximum proof age', ERROR_TYPE);
+      }
+      if (now - createdTime > maxProofAge + clockSkew) {
+        throw new ProofError(`Proof older than the maximum proof age: ${created}`, 'PROOF_EXPIRED_ERROR');
+      }
+    }
+  }
+
+  /**
+   * Get a domain, a single string or an array of strings, as an array of strings.
+   * @private
+   * @param {string | string[]} domain The domain (optional).
+   * @returns {string[]} The domains, empty if the domain is undefined.
+   */
+  private domains(domain?: string | string[]): string[] {
+    return domain === undefined ? [] : [domain].flat();
+  }
+
+  /**
+   * Check whether two lists of domains hold the same domains, in any order.
+   * @private
+   * @param {string[]} a The first domains.
+   * @param {string[]} b The second domains.
+   * @returns {boolean} Whether the lists hold the same domains.
+   */
+  private sameDomains(a: string[], b: string[]): boolean {
+    const [setA, setB] = [new Set(a), new Set(b)];
+    return setA.size === setB.size && [...setA].every(entry => setB.has(entry));
+  }
 
-    // Add the mediaType to the verification result
-    mediaType ??= mt;
+  /**
+   * Check whether a domain entry is a host name, optionally with a port, a DID or an absolute http or https URL.
+   * @private
+   * @param {unknown} entry The domain entry.
+   * @returns {boolean} Whether the entry is a host, DID or URL.
+   */
+  private isDomain(entry: unknown): boolean {
+    if (typeof entry !== 'string') return false;
+    // Accept a host name or a DID, or else an http or https URL
+    if (HOST.test(entry) || DID.test(entry)) return true;
+    try {
+      return DOMAIN_PROTOCOLS.includes(new URL(entry).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether the per-proof results of a proof set satisfy a policy. An empty proof set never does.
+   * @private
+   * @param {ProofSetPolicy} policy The policy: every proof verifies, or at least a threshold of proofs verify,
+   * optionally counting only one proof per controller of the verificationMethod.
+   * @param {ProofResult[]} results The per-proof verification results.
+   * @returns {boolean} Whether the policy is satisfied.
+   * @throws {ProofError} if the threshold is not a positive integer.
+   */
+  private satisfies(policy: ProofSetPolicy, results: ProofResult[]): boolean {
+    // Get the proofs that verified
+    const verified = results.filter(result => result.verified);
+
+    // Every proof must verify
+    if (policy.type === 'all') {
+      return results.length > 0 && verified.length === results.length;
+    }
+
+    // Check the threshold is a positive integer
+    const { threshold, distinctControllers } = policy;
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      throw new ProofError(`Invalid proof set threshold: ${threshold}`, 'PROOF_VERIFICATION_ERROR');
+    }
+
+    // Count the verified proofs, or the distinct controllers (the verificationMethod without its fragment)
+    const count = distinctControllers
+      ? new Set(verified.map(({ proof }) => proof.verificationMethod.split('#')[0])).size
+      : verified.length;
+    return count >= threshold;
+  }
+
+  /**
+   * Get the proofs referenced by the previousProof of a proof, in the order of its previousProof ids.
+   * @private
+   * @param {ProofOptions} proof The proof, or the options of the proof to create.
+   * @param {Proof[]} proofs The proofs of the document.
+   * @param {string} type The error type to throw.
+   * @returns {Proof[]} The referenced proofs, empty if the proof has no previousProof.
+   * @throws {ProofError} if a previousProof id does not match the id of any proof.
+   */
+  private previousProofs(proof: ProofOptions, proofs: Proof[], type: string): Proof[] {
+    return [proof.previousProof ?? []].flat().map(id => {
+      const previous = proofs.find(candidate => candidate.id === id);
+      if (!previous) {
+        throw new ProofError(`Dangling previousProof: no proof with id ${id}`, type);
+      }
+      return previous;
+    });
+  }
+
+  /**
+   * Order the proofs of a document so each proof follows the proofs its previousProof references. Proofs
+   * that do not depend on each other keep their order in the document.
+   * @private
+   * @param {Proof[]} proofs The proofs of the document.
+   * @returns {number[]} The indexes of the proofs in chain order.
+   * @throws {ProofError} if a previousProof reference is dangling or the references form a cycle.
+   */
+  private chainOrder(proofs: Proof[]): number[] {
+    const order: number[] = [];
+    const visiting = new Set<number>();
+
+    // Visit the proofs each proof references before adding it to the order
+    const visit = (index: number): void => {
+      if (order.includes(index)) return;
+      if (visiting.has(index)) {
+        throw new ProofError(`Cyclic previousProof reference at proof ${proofs[index].id}`, 'MALFORMED_PROOF_ERROR');
+      }
+      visiting.add(index);
+      for (const previous of this.previousProofs(proofs[index], proofs, 'MALFORMED_PROOF_ERROR')) {
+        visit(proofs.indexOf(previous));
+      }
+      visiting.delete(index);
+      order.push(index);
+    };
+    proofs.forEach((_, index) => visit(index));
+
+    return order;
+  }
+
+  /**
+   * Get the cryptosuite to verify a proof with. In verifier mode, or given the controller document, the proof
+   * verificationMethod is resolved to a public-only Multikey, which the controller document must list under the
+   * relationship named by the proofPurpose, and a cryptosuite of the proof cryptosuite is built around it, keeping
+   * the document loader and safe mode of this cryptosuite if any.
+   * @private
+   * @param {Proof} proof The proof to verify.
+   * @param {DidDocument} controllerDocument The controller document of the verificationMethod, used instead of
+   * resolving it (optional).
+   * @returns {Promise<Cryptosuite>} The cryptosuite to verify the proof with.
+   * @throws {ProofError} if there is neither a resolver, a controller document nor a cryptosuite.
+   * @throws {ResolverError} if the verificationMethod cannot be resolved or is not authorized for the proofPurpose.
+   */
+  private async verifier(proof: Proof, controllerDocument?: DidDocument): Promise<Cryptosuite> {
+    // Resolve with the given controller document first, then with the resolver
+    const resolver = controllerDocument ? new LocalResolver([controllerDocument]) : this.resolver;
+
+    // Without either, verify with the cryptosuite's own multikey
+    if (!resolver) {
+      if (!this.cryptosuite) {
+        throw new ProofError('Cannot verify proof: no cryptosuite or resolver', 'PROOF_VERIFICATION_ERROR');
+      }
+      return this.cryptosuite;
+    }
 
-    const sansProof = ObjectUtils.delete({
-      obj : verifiedDocument as Record<string, any>,
-      key : 'proof'
-    }) as SecureDocument;
+    // Resolve the verification method to a public-only multikey authorized for the proof purpose
+    const relationship = proof.proofPurpose as VerificationRelationship;
+    const multikey = await ResolverUtils.resolveMultikey(resolver, proof.verificationMethod, relationship);
 
-    // Return the verification result
-    return {verified, verifiedDocument: verified ? sansProof : undefined, mediaType};
+    // Return a new cryptosuite using the resolved multikey
+    return new Cryptosuite({
+      cryptosuite    : proof.cryptosuite,
+      multikey,
+      documentLoader : this.cryptosuite?.documentLoader,
+      safeMode       : this.cryptosuite?.safeMode
+    });
   }
 }
\ No newline at end of file
@@ -1,10 +1,12 @@
 import {
   AddProofParams,
+  BatchVerifyProofParams,
   SecureDocument,
   VerificationResult,
   VerifyProofParams
 } from '../../types/di-proof.js';
 import { Cryptosuite } from '../cryptosuite/index.js';
+import { IDidResolver } from '../resolver/interface.js';
 
 /**
  * Interface representing a BIP-340 DataIntegrityProof.
@@ -13,11 +15,16 @@ import { Cryptosuite } from '../cryptosuite/index.js';
  * @type {IDataIntegrityProof}
  */
 export interface IDataIntegrityProof {
-  /** @type {Cryptosuite} CryptosuiteJcs or CryptosuiteRdfc class object  */
-  cryptosuite: Cryptosuite;
+  /** @type {Cryptosuite} CryptosuiteJcs or CryptosuiteRdfc class object (optional in verifier mode) */
+  cryptosuite?: Cryptosuite;
+
+  /** @type {IDidResolver} Resolver for the proof verificationMethod (optional, enables verifier mode) */
+  resolver?: IDidResolver;
 
   /**
-   * Add a proof to a document.
+   * Add a proof to a document. If the document is already secured, the proof is appended to its proof set.
+   * Given options.previousProof, the proof chains to the existing proofs with those ids and signs over them.
+   * options.domain may be a string or an array of strings, each a host, a DID or an http or https URL.
    * @param {AddProofParams} params Parameters for adding a proof to a document.
    * @param {InsecureDocument} params.document The document to add a proof to.
    * @param {ProofOptions} params.options Options for adding a proof to a document.
@@ -26,20 +33,59 @@ export interface IDataIntegrityProof {
   addProof({ document, options }: AddProofParams): Promise<SecureDocument>;
 
   /**
-   * Verify a proof.
+   * Verify a proof, or every proof of a proof set. A proof set is verified against the policy and the result
+   * includes the per-proof results and the chain order of the proofs. A proof chained with previousProof is
+   * verified over the proofs it references; dangling or cyclic references are rejected.
    * @param {VerifyProofParams} params Parameters for verifying a proof.
    * @param {VerifyProofParams} params.mediaType The media type of the document.
    * @param {VerifyProofParams} params.document The document to verify.
    * @param {VerifyProofParams} params.expectedPurpose The expected purpose of the proof.
-   * @param {VerifyProofParams} params.expectedDomain The expected domain of the proof.
+   * @param {VerifyProofParams} params.expectedDomain The expected domain of the proof: a string or an array.
+   * @param {VerifyProofParams} params.domainMatch How the expected domain is matched against the proof domain:
+   * 'exact', the same domains in any order, or 'membership', one of the expected domains is a domain of the proof
+   * (optional, defaults to 'exact').
    * @param {VerifyProofParams} params.expectedChallenge The expected challenge of the proof.
-   * @returns {VerificationResult} The result of verifying the proof.
+   * @param {VerifyProofParams} params.policy The policy a proof set must satisfy (optional, defaults to all).
+   * @param {VerifyProofParams} params.throwOnError Whether to throw when the document or a single proof cannot
+   * be verified, instead of returning a result with its problemDetails (optional, defaults to true).
+   * @param {VerifyProofParams} params.clock The clock giving the current time to check the created and expires
+   * timestamps against (optional, defaults to the system clock).
+   * @param {VerifyProofParams} params.clockSkew The allowed clock skew in milliseconds (optional, defaults to 0).
+   * @param {VerifyProofParams} params.maxProofAge The maximum age in milliseconds of a proof since it was created
+   * (optional).
+   * @param {VerifyProofParams} params.controllerDocument The controller document of the verificationMethod, used
+   * instead of resolving it (optional). With a resolver or a controller document, the verificationMethod must be
+   * listed, embedded or by reference, under the verification relationship named by the proofPurpose.
+   * @returns {VerificationResult} The result of verifying the proof, with a problem detail for each failure.
+   * @throws {ProofError} if throwOnError is true and the document cannot be parsed, its proof chain is malformed,
+   * or its single proof is malformed, does not match the expected purpose, domain or challenge, or is outside of
+   * its time window.
+   * @throws {ResolverError} if throwOnError is true and the verificationMethod of a single proof cannot be resolved
+   * or is not authorized for its proofPurpose.
    */
   verifyProof({
     mediaType,
     document,
     expectedPurpose,
     expectedDomain,
-    expectedChallenge
+    expectedChallenge,
+    domainMatch,
+    policy,
+    throwOnError,
+    clock,
+    clockSkew,
+    maxProofAge,
+    controllerDocument
   }: VerifyProofParams): Promise<VerificationResult>;
-}
\ No newline at end of file
+
+  /**
+   * Verify many documents at once. Documents are prepared concurrently and the signatures of those secured by
+   * a single proof are checked with BIP340 batch verification, falling back to checking each signature if the
+   * batch fails. Documents with a proof set are verified on their own. Problems are returned, never thrown.
+   * @param {BatchVerifyProofParams} params Parameters for verifying the documents.
+   * @param {BatchVerifyProofParams} params.documents The documents to verify.
+   * @param {BatchVerifyProofParams} params.expectedPurpose The expected purpose of the proofs.
+   * @returns {VerificationResult[]} The result of verifying each document, in order.
+   */
+  verifyProofs({ documents, expectedPurpose }: BatchVerifyProofParams): Promise<VerificationResult[]>;
+}
@@ -0,0 +1,38 @@
+import { DocumentLoader, OfflineDocumentLoaderParams, RemoteDocument } from '../../types/document-loader.js';
+import { CryptosuiteError } from '../../utils/error.js';
+import { CONTEXTS } from './contexts.js';
+
+/**
+ * A utility class for creating JSON-LD document loaders used by RDFC canonicalization.
+ * @export
+ * @class DocumentLoaderUtils
+ * @type {DocumentLoaderUtils}
+ */
+export class DocumentLoaderUtils {
+  /**
+   * Creates a document loader that serves the bundled contexts (VC v2, VC v2 examples, Data Integrity v2,
+   * Multikey v1 and did:btc1 v1) and any given documents from memory. Other URLs are passed to the fallback
+   * loader if one is given and rejected otherwise, so by default loading never makes a network call.
+   * @static
+   * @param {OfflineDocumentLoaderParams} params The parameters to create the document loader (optional)
+   * @param {Record<string, any>} params.documents Additional documents keyed by URL (optional)
+   * @param {DocumentLoader} params.fallback Loader for URLs not found in memory (optional)
+   * @returns {DocumentLoader} The document loader
+   */
+  public static offline({ documents = {}, fallback }: OfflineDocumentLoaderParams = {}): DocumentLoader {
+    return async (url: string): Promise<RemoteDocument> => {
+      // Serve given documents first so callers can override the bundled contexts
+      const document = documents[url] ?? CONTEXTS.get(url);
+      if (document) {
+        return { contextUrl: null, documentUrl: url, document };
+      }
+
+      // Delegate to the fallback loader if there is one
+      if (fallback) {
+        return await fallback(url);
+      }
+
+      throw new CryptosuiteError(`Document not found in offline cache: ${url}`, 'DOCUMENT_LOADER_ERROR');
+    };
+  }
+}
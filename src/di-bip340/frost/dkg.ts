@@ -0,0 +1,263 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import {
+  FrostDkgParams,
+  FrostDkgRound1Message,
+  FrostDkgRound2Message,
+  FrostKeyShare,
+  FrostPoint
+} from '../../types/frost.js';
+import { Bytes } from '../../types/shared.js';
+import { FrostError } from '../../utils/error.js';
+import { FrostUtils } from './index.js';
+import { IFrostDkgParticipant } from './interface.js';
+
+const { ProjectivePoint: Point, CURVE: { n } } = secp256k1;
+
+/** Error types thrown by the distributed key generation */
+const INVALID_PARAMETERS_ERROR = 'INVALID_PARAMETERS_ERROR';
+const INVALID_SHARE_ERROR = 'INVALID_SHARE_ERROR';
+const INVALID_COMMITMENT_ERROR = 'INVALID_COMMITMENT_ERROR';
+const INVALID_PROOF_OF_KNOWLEDGE_ERROR = 'INVALID_PROOF_OF_KNOWLEDGE_ERROR';
+const FROST_DKG_ERROR = 'FROST_DKG_ERROR';
+
+/**
+ * The state of one participant in a FROST distributed key generation: Pedersen's DKG, where each participant
+ * deals a Shamir sharing of its own random secret with Feldman commitments and a proof of knowledge of that secret,
+ * so that no one ever holds the group secret key. Participants do not send anything themselves: round messages are
+ * plain JSON objects that the caller moves between participants.
+ *
+ * Round 1: every participant broadcasts `round1Message()` and passes the others' to `receiveRound1`.
+ * Round 2: every participant sends each message of `round2Messages()` to its recipient only, over a confidential
+ * and authenticated channel, and passes the messages it receives to `receiveRound2`; then `finalize()` returns
+ * its key share. Every participant gets the same group public key, with an even y.
+ * @export
+ * @class FrostDkgParticipant
+ * @type {FrostDkgParticipant}
+ * @implements {IFrostDkgParticipant}
+ */
+export class FrostDkgParticipant implements IFrostDkgParticipant {
+  /** @type {number} The identifier of this participant */
+  public readonly identifier: number;
+
+  /** @type {number} The number of participants needed to sign */
+  public readonly threshold: number;
+
+  /** @type {number} The number of participants */
+  public readonly participants: number;
+
+  /** @type {bigint[]} The coefficients of this participant's polynomial, erased once finalized */
+  private _coefficients: bigint[];
+
+  /** @type {Map<number, FrostPoint[]>} The polynomial commitment of each participant, by identifier */
+  private readonly _commitments = new Map<number, FrostPoint[]>();
+
+  /** @type {Map<number, bigint>} The secret share sent by each participant, by identifier */
+  private readonly _secretShares = new Map<number, bigint>();
+
+  /** @type {FrostDkgRound1Message} The round 1 message of this participant */
+  private readonly _round1: FrostDkgRound1Message;
+
+  /** @type {FrostKeyShare} The key share of this participant, once finalized */
+  private _share?: FrostKeyShare;
+
+  /**
+   * Creates an instance of FrostDkgParticipant.
+   * @constructor
+   * @param {FrostDkgParams} params The parameters of the key generation
+   * @param {number} params.identifier The identifier of this participant, from 1 to the number of participants
+   * @param {number} params.threshold The number of participants needed to sign, at least 2
+   * @param {number} params.participants The number of participants, at least the threshold
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR if a parameter is invalid
+   */
+  constructor({ identifier, threshold, participants }: FrostDkgParams) {
+    FrostUtils.checkThreshold(threshold, participants);
+    this.identifier = identifier;
+    this.threshold = threshold;
+    this.participants = participants;
+    this.checkRange(identifier);
+
+    // Sample the polynomial, commit to it and prove knowledge of its secret
+    this._coefficients = Array.from({ length: threshold }, () => FrostUtils.randomScalar());
+    const commitment = FrostUtils.commitPolynomial(this._coefficients);
+    this._commitments.set(identifier, commitment.map(C => Point.fromHex(C)));
+    this._round1 = {
+      identifier,
+      commitment       : commitment.map(C => this.hex(C)),
+      proofOfKnowledge : this.hex(FrostUtils.proveKnowledge(identifier, this._coefficients[0]))
+    };
+  }
+
+  /** @see IFrostDkgParticipant.round1Message */
+  public round1Message(): FrostDkgRound1Message {
+    return { ...this._round1, commitment: [...this._round1.commitment] };
+  }
+
+  /** @see IFrostDkgParticipant.receiveRound1 */
+  public receiveRound1({ identifier, commitment, proofOfKnowledge }: FrostDkgRound1Message): void {
+    this.checkSender(identifier);
+
+    // Check the commitment has the threshold of points and the proof of knowledge of its secret verifies
+    if (commitment.length !== this.threshold) {
+      throw new FrostError(
+        `Invalid commitment from participant ${identifier}: ${commitment.length} points, need ${this.threshold}`,
+        INVALID_COMMITMENT_ERROR
+      );
+    }
+    const message = `Invalid commitment from participant ${identifier}`;
+    const points = commitment.map(C => FrostUtils.point(Buffer.from(C, 'hex'), message, INVALID_COMMITMENT_ERROR));
+    const proof = Buffer.from(proofOfKnowledge, 'hex');
+    if (!FrostUtils.verifyKnowledge(identifier, Buffer.from(commitment[0], 'hex'), proof)) {
+      throw new FrostError(
+        `Invalid proof of knowledge from participant ${identifier}`,
+        INVALID_PROOF_OF_KNOWLEDGE_ERROR
+      );
+    }
+
+    // Check the commitment does not replace another commitment
+    const known = this._commitments.get(identifier);
+    if (known && known.some((C, j) => !C.equals(points[j]))) {
+      throw new FrostError(`Conflicting commitment from participant ${identifier}`, INVALID_COMMITMENT_ERROR);
+    }
+    this._commitments.set(identifier, points);
+  }
+
+  /** @see IFrostDkgParticipant.round2Messages */
+  public round2Messages(): FrostDkgRound2Message[] {
+    this.checkComplete(this._commitments, 'round 1 messages');
+    if (this._share) {
+      throw new FrostError('Cannot send secret shares: the key generation is finalized', FROST_DKG_ERROR);
+    }
+
+    // Evaluate this participant's polynomial for every other participant
+    return this.others().map(recipient => ({
+      sender      : this.identifier,
+      recipient,
+      secretShare : FrostUtils.evaluatePolynomial(this._coefficients, recipient).toString(16).padStart(64, '0')
+    }));
+  }
+
+  /** @see IFrostDkgParticipant.receiveRound2 */
+  public receiveRound2({ sender, recipient, secretShare }: FrostDkgRound2Message): void {
+    this.checkSender(sender);
+    if (recipient !== this.identifier) {
+      throw new FrostError(`Invalid round message: sent to participant ${recipient}`, INVALID_PARAMETERS_ERROR);
+    }
+    const commitment = this._commitments.get(sender);
+    if (!commitment) {
+      throw new FrostError(`Cannot receive a secret share: no commitment from participant ${sender}`, FROST_DKG_ERROR);
+    }
+
+    // Check the secret share matches the commitment of its sender
+    const share = /^[0-9a-f]{64}$/i.test(secretShare) ? BigInt(`0x${secretShare}`) : 0n;
+    const expected = FrostUtils.publicShare(commitment.map(C => C.toRawBytes(true)), this.identifier);
+    if (share === 0n || share >= n || !Buffer.from(Point.BASE.multiply(share).toRawBytes(true)).equals(expected)) {
+      throw new FrostError(`Invalid secret share from participant ${sender}`, INVALID_SHARE_ERROR);
+    }
+    this._secretShares.set(sender, share);
+  }
+
+  /** @see IFrostDkgParticipant.finalize */
+  public finalize(): FrostKeyShare {
+    if (!this._share) {
+      this.checkComplete(this._commitments, 'round 1 messages');
+      this.checkComplete(this._secretShares, 'secret shares', this.others());
+
+      // Sum the secret shares and the commitments of every participant, this one included
+      let s = FrostUtils.evaluatePolynomial(this._coefficients, this.identifier);
+      for (const share of this._secretShares.values()) s = (s + share) % n;
+      const group = Array.from({ length: this.threshold }, (_, j) => [...this._commitments.values()]
+        .reduce((sum, commitment) => sum.add(commitment[j]), Point.ZERO));
+      if (group[0].equals(Point.ZERO)) {
+        throw new FrostError('Invalid group public key: point at infinity', INVALID_COMMITMENT_ERROR);
+      }
+
+      // Negate the share and the commitment if the group public key has an odd y
+      const even = group[0].hasEvenY();
+      const commitment = (even ? group : group.map(C => C.negate())).map(C => this.hex(C.toRawBytes(true)));
+      this._share = {
+        identifier     : this.identifier,
+        threshold      : this.threshold,
+        secretShare    : (even ? s : n - s).toString(16).padStart(64, '0'),
+        groupPublicKey : commitment[0].slice(2),
+        commitment
+      };
+
+      // Erase the polynomial and the received secret shares
+      this._coefficients.fill(0n);
+      this._coefficients = [];
+      this._secretShares.clear();
+      if (!FrostUtils.verifySecretShare(this._share)) {
+        throw new FrostError('Key share does not verify', INVALID_SHARE_ERROR);
+      }
+    }
+    return { ...this._share, commitment: [...this._share.commitment] };
+  }
+
+  /**
+   * Get the identifiers of the other participants.
+   * @private
+   * @returns {number[]} The identifiers from 1 to the number of participants, except this participant's.
+   */
+  private others(): number[] {
+    return Array.from({ length: this.participants }, (_, i) => i + 1).filter(id => id !== this.identifier);
+  }
+
+  /**
+   * Check an identifier is from 1 to the number of participants.
+   * @private
+   * @param {number} identifier The identifier.
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR if the identifier is out of range.
+   */
+  private checkRange(identifier: number): void {
+    FrostUtils.checkIdentifier(identifier);
+    if (identifier > this.participants) {
+      throw new FrostError(
+        `Invalid identifier ${identifier}: only ${this.participants} participants`,
+        INVALID_PARAMETERS_ERROR
+      );
+    }
+  }
+
+  /**
+   * Check a round message is from another participant.
+   * @private
+   * @param {number} identifier The identifier of the sender.
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR if the sender is this participant or not a participant.
+   */
+  private checkSender(identifier: number): void {
+    this.checkRange(identifier);
+    if (identifier === this.identifier) {
+      throw new FrostError('Invalid round message: sent by this participant', INVALID_PARAMETERS_ERROR);
+    }
+  }
+
+  /**
+   * Check a round is complete: every participant has sent its message.
+   * @private
+   * @param {Map<number, unknown>} received The messages of the round, by identifier.
+   * @param {string} name The name of the messages, used for error messages.
+   * @param {number[]} expected The identifiers expected to send a message (optional, defaults to every
+   * participant).
+   * @throws {FrostError} with type FROST_DKG_ERROR if a participant has not sent its message.
+   */
+  private checkComplete(
+    received: Map<number, unknown>,
+    name: string,
+    expected: number[] = [...this.others(), this.identifier]
+  ): void {
+    const missing = expected.filter(id => !received.has(id)).sort((a, b) => a - b);
+    if (missing.length) {
+      throw new FrostError(`Missing ${name} from participants: ${missing.join(', ')}`, FROST_DKG_ERROR);
+    }
+  }
+
+  /**
+   * Encode bytes as hex.
+   * @private
+   * @param {Bytes} bytes The bytes.
+   * @returns {string} The hex encoding.
+   */
+  private hex(bytes: Bytes): string {
+    return Buffer.from(bytes).toString('hex');
+  }
+}
@@ -0,0 +1,815 @@
+import { PublicKey } from '@did-btc1/bip340-key-pair';
+import { invert } from '@noble/curves/abstract/modular';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { randomBytes } from 'crypto';
+import {
+  FrostCommitment,
+  FrostCommitmentMessage,
+  FrostExchange,
+  FrostKeyShare,
+  FrostNonce,
+  FrostPoint,
+  FrostSessionParams,
+  FrostSignatureShareMessage,
+  FrostSigningContext,
+  FrostSigningValues,
+  FrostSignShareParams,
+  FrostVerifyShareParams,
+  TrustedDealerParams
+} from '../../types/frost.js';
+import { Bytes, CompressedPublicKeyBytes, HashBytes, PublicKeyBytes, SignatureBytes } from '../../types/shared.js';
+import { FrostError } from '../../utils/error.js';
+import { Multikey, MultikeyUtils } from '../multikey/index.js';
+import { ISigner } from '../signer/interface.js';
+import { IFrostSession, IFrostShareStore } from './interface.js';
+
+const { ProjectivePoint: Point, CURVE: { n } } = secp256k1;
+const { bytesToNumberBE, mod, randomPrivateKey, taggedHash } = schnorr.utils;
+
+/** Error types thrown by FROST */
+const INVALID_PARAMETERS_ERROR = 'INVALID_PARAMETERS_ERROR';
+const INVALID_SHARE_ERROR = 'INVALID_SHARE_ERROR';
+const INVALID_COMMITMENT_ERROR = 'INVALID_COMMITMENT_ERROR';
+const INVALID_SIGNATURE_SHARE_ERROR = 'INVALID_SIGNATURE_SHARE_ERROR';
+const FROST_SESSION_ERROR = 'FROST_SESSION_ERROR';
+
+/**
+ * Implements {@link https://www.rfc-editor.org/rfc/rfc9591 | RFC 9591 FROST} threshold Schnorr signing over
+ * secp256k1, made BIP340-compatible: the group public key always has an even y, signers negate their nonces when
+ * the group commitment has an odd y, the challenge is the BIP340 challenge and the other hash functions of the
+ * ciphersuite are BIP340 tagged hashes (`FROST/rho`, `FROST/nonce`, `FROST/msg`, `FROST/com` and `FROST/pok`).
+ * The aggregate signature is an ordinary BIP340 signature for the x-only group public key.
+ *
+ * Participants are identified by the integers 1 to the number of participants. Key shares are plain JSON
+ * objects with hex fields, so that they can be stored and moved as they are.
+ * @export
+ * @class FrostUtils
+ * @type {FrostUtils}
+ */
+export class FrostUtils {
+  /**
+   * Split a secret into key shares with a trusted dealer (trusted_dealer_keygen), using Shamir secret sharing
+   * with Feldman verifiable secret sharing commitments. The secret is negated first if its public key has an
+   * odd y. The dealer must erase the secret and deliver each share to its participant over a confidential channel.
+   * @static
+   * @param {TrustedDealerParams} params The parameters to generate the key shares.
+   * @param {number} params.threshold The number of participants needed to sign, at least 2.
+   * @param {number} params.participants The number of participants, at least the threshold.
+   * @param {Bytes} params.secret The 32-byte group secret key (optional, defaults to a random key).
+   * @returns {FrostKeyShare[]} The key share of each participant, in the order of their identifiers.
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR if the threshold, number of participants or secret
+   * is invalid.
+   */
+  public static trustedDealerKeygen({ threshold, participants, secret }: TrustedDealerParams): FrostKeyShare[] {
+    this.checkThreshold(threshold, participants);
+
+    // Get the group secret key
+    const s = bytesToNumberBE(secret ?? randomPrivateKey());
+    if ((secret && secret.length !== 32) || !this.isScalar(s)) {
+      throw new FrostError('Invalid secret: not a valid private key', INVALID_PARAMETERS_ERROR);
+    }
+
+    // Sample the polynomial, negated if the group public key has an odd y
+    const coefficients = [s, ...Array.from({ length: threshold - 1 }, () => this.randomScalar())];
+    const even = Point.BASE.multiply(s).hasEvenY();
+    const polynomial = even ? coefficients : coefficients.map(a => n - a);
+
+    // Commit to the polynomial and evaluate it for each participant
+    const commitment = this.commitPolynomial(polynomial).map(C => this.hex(C));
+    const groupPublicKey = commitment[0].slice(2);
+    return Array.from({ length: participants }, (_, i) => ({
+      identifier  : i + 1,
+      threshold,
+      secretShare : this.hex(this.uint(this.evaluatePolynomial(polynomial, i + 1), 32)),
+      groupPublicKey,
+      commitment
+    }));
+  }
+
+  /**
+   * Evaluate a polynomial at an identifier.
+   * @static
+   * @param {bigint[]} coefficients The coefficients of the polynomial, constant term first.
+   * @param {number} identifier The identifier.
+   * @returns {bigint} The value of the polynomial.
+   */
+  public static evaluatePolynomial(coefficients: bigint[], identifier: number): bigint {
+    const x = BigInt(identifier);
+    return coefficients.reduceRight((value, coefficient) => mod(value * x + coefficient, n), 0n);
+  }
+
+  /**
+   * Commit to the coefficients of a polynomial (vss_commit).
+   * @static
+   * @param {bigint[]} coefficients The non-zero coefficients of the polynomial, constant term first.
+   * @returns {CompressedPublicKeyBytes[]} The compressed point of each coefficient.
+   */
+  public static commitPolynomial(coefficients: bigint[]): CompressedPublicKeyBytes[] {
+    return coefficients.map(a => Point.BASE.multiply(a).toRawBytes(true));
+  }
+
+  /**
+   * Get the public key share of a participant from the commitment of a polynomial.
+   * @static
+   * @param {Bytes[]} commitment The compressed commitment of the polynomial, constant term first.
+   * @param {number} identifier The identifier of the participant.
+   * @returns {CompressedPublicKeyBytes} The compressed public key share of the participant.
+   * @throws {FrostError} with type INVALID_COMMITMENT_ERROR if a point of the commitment is invalid or the public
+   * key share is the point at infinity.
+   */
+  public static publicShare(commitment: Bytes[], identifier: number): CompressedPublicKeyBytes {
+    const x = BigInt(identifier);
+    const P = commitment.reduceRight(
+      (value, C) => this.mul(value, x).add(this.point(C, 'Invalid commitment', INVALID_COMMITMENT_ERROR)),
+      Point.ZERO
+    );
+    if (P.equals(Point.ZERO)) {
+      throw new FrostError('Invalid public key share: point at infinity', INVALID_COMMITMENT_ERROR);
+    }
+    return P.toRawBytes(true);
+  }
+
+  /**
+   * Verify a key share against its commitment (vss_verify) and its group public key.
+   * @static
+   * @param {FrostKeyShare} share The key share.
+   * @returns {boolean} Whether the share is valid: its secret share matches the commitment, which has the
+   * threshold of points and the even-y group public key as its constant term.
+   */
+  public static verifySecretShare(share: FrostKeyShare): boolean {
+    try {
+      const { identifier, threshold, secretShare, groupPublicKey, commitment } = share;
+      this.checkIdentifier(identifier);
+      const s = bytesToNumberBE(Buffer.from(secretShare, 'hex'));
+      if (secretShare.length !== 64 || !this.isScalar(s) || commitment.length !== threshold) return false;
+      if (commitment[0] !== `02${groupPublicKey}`) return false;
+      const publicShare = this.publicShare(commitment.map(C => Buffer.from(C, 'hex')), identifier);
+      return Buffer.from(Point.BASE.multiply(s).toRawBytes(true)).equals(publicShare);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Prove knowledge of the secret of a polynomial commitment, binding the proof to a participant, for the
+   * distributed key generation.
+   * @static
+   * @param {number} identifier The identifier of the participant.
+   * @param {bigint} secret The constant term of the polynomial.
+   * @returns {Bytes} The 65-byte proof: the compressed nonce point and the response.
+   */
+  public static proveKnowledge(identifier: number, secret: bigint): Bytes {
+    const k = this.randomScalar();
+    const R = Point.BASE.multiply(k).toRawBytes(true);
+    const C = Point.BASE.multiply(secret).toRawBytes(true);
+    const c = this.knowledgeChallenge(identifier, C, R);
+    return Buffer.concat([R, this.uint(mod(k + secret * c, n), 32)]);
+  }
+
+  /**
+   * Verify a proof of knowledge of the secret of a polynomial commitment.
+   * @static
+   * @param {number} identifier The identifier of the participant.
+   * @param {Bytes} secretCommitment The compressed commitment to the constant term of the polynomial.
+   * @param {Bytes} proof The 65-byte proof.
+   * @returns {boolean} Whether the proof is valid.
+   */
+  public static verifyKnowledge(identifier: number, secretCommitment: Bytes, proof: Bytes): boolean {
+    try {
+      const mu = bytesToNumberBE(proof.subarray(33));
+      if (proof.length !== 65 || mu >= n) return false;
+      const R = this.point(proof.subarray(0, 33), 'Invalid proof of knowledge', INVALID_COMMITMENT_ERROR);
+      const C = this.point(secretCommitment, 'Invalid commitment', INVALID_COMMITMENT_ERROR);
+      const c = this.knowledgeChallenge(identifier, secretCommitment, proof.subarray(0, 33));
+      return this.mul(Point.BASE, mu).equals(R.add(this.mul(C, c)));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the Lagrange coefficient of a participant of a signing set (derive_interpolating_value).
+   * @static
+   * @param {number} identifier The identifier of the participant.
+   * @param {number[]} identifiers The distinct identifiers of the signing set.
+   * @returns {bigint} The Lagrange coefficient at zero.
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR if the identifiers repeat or do not include the
+   * participant.
+   */
+  public static lagrangeCoefficient(identifier: number, identifiers: number[]): bigint {
+    if (new Set(identifiers).size !== identifiers.length || !identifiers.includes(identifier)) {
+      throw new FrostError('Invalid signing set: duplicate or missing identifier', INVALID_PARAMETERS_ERROR);
+    }
+    const x = BigInt(identifier);
+    let numerator = 1n;
+    let denominator = 1n;
+    for (const other of identifiers.filter(other => other !== identifier).map(BigInt)) {
+      numerator = mod(numerator * other, n);
+      denominator = mod(denominator * (other - x), n);
+    }
+    return mod(numerator * invert(denominator, n), n);
+  }
+
+  /**
+   * Generate the hiding and binding nonces of a participant and their commitment (commit). The nonces must be
+   * used for one signature only.
+   * @static
+   * @param {number} identifier The identifier of the participant.
+   * @param {Bytes} secretShare The 32-byte secret share, which hardens the nonces against bad randomness.
+   * @returns {{ nonce: FrostNonce; commitment: FrostCommitment }} The secret nonces and the public commitment.
+   */
+  public static commit(identifier: number, secretShare: Bytes): { nonce: FrostNonce; commitment: FrostCommitment } {
+    const nonce = { hiding: this.nonceGenerate(secretShare), binding: this.nonceGenerate(secretShare) };
+    const commitment = {
+      identifier,
+      hiding  : Point.BASE.multiply(nonce.hiding).toRawBytes(true),
+      binding : Point.BASE.multiply(nonce.binding).toRawBytes(true)
+    };
+    return { nonce, commitment };
+  }
+
+  /**
+   * Compute the values of a signing session: the binding factor of each signer (compute_binding_factors), the
+   * group commitment R (compute_group_commitment) and the BIP340 challenge c.
+   * @static
+   * @param {FrostSigningContext} context The group public key, the commitments of the signers and the message.
+   * @returns {FrostSigningValues} The binding factors by identifier, the group commitment and the challenge.
+   * @throws {FrostError} with type INVALID_COMMITMENT_ERROR if a commitment is invalid or the group commitment is
+   * the point at infinity.
+   */
+  public static signingValues({ groupPublicKey, commitments, message }: FrostSigningContext): FrostSigningValues {
+    // Encode the commitments in the order of the identifiers
+    const sorted = [...commitments].sort((a, b) => a.identifier - b.identifier);
+    const encoded = Buffer.concat(sorted.flatMap(({ identifier, hiding, binding }) => [
+      this.uint(identifier, 32), hiding, binding
+    ]));
+
+    // Compute the binding factor of each signer
+    const prefix = Buffer.concat([
+      Uint8Array.of(0x02), groupPublicKey, taggedHash('FROST/msg', message), taggedHash('FROST/com', encoded)
+    ]);
+    const bindingFactors = new Map(sorted.map(({ identifier }) => [
+      identifier,
+      mod(bytesToNumberBE(taggedHash('FROST/rho', prefix, this.uint(identifier, 32))), n)
+    ]));
+
+    // Compute the group commitment R = Σ Di + ρi⋅Ei
+    let R = Point.ZERO;
+    for (const { identifier, hiding, binding } of sorted) {
+      const D = this.point(hiding, `Invalid commitment from participant ${identifier}`, INVALID_COMMITMENT_ERROR);
+      const E = this.point(binding, `Invalid commitment from participant ${identifier}`, INVALID_COMMITMENT_ERROR);
+      R = R.add(D).add(this.mul(E, bindingFactors.get(identifier)!));
+    }
+    if (R.equals(Point.ZERO)) {
+      throw new FrostError('Invalid group commitment: point at infinity', INVALID_COMMITMENT_ERROR);
+    }
+
+    // Compute the BIP340 challenge
+    const c = mod(bytesToNumberBE(taggedHash('BIP0340/challenge', this.xbytes(R), groupPublicKey, message)), n);
+    return { bindingFactors, R, c };
+  }
+
+  /**
+   * Create the signature share of a participant (sign). The caller must never reuse the nonces.
+   * @static
+   * @param {FrostSignShareParams} params The parameters to sign.
+   * @param {number} params.identifier The identifier of the participant.
+   * @param {Bytes} params.secretShare The 32-byte secret share of the participant.
+   * @param {FrostNonce} params.nonce The hiding and binding nonces of the participant.
+   * @param {FrostSigningContext} params.context The group public key, the commitments of the signers and the
+   * message.
+   * @returns {Bytes} The 32-byte signature share.
+   * @throws {FrostError} if the nonces do not match the commitment of the participant in the context, or a
+   * commitment is invalid.
+   */
+  public static signShare({ identifier, secretShare, nonce, context }: FrostSignShareParams): Bytes {
+    const { bindingFactors, R, c } = this.signingValues(context);
+
+    // Check the nonces match the commitment of the participant
+    const own = context.commitments.find(commitment => commitment.identifier === identifier);
+    const hiding = Point.BASE.multiply(nonce.hiding).toRawBytes(true);
+    const binding = Point.BASE.multiply(nonce.binding).toRawBytes(true);
+    if (!own || !Buffer.from(own.hiding).equals(hiding) || !Buffer.from(own.binding).equals(binding)) {
+      throw new FrostError('Nonces do not match the commitment of the participant', INVALID_COMMITMENT_ERROR);
+    }
+
+    // Compute z = k + λ⋅s⋅c, with the nonce k = d + ρ⋅e negated if the group commitment has an odd y
+    const rho = bindingFactors.get(identifier)!;
+    const k = mod(nonce.hiding + nonce.binding * rho, n);
+    const lambda = this.lagrangeCoefficient(identifier, [...bindingFactors.keys()]);
+    const s = bytesToNumberBE(secretShare);
+    return this.uint(mod((R.hasEvenY() ? k : n - k) + lambda * s * c, n), 32);
+  }
+
+  /**
+   * Verify the signature share of a participant (verify_signature_share).
+   * @static
+   * @param {FrostVerifyShareParams} params The parameters to verify.
+   * @param {number} params.identifier The identifier of the participant.
+   * @param {Bytes} params.signatureShare The 32-byte signature share.
+   * @param {Bytes} params.publicShare The compressed public key share of the participant.
+   * @param {FrostSigningContext} params.context The group public key, the commitments of the signers and the
+   * message.
+   * @returns {boolean} Whether the signature share is valid.
+   */
+  public static verifySignatureShare({
+    identifier,
+    signatureShare,
+    publicShare,
+    context
+  }: FrostVerifyShareParams): boolean {
+    try {
+      const { bindingFactors, R, c } = this.signingValues(context);
+
+      // Fail if z is not below the curve order or the participant did not commit
+      const z = bytesToNumberBE(signatureShare);
+      const commitment = context.commitments.find(commitment => commitment.identifier === identifier);
+      if (signatureShare.length !== 32 || z >= n || !commitment) return false;
+
+      // Get the commitment share Ri = Di + ρi⋅Ei, negated if the group commitment has an odd y
+      const D = this.point(commitment.hiding, 'Invalid commitment', INVALID_COMMITMENT_ERROR);
+      const E = this.point(commitment.binding, 'Invalid commitment', INVALID_COMMITMENT_ERROR);
+      const Rip = D.add(this.mul(E, bindingFactors.get(identifier)!));
+      const Ri = R.hasEvenY() ? Rip : Rip.negate();
+
+      // Check z⋅G = Ri + c⋅λ⋅Pi
+      const P = this.point(publicShare, 'Invalid public key share', INVALID_SHARE_ERROR);
+      const lambda = this.lagrangeCoefficient(identifier, [...bindingFactors.keys()]);
+      return this.mul(Point.BASE, z).equals(Ri.add(this.mul(P, mod(c * lambda, n))));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Aggregate the signature shares of every signer into a BIP340 signature (aggregate).
+   * @static
+   * @param {Bytes[]} signatureShares The 32-byte signature shares.
+   * @param {FrostSigningContext} context The group public key, the commitments of the signers and the message.
+   * @returns {SignatureBytes} The 64-byte BIP340 signature.
+   * @throws {FrostError} with type INVALID_SIGNATURE_SHARE_ERROR if a signature share is not below the curve
+   * order.
+   */
+  public static aggregate(signatureShares: Bytes[], context: FrostSigningContext): SignatureBytes {
+    const { R } = this.signingValues(context);
+    let z = 0n;
+    for (const [i, signatureShare] of signatureShares.entries()) {
+      const zi = bytesToNumberBE(signatureShare);
+      if (signatureShare.length !== 32 || zi >= n) {
+        throw new FrostError(`Invalid signature share at index ${i}`, INVALID_SIGNATURE_SHARE_ERROR);
+      }
+      z = mod(z + zi, n);
+    }
+    return Buffer.concat([this.xbytes(R), this.uint(z, 32)]);
+  }
+
+  /**
+   * Create a public-only Multikey for a group public key, to verify the proofs the group creates.
+   * @static
+   * @param {object} params The parameters to create the multikey.
+   * @param {string} params.id The id of the multikey.
+   * @param {string} params.controller The controller of the multikey.
+   * @param {PublicKeyBytes} params.groupPublicKey The x-only group public key.
+   * @returns {Multikey} The public-only group multikey.
+   */
+  public static groupMultikey({ id, controller, groupPublicKey }: {
+    id: string;
+    controller: string;
+    groupPublicKey: PublicKeyBytes;
+  }): Multikey {
+    const publicKeyBytes = Buffer.concat([Uint8Array.of(0x02), groupPublicKey]);
+    return MultikeyUtils.fromPublicKey({ id, controller, publicKeyBytes });
+  }
+
+  /**
+   * Decode a compressed point.
+   * @static
+   * @param {Bytes} bytes The 33-byte compressed point.
+   * @param {string} message The error message.
+   * @param {string} type The error type.
+   * @returns {FrostPoint} The point.
+   * @throws {FrostError} if the bytes are not a compressed point.
+   */
+  public static point(bytes: Bytes, message: string, type: string): FrostPoint {
+    if (bytes.length !== 33 || (bytes[0] !== 0x02 && bytes[0] !== 0x03)) {
+      throw new FrostError(message, type);
+    }
+    try {
+      return Point.fromHex(bytes);
+    } catch {
+      throw new FrostError(message, type);
+    }
+  }
+
+  /**
+   * Check a threshold and a number of participants.
+   * @static
+   * @param {number} threshold The number of participants needed to sign.
+   * @param {number} participants The number of participants.
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR unless 2 ≤ threshold ≤ participants.
+   */
+  public static checkThreshold(threshold: number, participants: number): void {
+    if (!Number.isInteger(threshold) || !Number.isInteger(participants) || threshold < 2 || threshold > participants) {
+      throw new FrostError(
+        `Invalid threshold ${threshold} of ${participants}: need 2 ≤ threshold ≤ participants`,
+        INVALID_PARAMETERS_ERROR
+      );
+    }
+  }
+
+  /**
+   * Check an identifier is a positive integer.
+   * @static
+   * @param {number} identifier The identifier.
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR if the identifier is not a positive integer.
+   */
+  public static checkIdentifier(identifier: number): void {
+    if (!Number.isSafeInteger(identifier) || identifier < 1) {
+      throw new FrostError(`Invalid identifier ${identifier}`, INVALID_PARAMETERS_ERROR);
+    }
+  }
+
+  /**
+   * Generate a random non-zero scalar.
+   * @static
+   * @returns {bigint} The scalar.
+   */
+  public static randomScalar(): bigint {
+    return bytesToNumberBE(randomPrivateKey());
+  }
+
+  /**
+   * Generate a nonce from fresh randomness and a secret share (nonce_generate).
+   * @private
+   * @static
+   * @param {Bytes} secretShare The 32-byte secret share.
+   * @returns {bigint} The non-zero nonce.
+   */
+  private static nonceGenerate(secretShare: Bytes): bigint {
+    const nonce = mod(bytesToNumberBE(taggedHash('FROST/nonce', randomBytes(32), secretShare)), n);
+    return nonce === 0n ? this.nonceGenerate(secretShare) : nonce;
+  }
+
+  /**
+   * Compute the challenge of a proof of knowledge.
+   * @private
+   * @static
+   * @param {number} identifier The identifier of the participant.
+   * @param {Bytes} C The compressed commitment to the secret.
+   * @param {Bytes} R The compressed nonce point.
+   * @returns {bigint} The challenge.
+   */
+  private static knowledgeChallenge(identifier: number, C: Bytes, R: Bytes): bigint {
+    return mod(bytesToNumberBE(taggedHash('FROST/pok', this.uint(identifier, 32), C, R)), n);
+  }
+
+  /**
+   * Multiply a point by a scalar, which may be zero.
+   * @private
+   * @static
+   * @param {FrostPoint} point The point.
+   * @param {bigint} scalar The scalar in [0, n).
+   * @returns {FrostPoint} The product.
+   */
+  private static mul(point: FrostPoint, scalar: bigint): FrostPoint {
+    return scalar === 0n ? Point.ZERO : point.multiply(scalar);
+  }
+
+  /**
+   * Encode the x coordinate of a point.
+   * @private
+   * @static
+   * @param {FrostPoint} point The point.
+   * @returns {Bytes} The 32-byte x coordinate.
+   */
+  private static xbytes(point: FrostPoint): Bytes {
+    return point.toRawBytes(true).subarray(1);
+  }
+
+  /**
+   * Encode an unsigned integer as big-endian bytes.
+   * @private
+   * @static
+   * @param {number | bigint} value The integer.
+   * @param {number} length The number of bytes.
+   * @returns {Bytes} The big-endian encoding.
+   */
+  private static uint(value: number | bigint, length: number): Bytes {
+    return Buffer.from(BigInt(value).toString(16).padStart(length * 2, '0'), 'hex');
+  }
+
+  /**
+   * Encode bytes as hex.
+   * @private
+   * @static
+   * @param {Bytes} bytes The bytes.
+   * @returns {string} The hex encoding.
+   */
+  private static hex(bytes: Bytes): string {
+    return Buffer.from(bytes).toString('hex');
+  }
+
+  /**
+   * Check an integer is a valid non-zero scalar.
+   * @private
+   * @static
+   * @param {bigint} value The integer.
+   * @returns {boolean} Whether the integer is in [1, n).
+   */
+  private static isScalar(value: bigint): boolean {
+    return value > 0n && value < n;
+  }
+}
+
+/**
+ * An in-memory key share store, for a single participant process or tests. Shares are keyed by their group public
+ * key: a participant holds one share per group.
+ * @export
+ * @class MemoryFrostShareStore
+ * @type {MemoryFrostShareStore}
+ * @implements {IFrostShareStore}
+ */
+export class MemoryFrostShareStore implements IFrostShareStore {
+  /** @type {Map<string, FrostKeyShare>} The key shares keyed by hex x-only group public key */
+  private readonly _shares: Map<string, FrostKeyShare> = new Map();
+
+  /** @see IFrostShareStore.put */
+  public async put(share: FrostKeyShare): Promise<void> {
+    if (!FrostUtils.verifySecretShare(share)) {
+      throw new FrostError(`Invalid key share of participant ${share.identifier}`, INVALID_SHARE_ERROR);
+    }
+    this._shares.set(share.groupPublicKey, { ...share, commitment: [...share.commitment] });
+  }
+
+  /** @see IFrostShareStore.get */
+  public async get(groupPublicKey: string): Promise<FrostKeyShare | undefined> {
+    const share = this._shares.get(groupPublicKey);
+    return share ? { ...share, commitment: [...share.commitment] } : undefined;
+  }
+
+  /** @see IFrostShareStore.delete */
+  public async delete(groupPublicKey: string): Promise<void> {
+    this._shares.delete(groupPublicKey);
+  }
+}
+
+/**
+ * The state of one participant in one FROST signing session. Sessions do not send anything themselves: round
+ * messages are plain JSON objects that the caller moves between participants over any transport.
+ *
+ * Round 1: every signer sends `commitmentMessage()` to the other signers and passes theirs to `receiveCommitment`.
+ * The signing set is every participant whose commitment was received, which must be at least the threshold and
+ * the same for every signer. Round 2: every signer sends `sign(message)` to the others and passes theirs to
+ * `receiveSignatureShare`; then `signature()` returns the aggregate BIP340 signature. A session signs one message
+ * only.
+ * @export
+ * @class FrostSession
+ * @type {FrostSession}
+ * @implements {IFrostSession}
+ */
+export class FrostSession implements IFrostSession {
+  /** @type {number} The identifier of this participant */
+  public readonly identifier: number;
+
+  /** @type {number} The number of participants needed to sign */
+  public readonly threshold: number;
+
+  /** @type {PublicKeyBytes} The x-only group public key */
+  public readonly groupPublicKey: PublicKeyBytes;
+
+  /** @type {Bytes} The secret share of this participant */
+  private readonly _secretShare: Bytes;
+
+  /** @type {Bytes[]} The commitment of the group polynomial, to get the public key share of each participant */
+  private readonly _commitment: Bytes[];
+
+  /** @type {FrostNonce} The nonces of this participant, erased once used */
+  private _nonce?: FrostNonce;
+
+  /** @type {Map<number, FrostCommitment>} The commitment of each signer, by identifier */
+  private readonly _commitments = new Map<number, FrostCommitment>();
+
+  /** @type {Map<number, Bytes>} The signature share of each signer, by identifier */
+  private readonly _signatureShares = new Map<number, Bytes>();
+
+  /** @type {FrostSigningContext} The context of the session, once this participant has signed */
+  private _context?: FrostSigningContext;
+
+  /**
+   * Creates an instance of FrostSession.
+   * @constructor
+   * @param {FrostSessionParams} params The parameters to create the session
+   * @param {FrostKeyShare} params.share The key share of this participant
+   * @throws {FrostError} with type INVALID_SHARE_ERROR if the key share is invalid
+   */
+  constructor({ share }: FrostSessionParams) {
+    if (!FrostUtils.verifySecretShare(share)) {
+      throw new FrostError(`Invalid key share of participant ${share.identifier}`, INVALID_SHARE_ERROR);
+    }
+    this.identifier = share.identifier;
+    this.threshold = share.threshold;
+    this.groupPublicKey = Buffer.from(share.groupPublicKey, 'hex');
+    this._secretShare = Buffer.from(share.secretShare, 'hex');
+    this._commitment = share.commitment.map(C => Buffer.from(C, 'hex'));
+  }
+
+  /** @type {number[]} The identifiers of the signing set, sorted, once this participant has signed */
+  get signers(): number[] {
+    return this._context?.commitments.map(({ identifier }) => identifier) ?? [];
+  }
+
+  /** @see IFrostSession.commitmentMessage */
+  public commitmentMessage(): FrostCommitmentMessage {
+    // Generate the nonces on the first call only
+    if (!this._commitments.has(this.identifier)) {
+      if (this._context) {
+        throw new FrostError('Cannot commit: the session has signed', FROST_SESSION_ERROR);
+      }
+      const { nonce, commitment } = FrostUtils.commit(this.identifier, this._secretShare);
+      this._nonce = nonce;
+      this._commitments.set(this.identifier, commitment);
+    }
+
+    const { hiding, binding } = this._commitments.get(this.identifier)!;
+    return { identifier: this.identifier, hiding: this.hex(hiding), binding: this.hex(binding) };
+  }
+
+  /** @see IFrostSession.receiveCommitment */
+  public receiveCommitment({ identifier, hiding, binding }: FrostCommitmentMessage): void {
+    // Check the commitment is from another participant, before signing
+    this.checkParticipant(identifier);
+    if (this._context) {
+      throw new FrostError('Cannot receive a commitment: the session has signed', FROST_SESSION_ERROR);
+    }
+
+    // Check the commitment is a pair of points and does not replace another commitment
+    const commitment = { identifier, hiding: Buffer.from(hiding, 'hex'), binding: Buffer.from(binding, 'hex') };
+    const message = `Invalid commitment from participant ${identifier}`;
+    FrostUtils.point(commitment.hiding, message, INVALID_COMMITMENT_ERROR);
+    FrostUtils.point(commitment.binding, message, INVALID_COMMITMENT_ERROR);
+    const known = this._commitments.get(identifier);
+    if (known && (!Buffer.from(known.hiding).equals(commitment.hiding)
+      || !Buffer.from(known.binding).equals(commitment.binding))) {
+      throw new FrostError(`Conflicting commitment from participant ${identifier}`, INVALID_COMMITMENT_ERROR);
+    }
+    this._commitments.set(identifier, commitment);
+  }
+
+  /** @see IFrostSession.sign */
+  public sign(message: HashBytes): FrostSignatureShareMessage {
+    // Check this participant has nonces and the signing set reaches the threshold
+    if (!this._nonce) {
+      const reason = this._context ? 'the session has signed' : 'no nonces: call commitmentMessage first';
+      throw new FrostError(`Cannot sign: ${reason}`, FROST_SESSION_ERROR);
+    }
+    if (this._commitments.size < this.threshold) {
+      throw new FrostError(
+        `Cannot sign: ${this._commitments.size} commitments, need ${this.threshold}`,
+        FROST_SESSION_ERROR
+      );
+    }
+
+    // Create the signature share over the commitments of the signing set, erasing the nonces
+    const commitments = [...this._commitments.values()].sort((a, b) => a.identifier - b.identifier);
+    const context = { groupPublicKey: this.groupPublicKey, commitments, message };
+    const nonce = this._nonce;
+    this._nonce = undefined;
+    const signatureShare = FrostUtils.signShare({
+      identifier  : this.identifier,
+      secretShare : this._secretShare,
+      nonce,
+      context
+    });
+    nonce.hiding = nonce.binding = 0n;
+
+    // Check the signature share verifies, which guards against faults
+    const publicShare = FrostUtils.publicShare(this._commitment, this.identifier);
+    if (!FrostUtils.verifySignatureShare({ identifier: this.identifier, signatureShare, publicShare, context })) {
+      throw new FrostError('Signature share does not verify', INVALID_SIGNATURE_SHARE_ERROR);
+    }
+
+    // Keep the context and this participant's signature share
+    this._context = context;
+    this._signatureShares.set(this.identifier, signatureShare);
+    return { identifier: this.identifier, signatureShare: this.hex(signatureShare) };
+  }
+
+  /** @see IFrostSession.receiveSignatureShare */
+  public receiveSignatureShare({ identifier, signatureShare }: FrostSignatureShareMessage): void {
+    // Check the signature share is from another signer, after this participant has signed
+    this.checkParticipant(identifier);
+    if (!this._context) {
+      throw new FrostError('Cannot receive a signature share: sign first', FROST_SESSION_ERROR);
+    }
+    if (!this.signers.includes(identifier)) {
+      throw new FrostError(
+        `Invalid round message: participant ${identifier} is not in the signing set`,
+        FROST_SESSION_ERROR
+      );
+    }
+
+    // Verify the signature share against the commitment and public key share of the signer
+    const bytes = Buffer.from(signatureShare, 'hex');
+    const verified = FrostUtils.verifySignatureShare({
+      identifier,
+      signatureShare : bytes,
+      publicShare    : FrostUtils.publicShare(this._commitment, identifier),
+      context        : this._context
+    });
+    if (!verified) {
+      throw new FrostError(`Invalid signature share from participant ${identifier}`, INVALID_SIGNATURE_SHARE_ERROR);
+    }
+    this._signatureShares.set(identifier, bytes);
+  }
+
+  /** @see IFrostSession.signature */
+  public signature(): SignatureBytes {
+    if (!this._context) {
+      throw new FrostError('Cannot aggregate: sign first', FROST_SESSION_ERROR);
+    }
+    const missing = this.signers.filter(identifier => !this._signatureShares.has(identifier));
+    if (missing.length) {
+      throw new FrostError(`Missing signature shares from participants: ${missing.join(', ')}`, FROST_SESSION_ERROR);
+    }
+
+    // Aggregate the signature shares in the order of the identifiers
+    const signatureShares = this.signers.map(identifier => this._signatureShares.get(identifier)!);
+    return FrostUtils.aggregate(signatureShares, this._context);
+  }
+
+  /**
+   * Check a round message is from another participant.
+   * @private
+   * @param {number} identifier The identifier of the sender.
+   * @throws {FrostError} with type INVALID_PARAMETERS_ERROR if the sender is this participant or its identifier
+   * is invalid.
+   */
+  private checkParticipant(identifier: number): void {
+    FrostUtils.checkIdentifier(identifier);
+    if (identifier === this.identifier) {
+      throw new FrostError('Invalid round message: sent by this participant', INVALID_PARAMETERS_ERROR);
+    }
+  }
+
+  /**
+   * Encode bytes as hex.
+   * @private
+   * @param {Bytes} bytes The bytes.
+   * @returns {string} The hex encoding.
+   */
+  private hex(bytes: Bytes): string {
+    return Buffer.from(bytes).toString('hex');
+  }
+}
+
+/**
+ * An `ISigner` for the group public key of a FROST session, so that a `Multikey` built with it creates ordinary
+ * BIP340 proofs with `Cryptosuite`. Every signer runs the commitment round of its session first, then creates the
+ * same proof (same document and proof options) with its own FrostSigner; `sign` runs the signature share round
+ * through the exchange function.
+ * @export
+ * @class FrostSigner
+ * @type {FrostSigner}
+ * @implements {ISigner}
+ */
+export class FrostSigner implements ISigner {
+  /** @type {PublicKey} The group public key, with an even y */
+  public readonly publicKey: PublicKey;
+
+  /** @type {FrostSession} The session of this signer */
+  private readonly _session: FrostSession;
+
+  /** @type {FrostExchange} The transport sending this signer's signature share and receiving every other */
+  private readonly _exchange: FrostExchange;
+
+  /**
+   * Creates an instance of FrostSigner.
+   * @constructor
+   * @param {FrostSession} session The session of this signer, with the commitment of every signer received.
+   * @param {FrostExchange} exchange Sends this signer's signature share message to the other signers and resolves
+   * with the signature share messages of the round, which may include this signer's own.
+   */
+  constructor(session: FrostSession, exchange: FrostExchange) {
+    this._session = session;
+    this._exchange = exchange;
+    this.publicKey = new PublicKey(Buffer.concat([Uint8Array.of(0x02), session.groupPublicKey]));
+  }
+
+  /**
+   * Sign a hash with the group key. FROST nonces come from the commitment round, so auxRand is not used.
+   * @see ISigner.sign
+   */
+  public async sign(hash: HashBytes, _auxRand?: Bytes): Promise<SignatureBytes> {
+    // Create this signer's signature share and exchange it for the others
+    const own = this._session.sign(hash);
+    const messages = await this._exchange(own);
+
+    // Receive the signature share of every other signer and aggregate them
+    for (const message of messages) {
+      if (message.identifier !== own.identifier) {
+        this._session.receiveSignatureShare(message);
+      }
+    }
+    return this._session.signature();
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  FrostCommitmentMessage,
+  FrostDkgRound1Message,
+  FrostDkgRound2Message,
+  FrostKeyShare,
+  FrostSignatureShareMessage
+} from '../../types/frost.js';
+import { HashBytes, PublicKeyBytes, SignatureBytes } from '../../types/shared.js';
+
+/**
+ * Interface representing the storage of a participant's FROST key shares. Implementations backed by a database or
+ * a file must encrypt the secret shares at rest.
+ * @export
+ * @interface IFrostShareStore
+ * @type {IFrostShareStore}
+ */
+export interface IFrostShareStore {
+  /**
+   * Store a key share, replacing the share of the same group.
+   * @param {FrostKeyShare} share The key share.
+   * @returns {Promise<void>}
+   * @throws {FrostError} with type INVALID_SHARE_ERROR if the key share is invalid.
+   */
+  put(share: FrostKeyShare): Promise<void>;
+
+  /**
+   * Get the key share of a group.
+   * @param {string} groupPublicKey The hex x-only group public key.
+   * @returns {Promise<FrostKeyShare | undefined>} The key share, or undefined if none is stored.
+   */
+  get(groupPublicKey: string): Promise<FrostKeyShare | undefined>;
+
+  /**
+   * Remove the key share of a group.
+   * @param {string} groupPublicKey The hex x-only group public key.
+   * @returns {Promise<void>}
+   */
+  delete(groupPublicKey: string): Promise<void>;
+}
+
+/**
+ * Interface representing one participant in a FROST distributed key generation.
+ * @export
+ * @interface IFrostDkgParticipant
+ * @type {IFrostDkgParticipant}
+ */
+export interface IFrostDkgParticipant {
+  /** @type {number} @readonly The identifier of this participant */
+  readonly identifier: number;
+
+  /** @type {number} @readonly The number of participants needed to sign */
+  readonly threshold: number;
+
+  /** @type {number} @readonly The number of participants */
+  readonly participants: number;
+
+  /**
+   * Round 1: get this participant's broadcast message.
+   * @returns {FrostDkgRound1Message} The polynomial commitment and proof of knowledge of this participant.
+   */
+  round1Message(): FrostDkgRound1Message;
+
+  /**
+   * Round 1: receive the broadcast message of another participant.
+   * @param {FrostDkgRound1Message} message The round 1 message.
+   * @throws {FrostError} if the sender is not another participant, the commitment is invalid or conflicts with a
+   * commitment already received, or the proof of knowledge does not verify (type
+   * INVALID_PROOF_OF_KNOWLEDGE_ERROR).
+   */
+  receiveRound1(message: FrostDkgRound1Message): void;
+
+  /**
+   * Round 2: get the secret share of every other participant, each to be sent to its recipient only.
+   * @returns {FrostDkgRound2Message[]} The round 2 messages.
+   * @throws {FrostError} with type FROST_DKG_ERROR if a round 1 message is missing or the key generation is
+   * finalized.
+   */
+  round2Messages(): FrostDkgRound2Message[];
+
+  /**
+   * Round 2: receive and verify the secret share another participant sent to this one.
+   * @param {FrostDkgRound2Message} message The round 2 message.
+   * @throws {FrostError} if the sender is not another participant, the message is for another recipient, or the
+   * secret share does not match the commitment of its sender (type INVALID_SHARE_ERROR).
+   */
+  receiveRound2(message: FrostDkgRound2Message): void;
+
+  /**
+   * Compute this participant's key share, erasing its polynomial and the secret shares it received.
+   * @returns {FrostKeyShare} The key share.
+   * @throws {FrostError} with type FROST_DKG_ERROR if a round message is missing.
+   */
+  finalize(): FrostKeyShare;
+}
+
+/**
+ * Interface representing one participant in one FROST signing session.
+ * @export
+ * @interface IFrostSession
+ * @type {IFrostSession}
+ */
+export interface IFrostSession {
+  /** @type {number} @readonly The identifier of this participant */
+  readonly identifier: number;
+
+  /** @type {number} @readonly The number of participants needed to sign */
+  readonly threshold: number;
+
+  /** @type {PublicKeyBytes} @readonly The x-only group public key */
+  readonly groupPublicKey: PublicKeyBytes;
+
+  /**
+   * Round 1: get this participant's commitment message, generating the nonces on the first call.
+   * @returns {FrostCommitmentMessage} The identifier and hex nonce commitments of this participant.
+   * @throws {FrostError} with type FROST_SESSION_ERROR if the session has signed.
+   */
+  commitmentMessage(): FrostCommitmentMessage;
+
+  /**
+   * Round 1: receive the commitment message of another signer.
+   * @param {FrostCommitmentMessage} message The commitment message.
+   * @throws {FrostError} if the sender is not another participant, the commitment is invalid or conflicts with a
+   * commitment already received, or the session has signed.
+   */
+  receiveCommitment(message: FrostCommitmentMessage): void;
+
+  /**
+   * Round 2: sign a message with this participant's nonces, which are then erased. The signing set is every
+   * participant whose commitment was received.
+   * @param {HashBytes} message The message, e.g. the hash of a proof.
+   * @returns {FrostSignatureShareMessage} The identifier and hex signature share of this participant.
+   * @throws {FrostError} with type FROST_SESSION_ERROR if this participant has no nonces or has signed, or the
+   * signing set is below the threshold.
+   */
+  sign(message: HashBytes): FrostSignatureShareMessage;
+
+  /**
+   * Round 2: receive and verify the signature share message of another signer.
+   * @param {FrostSignatureShareMessage} message The signature share message.
+   * @throws {FrostError} if the sender is not another signer of the signing set, this participant has not signed,
+   * or the signature share is invalid (type INVALID_SIGNATURE_SHARE_ERROR, naming the participant).
+   */
+  receiveSignatureShare(message: FrostSignatureShareMessage): void;
+
+  /**
+   * Aggregate the signature shares into the BIP340 signature of the group public key.
+   * @returns {SignatureBytes} The 64-byte BIP340 signature.
+   * @throws {FrostError} with type FROST_SESSION_ERROR if this participant has not signed or a signature share is
+   * missing.
+   */
+  signature(): SignatureBytes;
+}
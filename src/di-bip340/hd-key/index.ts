@@ -0,0 +1,367 @@
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { hmac } from '@noble/hashes/hmac';
+import { ripemd160 } from '@noble/hashes/ripemd160';
+import { sha256 } from '@noble/hashes/sha256';
+import { sha512 } from '@noble/hashes/sha512';
+import { createBase58check } from '@scure/base';
+import { DerivationPath, HDKeyParams, HDKeyVersions } from '../../types/hd-key.js';
+import { Bytes, CompressedPublicKeyBytes, PrivateKeyBytes } from '../../types/shared.js';
+import { HDKeyError } from '../../utils/error.js';
+import { IHDKey } from './interface.js';
+
+const { ProjectivePoint: Point, CURVE: { n } } = secp256k1;
+const base58check = createBase58check(sha256);
+
+/** @type {number} The offset of hardened child indexes */
+const HARDENED_OFFSET = 0x80000000;
+
+/** @type {Bytes} The HMAC-SHA512 key deriving the master key from a seed */
+const MASTER_SECRET = Buffer.from('Bitcoin seed', 'utf-8');
+
+/** Error types thrown by HD keys */
+const INVALID_SEED_ERROR = 'INVALID_SEED_ERROR';
+const INVALID_EXTENDED_KEY_ERROR = 'INVALID_EXTENDED_KEY_ERROR';
+const INVALID_PATH_ERROR = 'INVALID_PATH_ERROR';
+const INVALID_DERIVATION_ERROR = 'INVALID_DERIVATION_ERROR';
+
+/**
+ * Implements a {@link https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki | BIP32} hierarchical
+ * deterministic key: a secp256k1 key pair, or public key only, with the chain code and position needed to derive
+ * its children and to serialize it as an extended key (xprv/xpub).
+ * @export
+ * @class HDKey
+ * @type {HDKey}
+ * @implements {IHDKey}
+ */
+export class HDKey implements IHDKey {
+  /** @type {HDKeyVersions} The version bytes of the extended keys */
+  public readonly versions: HDKeyVersions;
+
+  /** @type {number} The depth of the key: 0 for the master key */
+  public readonly depth: number;
+
+  /** @type {number} The child index of the key, hardened indexes included the offset: 0 for the master key */
+  public readonly index: number;
+
+  /** @type {number} The fingerprint of the parent key: 0 for the master key */
+  public readonly parentFingerprint: number;
+
+  /** @type {Bytes} The 32-byte chain code */
+  public readonly chainCode: Bytes;
+
+  /** @type {CompressedPublicKeyBytes} The compressed public key */
+  public readonly publicKey: CompressedPublicKeyBytes;
+
+  /** @type {PrivateKeyBytes} The private key (optional) */
+  private readonly _privateKey?: PrivateKeyBytes;
+
+  /**
+   * Creates an instance of HDKey.
+   * @constructor
+   * @param {HDKeyParams} params The parameters to create the key
+   * @param {HDKeyVersions} params.versions The version bytes of the extended keys (optional, defaults to mainnet)
+   * @param {number} params.depth The depth of the key (optional, defaults to 0)
+   * @param {number} params.index The child index of the key (optional, defaults to 0)
+   * @param {number} params.parentFingerprint The fingerprint of the parent key (optional, defaults to 0)
+   * @param {Bytes} params.chainCode The 32-byte chain code
+   * @param {PrivateKeyBytes} params.privateKey The private key (optional, required if no publicKey)
+   * @param {CompressedPublicKeyBytes} params.publicKey The compressed public key (optional, required if no
+   * privateKey)
+   * @throws {HDKeyError} with type INVALID_EXTENDED_KEY_ERROR if a parameter is invalid
+   */
+  constructor({
+    versions = HDKeyUtils.MAINNET_VERSIONS,
+    depth = 0,
+    index = 0,
+    parentFingerprint = 0,
+    chainCode,
+    privateKey,
+    publicKey
+  }: HDKeyParams) {
+    // Check the position of the key: a master key has no parent and no index
+    if (!this.isUint(depth, 0xff) || !this.isUint(index, 0xffffffff) || !this.isUint(parentFingerprint, 0xffffffff)) {
+      throw new HDKeyError('Invalid depth, index or parent fingerprint', INVALID_EXTENDED_KEY_ERROR);
+    }
+    if (depth === 0 && (index !== 0 || parentFingerprint !== 0)) {
+      throw new HDKeyError('Invalid master key: non-zero index or parent fingerprint', INVALID_EXTENDED_KEY_ERROR);
+    }
+    if (chainCode.length !== 32) {
+      throw new HDKeyError(`Invalid chain code: ${chainCode.length} bytes`, INVALID_EXTENDED_KEY_ERROR);
+    }
+
+    // Get the public key from the private key, or check the public key
+    if (privateKey) {
+      const d = BigInt(`0x${Buffer.from(privateKey).toString('hex') || '0'}`);
+      if (privateKey.length !== 32 || d === 0n || d >= n) {
+        throw new HDKeyError('Invalid private key: not in [1, n)', INVALID_EXTENDED_KEY_ERROR);
+      }
+      this._privateKey = Uint8Array.from(privateKey);
+      this.publicKey = Point.BASE.multiply(d).toRawBytes(true);
+    } else if (publicKey) {
+      this.publicKey = HDKeyUtils.point(publicKey).toRawBytes(true);
+    } else {
+      throw new HDKeyError('Invalid arguments: pass "privateKey" or "publicKey"', INVALID_EXTENDED_KEY_ERROR);
+    }
+
+    this.versions = versions;
+    this.depth = depth;
+    this.index = index;
+    this.parentFingerprint = parentFingerprint;
+    this.chainCode = Uint8Array.from(chainCode);
+  }
+
+  /** @type {PrivateKeyBytes | undefined} A copy of the private key, or undefined for a public-only key */
+  get privateKey(): PrivateKeyBytes | undefined {
+    return this._privateKey ? Uint8Array.from(this._privateKey) : undefined;
+  }
+
+  /** @type {Bytes} The key identifier: the HASH160 of the compressed public key */
+  get identifier(): Bytes {
+    return ripemd160(sha256(this.publicKey));
+  }
+
+  /** @type {number} The fingerprint of the key: the first 4 bytes of its identifier */
+  get fingerprint(): number {
+    return Buffer.from(this.identifier).readUInt32BE(0);
+  }
+
+  /** @type {string} The base58check private extended key (xprv) */
+  get privateExtendedKey(): string {
+    if (!this._privateKey) {
+      throw new HDKeyError('Cannot serialize a private extended key: public-only key', INVALID_EXTENDED_KEY_ERROR);
+    }
+    return this.serialize(this.versions.private, Buffer.concat([Uint8Array.of(0), this._privateKey]));
+  }
+
+  /** @type {string} The base58check public extended key (xpub) */
+  get publicExtendedKey(): string {
+    return this.serialize(this.versions.public, this.publicKey);
+  }
+
+  /** @see IHDKey.derive */
+  public derive(path: string): HDKey {
+    const { absolute, indexes } = HDKeyUtils.parsePath(path);
+    if (absolute && this.depth !== 0) {
+      throw new HDKeyError(`Cannot derive absolute path ${path} from a key at depth ${this.depth}`, INVALID_PATH_ERROR);
+    }
+    return indexes.reduce<HDKey>((key, index) => key.deriveChild(index), this);
+  }
+
+  /** @see IHDKey.deriveChild */
+  public deriveChild(index: number): HDKey {
+    if (!this.isUint(index, 0xffffffff)) {
+      throw new HDKeyError(`Invalid child index ${index}`, INVALID_PATH_ERROR);
+    }
+    if (this.depth === 0xff) {
+      throw new HDKeyError('Cannot derive a child: maximum depth reached', INVALID_DERIVATION_ERROR);
+    }
+
+    // Hash the parent key and the index with the chain code: hardened children hash the private key
+    const hardened = index >= HARDENED_OFFSET;
+    if (hardened && !this._privateKey) {
+      throw new HDKeyError(`Cannot derive hardened child ${index} from a public-only key`, INVALID_DERIVATION_ERROR);
+    }
+    const data = hardened
+      ? Buffer.concat([Uint8Array.of(0), this._privateKey!, this.uint32(index)])
+      : Buffer.concat([this.publicKey, this.uint32(index)]);
+    const I = hmac(sha512, this.chainCode, data);
+    const IL = BigInt(`0x${Buffer.from(I.subarray(0, 32)).toString('hex')}`);
+    const chainCode = I.subarray(32);
+
+    // The child is invalid if IL is not below n or the child key is zero: BIP32 moves on to the next index
+    const invalid = `Invalid child ${index}: derive the next index instead`;
+    if (IL >= n) throw new HDKeyError(invalid, INVALID_DERIVATION_ERROR);
+    const position = {
+      versions          : this.versions,
+      depth             : this.depth + 1,
+      index,
+      parentFingerprint : this.fingerprint,
+      chainCode
+    };
+
+    // Add IL to the private key, or IL⋅G to the public key
+    if (this._privateKey) {
+      const child = (IL + BigInt(`0x${Buffer.from(this._privateKey).toString('hex')}`)) % n;
+      if (child === 0n) throw new HDKeyError(invalid, INVALID_DERIVATION_ERROR);
+      return new HDKey({ ...position, privateKey: Buffer.from(child.toString(16).padStart(64, '0'), 'hex') });
+    }
+    const child = (IL === 0n ? Point.ZERO : Point.BASE.multiply(IL)).add(HDKeyUtils.point(this.publicKey));
+    if (child.equals(Point.ZERO)) throw new HDKeyError(invalid, INVALID_DERIVATION_ERROR);
+    return new HDKey({ ...position, publicKey: child.toRawBytes(true) });
+  }
+
+  /** @see IHDKey.neuter */
+  public neuter(): HDKey {
+    const { versions, depth, index, parentFingerprint, chainCode, publicKey } = this;
+    return new HDKey({ versions, depth, index, parentFingerprint, chainCode, publicKey });
+  }
+
+  /**
+   * Serialize the key as a base58check extended key.
+   * @private
+   * @param {number} version The version bytes.
+   * @param {Bytes} key The 33-byte key data: 0x00 and the private key, or the compressed public key.
+   * @returns {string} The extended key.
+   */
+  private serialize(version: number, key: Bytes): string {
+    return base58check.encode(Buffer.concat([
+      this.uint32(version),
+      Uint8Array.of(this.depth),
+      this.uint32(this.parentFingerprint),
+      this.uint32(this.index),
+      this.chainCode,
+      key
+    ]));
+  }
+
+  /**
+   * Encode a 32-bit unsigned integer as big-endian bytes.
+   * @private
+   * @param {number} value The integer.
+   * @returns {Bytes} The 4-byte encoding.
+   */
+  private uint32(value: number): Bytes {
+    const bytes = Buffer.alloc(4);
+    bytes.writeUInt32BE(value);
+    return bytes;
+  }
+
+  /**
+   * Check a value is an unsigned integer up to a maximum.
+   * @private
+   * @param {number} value The value.
+   * @param {number} max The maximum.
+   * @returns {boolean} Whether the value is an integer in [0, max].
+   */
+  private isUint(value: number, max: number): boolean {
+    return Number.isInteger(value) && value >= 0 && value <= max;
+  }
+}
+
+/**
+ * A utility class for creating `HDKey` instances from seeds and extended keys, and parsing derivation paths.
+ * @export
+ * @class HDKeyUtils
+ * @type {HDKeyUtils}
+ */
+export class HDKeyUtils {
+  /**
+   * The version bytes of mainnet extended keys (xprv/xpub)
+   * @static
+   * @type {HDKeyVersions}
+   */
+  public static readonly MAINNET_VERSIONS: HDKeyVersions = { private: 0x0488ade4, public: 0x0488b21e };
+
+  /**
+   * The version bytes of testnet extended keys (tprv/tpub)
+   * @static
+   * @type {HDKeyVersions}
+   */
+  public static readonly TESTNET_VERSIONS: HDKeyVersions = { private: 0x04358394, public: 0x043587cf };
+
+  /**
+   * Derive the master key from a seed.
+   * @static
+   * @param {Bytes} seed The seed, 16 to 64 bytes, e.g. from a BIP39 mnemonic.
+   * @param {HDKeyVersions} versions The version bytes of the extended keys (optional, defaults to mainnet).
+   * @returns {HDKey} The master key.
+   * @throws {HDKeyError} with type INVALID_SEED_ERROR if the seed length is invalid or the seed gives an invalid
+   * master key.
+   */
+  public static fromMasterSeed(seed: Bytes, versions: HDKeyVersions = this.MAINNET_VERSIONS): HDKey {
+    if (seed.length < 16 || seed.length > 64) {
+      throw new HDKeyError(`Invalid seed: ${seed.length} bytes, expected 16 to 64`, INVALID_SEED_ERROR);
+    }
+    const I = hmac(sha512, MASTER_SECRET, seed);
+    try {
+      return new HDKey({ versions, chainCode: I.subarray(32), privateKey: I.subarray(0, 32) });
+    } catch {
+      throw new HDKeyError('Invalid seed: the master key is invalid', INVALID_SEED_ERROR);
+    }
+  }
+
+  /**
+   * Parse a base58check extended key (xprv or xpub).
+   * @static
+   * @param {string} extendedKey The extended key.
+   * @param {HDKeyVersions} versions The expected version bytes (optional, defaults to mainnet).
+   * @returns {HDKey} The key, public-only for an xpub.
+   * @throws {HDKeyError} with type INVALID_EXTENDED_KEY_ERROR if the extended key is malformed, has an unknown
+   * version, a key that does not match its version or an invalid key.
+   */
+  public static fromExtendedKey(extendedKey: string, versions: HDKeyVersions = this.MAINNET_VERSIONS): HDKey {
+    // Decode the base58check extended key
+    let bytes: Buffer;
+    try {
+      bytes = Buffer.from(base58check.decode(extendedKey));
+    } catch (error: any) {
+      throw new HDKeyError(`Invalid extended key: ${error.message}`, INVALID_EXTENDED_KEY_ERROR);
+    }
+    if (bytes.length !== 78) {
+      throw new HDKeyError(`Invalid extended key: ${bytes.length} bytes, expected 78`, INVALID_EXTENDED_KEY_ERROR);
+    }
+
+    // Read the fields and check the key data matches the version
+    const version = bytes.readUInt32BE(0);
+    const position = {
+      versions,
+      depth             : bytes[4],
+      parentFingerprint : bytes.readUInt32BE(5),
+      index             : bytes.readUInt32BE(9),
+      chainCode         : bytes.subarray(13, 45)
+    };
+    const key = bytes.subarray(45);
+    if (version === versions.private) {
+      if (key[0] !== 0) {
+        throw new HDKeyError('Invalid extended key: private key not prefixed with 0x00', INVALID_EXTENDED_KEY_ERROR);
+      }
+      return new HDKey({ ...position, privateKey: key.subarray(1) });
+    }
+    if (version === versions.public) {
+      return new HDKey({ ...position, publicKey: key });
+    }
+    throw new HDKeyError(`Invalid extended key: unknown version 0x${version.toString(16)}`, INVALID_EXTENDED_KEY_ERROR);
+  }
+
+  /**
+   * Parse a derivation path such as `m/86'/0'/0'/0/1`: absolute from the master key if it starts with `m`,
+   * relative otherwise. Hardened indexes are marked with `'`, `h` or `H`.
+   * @static
+   * @param {string} path The derivation path.
+   * @returns {DerivationPath} Whether the path is absolute and its child indexes, hardened indexes included the
+   * offset.
+   * @throws {HDKeyError} with type INVALID_PATH_ERROR if the path is malformed or an index is out of range.
+   */
+  public static parsePath(path: string): DerivationPath {
+    const segments = path.split('/');
+    const absolute = segments[0] === 'm';
+    const indexes = (absolute ? segments.slice(1) : segments).map(segment => {
+      const match = /^(\d+)(['hH])?$/.exec(segment);
+      const index = match ? Number(match[1]) : NaN;
+      if (!match || index >= HARDENED_OFFSET) {
+        throw new HDKeyError(`Invalid derivation path: ${path}`, INVALID_PATH_ERROR);
+      }
+      return match[2] ? index + HARDENED_OFFSET : index;
+    });
+    return { absolute, indexes };
+  }
+
+  /**
+   * Decode a compressed public key.
+   * @static
+   * @param {CompressedPublicKeyBytes} publicKey The 33-byte compressed public key.
+   * @returns {ProjPointType<bigint>} The point.
+   * @throws {HDKeyError} with type INVALID_EXTENDED_KEY_ERROR if the bytes are not a compressed point.
+   */
+  public static point(publicKey: CompressedPublicKeyBytes): ProjPointType<bigint> {
+    if (publicKey.length !== 33 || (publicKey[0] !== 0x02 && publicKey[0] !== 0x03)) {
+      throw new HDKeyError('Invalid public key: not a compressed point', INVALID_EXTENDED_KEY_ERROR);
+    }
+    try {
+      return Point.fromHex(publicKey);
+    } catch {
+      throw new HDKeyError('Invalid public key: not a point on secp256k1', INVALID_EXTENDED_KEY_ERROR);
+    }
+  }
+}
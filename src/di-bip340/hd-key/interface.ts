@@ -0,0 +1,71 @@
+import { HDKeyVersions } from '../../types/hd-key.js';
+import { Bytes, CompressedPublicKeyBytes, PrivateKeyBytes } from '../../types/shared.js';
+import { HDKey } from './index.js';
+
+/**
+ * Interface representing a BIP32 hierarchical deterministic key.
+ * @export
+ * @interface IHDKey
+ * @type {IHDKey}
+ */
+export interface IHDKey {
+  /** @type {HDKeyVersions} @readonly The version bytes of the extended keys */
+  readonly versions: HDKeyVersions;
+
+  /** @type {number} @readonly The depth of the key: 0 for the master key */
+  readonly depth: number;
+
+  /** @type {number} @readonly The child index of the key, hardened indexes included the offset */
+  readonly index: number;
+
+  /** @type {number} @readonly The fingerprint of the parent key: 0 for the master key */
+  readonly parentFingerprint: number;
+
+  /** @type {Bytes} @readonly The 32-byte chain code */
+  readonly chainCode: Bytes;
+
+  /** @type {CompressedPublicKeyBytes} @readonly The compressed public key */
+  readonly publicKey: CompressedPublicKeyBytes;
+
+  /** @type {PrivateKeyBytes | undefined} @readonly A copy of the private key, or undefined for a public-only key */
+  readonly privateKey: PrivateKeyBytes | undefined;
+
+  /** @type {Bytes} @readonly The key identifier: the HASH160 of the compressed public key */
+  readonly identifier: Bytes;
+
+  /** @type {number} @readonly The fingerprint of the key: the first 4 bytes of its identifier */
+  readonly fingerprint: number;
+
+  /**
+   * @type {string} @readonly The base58check private extended key (xprv)
+   * @throws {HDKeyError} with type INVALID_EXTENDED_KEY_ERROR for a public-only key
+   */
+  readonly privateExtendedKey: string;
+
+  /** @type {string} @readonly The base58check public extended key (xpub) */
+  readonly publicExtendedKey: string;
+
+  /**
+   * Derive a descendant key along a path: absolute (`m/...`) from a master key, or relative to this key.
+   * @param {string} path The derivation path, e.g. `m/86'/0'/0'/0/1` or `0/1`.
+   * @returns {HDKey} The derived key, public-only if this key is.
+   * @throws {HDKeyError} if the path is malformed, absolute from a non-master key, or hardened from a public-only
+   * key, or a child is invalid.
+   */
+  derive(path: string): HDKey;
+
+  /**
+   * Derive a child key (CKDpriv, or CKDpub for a public-only key).
+   * @param {number} index The child index: hardened from 2^31.
+   * @returns {HDKey} The child key.
+   * @throws {HDKeyError} with type INVALID_DERIVATION_ERROR if the index is hardened and this key is public-only,
+   * or the child is invalid and the next index must be used.
+   */
+  deriveChild(index: number): HDKey;
+
+  /**
+   * Get the public-only key of this key.
+   * @returns {HDKey} The key without its private key.
+   */
+  neuter(): HDKey;
+}
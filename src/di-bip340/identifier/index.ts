@@ -0,0 +1,134 @@
+import { bech32m } from '@scure/base';
+import { EncodeIdentifierParams, ParsedBtc1Identifier } from '../../types/identifier.js';
+import { Btc1Network } from '../../types/shared.js';
+import { IdentifierError } from '../../utils/error.js';
+import { Multikey, MultikeyUtils } from '../multikey/index.js';
+
+/** @type {string} The bech32m human-readable part of deterministic (key) identifiers */
+const DETERMINISTIC_HRP = 'k';
+
+/** @type {string} The bech32m human-readable part of external (document) identifiers */
+const EXTERNAL_HRP = 'x';
+
+/** @type {Btc1Network[]} The networks a did:btc1 identifier can target */
+const NETWORKS: Btc1Network[] = ['mainnet', 'signet', 'regtest', 'testnet3', 'testnet4', 'mutinynet'];
+
+/**
+ * Encodes and decodes deterministic did:btc1 identifiers, whose genesis bytes are a secp256k1 compressed
+ * public key. Identifiers have the form `did:btc1:[version:][network:]k1<bech32m>`, where the version is
+ * omitted when it is 1 and the network is omitted when it is mainnet.
+ * @export
+ * @class Btc1IdentifierUtils
+ * @type {Btc1IdentifierUtils}
+ */
+export class Btc1IdentifierUtils {
+  /**
+   * Encode the compressed public key of a Multikey into a deterministic did:btc1 identifier.
+   * @static
+   * @param {EncodeIdentifierParams} params The parameters to encode the identifier
+   * @param {Multikey} params.multikey The multikey whose public key is the genesis key
+   * @param {number} params.version The did:btc1 version (optional, defaults to 1)
+   * @param {Btc1Network} params.network The bitcoin network (optional, defaults to mainnet)
+   * @returns {string} The did:btc1 identifier
+   * @throws {IdentifierError} if the version or network is invalid
+   */
+  public static encode({ multikey, version = 1, network = 'mainnet' }: EncodeIdentifierParams): string {
+    // Check the version is a positive integer
+    if (!Number.isInteger(version) || version < 1) {
+      throw new IdentifierError(`Invalid version: ${version}`, 'INVALID_VERSION_ERROR');
+    }
+
+    // Check the network is known
+    if (!NETWORKS.includes(network)) {
+      throw new IdentifierError(`Invalid network: ${network}`, 'INVALID_NETWORK_ERROR');
+    }
+
+    // Encode the compressed public key with bech32m
+    const id = bech32m.encode(DETERMINISTIC_HRP, bech32m.toWords(multikey.publicKey.compressed));
+
+    // Join the method, the non-default version and network, and the id
+    const segments = ['did', 'btc1'];
+    if (version !== 1) segments.push(`${version}`);
+    if (network !== 'mainnet') segments.push(network);
+    return [...segments, id].join(':');
+  }
+
+  /**
+   * Parse a deterministic did:btc1 identifier into its version, network and genesis bytes.
+   * @static
+   * @param {string} identifier The did:btc1 identifier
+   * @returns {ParsedBtc1Identifier} The version, network and compressed public key of the identifier
+   * @throws {IdentifierError} if the identifier is malformed, external or has an invalid checksum
+   */
+  public static parse(identifier: string): ParsedBtc1Identifier {
+    // Split the identifier and check:
+    // if the scheme and method are not did:btc1, throw an error
+    const [scheme, method, ...rest] = identifier.split(':');
+    if (scheme !== 'did' || method !== 'btc1' || rest.length < 1 || rest.length > 3) {
+      throw new IdentifierError(`Invalid did:btc1 identifier: ${identifier}`, 'INVALID_DID_ERROR');
+    }
+
+    // The id is the last segment; a numeric segment before it is the version, any other is the network
+    const id = rest.pop()!;
+    let version = 1;
+    let network: Btc1Network = 'mainnet';
+    if (rest.length && /^\d+$/.test(rest[0])) {
+      version = Number(rest.shift());
+    }
+    if (rest.length) {
+      network = rest.shift() as Btc1Network;
+    }
+
+    // Check the remaining segments are valid
+    if (rest.length || version < 1) {
+      throw new IdentifierError(`Invalid did:btc1 identifier: ${identifier}`, 'INVALID_DID_ERROR');
+    }
+    if (!NETWORKS.includes(network)) {
+      throw new IdentifierError(`Invalid network: ${network}`, 'INVALID_NETWORK_ERROR');
+    }
+
+    // Decode the bech32m id, checking its checksum
+    let decoded;
+    try {
+      decoded = bech32m.decode(id as `${string}1${string}`);
+    } catch (error: any) {
+      throw new IdentifierError(`Invalid bech32m id: ${error.message}`, 'INVALID_DID_ERROR');
+    }
+
+    // Check the id is deterministic: external ids commit to a DID document, not a key
+    if (decoded.prefix === EXTERNAL_HRP) {
+      throw new IdentifierError(`Unsupported external identifier: ${identifier}`, 'UNSUPPORTED_ID_TYPE_ERROR');
+    }
+    if (decoded.prefix !== DETERMINISTIC_HRP) {
+      throw new IdentifierError(`Invalid id type: ${decoded.prefix}`, 'INVALID_DID_ERROR');
+    }
+
+    // Check the genesis bytes are a 33 byte compressed public key
+    const genesisBytes = bech32m.fromWords(decoded.words);
+    if (genesisBytes.length !== 33) {
+      throw new IdentifierError(`Invalid genesis bytes length: ${genesisBytes.length}`, 'INVALID_DID_ERROR');
+    }
+
+    return { version, network, genesisBytes };
+  }
+
+  /**
+   * Decode a deterministic did:btc1 identifier into a public-only Multikey with id `#initialKey`,
+   * controlled by the identifier.
+   * @static
+   * @param {string} identifier The did:btc1 identifier
+   * @returns {Multikey} The public-only multikey
+   * @throws {IdentifierError} if the identifier is invalid or its genesis bytes are not a secp256k1 point
+   */
+  public static decode(identifier: string): Multikey {
+    // Parse the identifier to get the genesis bytes
+    const { genesisBytes } = this.parse(identifier);
+
+    // Return a new public-only Multikey instance
+    try {
+      return MultikeyUtils.fromPublicKey({ id: '#initialKey', controller: identifier, publicKeyBytes: genesisBytes });
+    } catch (error: any) {
+      throw new IdentifierError(`Invalid genesis public key: ${error.message}`, 'INVALID_DID_ERROR');
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { sha512 } from '@noble/hashes/sha512';
+import { randomBytes } from 'crypto';
+import { MnemonicStrength } from '../../types/mnemonic.js';
+import { Bytes } from '../../types/shared.js';
+import { MnemonicError } from '../../utils/error.js';
+import { ENGLISH_WORDLIST } from './wordlist.js';
+
+/** @type {Map<string, number>} The index of each word of the wordlist */
+const WORD_INDEXES = new Map<string, number>(ENGLISH_WORDLIST.map((word, index) => [word, index]));
+
+/** @type {number[]} The valid entropy lengths in bits */
+const STRENGTHS: number[] = [128, 160, 192, 224, 256];
+
+/** @type {number} The PBKDF2 iterations deriving a seed from a mnemonic */
+const SEED_ITERATIONS = 2048;
+
+/** Error types thrown by mnemonics */
+const INVALID_ENTROPY_ERROR = 'INVALID_ENTROPY_ERROR';
+const INVALID_MNEMONIC_ERROR = 'INVALID_MNEMONIC_ERROR';
+const INVALID_CHECKSUM_ERROR = 'INVALID_CHECKSUM_ERROR';
+
+/**
+ * A utility class for {@link https://github.com/bitcoin/bips/blob/master/bip-0039.mediawiki | BIP39} mnemonics
+ * with the English wordlist: generating them, converting them to and from their entropy, and deriving the BIP32
+ * seed from them to back up and restore keys.
+ * @export
+ * @class MnemonicUtils
+ * @type {MnemonicUtils}
+ */
+export class MnemonicUtils {
+  /**
+   * The default derivation path of a key restored from a mnemonic: the first BIP86 key of the first account
+   * @static
+   * @type {string}
+   */
+  public static readonly DEFAULT_PATH: string = `m/86'/0'/0'/0/0`;
+
+  /**
+   * Generate a mnemonic from random entropy.
+   * @static
+   * @param {MnemonicStrength} strength The entropy length in bits (optional, defaults to 128, i.e. 12 words).
+   * @returns {string} The mnemonic, words separated by single spaces.
+   * @throws {MnemonicError} with type INVALID_ENTROPY_ERROR if the strength is invalid.
+   */
+  public static generateMnemonic(strength: MnemonicStrength = 128): string {
+    if (!STRENGTHS.includes(strength)) {
+      throw new MnemonicError(`Invalid strength: expected one of ${STRENGTHS.join(', ')}`, INVALID_ENTROPY_ERROR);
+    }
+    return this.entropyToMnemonic(randomBytes(strength / 8));
+  }
+
+  /**
+   * Convert entropy to its mnemonic: the entropy and its SHA-256 checksum split into 11-bit word indexes.
+   * @static
+   * @param {Bytes} entropy The entropy, 16, 20, 24, 28 or 32 bytes.
+   * @returns {string} The mnemonic, words separated by single spaces.
+   * @throws {MnemonicError} with type INVALID_ENTROPY_ERROR if the entropy length is invalid.
+   */
+  public static entropyToMnemonic(entropy: Bytes): string {
+    // Check the entropy length
+    if (!STRENGTHS.includes(entropy.length * 8)) {
+      const message = `Invalid entropy: expected 16, 20, 24, 28 or 32 bytes, got ${entropy.length}`;
+      throw new MnemonicError(message, INVALID_ENTROPY_ERROR);
+    }
+
+    // Append the checksum, the first (entropy bits / 32) bits of the hash, to the entropy bits
+    const bits = this.toBits(entropy) + this.toBits(sha256(entropy)).slice(0, entropy.length / 4);
+
+    // Map each 11 bits to a word
+    return bits.match(/.{11}/g)!.map(index => ENGLISH_WORDLIST[parseInt(index, 2)]).join(' ');
+  }
+
+  /**
+   * Convert a mnemonic to its entropy, checking its words and checksum.
+   * @static
+   * @param {string} mnemonic The mnemonic.
+   * @returns {Bytes} The entropy.
+   * @throws {MnemonicError} with type INVALID_MNEMONIC_ERROR if the mnemonic has an invalid number of words or a
+   * word not in the wordlist, or INVALID_CHECKSUM_ERROR if its checksum does not match its entropy.
+   */
+  public static mnemonicToEntropy(mnemonic: string): Bytes {
+    // Check the number of words
+    const words = this.normalize(mnemonic).split(' ');
+    if (![12, 15, 18, 21, 24].includes(words.length)) {
+      const message = `Invalid mnemonic: expected 12, 15, 18, 21 or 24 words, got ${words.length}`;
+      throw new MnemonicError(message, INVALID_MNEMONIC_ERROR);
+    }
+
+    // Map each word to its 11-bit index
+    const bits = words.map(word => {
+      const index = WORD_INDEXES.get(word);
+      if (index === undefined) {
+        throw new MnemonicError(`Invalid mnemonic: unknown word "${word}"`, INVALID_MNEMONIC_ERROR);
+      }
+      return index.toString(2).padStart(11, '0');
+    }).join('');
+
+    // Split the entropy from the checksum and check the checksum
+    const checksumLength = bits.length / 33;
+    const entropy = new Uint8Array(bits.slice(0, -checksumLength).match(/.{8}/g)!.map(byte => parseInt(byte, 2)));
+    if (this.toBits(sha256(entropy)).slice(0, checksumLength) !== bits.slice(-checksumLength)) {
+      throw new MnemonicError('Invalid mnemonic: checksum mismatch', INVALID_CHECKSUM_ERROR);
+    }
+
+    return entropy;
+  }
+
+  /**
+   * Check a mnemonic has valid words and checksum.
+   * @static
+   * @param {string} mnemonic The mnemonic.
+   * @returns {boolean} Whether the mnemonic is valid.
+   */
+  public static validateMnemonic(mnemonic: string): boolean {
+    try {
+      this.mnemonicToEntropy(mnemonic);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Derive the 64-byte BIP32 seed of a mnemonic: PBKDF2-HMAC-SHA512 of the NFKD normalized mnemonic, salted with
+   * "mnemonic" and the passphrase. The mnemonic is validated first; any passphrase gives a valid seed, so a wrong
+   * passphrase restores different keys.
+   * @static
+   * @param {string} mnemonic The mnemonic.
+   * @param {string} passphrase The passphrase (optional, defaults to empty).
+   * @returns {Bytes} The seed.
+   * @throws {MnemonicError} if the mnemonic is invalid; see `mnemonicToEntropy`.
+   */
+  public static mnemonicToSeed(mnemonic: string, passphrase: string = ''): Bytes {
+    this.mnemonicToEntropy(mnemonic);
+    const password = Buffer.from(this.normalize(mnemonic), 'utf-8');
+    const salt = Buffer.from(`mnemonic${passphrase}`.normalize('NFKD'), 'utf-8');
+    return pbkdf2(sha512, password, salt, { c: SEED_ITERATIONS, dkLen: 64 });
+  }
+
+  /**
+   * Normalize a mnemonic: NFKD, trimmed, with words separated by single spaces.
+   * @private
+   * @static
+   * @param {string} mnemonic The mnemonic.
+   * @returns {string} The normalized mnemonic.
+   */
+  private static normalize(mnemonic: string): string {
+    return mnemonic.normalize('NFKD').trim().split(/\s+/).join(' ');
+  }
+
+  /**
+   * Convert bytes to a string of bits.
+   * @private
+   * @static
+   * @param {Bytes} bytes The bytes.
+   * @returns {string} The bits, most significant first.
+   */
+  private static toBits(bytes: Bytes): string {
+    return Array.from(bytes, byte => byte.toString(2).padStart(8, '0')).join('');
+  }
+}
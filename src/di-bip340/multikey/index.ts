@@ -1,10 +1,44 @@
 import { KeyPair, PrivateKey, PublicKey } from '@did-btc1/bip340-key-pair';
-import { schnorr } from '@noble/curves/secp256k1';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
 import { DidVerificationMethod } from '@web5/dids';
 import { randomBytes } from 'crypto';
-import { Hex, SignatureBytes } from '../../types/shared.js';
+import { base58btc } from 'multiformats/bases/base58';
+import { Bytes, HashBytes, Hex, SignatureBytes } from '../../types/shared.js';
 import { MultikeyError } from '../../utils/error.js';
-import { FromPrivateKey, FromPublicKey, IMultikey, MultikeyJSON, MultikeyParams } from './interface.js';
+import { HDKeyUtils } from '../hd-key/index.js';
+import { MnemonicUtils } from '../mnemonic/index.js';
+import {
+  AuxRandSource,
+  DerivationContext,
+  FromExtendedKey,
+  FromHDKey,
+  FromJwk,
+  FromMnemonic,
+  FromPrivateKey,
+  FromPublicKey,
+  FromSecretKeyMultibase,
+  FromSeed,
+  IMultikey,
+  MultikeyJSON,
+  MultikeyJwk,
+  MultikeyParams,
+  MultikeyVerificationMethod,
+  TemplateValue,
+  VerificationMethodType
+} from './interface.js';
+import { ISigner } from '../signer/interface.js';
+
+/**
+ * Supported publicKeyMultibase multicodec headers (hex) and the length of the key that follows them:
+ * secp256k1-pub (0xe701) with a compressed key and the BIP340 Multikey header (0xe14a) with an x-only key
+ */
+const MULTICODEC_KEY_LENGTHS = new Map<string, number>([['e701', 33], ['e14a', 32]]);
+
+/** The secp256k1-priv (0x1301) multicodec header, varint encoded, prefixed to a secretKeyMultibase */
+const SECP256K1_PRIV_HEADER = [0x81, 0x26];
+
+/** The offset of hardened BIP32 child indexes */
+const HARDENED_OFFSET = 0x80000000;
 
 /**
  * Implements {@link https://dcdpr.github.io/data-integrity-schnorr-secp256k1/#multikey | 2.1.1 Multikey}
@@ -29,6 +63,12 @@ export class Multikey implements IMultikey {
   // private readonly _privateKey?: PrivateKeyBytes;
   private readonly _keyPair: KeyPair;
 
+  /** @type {AuxRandSource} The source of BIP340 auxiliary randomness used when signing (optional) */
+  private readonly _auxRand?: AuxRandSource;
+
+  /** @type {ISigner} The external signer holding the private key (optional) */
+  private readonly _signer?: ISigner;
+
   /**
    * Creates an instance of Multikey.
    * @constructor
@@ -38,12 +78,26 @@ export class Multikey implements IMultikey {
    * @param {KeyPair} params.keypair The keypair of the multikey (optional, required if no publicKey)
    * @param {PublicKeyBytes} params.keypair.publicKey The public key of the multikey (optional, required if no privateKey)
    * @param {PrivateKeyBytes} params.keypair.privateKey The private key of the multikey (optional)
-   * @throws {MultikeyError} if neither a publicKey nor a privateKey is provided
+   * @param {ISigner} params.signer An external signer to use in place of a keypair (optional)
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional, defaults to random
+   * for a keypair and to the signer's own randomness for a signer)
+   * @throws {MultikeyError} if neither a publicKey nor a privateKey is provided, or both a keypair and a signer
    */
-  constructor({ id, controller, keyPair }: MultikeyParams) {
+  constructor({ id, controller, keyPair, signer, auxRand }: MultikeyParams) {
+    // If both a keypair and a signer are passed, throw an error
+    if (keyPair && signer) {
+      throw new MultikeyError('Invalid arguments: pass either "keyPair" or "signer"', 'MULTIKEY_CONSTRUCTOR_ERROR');
+    }
+
+    // If a signer is passed, use a public-only keypair of its public key
+    if (signer) {
+      keyPair = new KeyPair({ publicKey: signer.publicKey });
+    }
+
     // If no keypair passed, throw an error
     if (!keyPair) {
-      throw new MultikeyError('Argument missing: "keyPair" required', 'MULTIKEY_CONSTRUCTOR_ERROR');
+      const message = 'Argument missing: "keyPair" required unless a "signer" is given';
+      throw new MultikeyError(message, 'MULTIKEY_CONSTRUCTOR_ERROR');
     }
 
     // If the keypair does not have a public key, throw an error
@@ -55,6 +109,8 @@ export class Multikey implements IMultikey {
     this.id = id;
     this.controller = controller;
     this._keyPair = keyPair;
+    this._signer = signer;
+    this._auxRand = auxRand;
   }
 
   /** @see IMultikey.keyPair */
@@ -83,13 +139,44 @@ export class Multikey implements IMultikey {
   }
 
   /** @see IMultikey.sign */
-  public sign(data: Hex): SignatureBytes {
+  public sign(data: Hex, auxRand?: Bytes): SignatureBytes {
+    // If the private key is held by an external signer, throw an error
+    if (this._signer) {
+      const message = 'Cannot sign synchronously with an external signer: use signAsync';
+      throw new MultikeyError(message, 'MULTIKEY_SIGN_ERROR');
+    }
     // If there is no private key, throw an error
     if (!this.isSigner) {
       throw new MultikeyError('Cannot sign: no privateKey', 'MULTIKEY_SIGN_ERROR');
     }
-    // Sign the hashb and return it
-    return schnorr.sign(data, this.privateKey.bytes, randomBytes(32));
+    // Use the given auxiliary randomness or draw it from the auxRand source
+    auxRand ??= (this._auxRand ?? MultikeyUtils.randomAuxRand)();
+    // If the auxiliary randomness is not 32 bytes, throw an error
+    if (auxRand.length !== 32) {
+      throw new MultikeyError(`Invalid auxRand: expected 32 bytes, got ${auxRand.length}`, 'MULTIKEY_SIGN_ERROR');
+    }
+    // Sign the hash and return it
+    return schnorr.sign(data, this.privateKey.bytes, auxRand);
+  }
+
+  /** @see IMultikey.signAsync */
+  public async signAsync(data: HashBytes, auxRand?: Bytes): Promise<SignatureBytes> {
+    // Sign in memory if there is no external signer
+    if (!this._signer) {
+      return this.sign(data, auxRand);
+    }
+    // Delegate to the external signer, passing auxiliary randomness only if given or drawn from a source
+    const signature = await this._signer.sign(data, auxRand ?? this._auxRand?.());
+    // If the signer did not return a 64-byte signature of the data by this public key, throw an error
+    if (!(signature instanceof Uint8Array) || signature.length !== 64) {
+      const message = `Invalid signature from external signer: expected 64 bytes, got ${signature?.length}`;
+      throw new MultikeyError(message, 'MULTIKEY_SIGN_ERROR');
+    }
+    if (!this.verify(signature, data)) {
+      const message = 'Invalid signature from external signer: does not verify against the public key';
+      throw new MultikeyError(message, 'MULTIKEY_SIGN_ERROR');
+    }
+    return signature;
   }
 
   /** @see IMultikey.verify */
@@ -105,8 +192,18 @@ export class Multikey implements IMultikey {
   }
 
   /** @see IMultikey.toVerificationMethod */
-  public toVerificationMethod(): DidVerificationMethod {
-    // Construct and return the verification method
+  public toVerificationMethod(type: VerificationMethodType = 'Multikey'): DidVerificationMethod {
+    // Construct and return a JsonWebKey verification method
+    if (type === 'JsonWebKey') {
+      return {
+        id           : this.id,
+        type         : 'JsonWebKey',
+        controller   : this.controller,
+        publicKeyJwk : this.toJwk()
+      };
+    }
+
+    // Construct and return the Multikey verification method
     return {
       id                 : this.id,
       type               : Multikey.type,
@@ -115,12 +212,65 @@ export class Multikey implements IMultikey {
     };
   }
 
+  /** @see IMultikey.toSecretKeyMultibase */
+  public toSecretKeyMultibase(): string {
+    // Prefix the private key with the secp256k1-priv multicodec header and encode it to base58btc
+    return base58btc.encode(new Uint8Array([...SECP256K1_PRIV_HEADER, ...this.privateKey.bytes]));
+  }
+
+  /** @see IMultikey.toJwk */
+  public toJwk(includePrivateKey: boolean = false): MultikeyJwk {
+    // Get the affine coordinates of the public key
+    const point = secp256k1.ProjectivePoint.fromHex(this.publicKey.compressed);
+    const uncompressed = point.toRawBytes(false);
+
+    // Construct the public JWK
+    const jwk: MultikeyJwk = {
+      kty : 'EC',
+      crv : 'secp256k1',
+      x   : Buffer.from(uncompressed.slice(1, 33)).toString('base64url'),
+      y   : Buffer.from(uncompressed.slice(33)).toString('base64url')
+    };
+
+    // If requested, add the private key
+    if (includePrivateKey) {
+      jwk.d = Buffer.from(this.privateKey.bytes).toString('base64url');
+    }
+
+    return jwk;
+  }
+
   /** @see IMultikey.fromVerificationMethod */
-  public fromVerificationMethod(vm: DidVerificationMethod): Multikey {
+  public fromVerificationMethod(vm: MultikeyVerificationMethod): Multikey {
+    return Multikey.fromVerificationMethod(vm);
+  }
+
+  /**
+   * Creates a Multikey from a Multikey or JsonWebKey verification method.
+   *
+   * For a Multikey, the publicKeyMultibase must be base58btc (`z`) encoded and carry either the secp256k1-pub
+   * multicodec header (`0xe701`) followed by a 33-byte compressed public key, or the BIP340 Multikey header
+   * (`0xe14a`) followed by a 32-byte x-only public key as produced by `toVerificationMethod`. The key must be
+   * a point on secp256k1. If a secretKeyMultibase is present, the Multikey can sign and its key must match.
+   *
+   * For a JsonWebKey, the publicKeyJwk must be a secp256k1 EC public key without a private key (`d`).
+   * @static
+   * @param {MultikeyVerificationMethod} vm The verification method to convert.
+   * @returns {Multikey} The multikey, public-only unless a secretKeyMultibase is given.
+   * @throws {MultikeyError}
+   * MULTIKEY_VERIFICATION_METHOD_ERROR if the verification method is missing fields or has an invalid type.
+   * INVALID_MULTIBASE_PREFIX_ERROR if the publicKeyMultibase is not base58btc encoded.
+   * INVALID_MULTICODEC_HEADER_ERROR if the decoded key has an unknown multicodec header.
+   * INVALID_PUBLIC_KEY_LENGTH_ERROR if the key length does not match its header.
+   * INVALID_PUBLIC_KEY_POINT_ERROR if the key is not a point on secp256k1.
+   * INVALID_SECRET_KEY_MULTIBASE_ERROR if the secretKeyMultibase is invalid or does not match the public key.
+   * INVALID_JWK_ERROR if the publicKeyJwk is invalid or contains a private key.
+   */
+  public static fromVerificationMethod(vm: MultikeyVerificationMethod): Multikey {
     const VM_ERROR = 'MULTIKEY_VERIFICATION_METHOD_ERROR';
 
     // Destructure the verification method
-    const { id, controller, publicKeyMultibase, type } = vm;
+    const { id, controller, publicKeyMultibase, secretKeyMultibase, publicKeyJwk, type } = vm;
 
     // Check if the required field id is missing
     if (!id) {
@@ -132,33 +282,98 @@ export class Multikey implements IMultikey {
       throw new MultikeyError(`Missing key: controller required in verificationMethod ${vm}`, VM_ERROR);
     }
 
+    // If the type is JsonWebKey, check the publicKeyJwk is present and public, then import it
+    if (type === 'JsonWebKey') {
+      if (!publicKeyJwk) {
+        throw new MultikeyError(`Missing key: publicKeyJwk required in verificationMethod ${vm}`, VM_ERROR);
+      }
+      if ('d' in publicKeyJwk) {
+        throw new MultikeyError('Invalid publicKeyJwk: must not contain a private key', 'INVALID_JWK_ERROR');
+      }
+      return MultikeyUtils.fromJwk({ id, controller, jwk: publicKeyJwk as MultikeyJwk });
+    }
+
     // Check if the required field publicKeyMultibase is missing
     if (!publicKeyMultibase) {
       throw new MultikeyError(`Missing key: publicKeyMultibase required in verificationMethod ${vm}`, VM_ERROR);
     }
 
     // Check if the type is not Multikey
-    if (type !== 'Multikey') {
+    if (type !== Multikey.type) {
       throw new MultikeyError(`Invalid value: verificationMethod type is invalid ${vm}`, VM_ERROR);
     }
 
-    // Decode the public key multibase
-    const multibase = this.publicKey.decode();
-
-    // Get the 32 byte public key from the multibase
-    const publicKey = multibase.slice(2, multibase.length);
+    // Decode and validate the compressed public key
+    const compressed = this.decodePublicKeyMultibase(publicKeyMultibase);
+
+    // If there is a secret key, import it and check it matches the public key
+    if (secretKeyMultibase) {
+      const multikey = MultikeyUtils.fromSecretKeyMultibase({ id, controller, secretKeyMultibase });
+      if (!Buffer.from(multikey.publicKey.compressed).equals(compressed)) {
+        const message = 'Invalid secretKeyMultibase: does not match publicKeyMultibase';
+        throw new MultikeyError(message, 'INVALID_SECRET_KEY_MULTIBASE_ERROR');
+      }
+      return multikey;
+    }
 
-    // Construct a new PublicKey from the publicKey and a new KeyPair from the PublicKey
-    const keyPair = new KeyPair({ publicKey: new PublicKey(publicKey) });
+    // Construct a new PublicKey from the compressed key and a new KeyPair from the PublicKey
+    const keyPair = new KeyPair({ publicKey: new PublicKey(compressed) });
 
     // Return a new Multikey instance
     return new Multikey({ id, controller, keyPair });
   }
 
+  /**
+   * Decodes and validates a publicKeyMultibase; see `fromVerificationMethod`.
+   * @private
+   * @static
+   * @param {string} publicKeyMultibase The publicKeyMultibase to decode.
+   * @returns {Bytes} The 33-byte compressed public key.
+   * @throws {MultikeyError} if the publicKeyMultibase has an invalid prefix, header, length or point.
+   */
+  private static decodePublicKeyMultibase(publicKeyMultibase: string): Bytes {
+    // Check the multibase prefix is base58btc and decode it
+    if (!publicKeyMultibase.startsWith('z')) {
+      const message = `Invalid publicKeyMultibase: expected base58btc prefix "z", got "${publicKeyMultibase[0]}"`;
+      throw new MultikeyError(message, 'INVALID_MULTIBASE_PREFIX_ERROR');
+    }
+    let multibase: Bytes;
+    try {
+      multibase = base58btc.decode(publicKeyMultibase);
+    } catch (error: any) {
+      throw new MultikeyError(`Invalid publicKeyMultibase: ${error.message}`, 'INVALID_MULTIBASE_PREFIX_ERROR');
+    }
+
+    // Get the multicodec header and the key length it requires and check:
+    // if the header is unknown, throw an error
+    const header = multibase.slice(0, 2);
+    const expected = MULTICODEC_KEY_LENGTHS.get(Buffer.from(header).toString('hex'));
+    if (!expected) {
+      const message = `Invalid multicodec header: 0x${Buffer.from(header).toString('hex')}`;
+      throw new MultikeyError(message, 'INVALID_MULTICODEC_HEADER_ERROR');
+    }
+
+    // Check the key has the length required by the header
+    const key = multibase.slice(2);
+    if (key.length !== expected) {
+      const message = `Invalid public key length: expected ${expected} bytes, got ${key.length}`;
+      throw new MultikeyError(message, 'INVALID_PUBLIC_KEY_LENGTH_ERROR');
+    }
+
+    // Get the compressed key, lifting an x-only key to its even y point, and check it is on the curve
+    const compressed = key.length === 32 ? new Uint8Array([0x02, ...key]) : key;
+    try {
+      secp256k1.ProjectivePoint.fromHex(compressed).assertValidity();
+    } catch {
+      throw new MultikeyError('Invalid public key: not a point on secp256k1', 'INVALID_PUBLIC_KEY_POINT_ERROR');
+    }
+
+    return compressed;
+  }
 
   /** @see IMultikey.isSigner */
   get isSigner(): boolean {
-    return !!this.keyPair.privateKey;
+    return !!this._signer || !!this.keyPair.privateKey;
   }
 
   /** @see IMultikey.json */
@@ -181,6 +396,20 @@ export class Multikey implements IMultikey {
  * @type {MultikeyUtils}
  */
 export class MultikeyUtils {
+  /**
+   * Auxiliary randomness source returning 32 zero bytes (the BIP340 default for deterministic signing)
+   * @static
+   * @type {AuxRandSource}
+   */
+  public static readonly zeroAuxRand: AuxRandSource = () => new Uint8Array(32);
+
+  /**
+   * Auxiliary randomness source returning 32 fresh random bytes (the Multikey default)
+   * @static
+   * @type {AuxRandSource}
+   */
+  public static readonly randomAuxRand: AuxRandSource = () => randomBytes(32);
+
   /**
    * Creates a `Multikey` instance from a private key
    * @static
@@ -188,9 +417,10 @@ export class MultikeyUtils {
    * @param {string} params.id The id of the multikey
    * @param {string} params.controller The controller of the multikey
    * @param {PrivateKeyBytes} params.privateKeyBytes The private key bytes for the multikey
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional)
    * @returns {Multikey} The new multikey instance
    */
-  public static fromPrivateKey({ id, controller, privateKeyBytes }: FromPrivateKey): Multikey {
+  public static fromPrivateKey({ id, controller, privateKeyBytes, auxRand }: FromPrivateKey): Multikey {
     // Create a new PrivateKey from the private key bytes
     const privateKey = new PrivateKey(privateKeyBytes);
 
@@ -201,7 +431,7 @@ export class MultikeyUtils {
     const keyPair = new KeyPair({ publicKey, privateKey });
 
     // Return a new Multikey instance
-    return new Multikey({ id, controller, keyPair });
+    return new Multikey({ id, controller, keyPair, auxRand });
   }
 
   /**
@@ -220,4 +450,248 @@ export class MultikeyUtils {
     // Return a new Multikey instance
     return new Multikey({ id, controller, keyPair });
   }
-}
\ No newline at end of file
+
+  /**
+   * Creates a `Multikey` instance from a secretKeyMultibase (base58btc encoded secp256k1-priv multicodec key)
+   * @static
+   * @param {FromSecretKeyMultibase} params The parameters to create the multikey
+   * @param {string} params.id The id of the multikey
+   * @param {string} params.controller The controller of the multikey
+   * @param {string} params.secretKeyMultibase The secretKeyMultibase of the private key
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional)
+   * @returns {Multikey} The new multikey instance
+   * @throws {MultikeyError} if the secretKeyMultibase is not a base58btc secp256k1-priv 32-byte key
+   */
+  public static fromSecretKeyMultibase({
+    id,
+    controller,
+    secretKeyMultibase,
+    auxRand
+  }: FromSecretKeyMultibase): Multikey {
+    const ERROR_TYPE = 'INVALID_SECRET_KEY_MULTIBASE_ERROR';
+
+    // Check the multibase prefix is base58btc and decode it
+    if (!secretKeyMultibase.startsWith('z')) {
+      throw new MultikeyError('Invalid secretKeyMultibase: expected base58btc prefix "z"', ERROR_TYPE);
+    }
+    let multibase: Bytes;
+    try {
+      multibase = base58btc.decode(secretKeyMultibase);
+    } catch (error: any) {
+      throw new MultikeyError(`Invalid secretKeyMultibase: ${error.message}`, ERROR_TYPE);
+    }
+
+    // Check the header is secp256k1-priv followed by a 32 byte key
+    if (multibase[0] !== SECP256K1_PRIV_HEADER[0] || multibase[1] !== SECP256K1_PRIV_HEADER[1]) {
+      throw new MultikeyError('Invalid secretKeyMultibase: expected secp256k1-priv header 0x8126', ERROR_TYPE);
+    }
+    if (multibase.length !== 34) {
+      const message = `Invalid secretKeyMultibase: expected 32 bytes, got ${multibase.length - 2}`;
+      throw new MultikeyError(message, ERROR_TYPE);
+    }
+
+    // Return a new Multikey instance from the private key bytes
+    return this.fromPrivateKey({ id, controller, privateKeyBytes: multibase.slice(2), auxRand });
+  }
+
+  /**
+   * Creates a `Multikey` instance from a secp256k1 EC JSON Web Key, which can sign if it contains `d`
+   * @static
+   * @param {FromJwk} params The parameters to create the multikey
+   * @param {string} params.id The id of the multikey
+   * @param {string} params.controller The controller of the multikey
+   * @param {MultikeyJwk} params.jwk The JSON Web Key
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional)
+   * @returns {Multikey} The new multikey instance
+   * @throws {MultikeyError} if the JWK is not a valid secp256k1 key or its private and public keys do not match
+   */
+  public static fromJwk({ id, controller, jwk, auxRand }: FromJwk): Multikey {
+    const ERROR_TYPE = 'INVALID_JWK_ERROR';
+
+    // Check the key type and curve
+    if (jwk.kty !== 'EC' || jwk.crv !== 'secp256k1') {
+      const message = `Invalid JWK: expected kty "EC" and crv "secp256k1", got ${jwk.kty} ${jwk.crv}`;
+      throw new MultikeyError(message, ERROR_TYPE);
+    }
+
+    // Decode the coordinates and check they are 32 bytes each
+    const x = Buffer.from(jwk.x ?? '', 'base64url');
+    const y = Buffer.from(jwk.y ?? '', 'base64url');
+    if (x.length !== 32 || y.length !== 32) {
+      throw new MultikeyError('Invalid JWK: x and y must be 32 bytes', ERROR_TYPE);
+    }
+
+    // Check the coordinates are a point on the curve and get the compressed public key
+    let publicKeyBytes: Bytes;
+    try {
+      const point = secp256k1.ProjectivePoint.fromHex(new Uint8Array([0x04, ...x, ...y]));
+      point.assertValidity();
+      publicKeyBytes = point.toRawBytes(true);
+    } catch {
+      throw new MultikeyError('Invalid JWK: not a point on secp256k1', ERROR_TYPE);
+    }
+
+    // Without a private key, return a public-only Multikey instance
+    if (!jwk.d) {
+      return this.fromPublicKey({ id, controller, publicKeyBytes });
+    }
+
+    // Check the private key is 32 bytes and matches the public key
+    const privateKeyBytes = Buffer.from(jwk.d, 'base64url');
+    if (privateKeyBytes.length !== 32) {
+      throw new MultikeyError('Invalid JWK: d must be 32 bytes', ERROR_TYPE);
+    }
+    const multikey = this.fromPrivateKey({ id, controller, privateKeyBytes, auxRand });
+    if (!Buffer.from(multikey.publicKey.compressed).equals(publicKeyBytes)) {
+      throw new MultikeyError('Invalid JWK: d does not match x and y', ERROR_TYPE);
+    }
+
+    return multikey;
+  }
+
+  /**
+   * Creates a `Multikey` instance from a BIP39/BIP32 seed, derived along a BIP32 path. Deriving successive
+   * indexes, e.g. `m/86'/0'/0'/0/1` with the id template `#key-{index}`, rotates keys deterministically.
+   * @static
+   * @param {FromSeed} params The parameters to create the multikey
+   * @param {Bytes} params.seed The seed, 16 to 64 bytes
+   * @param {string} params.path The absolute derivation path, e.g. `m/86'/0'/0'/0/0`
+   * @param {MultikeyTemplate} params.template The templates of the id and controller of the multikey
+   * @param {HDKeyVersions} params.versions The version bytes of the extended keys (optional, defaults to mainnet)
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional)
+   * @returns {Multikey} The new multikey instance
+   * @throws {HDKeyError} if the seed or path is invalid
+   * @throws {MultikeyError} if a template is invalid
+   */
+  public static fromSeed({ seed, path, template, versions, auxRand }: FromSeed): Multikey {
+    const hdKey = HDKeyUtils.fromMasterSeed(seed, versions);
+    return this.fromHDKey({ hdKey, path, template, auxRand });
+  }
+
+  /**
+   * Restores a signing `Multikey` instance from a BIP39 mnemonic backup: the key derived along a BIP32 path from
+   * the seed of the mnemonic and passphrase. If the expected publicKeyMultibase is given, e.g. from the
+   * verification method of the key, the restored key is checked against it, catching a wrong passphrase or path.
+   * @static
+   * @param {FromMnemonic} params The parameters to restore the multikey
+   * @param {string} params.mnemonic The BIP39 mnemonic
+   * @param {string} params.passphrase The BIP39 passphrase (optional, defaults to empty)
+   * @param {string} params.path The absolute derivation path (optional, defaults to `MnemonicUtils.DEFAULT_PATH`)
+   * @param {MultikeyTemplate} params.template The templates of the id and controller of the multikey
+   * @param {string} params.publicKeyMultibase The expected publicKeyMultibase of the multikey (optional)
+   * @param {HDKeyVersions} params.versions The version bytes of the extended keys (optional, defaults to mainnet)
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional)
+   * @returns {Multikey} The restored multikey instance
+   * @throws {MnemonicError} if the mnemonic is invalid
+   * @throws {HDKeyError} if the path is invalid
+   * @throws {MultikeyError} if a template is invalid, or with type PUBLIC_KEY_MISMATCH_ERROR if the
+   * publicKeyMultibase does not encode the restored key
+   */
+  public static fromMnemonic({
+    mnemonic,
+    passphrase,
+    path = MnemonicUtils.DEFAULT_PATH,
+    template,
+    publicKeyMultibase,
+    versions,
+    auxRand
+  }: FromMnemonic): Multikey {
+    // Derive the seed and restore the multikey from it
+    const seed = MnemonicUtils.mnemonicToSeed(mnemonic, passphrase);
+    const multikey = this.fromSeed({ seed, path, template, versions, auxRand });
+
+    // If given, check the publicKeyMultibase encodes the restored key, compressed or x-only
+    if (publicKeyMultibase !== undefined) {
+      const compressed = multikey.publicKey.compressed;
+      const encodings = [
+        base58btc.encode(new Uint8Array([0xe7, 0x01, ...compressed])),
+        base58btc.encode(new Uint8Array([0xe1, 0x4a, ...compressed.slice(1)]))
+      ];
+      if (!encodings.includes(publicKeyMultibase)) {
+        const message = 'Restored key does not match publicKeyMultibase: check the mnemonic, passphrase and path';
+        throw new MultikeyError(message, 'PUBLIC_KEY_MISMATCH_ERROR');
+      }
+    }
+
+    return multikey;
+  }
+
+  /**
+   * Creates a `Multikey` instance from a BIP32 extended key, derived along a BIP32 path. A public-only multikey
+   * is derived from an xpub, along non-hardened indexes only.
+   * @static
+   * @param {FromExtendedKey} params The parameters to create the multikey
+   * @param {string} params.extendedKey The base58check extended key (xprv or xpub)
+   * @param {string} params.path The derivation path: absolute (`m/...`) from a master key, or relative (`0/1`)
+   * @param {MultikeyTemplate} params.template The templates of the id and controller of the multikey
+   * @param {HDKeyVersions} params.versions The version bytes of the extended key (optional, defaults to mainnet)
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional)
+   * @returns {Multikey} The new multikey instance
+   * @throws {HDKeyError} if the extended key or path is invalid, or the path is hardened from an xpub
+   * @throws {MultikeyError} if a template is invalid
+   */
+  public static fromExtendedKey({ extendedKey, path, template, versions, auxRand }: FromExtendedKey): Multikey {
+    const hdKey = HDKeyUtils.fromExtendedKey(extendedKey, versions);
+    return this.fromHDKey({ hdKey, path, template, auxRand });
+  }
+
+  /**
+   * Creates a `Multikey` instance from a BIP32 key, derived along a BIP32 path, with its id and controller
+   * rendered from the templates.
+   * @static
+   * @param {FromHDKey} params The parameters to create the multikey
+   * @param {HDKey} params.hdKey The BIP32 key to derive from
+   * @param {string} params.path The derivation path: absolute (`m/...`) from a master key, or relative (`0/1`)
+   * @param {MultikeyTemplate} params.template The templates of the id and controller of the multikey
+   * @param {AuxRandSource} params.auxRand The source of BIP340 auxiliary randomness (optional)
+   * @returns {Multikey} The new multikey instance, public-only if the BIP32 key is
+   * @throws {HDKeyError} if the path is invalid
+   * @throws {MultikeyError} if a template is invalid
+   */
+  public static fromHDKey({ hdKey, path, template, auxRand }: FromHDKey): Multikey {
+    // Derive the key along the path
+    const derived = hdKey.derive(path);
+
+    // Render the id and controller from the position of the derived key
+    const context: DerivationContext = {
+      path,
+      depth       : derived.depth,
+      index       : derived.index % HARDENED_OFFSET,
+      hardened    : derived.index >= HARDENED_OFFSET,
+      fingerprint : derived.fingerprint.toString(16).padStart(8, '0')
+    };
+    const id = this.renderTemplate(template.id, context);
+    const controller = this.renderTemplate(template.controller, context);
+
+    // Return a Multikey instance from the private key, or a public-only one
+    const privateKeyBytes = derived.privateKey;
+    return privateKeyBytes
+      ? this.fromPrivateKey({ id, controller, privateKeyBytes, auxRand })
+      : this.fromPublicKey({ id, controller, publicKeyBytes: derived.publicKey });
+  }
+
+  /**
+   * Render a template value for a derived key.
+   * @private
+   * @static
+   * @param {TemplateValue} template The template: a string with placeholders, or a function of the context
+   * @param {DerivationContext} context The position of the derived key
+   * @returns {string} The rendered value
+   * @throws {MultikeyError} if the template has an unknown placeholder or renders an empty value
+   */
+  private static renderTemplate(template: TemplateValue, context: DerivationContext): string {
+    const ERROR_TYPE = 'INVALID_TEMPLATE_ERROR';
+    const value = typeof template === 'function'
+      ? template(context)
+      : template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        if (!['path', 'depth', 'index', 'fingerprint'].includes(name)) {
+          throw new MultikeyError(`Invalid template: unknown placeholder ${placeholder}`, ERROR_TYPE);
+        }
+        return `${context[name as keyof DerivationContext]}`;
+      });
+    if (!value) {
+      throw new MultikeyError('Invalid template: empty value', ERROR_TYPE);
+    }
+    return value;
+  }
+}
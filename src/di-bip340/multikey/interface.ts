@@ -1,6 +1,9 @@
 import { KeyPair, KeyPairJSON, PrivateKey, PublicKey } from '@did-btc1/bip340-key-pair';
 import { DidVerificationMethod } from '@web5/dids';
-import { MessageBytes, PrivateKeyBytes, PublicKeyBytes, SignatureBytes } from '../../types/shared.js';
+import { HDKeyVersions } from '../../types/hd-key.js';
+import { Bytes, HashBytes, MessageBytes, PrivateKeyBytes, PublicKeyBytes, SignatureBytes } from '../../types/shared.js';
+import { HDKey } from '../hd-key/index.js';
+import { ISigner } from '../signer/interface.js';
 import { Multikey } from './index.js';
 
 export type MultikeyJSON = {
@@ -11,6 +14,36 @@ export type MultikeyJSON = {
   keyPair: KeyPairJSON;
   verificationMethod: DidVerificationMethod;
 }
+/** A source of BIP340 auxiliary randomness, called once per signature; must return 32 bytes */
+export type AuxRandSource = () => Bytes;
+/** The verification method types a Multikey can be expressed as */
+export type VerificationMethodType = 'Multikey' | 'JsonWebKey';
+/** A secp256k1 EC JSON Web Key; `d` is only present for private keys */
+export type MultikeyJwk = {
+  kty: 'EC';
+  crv: 'secp256k1';
+  x: string;
+  y: string;
+  d?: string;
+};
+/** A verification method that may carry a secretKeyMultibase, e.g. when importing a key */
+export type MultikeyVerificationMethod = DidVerificationMethod & { secretKeyMultibase?: string };
+/** The position of a key derived along a BIP32 path, which the id and controller templates can refer to */
+export type DerivationContext = {
+  path: string;
+  depth: number;
+  index: number;
+  hardened: boolean;
+  fingerprint: string;
+};
+/** A string with `{path}`, `{depth}`, `{index}` and `{fingerprint}` placeholders, or a function of the context */
+export type TemplateValue = string | ((context: DerivationContext) => string);
+/** The templates of the id and controller of derived Multikeys */
+export type MultikeyTemplate = {
+  id: TemplateValue;
+  controller: TemplateValue;
+};
+
 export interface DidParams {
   id: string;
   controller: string;
@@ -18,12 +51,52 @@ export interface DidParams {
 
 export interface FromPrivateKey extends DidParams {
   privateKeyBytes: PrivateKeyBytes;
+  auxRand?: AuxRandSource;
 }
 export interface FromPublicKey extends DidParams {
   publicKeyBytes: PublicKeyBytes;
 }
+export interface FromSecretKeyMultibase extends DidParams {
+  secretKeyMultibase: string;
+  auxRand?: AuxRandSource;
+}
+export interface FromJwk extends DidParams {
+  jwk: MultikeyJwk;
+  auxRand?: AuxRandSource;
+}
+export interface FromHDKey {
+  hdKey: HDKey;
+  path: string;
+  template: MultikeyTemplate;
+  auxRand?: AuxRandSource;
+}
+export interface FromSeed {
+  seed: Bytes;
+  path: string;
+  template: MultikeyTemplate;
+  versions?: HDKeyVersions;
+  auxRand?: AuxRandSource;
+}
+export interface FromExtendedKey {
+  extendedKey: string;
+  path: string;
+  template: MultikeyTemplate;
+  versions?: HDKeyVersions;
+  auxRand?: AuxRandSource;
+}
+export interface FromMnemonic {
+  mnemonic: string;
+  passphrase?: string;
+  path?: string;
+  template: MultikeyTemplate;
+  publicKeyMultibase?: string;
+  versions?: HDKeyVersions;
+  auxRand?: AuxRandSource;
+}
 export interface MultikeyParams extends DidParams {
   keyPair?: KeyPair;
+  signer?: ISigner;
+  auxRand?: AuxRandSource;
 }
 
 /**
@@ -46,16 +119,29 @@ export interface IMultikey {
   /** @type {PrivateKey} @readonly Get the Multikey PrivateKey. */
   readonly privateKey?: PrivateKey;
 
-  /** @type {boolean} @readonly Get signing ability of the Multikey (i.e. is there a valid privateKey). */
+  /** @type {boolean} @readonly Get signing ability of the Multikey (i.e. is there a valid privateKey or a signer). */
   readonly isSigner: boolean;
 
   /**
    * Produce signed data with a private key.
    * @param {MessageBytes} data Data to be signed.
+   * @param {Bytes} auxRand Optional 32 bytes of BIP340 auxiliary randomness (defaults to the Multikey auxRand source).
    * @returns {SignatureBytes} Signature byte array.
-   * @throws {MultikeyError} if no private key is provided.
+   * @throws {MultikeyError} if no private key is provided, the private key is held by an external signer,
+   * or the auxiliary randomness is not 32 bytes.
+   */
+  sign(data: MessageBytes, auxRand?: Bytes): SignatureBytes;
+
+  /**
+   * Produce signed data with the external signer, or with the private key if there is none.
+   * @param {HashBytes} data Hash to be signed.
+   * @param {Bytes} auxRand Optional 32 bytes of BIP340 auxiliary randomness (defaults to the Multikey auxRand source,
+   * or to the signer's own randomness if the Multikey has no source).
+   * @returns {Promise<SignatureBytes>} Signature byte array.
+   * @throws {MultikeyError} if there is neither a signer nor a private key, or the external signer returns a
+   * signature that is not 64 bytes or does not verify against the public key.
    */
-  sign(data: MessageBytes): SignatureBytes;
+  signAsync(data: HashBytes, auxRand?: Bytes): Promise<SignatureBytes>;
 
   /**
    * Verify a signature.
@@ -73,20 +159,38 @@ export interface IMultikey {
 
   /**
    * Convert the multikey to a verification method.
-   * @returns {DidVerificationMethod} The verification method.
+   * @param {VerificationMethodType} type The verification method type (optional, defaults to Multikey).
+   * @returns {DidVerificationMethod} The verification method, with a publicKeyMultibase for a Multikey or a
+   * publicKeyJwk for a JsonWebKey.
+   */
+  toVerificationMethod(type?: VerificationMethodType): DidVerificationMethod;
+
+  /**
+   * Export the private key as a secretKeyMultibase (base58btc encoded secp256k1-priv multicodec key).
+   * @returns {string} The secretKeyMultibase.
+   * @throws {MultikeyError} if there is no private key.
+   */
+  toSecretKeyMultibase(): string;
+
+  /**
+   * Export the key as a secp256k1 EC JSON Web Key.
+   * @param {boolean} includePrivateKey Whether to include the private key as `d` (optional, defaults to false).
+   * @returns {MultikeyJwk} The JSON Web Key.
+   * @throws {MultikeyError} if the private key is requested but there is none.
    */
-  toVerificationMethod(): DidVerificationMethod;
+  toJwk(includePrivateKey?: boolean): MultikeyJwk;
 
   /**
-   * Convert a verification method to a multikey.
-   * @param {DidVerificationMethod} verificationMethod The verification method to convert.
+   * Convert a verification method to a multikey; see the static `Multikey.fromVerificationMethod`.
+   * @param {MultikeyVerificationMethod} verificationMethod The Multikey or JsonWebKey verification method to convert.
    * @returns {Multikey} Multikey instance.
    * @throws {MultikeyError}
    * if the verification method is missing required fields.
    * if the verification method has an invalid type.
-   * if the publicKeyMultibase has an invalid prefix.
+   * if the publicKeyMultibase has an invalid prefix, header, length or point.
+   * if the secretKeyMultibase or publicKeyJwk is invalid.
    */
-  fromVerificationMethod(verificationMethod: DidVerificationMethod): Multikey;
+  fromVerificationMethod(verificationMethod: MultikeyVerificationMethod): Multikey;
 
   /**
    * Convert the multikey to a JSON object.
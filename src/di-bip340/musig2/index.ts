@@ -0,0 +1,733 @@
+import { PrivateKey, PublicKey } from '@did-btc1/bip340-key-pair';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { randomBytes } from 'crypto';
+import {
+  KeyAggContext,
+  MuSig2Exchange,
+  MuSig2Nonce,
+  MuSig2NonceMessage,
+  MuSig2PartialSignatureMessage,
+  MuSig2Point,
+  MuSig2SessionContext,
+  MuSig2SessionParams,
+  NonceGenParams,
+  PartialSignParams,
+  PartialSigVerifyParams,
+  SessionValues
+} from '../../types/musig2.js';
+import { Bytes, CompressedPublicKeyBytes, HashBytes, PublicKeyBytes, SignatureBytes } from '../../types/shared.js';
+import { MuSig2Error } from '../../utils/error.js';
+import { Multikey, MultikeyUtils } from '../multikey/index.js';
+import { ISigner } from '../signer/interface.js';
+import { IMuSig2Session } from './interface.js';
+
+const { ProjectivePoint: Point, CURVE: { n } } = secp256k1;
+const { bytesToNumberBE, mod, taggedHash } = schnorr.utils;
+
+/** Error types thrown by MuSig2 */
+const INVALID_PUBLIC_KEY_ERROR = 'INVALID_PUBLIC_KEY_ERROR';
+const INVALID_NONCE_ERROR = 'INVALID_NONCE_ERROR';
+const INVALID_PARTIAL_SIGNATURE_ERROR = 'INVALID_PARTIAL_SIGNATURE_ERROR';
+const MUSIG2_SESSION_ERROR = 'MUSIG2_SESSION_ERROR';
+
+/**
+ * Implements the {@link https://github.com/bitcoin/bips/blob/master/bip-0327.mediawiki | BIP327 MuSig2} algorithms
+ * without tweaking: key sorting and aggregation, nonce generation and aggregation, partial signing, partial
+ * signature verification and partial signature aggregation. The aggregate signature is an ordinary BIP340
+ * signature for the x-only aggregate public key.
+ * @export
+ * @class MuSig2Utils
+ * @type {MuSig2Utils}
+ */
+export class MuSig2Utils {
+  /**
+   * Sort compressed public keys lexicographically (KeySort).
+   * @static
+   * @param {CompressedPublicKeyBytes[]} publicKeys The compressed public keys.
+   * @returns {CompressedPublicKeyBytes[]} A sorted copy of the public keys.
+   */
+  public static keySort(publicKeys: CompressedPublicKeyBytes[]): CompressedPublicKeyBytes[] {
+    return [...publicKeys].sort((a, b) => Buffer.compare(a, b));
+  }
+
+  /**
+   * Aggregate compressed public keys, in the given order, into the aggregate public key (KeyAgg).
+   * @static
+   * @param {CompressedPublicKeyBytes[]} publicKeys The compressed public keys.
+   * @returns {KeyAggContext} The aggregate public key point Q with gacc = 1 and tacc = 0.
+   * @throws {MuSig2Error} with type INVALID_PUBLIC_KEY_ERROR if a public key is invalid or the aggregate is the
+   * point at infinity.
+   */
+  public static keyAgg(publicKeys: CompressedPublicKeyBytes[]): KeyAggContext {
+    if (!publicKeys.length) {
+      throw new MuSig2Error('Cannot aggregate: no public keys', INVALID_PUBLIC_KEY_ERROR);
+    }
+
+    // Sum each public key point weighted by its key aggregation coefficient
+    const pk2 = this.getSecondKey(publicKeys);
+    let Q = Point.ZERO;
+    for (const [i, publicKey] of publicKeys.entries()) {
+      const P = this.cpoint(publicKey, `Invalid public key at index ${i}`, INVALID_PUBLIC_KEY_ERROR);
+      Q = Q.add(this.mul(P, this.keyAggCoeffInternal(publicKeys, publicKey, pk2)));
+    }
+
+    // Fail if the aggregate is the point at infinity
+    if (Q.equals(Point.ZERO)) {
+      throw new MuSig2Error('Invalid aggregate public key: point at infinity', INVALID_PUBLIC_KEY_ERROR);
+    }
+    return { Q, gacc: 1n, tacc: 0n };
+  }
+
+  /**
+   * Get the x-only aggregate public key of compressed public keys, in the given order.
+   * @static
+   * @param {CompressedPublicKeyBytes[]} publicKeys The compressed public keys.
+   * @returns {PublicKeyBytes} The 32-byte x-only aggregate public key.
+   * @throws {MuSig2Error} with type INVALID_PUBLIC_KEY_ERROR if the keys cannot be aggregated.
+   */
+  public static aggregatePublicKey(publicKeys: CompressedPublicKeyBytes[]): PublicKeyBytes {
+    return this.xbytes(this.keyAgg(publicKeys).Q);
+  }
+
+  /**
+   * Get the key aggregation coefficient of a public key (KeyAggCoeff).
+   * @static
+   * @param {CompressedPublicKeyBytes[]} publicKeys The compressed public keys.
+   * @param {CompressedPublicKeyBytes} publicKey The public key to get the coefficient of.
+   * @returns {bigint} The key aggregation coefficient.
+   */
+  public static keyAggCoeff(publicKeys: CompressedPublicKeyBytes[], publicKey: CompressedPublicKeyBytes): bigint {
+    return this.keyAggCoeffInternal(publicKeys, publicKey, this.getSecondKey(publicKeys));
+  }
+
+  /**
+   * Generate a secret and public nonce pair (NonceGen). The secret nonce must be used for one signature only.
+   * @static
+   * @param {NonceGenParams} params The parameters to generate the nonce.
+   * @param {Bytes} params.privateKey The private key of the signer (optional, hardens against bad randomness).
+   * @param {CompressedPublicKeyBytes} params.publicKey The compressed public key of the signer.
+   * @param {Bytes} params.aggregatePublicKey The x-only aggregate public key (optional).
+   * @param {Bytes} params.message The message to sign, if already known (optional).
+   * @param {Bytes} params.extraIn Extra input, e.g. a session id (optional).
+   * @param {Bytes} params.rand 32 bytes of randomness (optional, defaults to fresh randomness; fixed only in
+   * tests).
+   * @returns {MuSig2Nonce} The 97-byte secret nonce and the 66-byte public nonce.
+   */
+  public static nonceGen({
+    privateKey,
+    publicKey,
+    aggregatePublicKey = new Uint8Array(),
+    message,
+    extraIn = new Uint8Array(),
+    rand = randomBytes(32)
+  }: NonceGenParams): MuSig2Nonce {
+    // Mix the private key into the randomness
+    const aux = taggedHash('MuSig/aux', rand);
+    const mixed = privateKey ? Buffer.from(privateKey).map((byte, i) => byte ^ aux[i]) : rand;
+
+    // Prefix the message with whether it is known and its length
+    const messagePrefixed = message
+      ? Buffer.concat([Uint8Array.of(1), this.uint(message.length, 8), message])
+      : Uint8Array.of(0);
+
+    // Derive the two secret nonces
+    const [k1, k2] = [0, 1].map(i => mod(bytesToNumberBE(taggedHash(
+      'MuSig/nonce',
+      mixed,
+      Uint8Array.of(publicKey.length), publicKey,
+      Uint8Array.of(aggregatePublicKey.length), aggregatePublicKey,
+      messagePrefixed,
+      this.uint(extraIn.length, 4), extraIn,
+      Uint8Array.of(i)
+    )), n));
+    if (k1 === 0n || k2 === 0n) {
+      throw new MuSig2Error('Invalid nonce: zero', INVALID_NONCE_ERROR);
+    }
+
+    // Return the secret nonce with the public key and the public nonce points
+    const R1 = Point.BASE.multiply(k1);
+    const R2 = Point.BASE.multiply(k2);
+    return {
+      secnonce : Buffer.concat([this.uint(k1, 32), this.uint(k2, 32), publicKey]),
+      pubnonce : Buffer.concat([R1.toRawBytes(true), R2.toRawBytes(true)])
+    };
+  }
+
+  /**
+   * Aggregate public nonces (NonceAgg).
+   * @static
+   * @param {Bytes[]} pubnonces The 66-byte public nonces.
+   * @returns {Bytes} The 66-byte aggregate nonce.
+   * @throws {MuSig2Error} with type INVALID_NONCE_ERROR if a public nonce is invalid.
+   */
+  public static nonceAgg(pubnonces: Bytes[]): Bytes {
+    const aggregate = [0, 1].map(j => {
+      let R = Point.ZERO;
+      for (const [i, pubnonce] of pubnonces.entries()) {
+        if (pubnonce.length !== 66) {
+          throw new MuSig2Error(`Invalid public nonce at index ${i}: ${pubnonce.length} bytes`, INVALID_NONCE_ERROR);
+        }
+        R = R.add(this.cpoint(pubnonce.subarray(j * 33, (j + 1) * 33), `Invalid public nonce at index ${i}`));
+      }
+      return this.cbytesExt(R);
+    });
+    return Buffer.concat(aggregate);
+  }
+
+  /**
+   * Compute the values of a signing session (GetSessionValues).
+   * @static
+   * @param {MuSig2SessionContext} context The aggregate nonce, the public keys and the message.
+   * @returns {SessionValues} The aggregate key, the nonce coefficient b, the final nonce R and the challenge e.
+   * @throws {MuSig2Error} if the public keys or the aggregate nonce are invalid.
+   */
+  public static getSessionValues({ aggnonce, publicKeys, message }: MuSig2SessionContext): SessionValues {
+    // Aggregate the public keys
+    const { Q, gacc, tacc } = this.keyAgg(publicKeys);
+    const qx = this.xbytes(Q);
+
+    // Compute the nonce coefficient and the final nonce: the generator if the nonce is the point at infinity
+    const b = mod(bytesToNumberBE(taggedHash('MuSig/noncecoef', aggnonce, qx, message)), n);
+    const R1 = this.cpointExt(aggnonce.subarray(0, 33));
+    const R2 = this.cpointExt(aggnonce.subarray(33, 66));
+    const sum = R1.add(this.mul(R2, b));
+    const R = sum.equals(Point.ZERO) ? Point.BASE : sum;
+
+    // Compute the BIP340 challenge
+    const e = mod(bytesToNumberBE(taggedHash('BIP0340/challenge', this.xbytes(R), qx, message)), n);
+    return { Q, gacc, tacc, b, R, e };
+  }
+
+  /**
+   * Create a partial signature (Sign). The caller must never reuse the secret nonce.
+   * @static
+   * @param {PartialSignParams} params The parameters to sign.
+   * @param {Bytes} params.secnonce The 97-byte secret nonce.
+   * @param {Bytes} params.privateKey The 32-byte private key.
+   * @param {MuSig2SessionContext} params.context The aggregate nonce, the public keys and the message.
+   * @returns {Bytes} The 32-byte partial signature.
+   * @throws {MuSig2Error} if the secret nonce or private key is invalid, does not belong to a public key of the
+   * session, or the partial signature does not verify.
+   */
+  public static sign({ secnonce, privateKey, context }: PartialSignParams): Bytes {
+    const { Q, gacc, b, R, e } = this.getSessionValues(context);
+
+    // Get the secret nonces, negated if the final nonce has an odd y
+    const k1p = bytesToNumberBE(secnonce.subarray(0, 32));
+    const k2p = bytesToNumberBE(secnonce.subarray(32, 64));
+    if (secnonce.length !== 97 || !this.isScalar(k1p) || !this.isScalar(k2p)) {
+      throw new MuSig2Error('Invalid secret nonce', INVALID_NONCE_ERROR);
+    }
+    const k1 = R.hasEvenY() ? k1p : n - k1p;
+    const k2 = R.hasEvenY() ? k2p : n - k2p;
+
+    // Check the private key matches the public key of the secret nonce
+    const dp = bytesToNumberBE(privateKey);
+    if (privateKey.length !== 32 || !this.isScalar(dp)) {
+      throw new MuSig2Error('Invalid private key', INVALID_PUBLIC_KEY_ERROR);
+    }
+    const publicKey = Point.BASE.multiply(dp).toRawBytes(true);
+    if (!Buffer.from(secnonce.subarray(64)).equals(publicKey)) {
+      throw new MuSig2Error('Secret nonce does not match the private key', INVALID_NONCE_ERROR);
+    }
+
+    // Compute the partial signature s = k1 + b⋅k2 + e⋅a⋅d, with d negated to match the even-y aggregate key
+    const a = this.sessionKeyAggCoeff(context.publicKeys, publicKey);
+    const g = Q.hasEvenY() ? 1n : n - 1n;
+    const d = mod(g * gacc * dp, n);
+    const partialSignature = this.uint(mod(k1 + b * k2 + e * a * d, n), 32);
+
+    // Check the partial signature verifies, which guards against faults
+    const pubnonce = Buffer.concat([k1p, k2p].map(k => Point.BASE.multiply(k).toRawBytes(true)));
+    if (!this.partialSigVerifyInternal({ partialSignature, pubnonce, publicKey, context })) {
+      throw new MuSig2Error('Partial signature does not verify', INVALID_PARTIAL_SIGNATURE_ERROR);
+    }
+    return partialSignature;
+  }
+
+  /**
+   * Verify the partial signature of a signer of the session (PartialSigVerifyInternal).
+   * @static
+   * @param {PartialSigVerifyParams} params The parameters to verify.
+   * @param {Bytes} params.partialSignature The 32-byte partial signature.
+   * @param {Bytes} params.pubnonce The 66-byte public nonce of the signer.
+   * @param {CompressedPublicKeyBytes} params.publicKey The compressed public key of the signer.
+   * @param {MuSig2SessionContext} params.context The aggregate nonce, the public keys and the message.
+   * @returns {boolean} Whether the partial signature is valid.
+   */
+  public static partialSigVerifyInternal({
+    partialSignature,
+    pubnonce,
+    publicKey,
+    context
+  }: PartialSigVerifyParams): boolean {
+    try {
+      const { Q, gacc, b, R, e } = this.getSessionValues(context);
+
+      // Fail if s is not below the curve order
+      const s = bytesToNumberBE(partialSignature);
+      if (partialSignature.length !== 32 || s >= n) return false;
+
+      // Get the effective nonce of the signer, negated if the final nonce has an odd y
+      const R1 = this.cpoint(pubnonce.subarray(0, 33), 'Invalid public nonce');
+      const R2 = this.cpoint(pubnonce.subarray(33, 66), 'Invalid public nonce');
+      const Rep = R1.add(this.mul(R2, b));
+      const Re = R.hasEvenY() ? Rep : Rep.negate();
+
+      // Check s⋅G = Re + e⋅a⋅P, with P negated to match the even-y aggregate key
+      const g = Q.hasEvenY() ? 1n : n - 1n;
+      const P = this.mul(this.cpoint(publicKey, 'Invalid public key'), mod(g * gacc, n));
+      const a = this.sessionKeyAggCoeff(context.publicKeys, publicKey);
+      return this.mul(Point.BASE, s).equals(Re.add(this.mul(P, mod(e * a, n))));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Aggregate the partial signatures of every signer of the session into a BIP340 signature (PartialSigAgg).
+   * @static
+   * @param {Bytes[]} partialSignatures The 32-byte partial signatures.
+   * @param {MuSig2SessionContext} context The aggregate nonce, the public keys and the message.
+   * @returns {SignatureBytes} The 64-byte BIP340 signature.
+   * @throws {MuSig2Error} with type INVALID_PARTIAL_SIGNATURE_ERROR if a partial signature is not below the
+   * curve order.
+   */
+  public static partialSigAgg(partialSignatures: Bytes[], context: MuSig2SessionContext): SignatureBytes {
+    const { Q, tacc, R, e } = this.getSessionValues(context);
+    let s = 0n;
+    for (const [i, partialSignature] of partialSignatures.entries()) {
+      const si = bytesToNumberBE(partialSignature);
+      if (partialSignature.length !== 32 || si >= n) {
+        throw new MuSig2Error(`Invalid partial signature at index ${i}`, INVALID_PARTIAL_SIGNATURE_ERROR);
+      }
+      s = mod(s + si, n);
+    }
+    const g = Q.hasEvenY() ? 1n : n - 1n;
+    return Buffer.concat([this.xbytes(R), this.uint(mod(s + e * g * tacc, n), 32)]);
+  }
+
+  /**
+   * Create a public-only Multikey for the aggregate public key of compressed public keys, sorted first, to
+   * verify the proofs the signers create together.
+   * @static
+   * @param {object} params The parameters to create the multikey.
+   * @param {string} params.id The id of the multikey.
+   * @param {string} params.controller The controller of the multikey.
+   * @param {CompressedPublicKeyBytes[]} params.publicKeys The compressed public keys of the signers.
+   * @returns {Multikey} The public-only aggregate multikey.
+   * @throws {MuSig2Error} with type INVALID_PUBLIC_KEY_ERROR if the keys cannot be aggregated.
+   */
+  public static aggregateMultikey({ id, controller, publicKeys }: {
+    id: string;
+    controller: string;
+    publicKeys: CompressedPublicKeyBytes[];
+  }): Multikey {
+    const publicKeyBytes = this.evenYPublicKey(this.aggregatePublicKey(this.keySort(publicKeys)));
+    return MultikeyUtils.fromPublicKey({ id, controller, publicKeyBytes });
+  }
+
+  /**
+   * Get the compressed public key with an even y of an x-only public key.
+   * @static
+   * @param {PublicKeyBytes} x The x-only public key.
+   * @returns {CompressedPublicKeyBytes} The compressed public key.
+   */
+  public static evenYPublicKey(x: PublicKeyBytes): CompressedPublicKeyBytes {
+    return Buffer.concat([Uint8Array.of(0x02), x]);
+  }
+
+  /**
+   * Get the key aggregation coefficient of a public key, given the second distinct key (KeyAggCoeffInternal).
+   * @private
+   * @static
+   * @param {CompressedPublicKeyBytes[]} publicKeys The compressed public keys.
+   * @param {CompressedPublicKeyBytes} publicKey The public key to get the coefficient of.
+   * @param {Bytes} pk2 The second distinct public key, or 33 zero bytes.
+   * @returns {bigint} The key aggregation coefficient: 1 for the second distinct key.
+   */
+  private static keyAggCoeffInternal(
+    publicKeys: CompressedPublicKeyBytes[],
+    publicKey: CompressedPublicKeyBytes,
+    pk2: Bytes
+  ): bigint {
+    if (Buffer.from(publicKey).equals(pk2)) return 1n;
+    const L = taggedHash('KeyAgg list', ...publicKeys);
+    return mod(bytesToNumberBE(taggedHash('KeyAgg coefficient', L, publicKey)), n);
+  }
+
+  /**
+   * Get the key aggregation coefficient of a signer of the session (GetSessionKeyAggCoeff).
+   * @private
+   * @static
+   * @param {CompressedPublicKeyBytes[]} publicKeys The compressed public keys of the session.
+   * @param {CompressedPublicKeyBytes} publicKey The public key of the signer.
+   * @returns {bigint} The key aggregation coefficient.
+   * @throws {MuSig2Error} with type INVALID_PUBLIC_KEY_ERROR if the public key is not a key of the session.
+   */
+  private static sessionKeyAggCoeff(
+    publicKeys: CompressedPublicKeyBytes[],
+    publicKey: CompressedPublicKeyBytes
+  ): bigint {
+    if (!publicKeys.some(key => Buffer.from(key).equals(publicKey))) {
+      throw new MuSig2Error('Public key is not a key of the session', INVALID_PUBLIC_KEY_ERROR);
+    }
+    return this.keyAggCoeff(publicKeys, publicKey);
+  }
+
+  /**
+   * Get the first public key different from the first public key (GetSecondKey).
+   * @private
+   * @static
+   * @param {CompressedPublicKeyBytes[]} publicKeys The compressed public keys.
+   * @returns {Bytes} The second distinct public key, or 33 zero bytes if all keys are equal.
+   */
+  private static getSecondKey(publicKeys: CompressedPublicKeyBytes[]): Bytes {
+    const second = publicKeys.find(key => !Buffer.from(key).equals(publicKeys[0]));
+    return second ?? new Uint8Array(33);
+  }
+
+  /**
+   * Multiply a point by a scalar, which may be zero.
+   * @private
+   * @static
+   * @param {MuSig2Point} point The point.
+   * @param {bigint} scalar The scalar in [0, n).
+   * @returns {MuSig2Point} The product.
+   */
+  private static mul(point: MuSig2Point, scalar: bigint): MuSig2Point {
+    return scalar === 0n ? Point.ZERO : point.multiply(scalar);
+  }
+
+  /**
+   * Decode a compressed point.
+   * @private
+   * @static
+   * @param {Bytes} bytes The 33-byte compressed point.
+   * @param {string} message The error message.
+   * @param {string} type The error type (optional, defaults to INVALID_NONCE_ERROR).
+   * @returns {MuSig2Point} The point.
+   * @throws {MuSig2Error} if the bytes are not a compressed point.
+   */
+  private static cpoint(bytes: Bytes, message: string, type: string = INVALID_NONCE_ERROR): MuSig2Point {
+    if (bytes.length !== 33 || (bytes[0] !== 0x02 && bytes[0] !== 0x03)) {
+      throw new MuSig2Error(message, type);
+    }
+    try {
+      return Point.fromHex(bytes);
+    } catch {
+      throw new MuSig2Error(message, type);
+    }
+  }
+
+  /**
+   * Decode a compressed point, or 33 zero bytes as the point at infinity.
+   * @private
+   * @static
+   * @param {Bytes} bytes The 33-byte compressed point.
+   * @returns {MuSig2Point} The point.
+   * @throws {MuSig2Error} with type INVALID_NONCE_ERROR if the bytes are not a compressed point.
+   */
+  private static cpointExt(bytes: Bytes): MuSig2Point {
+    return bytes.every(byte => byte === 0) ? Point.ZERO : this.cpoint(bytes, 'Invalid aggregate nonce');
+  }
+
+  /**
+   * Encode a point as a compressed point, or the point at infinity as 33 zero bytes.
+   * @private
+   * @static
+   * @param {MuSig2Point} point The point.
+   * @returns {Bytes} The 33-byte encoding.
+   */
+  private static cbytesExt(point: MuSig2Point): Bytes {
+    return point.equals(Point.ZERO) ? new Uint8Array(33) : point.toRawBytes(true);
+  }
+
+  /**
+   * Encode the x coordinate of a point.
+   * @private
+   * @static
+   * @param {MuSig2Point} point The point.
+   * @returns {Bytes} The 32-byte x coordinate.
+   */
+  private static xbytes(point: MuSig2Point): Bytes {
+    return point.toRawBytes(true).subarray(1);
+  }
+
+  /**
+   * Encode an unsigned integer as big-endian bytes.
+   * @private
+   * @static
+   * @param {number | bigint} value The integer.
+   * @param {number} length The number of bytes.
+   * @returns {Bytes} The big-endian encoding.
+   */
+  private static uint(value: number | bigint, length: number): Bytes {
+    return Buffer.from(BigInt(value).toString(16).padStart(length * 2, '0'), 'hex');
+  }
+
+  /**
+   * Check an integer is a valid non-zero scalar.
+   * @private
+   * @static
+   * @param {bigint} value The integer.
+   * @returns {boolean} Whether the integer is in [1, n).
+   */
+  private static isScalar(value: bigint): boolean {
+    return value > 0n && value < n;
+  }
+}
+
+/**
+ * The state of one signer in one MuSig2 signing session. Sessions do not send anything themselves: round messages
+ * are plain JSON objects that the caller moves between signers over any transport.
+ *
+ * Round 1: every signer sends `nonceMessage()` to the others and passes theirs to `receiveNonce`.
+ * Round 2: every signer sends `sign(message)` to the others and passes theirs to `receivePartialSignature`; then
+ * `signature()` returns the aggregate BIP340 signature. A session signs one message only.
+ * @export
+ * @class MuSig2Session
+ * @type {MuSig2Session}
+ * @implements {IMuSig2Session}
+ */
+export class MuSig2Session implements IMuSig2Session {
+  /** @type {CompressedPublicKeyBytes[]} The sorted compressed public keys of the signers */
+  public readonly publicKeys: CompressedPublicKeyBytes[];
+
+  /** @type {CompressedPublicKeyBytes} The compressed public key of this signer */
+  public readonly publicKey: CompressedPublicKeyBytes;
+
+  /** @type {PublicKeyBytes} The x-only aggregate public key */
+  public readonly aggregatePublicKey: PublicKeyBytes;
+
+  /** @type {PrivateKey} The private key of this signer */
+  private readonly _privateKey: PrivateKey;
+
+  /** @type {Bytes} The secret nonce of this signer, erased once used */
+  private _secnonce?: Bytes;
+
+  /** @type {Map<string, Bytes>} The public nonce of each signer, by hex public key */
+  private readonly _pubnonces = new Map<string, Bytes>();
+
+  /** @type {Map<string, Bytes>} The partial signature of each signer, by hex public key */
+  private readonly _partialSignatures = new Map<string, Bytes>();
+
+  /** @type {MuSig2SessionContext} The context of the session, once this signer has signed */
+  private _context?: MuSig2SessionContext;
+
+  /**
+   * Creates an instance of MuSig2Session.
+   * @constructor
+   * @param {MuSig2SessionParams} params The parameters to create the session
+   * @param {PrivateKey} params.privateKey The private key of this signer
+   * @param {CompressedPublicKeyBytes[]} params.publicKeys The compressed public keys of every signer, including
+   * this one, in any order
+   * @throws {MuSig2Error} with type INVALID_PUBLIC_KEY_ERROR if the public keys repeat, do not include this
+   * signer or cannot be aggregated
+   */
+  constructor({ privateKey, publicKeys }: MuSig2SessionParams) {
+    this._privateKey = privateKey;
+    this.publicKey = privateKey.computePublicKey().compressed;
+    this.publicKeys = MuSig2Utils.keySort(publicKeys);
+
+    // Check the public keys are distinct and include this signer
+    const hexes = this.publicKeys.map(key => Buffer.from(key).toString('hex'));
+    if (new Set(hexes).size !== hexes.length) {
+      throw new MuSig2Error('Invalid public keys: duplicate key', INVALID_PUBLIC_KEY_ERROR);
+    }
+    if (!hexes.includes(this.hex(this.publicKey))) {
+      throw new MuSig2Error('Invalid public keys: missing the key of this signer', INVALID_PUBLIC_KEY_ERROR);
+    }
+
+    // Aggregate the sorted public keys
+    this.aggregatePublicKey = MuSig2Utils.aggregatePublicKey(this.publicKeys);
+  }
+
+  /** @see IMuSig2Session.nonceMessage */
+  public nonceMessage(): MuSig2NonceMessage {
+    const publicKey = this.hex(this.publicKey);
+
+    // Generate the nonce on the first call only
+    if (!this._pubnonces.has(publicKey)) {
+      if (this._context) {
+        throw new MuSig2Error('Cannot generate a nonce: the session has signed', MUSIG2_SESSION_ERROR);
+      }
+      const { secnonce, pubnonce } = MuSig2Utils.nonceGen({
+        privateKey         : this._privateKey.bytes,
+        publicKey          : this.publicKey,
+        aggregatePublicKey : this.aggregatePublicKey
+      });
+      this._secnonce = secnonce;
+      this._pubnonces.set(publicKey, pubnonce);
+    }
+
+    return { publicKey, pubnonce: this.hex(this._pubnonces.get(publicKey)!) };
+  }
+
+  /** @see IMuSig2Session.receiveNonce */
+  public receiveNonce({ publicKey, pubnonce }: MuSig2NonceMessage): void {
+    // Check the nonce is from another signer of the session, before signing
+    this.checkSigner(publicKey);
+    if (this._context) {
+      throw new MuSig2Error('Cannot receive a nonce: the session has signed', MUSIG2_SESSION_ERROR);
+    }
+
+    // Check the nonce is a pair of points and does not replace another nonce
+    const bytes = Buffer.from(pubnonce, 'hex');
+    MuSig2Utils.nonceAgg([bytes]);
+    const known = this._pubnonces.get(publicKey);
+    if (known && !Buffer.from(known).equals(bytes)) {
+      throw new MuSig2Error(`Conflicting nonce from signer ${publicKey}`, INVALID_NONCE_ERROR);
+    }
+    this._pubnonces.set(publicKey, bytes);
+  }
+
+  /** @see IMuSig2Session.sign */
+  public sign(message: HashBytes): MuSig2PartialSignatureMessage {
+    // Check this signer has a nonce and has every other nonce
+    if (!this._secnonce) {
+      const reason = this._context ? 'the session has signed' : 'no nonce: call nonceMessage first';
+      throw new MuSig2Error(`Cannot sign: ${reason}`, MUSIG2_SESSION_ERROR);
+    }
+    this.checkComplete(this._pubnonces, 'nonces');
+
+    // Aggregate the nonces in the order of the public keys and create the partial signature
+    const aggnonce = MuSig2Utils.nonceAgg(this.publicKeys.map(key => this._pubnonces.get(this.hex(key))!));
+    const context = { aggnonce, publicKeys: this.publicKeys, message };
+    const secnonce = this._secnonce;
+    this._secnonce = undefined;
+    const partialSignature = MuSig2Utils.sign({ secnonce, privateKey: this._privateKey.bytes, context });
+    secnonce.fill(0);
+
+    // Keep the context and this signer's partial signature
+    this._context = context;
+    const publicKey = this.hex(this.publicKey);
+    this._partialSignatures.set(publicKey, partialSignature);
+    return { publicKey, partialSignature: this.hex(partialSignature) };
+  }
+
+  /** @see IMuSig2Session.receivePartialSignature */
+  public receivePartialSignature({ publicKey, partialSignature }: MuSig2PartialSignatureMessage): void {
+    // Check the partial signature is from another signer, after this signer has signed
+    this.checkSigner(publicKey);
+    if (!this._context) {
+      throw new MuSig2Error('Cannot receive a partial signature: sign first', MUSIG2_SESSION_ERROR);
+    }
+
+    // Verify the partial signature against the nonce and public key of the signer
+    const bytes = Buffer.from(partialSignature, 'hex');
+    const verified = MuSig2Utils.partialSigVerifyInternal({
+      partialSignature : bytes,
+      pubnonce         : this._pubnonces.get(publicKey)!,
+      publicKey        : Buffer.from(publicKey, 'hex'),
+      context          : this._context
+    });
+    if (!verified) {
+      throw new MuSig2Error(`Invalid partial signature from signer ${publicKey}`, INVALID_PARTIAL_SIGNATURE_ERROR);
+    }
+    this._partialSignatures.set(publicKey, bytes);
+  }
+
+  /** @see IMuSig2Session.signature */
+  public signature(): SignatureBytes {
+    if (!this._context) {
+      throw new MuSig2Error('Cannot aggregate: sign first', MUSIG2_SESSION_ERROR);
+    }
+    this.checkComplete(this._partialSignatures, 'partial signatures');
+
+    // Aggregate the partial signatures in the order of the public keys
+    const partialSignatures = this.publicKeys.map(key => this._partialSignatures.get(this.hex(key))!);
+    return MuSig2Utils.partialSigAgg(partialSignatures, this._context);
+  }
+
+  /**
+   * Check a round message is from another signer of the session.
+   * @private
+   * @param {string} publicKey The hex compressed public key of the sender.
+   * @throws {MuSig2Error} with type INVALID_PUBLIC_KEY_ERROR if the sender is this signer or not a signer.
+   */
+  private checkSigner(publicKey: string): void {
+    if (publicKey === this.hex(this.publicKey)) {
+      throw new MuSig2Error('Invalid round message: sent by this signer', INVALID_PUBLIC_KEY_ERROR);
+    }
+    if (!this.publicKeys.some(key => this.hex(key) === publicKey)) {
+      throw new MuSig2Error(`Invalid round message: unknown signer ${publicKey}`, INVALID_PUBLIC_KEY_ERROR);
+    }
+  }
+
+  /**
+   * Check a round is complete: every signer has sent its message.
+   * @private
+   * @param {Map<string, Bytes>} received The messages of the round, by hex public key.
+   * @param {string} name The name of the messages, used for error messages.
+   * @throws {MuSig2Error} with type MUSIG2_SESSION_ERROR if a signer has not sent its message.
+   */
+  private checkComplete(received: Map<string, Bytes>, name: string): void {
+    const missing = this.publicKeys.map(key => this.hex(key)).filter(key => !received.has(key));
+    if (missing.length) {
+      throw new MuSig2Error(`Missing ${name} from signers: ${missing.join(', ')}`, MUSIG2_SESSION_ERROR);
+    }
+  }
+
+  /**
+   * Encode bytes as hex.
+   * @private
+   * @param {Bytes} bytes The bytes.
+   * @returns {string} The hex encoding.
+   */
+  private hex(bytes: Bytes): string {
+    return Buffer.from(bytes).toString('hex');
+  }
+}
+
+/**
+ * An `ISigner` for the aggregate public key of a MuSig2 session, so that a `Multikey` built with it creates
+ * ordinary BIP340 proofs with `Cryptosuite`. Every signer runs the nonce round of its session first, then creates
+ * the same proof (same document and proof options) with its own MuSig2Signer; `sign` runs the partial signature
+ * round through the exchange function.
+ * @export
+ * @class MuSig2Signer
+ * @type {MuSig2Signer}
+ * @implements {ISigner}
+ */
+export class MuSig2Signer implements ISigner {
+  /** @type {PublicKey} The aggregate public key, with an even y */
+  public readonly publicKey: PublicKey;
+
+  /** @type {MuSig2Session} The session of this signer */
+  private readonly _session: MuSig2Session;
+
+  /** @type {MuSig2Exchange} The transport sending this signer's partial signature and receiving every other */
+  private readonly _exchange: MuSig2Exchange;
+
+  /**
+   * Creates an instance of MuSig2Signer.
+   * @constructor
+   * @param {MuSig2Session} session The session of this signer, with every nonce received.
+   * @param {MuSig2Exchange} exchange Sends this signer's partial signature message to the others and resolves with
+   * the partial signature messages of the round, which may include this signer's own.
+   */
+  constructor(session: MuSig2Session, exchange: MuSig2Exchange) {
+    this._session = session;
+    this._exchange = exchange;
+    this.publicKey = new PublicKey(MuSig2Utils.evenYPublicKey(session.aggregatePublicKey));
+  }
+
+  /**
+   * Sign a hash with the aggregate key. MuSig2 nonces come from the nonce round, so auxRand is not used.
+   * @see ISigner.sign
+   */
+  public async sign(hash: HashBytes, _auxRand?: Bytes): Promise<SignatureBytes> {
+    // Create this signer's partial signature and exchange it for the others
+    const own = this._session.sign(hash);
+    const messages = await this._exchange(own);
+
+    // Receive the partial signature of every other signer and aggregate them
+    for (const message of messages) {
+      if (message.publicKey !== own.publicKey) {
+        this._session.receivePartialSignature(message);
+      }
+    }
+    return this._session.signature();
+  }
+}
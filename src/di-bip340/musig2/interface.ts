@@ -0,0 +1,59 @@
+import { MuSig2NonceMessage, MuSig2PartialSignatureMessage } from '../../types/musig2.js';
+import { CompressedPublicKeyBytes, HashBytes, PublicKeyBytes, SignatureBytes } from '../../types/shared.js';
+
+/**
+ * Interface representing one signer in one MuSig2 signing session.
+ * @export
+ * @interface IMuSig2Session
+ * @type {IMuSig2Session}
+ */
+export interface IMuSig2Session {
+  /** @type {CompressedPublicKeyBytes[]} @readonly The sorted compressed public keys of the signers */
+  readonly publicKeys: CompressedPublicKeyBytes[];
+
+  /** @type {CompressedPublicKeyBytes} @readonly The compressed public key of this signer */
+  readonly publicKey: CompressedPublicKeyBytes;
+
+  /** @type {PublicKeyBytes} @readonly The x-only aggregate public key */
+  readonly aggregatePublicKey: PublicKeyBytes;
+
+  /**
+   * Round 1: get this signer's nonce message, generating the nonce on the first call.
+   * @returns {MuSig2NonceMessage} The hex public key and public nonce of this signer.
+   * @throws {MuSig2Error} with type MUSIG2_SESSION_ERROR if the session has signed.
+   */
+  nonceMessage(): MuSig2NonceMessage;
+
+  /**
+   * Round 1: receive the nonce message of another signer.
+   * @param {MuSig2NonceMessage} message The nonce message.
+   * @throws {MuSig2Error} if the sender is not another signer, the nonce is invalid or conflicts with a nonce
+   * already received, or the session has signed.
+   */
+  receiveNonce(message: MuSig2NonceMessage): void;
+
+  /**
+   * Round 2: sign a message with this signer's nonce, which is then erased.
+   * @param {HashBytes} message The message, e.g. the hash of a proof.
+   * @returns {MuSig2PartialSignatureMessage} The hex public key and partial signature of this signer.
+   * @throws {MuSig2Error} with type MUSIG2_SESSION_ERROR if this signer has no nonce or has signed, or a nonce is
+   * missing.
+   */
+  sign(message: HashBytes): MuSig2PartialSignatureMessage;
+
+  /**
+   * Round 2: receive and verify the partial signature message of another signer.
+   * @param {MuSig2PartialSignatureMessage} message The partial signature message.
+   * @throws {MuSig2Error} if the sender is not another signer, this signer has not signed, or the partial
+   * signature is invalid (type INVALID_PARTIAL_SIGNATURE_ERROR, naming the signer).
+   */
+  receivePartialSignature(message: MuSig2PartialSignatureMessage): void;
+
+  /**
+   * Aggregate the partial signatures into the BIP340 signature of the aggregate public key.
+   * @returns {SignatureBytes} The 64-byte BIP340 signature.
+   * @throws {MuSig2Error} with type MUSIG2_SESSION_ERROR if this signer has not signed or a partial signature is
+   * missing.
+   */
+  signature(): SignatureBytes;
+}
@@ -0,0 +1,189 @@
+import { DidDocument } from '@web5/dids';
+import { InsecureDocument, Proof, SecureDocument, VerificationResult } from '../../types/di-proof.js';
+import {
+  CreatePresentationParams,
+  PresentationVerificationResult,
+  VerifiablePresentation,
+  VerifyPresentationParams
+} from '../../types/presentation.js';
+import { ProofError } from '../../utils/error.js';
+import { ProblemDetailsUtils } from '../../utils/problem-details.js';
+import { DataIntegrityProof } from '../data-integrity-proof/index.js';
+import { CREDENTIALS_V2_URL } from '../document-loader/contexts.js';
+import { LocalResolver, ResolverUtils } from '../resolver/index.js';
+import { IPresentation } from './interface.js';
+
+/** @type {string} The type of a Verifiable Presentation */
+const VERIFIABLE_PRESENTATION = 'VerifiablePresentation';
+
+/**
+ * Creates and verifies {@link https://www.w3.org/TR/vc-data-model-2.0/#verifiable-presentations | VC v2 Verifiable
+ * Presentations} secured with DataIntegrityProof: the holder signs the presentation for authentication over the
+ * verifier's challenge and domain, and each embedded credential keeps the proof of its issuer.
+ * @export
+ * @class Presentation
+ * @type {Presentation}
+ * @implements {IPresentation}
+ */
+export class Presentation implements IPresentation {
+  /** @type {DataIntegrityProof} The DataIntegrityProof used to sign presentations and verify every proof */
+  public diProof: DataIntegrityProof;
+
+  /**
+   * Creates an instance of Presentation.
+   * @constructor
+   * @param {DataIntegrityProof} diProof The DataIntegrityProof used to sign presentations (with the holder's
+   * cryptosuite) and verify every proof (with a resolver to verify credentials of other issuers).
+   */
+  constructor(diProof: DataIntegrityProof) {
+    this.diProof = diProof;
+  }
+
+  /** @see IPresentation.createPresentation */
+  public async createPresentation({
+    credentials,
+    holder,
+    id,
+    options
+  }: CreatePresentationParams): Promise<SecureDocument> {
+    // Check if the verifier's challenge is defined
+    if (!options.challenge) {
+      throw new ProofError('Missing challenge: a presentation proof must have a challenge', 'PROOF_GENERATION_ERROR');
+    }
+
+    // Check if every credential is secured
+    const index = credentials.findIndex(credential => typeof credential?.proof !== 'object' || !credential.proof);
+    if (index !== -1) {
+      throw new ProofError(`Credential ${index} is not secured: missing proof`, 'PROOF_GENERATION_ERROR');
+    }
+
+    // Wrap the credentials in a presentation, held by the controller of the verification method by default
+    const document: InsecureDocument = {
+      '@context'           : [CREDENTIALS_V2_URL],
+      ...(id ? { id } : {}),
+      type                 : [VERIFIABLE_PRESENTATION],
+      holder               : holder ?? options.verificationMethod?.split('#')[0],
+      verifiableCredential : credentials
+    };
+
+    // Sign the presentation for authentication
+    return await this.diProof.addProof({
+      document,
+      options : { type: 'DataIntegrityProof', ...options, proofPurpose: 'authentication' }
+    });
+  }
+
+  /** @see IPresentation.verifyPresentation */
+  public async verifyPresentation({
+    credentialPurpose = 'assertionMethod',
+    maxProofAge,
+    ...params
+  }: VerifyPresentationParams): Promise<PresentationVerificationResult> {
+    const { document, mediaType, clock, clockSkew } = params;
+
+    // Parse the presentation and check it is a presentation
+    let secured: VerifiablePresentation;
+    try {
+      secured = this.parse(document);
+    } catch (error: any) {
+      const presentation = { verified: false, mediaType, problemDetails: [ProblemDetailsUtils.fromError(error)] };
+      return { verified: false, presentation, credentials: [] };
+    }
+
+    // Verify the presentation proof for authentication over the challenge and domain
+    let presentation = await this.diProof.verifyProof({
+      ...params,
+      maxProofAge,
+      expectedPurpose : 'authentication',
+      throwOnError    : false
+    });
+
+    // Check the holder, if any, controls the verification method of each presentation proof
+    try {
+      await this.checkHolder(secured, params.controllerDocument);
+    } catch (error: any) {
+      const problemDetails = [...presentation.problemDetails ?? [], ProblemDetailsUtils.fromError(error)];
+      presentation = { ...presentation, verified: false, verifiedDocument: undefined, problemDetails };
+    }
+
+    // Get the embedded credentials: none, one or many
+    const credentials: SecureDocument[] = [secured.verifiableCredential ?? []].flat();
+
+    // Verify every credential proof through the same DataIntegrityProof, with batch verification
+    const results: VerificationResult[] = await this.diProof.verifyProofs({
+      documents       : credentials.map(credential => JSON.stringify(credential)),
+      expectedPurpose : credentialPurpose,
+      mediaType,
+      clock,
+      clockSkew
+    });
+
+    // The presentation verifies if its proof and every credential proof verify
+    const verified = presentation.verified && results.every(result => result.verified);
+    return { verified, presentation, credentials: results };
+  }
+
+  /**
+   * Check the holder of a presentation, if any, is the controller of the verification method of each of its
+   * proofs: the DID of the verification method URL. In verifier mode, or given the controller document, the
+   * verification method is also resolved, which checks the document of that DID controls it; otherwise it is the
+   * cryptosuite's multikey. The holder is optional in the VC Data Model: a presentation without one is not bound
+   * to a holder, and only its proof is checked.
+   * @private
+   * @param {VerifiablePresentation} presentation The secured presentation.
+   * @param {DidDocument} controllerDocument The controller document of the verification methods (optional).
+   * @returns {Promise<void>}
+   * @throws {ProofError} with type INVALID_HOLDER_ERROR if the holder is not the controller of a verification
+   * method.
+   * @throws {ResolverError} if a verification method cannot be resolved.
+   */
+  private async checkHolder(presentation: VerifiablePresentation, controllerDocument?: DidDocument): Promise<void> {
+    // Get the holder id: a URL or an object with a URL id
+    const { holder } = presentation;
+    if (holder === undefined) return;
+    const holderId = typeof holder === 'object' && holder !== null ? holder.id : holder;
+
+    const resolver = controllerDocument ? new LocalResolver([controllerDocument]) : this.diProof.resolver;
+
+    const proofs: Proof[] = [presentation.proof ?? []].flat();
+    for (const { verificationMethod } of proofs) {
+      // Get the controller of the verification method, the DID of its URL, and check:
+      // if the holder is not the controller, throw an error
+      const [controller] = verificationMethod.split('#');
+      if (controller !== holderId) {
+        const message = `Holder ${holderId} is not the controller of ${verificationMethod}: ${controller}`;
+        throw new ProofError(message, 'INVALID_HOLDER_ERROR');
+      }
+
+      // Resolve the verification method, checking the controller's document controls it
+      if (resolver) await ResolverUtils.dereference(resolver, verificationMethod);
+    }
+  }
+
+  /**
+   * Parse a presentation.
+   * @private
+   * @param {string} document The secured presentation.
+   * @returns {VerifiablePresentation} The presentation.
+   * @throws {ProofError} if the document is not a JSON object or not a VerifiablePresentation.
+   */
+  private parse(document: string): VerifiablePresentation {
+    // Parse the document
+    let presentation: unknown;
+    try {
+      presentation = JSON.parse(document);
+    } catch (error: any) {
+      throw new ProofError(`Invalid JSON document: ${error.message}`, 'PARSING_ERROR');
+    }
+
+    // Check if the document is a VerifiablePresentation
+    const types = typeof presentation === 'object' && presentation !== null
+      ? [(presentation as Record<string, unknown>).type].flat()
+      : [];
+    if (!types.includes(VERIFIABLE_PRESENTATION)) {
+      throw new ProofError(`Invalid presentation: type must include ${VERIFIABLE_PRESENTATION}`, 'PARSING_ERROR');
+    }
+
+    return presentation as VerifiablePresentation;
+  }
+}
@@ -0,0 +1,48 @@
+import { SecureDocument } from '../../types/di-proof.js';
+import {
+  CreatePresentationParams,
+  PresentationVerificationResult,
+  VerifyPresentationParams
+} from '../../types/presentation.js';
+import { DataIntegrityProof } from '../data-integrity-proof/index.js';
+
+/**
+ * Interface representing a Verifiable Presentation layer over DataIntegrityProof.
+ * @export
+ * @interface IPresentation
+ * @type {IPresentation}
+ */
+export interface IPresentation {
+  /** @type {DataIntegrityProof} The DataIntegrityProof used to sign presentations and verify every proof */
+  diProof: DataIntegrityProof;
+
+  /**
+   * Wrap secured credentials in a VC v2 VerifiablePresentation and sign it for authentication with the verifier's
+   * challenge and, if given, domain.
+   * @param {CreatePresentationParams} params Parameters for creating the presentation.
+   * @param {SecureDocument[]} params.credentials The secured credentials to present.
+   * @param {string} params.holder The holder of the presentation (optional, defaults to the controller of
+   * options.verificationMethod).
+   * @param {string} params.id The id of the presentation (optional).
+   * @param {PresentationOptions} params.options The proof options, with the verifier's challenge and domain.
+   * @returns {Promise<SecureDocument>} The secured presentation.
+   * @throws {ProofError} if a credential is not secured or the challenge is missing.
+   */
+  createPresentation({ credentials, holder, id, options }: CreatePresentationParams): Promise<SecureDocument>;
+
+  /**
+   * Verify a presentation: its authentication proof against the expected challenge and domain, that its holder,
+   * if any, controls the verification method of that proof, then the proof of every embedded credential.
+   * A presentation without a holder is not bound to one: a verifier requiring holder binding must check the
+   * holder of the verified document. Problems are recorded in the result tree, never thrown.
+   * @param {VerifyPresentationParams} params Parameters for verifying the presentation.
+   * @param {string} params.document The secured presentation.
+   * @param {string} params.expectedChallenge The challenge the verifier issued.
+   * @param {string | string[]} params.expectedDomain The domain of the verifier (optional).
+   * @param {string} params.credentialPurpose The expected purpose of the credential proofs (optional, defaults to
+   * assertionMethod).
+   * @returns {Promise<PresentationVerificationResult>} Whether the presentation and every credential verify, with
+   * the result of the presentation proof and of each credential, in order.
+   */
+  verifyPresentation(params: VerifyPresentationParams): Promise<PresentationVerificationResult>;
+}
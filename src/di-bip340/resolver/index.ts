@@ -0,0 +1,174 @@
+import { DidDocument, DidVerificationMethod } from '@web5/dids';
+import { VerificationRelationship } from '../../types/shared.js';
+import { ResolverError } from '../../utils/error.js';
+import { Multikey } from '../multikey/index.js';
+import { IDidResolver } from './interface.js';
+
+/** @type {VerificationRelationship[]} The verification relationships of a DID document */
+const VERIFICATION_RELATIONSHIPS: VerificationRelationship[] = [
+  'assertionMethod',
+  'authentication',
+  'capabilityInvocation',
+  'capabilityDelegation',
+  'keyAgreement'
+];
+
+/**
+ * An in-memory DID resolver serving a fixed set of DID documents, e.g. for tests or pinned keys.
+ * @export
+ * @class LocalResolver
+ * @type {LocalResolver}
+ * @implements {IDidResolver}
+ */
+export class LocalResolver implements IDidResolver {
+  /** @type {Map<string, DidDocument>} The DID documents keyed by DID */
+  private readonly _documents: Map<string, DidDocument> = new Map();
+
+  /**
+   * Creates an instance of LocalResolver.
+   * @constructor
+   * @param {DidDocument[]} documents The DID documents to serve (optional)
+   */
+  constructor(documents: DidDocument[] = []) {
+    documents.forEach(document => this.add(document));
+  }
+
+  /**
+   * Add a DID document to the resolver, replacing any document with the same id.
+   * @param {DidDocument} document The DID document to add.
+   * @returns {LocalResolver} The resolver, for chaining.
+   */
+  public add(document: DidDocument): LocalResolver {
+    this._documents.set(document.id, document);
+    return this;
+  }
+
+  /** @see IDidResolver.resolve */
+  public async resolve(did: string): Promise<DidDocument> {
+    // Get the document for the DID and check:
+    // if no document exists, throw an error
+    const document = this._documents.get(did);
+    if (!document) {
+      throw new ResolverError(`DID not found: ${did}`, 'DID_NOT_FOUND_ERROR');
+    }
+    return document;
+  }
+}
+
+/**
+ * A utility class for dereferencing verification methods through an `IDidResolver`
+ * @export
+ * @class ResolverUtils
+ * @type {ResolverUtils}
+ */
+export class ResolverUtils {
+  /**
+   * Dereference a DID URL (e.g. `did:btc1:k1...#initialKey`) to the verification method it identifies.
+   * The verification method may be listed in the DID document with either its absolute or relative id, and
+   * either under verificationMethod or embedded in a verification relationship. Given a relationship, the
+   * verification method must also appear under it, embedded or referenced by id.
+   * @static
+   * @param {IDidResolver} resolver The resolver used to resolve the DID.
+   * @param {string} didUrl The DID URL of the verification method.
+   * @param {VerificationRelationship} relationship The relationship the verification method must have (optional).
+   * @returns {Promise<DidVerificationMethod>} The verification method with its absolute id.
+   * @throws {ResolverError} if the DID URL has no fragment, the verification method is not found, is controlled by
+   * another DID or does not have the relationship.
+   */
+  public static async dereference(
+    resolver: IDidResolver,
+    didUrl: string,
+    relationship?: VerificationRelationship
+  ): Promise<DidVerificationMethod> {
+    // Split the DID URL into the DID and the fragment and check:
+    // if the fragment is missing, throw an error
+    const [did, fragment] = didUrl.split('#');
+    if (!fragment) {
+      throw new ResolverError(`Invalid DID URL: missing fragment in ${didUrl}`, 'INVALID_DID_URL_ERROR');
+    }
+
+    // Resolve the DID to a DID document
+    const document = await resolver.resolve(did);
+
+    // Find the verification method by its absolute or relative id, listed or embedded in a relationship, and check:
+    // if none is found, throw an error
+    const identifies = (id: string) => id === didUrl || id === `#${fragment}`;
+    const embedded = VERIFICATION_RELATIONSHIPS
+      .flatMap(name => document[name] ?? [])
+      .filter((vm): vm is DidVerificationMethod => typeof vm === 'object');
+    const vm = [...document.verificationMethod ?? [], ...embedded].find(vm => identifies(vm.id));
+    if (!vm) {
+      throw new ResolverError(`Verification method not found: ${didUrl}`, 'VERIFICATION_METHOD_NOT_FOUND_ERROR');
+    }
+
+    // Check if the document is the DID's and controls the verification method
+    this.checkController(vm, document, did);
+
+    // Check if the verification method has the relationship, embedded or referenced by id, and check:
+    // if an embedded verification method is controlled by another DID, throw an error
+    if (relationship) {
+      const code = 'INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD';
+      if (!VERIFICATION_RELATIONSHIPS.includes(relationship)) {
+        throw new ResolverError(`Unknown verification relationship: ${relationship}`, code);
+      }
+      const related = (document[relationship] ?? []).filter(vm => identifies(typeof vm === 'string' ? vm : vm.id));
+      if (!related.length) {
+        throw new ResolverError(`Verification method ${didUrl} is not authorized for ${relationship}`, code);
+      }
+      related
+        .filter((vm): vm is DidVerificationMethod => typeof vm === 'object')
+        .forEach(vm => this.checkController(vm, document, did));
+    }
+
+    // Return the verification method with its absolute id and controller
+    return { ...vm, id: didUrl, controller: did };
+  }
+
+  /**
+   * Check a verification method is controlled by the DID it is dereferenced from: the resolved document must be the
+   * DID's, and the controller of the verification method, if set, must be that DID.
+   * @private
+   * @static
+   * @param {DidVerificationMethod} vm The verification method.
+   * @param {DidDocument} document The resolved DID document.
+   * @param {string} did The DID of the verification method URL.
+   * @throws {ResolverError} with type INVALID_VERIFICATION_METHOD_ERROR if the document or controller is another DID.
+   */
+  private static checkController(vm: DidVerificationMethod, document: DidDocument, did: string): void {
+    const code = 'INVALID_VERIFICATION_METHOD_ERROR';
+    if (document.id !== did) {
+      throw new ResolverError(`Resolved document ${document.id} is not the document of ${did}`, code);
+    }
+    if (vm.controller !== undefined && vm.controller !== did) {
+      throw new ResolverError(`Verification method ${vm.id} is controlled by ${vm.controller}, not ${did}`, code);
+    }
+  }
+
+  /**
+   * Dereference a DID URL and build a public-only `Multikey` from the verification method.
+   * @static
+   * @param {IDidResolver} resolver The resolver used to resolve the DID.
+   * @param {string} didUrl The DID URL of the verification method.
+   * @param {VerificationRelationship} relationship The relationship the verification method must have (optional).
+   * @returns {Promise<Multikey>} The public-only multikey, whose fullId is `didUrl`.
+   * @throws {ResolverError} if the verification method is not found, does not have the relationship or is not a
+   * Multikey.
+   * @throws {MultikeyError} if the publicKeyMultibase of the verification method is invalid.
+   */
+  public static async resolveMultikey(
+    resolver: IDidResolver,
+    didUrl: string,
+    relationship?: VerificationRelationship
+  ): Promise<Multikey> {
+    // Dereference the verification method
+    const { id, type, controller, publicKeyMultibase } = await this.dereference(resolver, didUrl, relationship);
+
+    // Check if the verification method is a Multikey with a publicKeyMultibase
+    if (type !== Multikey.type || !publicKeyMultibase) {
+      throw new ResolverError(`Verification method is not a Multikey: ${didUrl}`, 'INVALID_VERIFICATION_METHOD_ERROR');
+    }
+
+    // Return a new public-only Multikey instance
+    return Multikey.fromVerificationMethod({ id, type, controller, publicKeyMultibase });
+  }
+}
@@ -0,0 +1,17 @@
+import { DidDocument } from '@web5/dids';
+
+/**
+ * Interface representing a DID resolver used to look up the verification method of a proof.
+ * @export
+ * @interface IDidResolver
+ * @type {IDidResolver}
+ */
+export interface IDidResolver {
+  /**
+   * Resolve a DID to its DID document.
+   * @param {string} did The DID to resolve (without a fragment).
+   * @returns {Promise<DidDocument>} The resolved DID document.
+   * @throws {ResolverError} if the DID cannot be resolved.
+   */
+  resolve(did: string): Promise<DidDocument>;
+}
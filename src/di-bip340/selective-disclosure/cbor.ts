@@ -0,0 +1,212 @@
+import { CborValue } from '../../types/selective-disclosure.js';
+import { CryptosuiteError } from '../../utils/error.js';
+
+/** Error type thrown when a CBOR item cannot be decoded */
+const MALFORMED_PROOF_ERROR = 'MALFORMED_PROOF_ERROR';
+
+/** CBOR major types of the items used by selective disclosure proof values */
+const UNSIGNED = 0;
+const BYTES = 2;
+const TEXT = 3;
+const ARRAY = 4;
+const MAP = 5;
+
+/**
+ * Encodes and decodes the subset of {@link https://www.rfc-editor.org/rfc/rfc8949 | CBOR (RFC 8949)} used by
+ * selective disclosure proof values: unsigned integers, byte strings, text strings, arrays and maps, all of
+ * definite length.
+ * @export
+ * @class Cbor
+ * @type {Cbor}
+ */
+export class Cbor {
+  /**
+   * Encode a value to CBOR.
+   * @static
+   * @param {CborValue} value The value to encode.
+   * @returns {Uint8Array} The CBOR encoding of the value.
+   * @throws {CryptosuiteError} if the value is not a non-negative safe integer, bytes, a string, an array or a map.
+   */
+  public static encode(value: CborValue): Uint8Array {
+    const chunks: number[] = [];
+    this.write(value, chunks);
+    return new Uint8Array(chunks);
+  }
+
+  /**
+   * Decode a CBOR item that spans all of the given bytes.
+   * @static
+   * @param {Uint8Array} bytes The CBOR encoding.
+   * @returns {CborValue} The decoded value.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the bytes are not a single supported CBOR item.
+   */
+  public static decode(bytes: Uint8Array): CborValue {
+    const [value, offset] = this.read(bytes, 0);
+    if (offset !== bytes.length) {
+      throw new CryptosuiteError(`Invalid CBOR: ${bytes.length - offset} trailing bytes`, MALFORMED_PROOF_ERROR);
+    }
+    return value;
+  }
+
+  /**
+   * Write the encoding of a value.
+   * @private
+   * @static
+   * @param {CborValue} value The value to encode.
+   * @param {number[]} out The bytes written so far.
+   */
+  private static write(value: CborValue, out: number[]): void {
+    if (typeof value === 'number') {
+      if (!Number.isSafeInteger(value) || value < 0) {
+        throw new CryptosuiteError(`Invalid CBOR value: ${value}`, 'PROOF_GENERATION_ERROR');
+      }
+      this.writeHead(UNSIGNED, value, out);
+    } else if (value instanceof Uint8Array) {
+      this.writeHead(BYTES, value.length, out);
+      out.push(...value);
+    } else if (typeof value === 'string') {
+      const utf8 = new TextEncoder().encode(value);
+      this.writeHead(TEXT, utf8.length, out);
+      out.push(...utf8);
+    } else if (Array.isArray(value)) {
+      this.writeHead(ARRAY, value.length, out);
+      value.forEach(item => this.write(item, out));
+    } else if (value instanceof Map) {
+      this.writeHead(MAP, value.size, out);
+      value.forEach((item, key) => {
+        this.write(key, out);
+        this.write(item, out);
+      });
+    } else {
+      throw new CryptosuiteError(`Invalid CBOR value: ${typeof value}`, 'PROOF_GENERATION_ERROR');
+    }
+  }
+
+  /**
+   * Write the head of an item: its major type and its argument in the shortest form.
+   * @private
+   * @static
+   * @param {number} major The major type.
+   * @param {number} argument The value, length or size of the item.
+   * @param {number[]} out The bytes written so far.
+   */
+  private static writeHead(major: number, argument: number, out: number[]): void {
+    const type = major << 5;
+    if (argument < 24) {
+      out.push(type | argument);
+    } else if (argument < 0x100) {
+      out.push(type | 24, argument);
+    } else if (argument < 0x10000) {
+      out.push(type | 25, argument >> 8, argument & 0xff);
+    } else if (argument < 0x100000000) {
+      out.push(type | 26, ...[24, 16, 8, 0].map(shift => (argument >>> shift) & 0xff));
+    } else {
+      const big = BigInt(argument);
+      out.push(type | 27, ...[56n, 48n, 40n, 32n, 24n, 16n, 8n, 0n].map(shift => Number((big >> shift) & 0xffn)));
+    }
+  }
+
+  /**
+   * Read the item starting at an offset.
+   * @private
+   * @static
+   * @param {Uint8Array} bytes The CBOR encoding.
+   * @param {number} offset The offset of the item.
+   * @returns {[CborValue, number]} The decoded item and the offset following it.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the item is truncated or unsupported.
+   */
+  private static read(bytes: Uint8Array, offset: number): [CborValue, number] {
+    const [major, argument, start] = this.readHead(bytes, offset);
+    switch (major) {
+      case UNSIGNED:
+        return [argument, start];
+      case BYTES:
+        return [bytes.slice(start, this.end(bytes, start, argument)), start + argument];
+      case TEXT: {
+        const utf8 = bytes.slice(start, this.end(bytes, start, argument));
+        try {
+          return [new TextDecoder('utf-8', { fatal: true }).decode(utf8), start + argument];
+        } catch {
+          throw new CryptosuiteError('Invalid CBOR: text string is not UTF-8', MALFORMED_PROOF_ERROR);
+        }
+      }
+      case ARRAY: {
+        const items: CborValue[] = [];
+        let next = start;
+        for (let i = 0; i < argument; i++) {
+          const [item, after] = this.read(bytes, next);
+          items.push(item);
+          next = after;
+        }
+        return [items, next];
+      }
+      case MAP: {
+        const map = new Map<number, CborValue>();
+        let next = start;
+        for (let i = 0; i < argument; i++) {
+          const [key, afterKey] = this.read(bytes, next);
+          if (typeof key !== 'number') {
+            throw new CryptosuiteError('Invalid CBOR: map keys must be unsigned integers', MALFORMED_PROOF_ERROR);
+          }
+          const [item, afterItem] = this.read(bytes, afterKey);
+          map.set(key, item);
+          next = afterItem;
+        }
+        return [map, next];
+      }
+      default:
+        throw new CryptosuiteError(`Invalid CBOR: unsupported major type ${major}`, MALFORMED_PROOF_ERROR);
+    }
+  }
+
+  /**
+   * Read the head of an item.
+   * @private
+   * @static
+   * @param {Uint8Array} bytes The CBOR encoding.
+   * @param {number} offset The offset of the item.
+   * @returns {[number, number, number]} The major type, the argument and the offset of the item content.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the head is truncated or of indefinite length.
+   */
+  private static readHead(bytes: Uint8Array, offset: number): [number, number, number] {
+    if (offset >= bytes.length) {
+      throw new CryptosuiteError('Invalid CBOR: unexpected end of input', MALFORMED_PROOF_ERROR);
+    }
+    const major = bytes[offset] >> 5;
+    const info = bytes[offset] & 0x1f;
+    if (info < 24) {
+      return [major, info, offset + 1];
+    }
+    if (info > 27) {
+      throw new CryptosuiteError(`Invalid CBOR: unsupported additional information ${info}`, MALFORMED_PROOF_ERROR);
+    }
+
+    // Read the 1, 2, 4 or 8 byte big-endian argument
+    const length = 1 << (info - 24);
+    let argument = 0n;
+    for (const byte of bytes.slice(offset + 1, this.end(bytes, offset + 1, length))) {
+      argument = (argument << 8n) | BigInt(byte);
+    }
+    if (argument > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new CryptosuiteError('Invalid CBOR: argument too large', MALFORMED_PROOF_ERROR);
+    }
+    return [major, Number(argument), offset + 1 + length];
+  }
+
+  /**
+   * Get the end of a span of bytes, checking it is within the input.
+   * @private
+   * @static
+   * @param {Uint8Array} bytes The CBOR encoding.
+   * @param {number} start The offset of the span.
+   * @param {number} length The length of the span.
+   * @returns {number} The offset following the span.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the span runs past the end of the input.
+   */
+  private static end(bytes: Uint8Array, start: number, length: number): number {
+    if (start + length > bytes.length) {
+      throw new CryptosuiteError('Invalid CBOR: unexpected end of input', MALFORMED_PROOF_ERROR);
+    }
+    return start + length;
+  }
+}
@@ -0,0 +1,306 @@
+import { schnorr } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes } from 'crypto';
+import { DataIntegrityProofType } from '../../types/di-proof.js';
+import { DocumentLoader } from '../../types/document-loader.js';
+import {
+  CreateBaseProofParams,
+  DeriveProofParams,
+  SdCryptosuiteType,
+  SdProof,
+  SdProofOptions,
+  SdSecureDocument,
+  SdVerificationResult,
+  SelectiveDisclosureCryptosuiteParams
+} from '../../types/selective-disclosure.js';
+import { HashBytes } from '../../types/shared.js';
+import { DateTimeUtils } from '../../utils/date-time.js';
+import { CryptosuiteError } from '../../utils/error.js';
+import { SchnorrBatch } from '../cryptosuite/batch.js';
+import { Canonicalize } from '../cryptosuite/canonicalize.js';
+import { DocumentLoaderUtils } from '../document-loader/index.js';
+import { Multikey } from '../multikey/index.js';
+import { ISelectiveDisclosureCryptosuite } from './interface.js';
+import { SdPrimitives } from './primitives.js';
+
+/**
+ * Implements bip340-sd-2025, a selective disclosure cryptosuite modelled on
+ * {@link https://www.w3.org/TR/vc-di-ecdsa/#ecdsa-sd-2023 | ecdsa-sd-2023} with BIP340 signatures.
+ *
+ * The issuer canonicalizes the document with HMAC blank node labels, signs each statement with an ephemeral
+ * key, and signs the ephemeral key with the statements that must always be revealed with the multikey. The
+ * holder reveals any further statements by keeping only their signatures, and the verifier checks the
+ * revealed statements against both keys, all without contacting the issuer.
+ * @export
+ * @class SelectiveDisclosureCryptosuite
+ * @type {SelectiveDisclosureCryptosuite}
+ * @implements {ISelectiveDisclosureCryptosuite}
+ */
+export class SelectiveDisclosureCryptosuite implements ISelectiveDisclosureCryptosuite {
+  /** @type {DataIntegrityProofType} The type of proof produced by the cryptosuite */
+  public type: DataIntegrityProofType = 'DataIntegrityProof';
+
+  /** @type {SdCryptosuiteType} The name of the cryptosuite */
+  public cryptosuite: SdCryptosuiteType = 'bip340-sd-2025';
+
+  /** @type {Multikey} The multikey signing base proofs and verifying derived proofs */
+  public multikey: Multikey;
+
+  /** @type {DocumentLoader} The JSON-LD document loader used for RDFC canonicalization */
+  public documentLoader: DocumentLoader;
+
+  /** @type {boolean} Whether canonicalization fails on terms dropped during JSON-LD expansion */
+  public safeMode: boolean;
+
+  /**
+   * Creates an instance of SelectiveDisclosureCryptosuite.
+   * @constructor
+   * @param {SelectiveDisclosureCryptosuiteParams} params The parameters to create the cryptosuite
+   * @param {Multikey} params.multikey The multikey signing base proofs (issuer) or verifying derived proofs
+   * (verifier); a holder deriving proofs only needs its public key
+   * @param {DocumentLoader} params.documentLoader The JSON-LD document loader (optional, defaults to an offline
+   * loader of the bundled contexts)
+   * @param {boolean} params.safeMode Whether canonicalization fails on terms dropped during JSON-LD expansion
+   * (optional, defaults to true)
+   */
+  constructor({ multikey, documentLoader, safeMode = true }: SelectiveDisclosureCryptosuiteParams) {
+    this.multikey = multikey;
+    this.documentLoader = documentLoader ?? DocumentLoaderUtils.offline();
+    this.safeMode = safeMode;
+  }
+
+  /** @see ISelectiveDisclosureCryptosuite.createBaseProof */
+  public async createBaseProof({ document, options, mandatoryPointers = [] }: CreateBaseProofParams): Promise<SdProof> {
+    // Error type for the createBaseProof method
+    const ERROR_TYPE = 'PROOF_GENERATION_ERROR';
+
+    // If a context exists, add it to the proof
+    const context = document['@context'];
+    const proof = (context ? { ...options, '@context': context } : options) as SdProof;
+
+    // Check the proof is signed by the multikey and hash the proof configuration
+    this.checkVerificationMethod(proof, ERROR_TYPE);
+    const proofHash = await this.proofHash(proof, ERROR_TYPE);
+
+    // Draw an HMAC key for the blank node labels and an ephemeral key for the statements
+    const hmacKey = randomBytes(32);
+    const ephemeralKey = schnorr.utils.randomPrivateKey();
+    const publicKey = SdPrimitives.encodePublicKey(schnorr.getPublicKey(ephemeralKey));
+
+    // Canonicalize the document and split its statements into mandatory and non-mandatory
+    const { groups: { mandatory } } = await SdPrimitives.canonicalizeAndGroup({
+      document,
+      hmacKey,
+      groups         : { mandatory: mandatoryPointers },
+      documentLoader : this.documentLoader,
+      safeMode       : this.safeMode
+    });
+
+    // Sign each non-mandatory statement with the ephemeral key
+    const signatures = [...mandatory.nonMatching.values()].map(
+      nquad => schnorr.sign(Buffer.from(nquad, 'utf-8'), ephemeralKey)
+    );
+
+    // Sign the proof configuration, the ephemeral key and the mandatory statements with the multikey
+    const mandatoryHash = sha256(Buffer.from([...mandatory.matching.values()].join(''), 'utf-8'));
+    const baseSignature = await this.multikey.signAsync(this.signedHash(proofHash, publicKey, mandatoryHash));
+
+    // Serialize the base proof value
+    proof.proofValue = SdPrimitives.serializeBaseProofValue({
+      baseSignature,
+      publicKey,
+      hmacKey,
+      signatures,
+      mandatoryPointers
+    });
+    proof.type = this.type;
+
+    // Return the proof
+    return proof;
+  }
+
+  /** @see ISelectiveDisclosureCryptosuite.deriveProof */
+  public async deriveProof({ document, selectivePointers }: DeriveProofParams): Promise<SdSecureDocument> {
+    // Error type for the deriveProof method
+    const ERROR_TYPE = 'PROOF_GENERATION_ERROR';
+
+    // Get the base proof and check it is a single proof of this cryptosuite
+    const { proof, ...insecure } = document;
+    if (Array.isArray(proof) || proof?.cryptosuite !== this.cryptosuite) {
+      throw new CryptosuiteError(`Cannot derive proof: no ${this.cryptosuite} base proof`, ERROR_TYPE);
+    }
+
+    // Parse the base proof value
+    const { proofValue, ...options } = proof;
+    const { baseSignature, publicKey, hmacKey, signatures, mandatoryPointers } =
+      SdPrimitives.parseBaseProofValue(proofValue);
+
+    // Canonicalize the document with the issuer's HMAC key and group the mandatory and revealed statements
+    const combinedPointers = [...mandatoryPointers, ...selectivePointers];
+    const { groups: { mandatory, combined }, labelMap } = await SdPrimitives.canonicalizeAndGroup({
+      document       : insecure,
+      hmacKey,
+      groups         : { mandatory: mandatoryPointers, combined: combinedPointers },
+      documentLoader : this.documentLoader,
+      safeMode       : this.safeMode
+    });
+
+    // Check there is a signature for each non-mandatory statement
+    const { size } = mandatory.nonMatching;
+    if (signatures.length !== size) {
+      const message = `Base proof mismatch: ${signatures.length} signatures for ${size} statements`;
+      throw new CryptosuiteError(message, ERROR_TYPE);
+    }
+
+    // Get the index of each mandatory statement among the revealed statements
+    const revealedIndexes = [...combined.matching.keys()];
+    const mandatoryIndexes = [...mandatory.matching.keys()].map(index => revealedIndexes.indexOf(index));
+
+    // Keep the signatures of the revealed non-mandatory statements
+    const filteredSignatures = [...mandatory.nonMatching.keys()].flatMap(
+      (index, i) => combined.matching.has(index) ? [signatures[i]] : []
+    );
+
+    // Map the canonical labels of the revealed statements, as the verifier finds them, to their HMAC labels
+    const { canonicalIdMap } = await SdPrimitives.canonicalize(combined.deskolemizedNQuads);
+    const verifierLabelMap = new Map(
+      [...canonicalIdMap].map(([input, canonical]) => [canonical, labelMap.get(input)!])
+    );
+
+    // Select the revealed document
+    const reveal = SdPrimitives.selectJsonLd(insecure, combinedPointers);
+    if (!reveal) {
+      throw new CryptosuiteError('Cannot derive proof: no mandatory or selective pointers', ERROR_TYPE);
+    }
+
+    // Return the revealed document secured with the derived proof
+    const derivedProofValue = SdPrimitives.serializeDerivedProofValue({
+      baseSignature,
+      publicKey,
+      signatures : filteredSignatures,
+      labelMap   : verifierLabelMap,
+      mandatoryIndexes
+    });
+    return { ...reveal, proof: { ...options, proofValue: derivedProofValue } };
+  }
+
+  /** @see ISelectiveDisclosureCryptosuite.verifyProof */
+  public async verifyProof(secure: SdSecureDocument): Promise<SdVerificationResult> {
+    // Error type for the verifyProof method
+    const ERROR_TYPE = 'PROOF_VERIFICATION_ERROR';
+
+    // Get the derived proof and check it is a single proof
+    const { proof, ...reveal } = secure;
+    if (Array.isArray(proof)) {
+      throw new CryptosuiteError('Cannot verify a proof set: verify each proof separately', ERROR_TYPE);
+    }
+
+    // Parse the derived proof value: a base proof is for the holder only
+    const { proofValue, ...options } = proof;
+    const { baseSignature, publicKey, signatures, labelMap, mandatoryIndexes } =
+      SdPrimitives.parseDerivedProofValue(proofValue);
+
+    // Check the proof is verified by the multikey and hash the proof configuration
+    this.checkVerificationMethod(options, ERROR_TYPE);
+    const proofHash = await this.proofHash(options, ERROR_TYPE);
+
+    // Canonicalize the revealed document and replace its blank node labels with the HMAC labels
+    const nquads = await Canonicalize.rdfc(reveal, 'RDFC-1.0', {
+      documentLoader : this.documentLoader,
+      safeMode       : this.safeMode
+    });
+    // If a blank node has no HMAC label, the revealed document has statements the holder did not derive
+    let relabeled: string[];
+    try {
+      relabeled = SdPrimitives.relabel(SdPrimitives.split(nquads), labelMap);
+    } catch {
+      return { verified: false };
+    }
+
+    // Split the revealed statements into mandatory and non-mandatory
+    const mandatory = relabeled.filter((_, index) => mandatoryIndexes.includes(index));
+    const nonMandatory = relabeled.filter((_, index) => !mandatoryIndexes.includes(index));
+    if (signatures.length !== nonMandatory.length) {
+      return { verified: false };
+    }
+
+    // Verify the multikey signed the proof configuration, the ephemeral key and the mandatory statements
+    const mandatoryHash = sha256(Buffer.from(mandatory.join(''), 'utf-8'));
+    const baseVerified = this.multikey.verify(baseSignature, this.signedHash(proofHash, publicKey, mandatoryHash));
+
+    // Batch verify the ephemeral key signed each non-mandatory statement
+    const ephemeralKey = SdPrimitives.decodePublicKey(publicKey);
+    const verified = baseVerified && SchnorrBatch.verify(nonMandatory.map((nquad, i) => ({
+      publicKey : ephemeralKey,
+      message   : Buffer.from(nquad, 'utf-8'),
+      signature : signatures[i]
+    })));
+
+    // Return the verification result
+    return { verified, verifiedDocument: verified ? secure : undefined };
+  }
+
+  /**
+   * Check the proof options match the cryptosuite and hash their canonical form.
+   * @private
+   * @param {SdProofOptions} options The proof options, with the document context.
+   * @param {string} type The error type to throw.
+   * @returns {Promise<HashBytes>} The SHA-256 hash of the canonical proof configuration.
+   * @throws {CryptosuiteError} if the type or cryptosuite do not match, or created or expires is invalid.
+   */
+  private async proofHash(options: SdProofOptions, type: string): Promise<HashBytes> {
+    // If the type does not match the cryptosuite type, throw
+    const proofType = options.type ?? options['@type'];
+    if (proofType !== this.type) {
+      throw new CryptosuiteError(`Mismatch "type" between config and this: ${proofType} !== ${this.type}`, type);
+    }
+
+    // If the cryptosuite does not match the cryptosuite name, throw
+    if (options.cryptosuite !== this.cryptosuite) {
+      const message = `Mismatch on "cryptosuite" in config and this: ${options.cryptosuite} !== ${this.cryptosuite}`;
+      throw new CryptosuiteError(message, type);
+    }
+
+    // If created or expires is set but is not a valid XMLSchema dateTimeStamp, throw
+    for (const key of ['created', 'expires'] as const) {
+      if (options[key] !== undefined && !DateTimeUtils.isDateTimeStamp(options[key])) {
+        throw new CryptosuiteError(`Invalid "${key}": not an XMLSchema dateTimeStamp: ${options[key]}`, type);
+      }
+    }
+
+    // Return the hash of the RDFC canonicalized proof configuration
+    const canonicalConfig = await Canonicalize.rdfc(options, 'RDFC-1.0', {
+      documentLoader : this.documentLoader,
+      safeMode       : this.safeMode
+    });
+    return sha256(Buffer.from(canonicalConfig, 'utf-8'));
+  }
+
+  /**
+   * Get the hash the multikey signs: the SHA-256 of the proof hash, the encoded ephemeral public key and the
+   * hash of the mandatory statements.
+   * @private
+   * @param {HashBytes} proofHash The hash of the canonical proof configuration.
+   * @param {Uint8Array} publicKey The encoded ephemeral public key.
+   * @param {HashBytes} mandatoryHash The hash of the mandatory statements.
+   * @returns {HashBytes} The hash to sign.
+   */
+  private signedHash(proofHash: HashBytes, publicKey: Uint8Array, mandatoryHash: HashBytes): HashBytes {
+    return sha256(Buffer.concat([proofHash, publicKey, mandatoryHash]));
+  }
+
+  /**
+   * Check the verification method of the proof options is the multikey of the cryptosuite.
+   * @private
+   * @param {SdProofOptions} options The proof options.
+   * @param {string} type The error type to throw.
+   * @throws {CryptosuiteError} if the verification method does not match the multikey fullId.
+   */
+  private checkVerificationMethod(options: SdProofOptions, type: string): void {
+    const vm = options.verificationMethod;
+    const fullId = this.multikey.fullId();
+    if (vm !== fullId) {
+      throw new CryptosuiteError(`Mismatch on "fullId" in options and multikey: ${fullId} !== ${vm}`, type);
+    }
+  }
+}
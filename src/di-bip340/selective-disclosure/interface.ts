@@ -0,0 +1,63 @@
+import { DataIntegrityProofType } from '../../types/di-proof.js';
+import {
+  CreateBaseProofParams,
+  DeriveProofParams,
+  SdCryptosuiteType,
+  SdProof,
+  SdSecureDocument,
+  SdVerificationResult
+} from '../../types/selective-disclosure.js';
+import { Multikey } from '../multikey/index.js';
+
+/**
+ * Interface representing a BIP340 selective disclosure cryptosuite.
+ * @export
+ * @interface ISelectiveDisclosureCryptosuite
+ * @type {ISelectiveDisclosureCryptosuite}
+ */
+export interface ISelectiveDisclosureCryptosuite {
+  /** @type {DataIntegrityProofType} The type of proof produced by the cryptosuite */
+  type: DataIntegrityProofType;
+
+  /** @type {SdCryptosuiteType} The name of the cryptosuite */
+  cryptosuite: SdCryptosuiteType;
+
+  /** @type {Multikey} The Multikey signing base proofs and verifying derived proofs */
+  multikey: Multikey;
+
+  /**
+   * Create a base proof, as the issuer: sign the statements the mandatory pointers select, which every derived
+   * proof must reveal, with the multikey, and each other statement with an ephemeral key.
+   * @param {CreateBaseProofParams} params Parameters for creating the base proof.
+   * @param {InsecureDocument} params.document The JSON-LD document to secure.
+   * @param {SdProofOptions} params.options The proof options.
+   * @param {JsonPointer[]} params.mandatoryPointers The JSON pointers to the claims every holder must reveal
+   * (optional, defaults to none).
+   * @returns {Promise<SdProof>} The base proof, for the holder only.
+   * @throws {CryptosuiteError} if the options do not match the cryptosuite, a pointer is invalid or the document
+   * cannot be canonicalized.
+   */
+  createBaseProof(params: CreateBaseProofParams): Promise<SdProof>;
+
+  /**
+   * Derive a proof, as the holder: select the mandatory claims and the claims the selective pointers point to,
+   * and keep the signatures of the revealed statements.
+   * @param {DeriveProofParams} params Parameters for deriving the proof.
+   * @param {SdSecureDocument} params.document The document secured with a base proof.
+   * @param {JsonPointer[]} params.selectivePointers The JSON pointers to the claims to reveal.
+   * @returns {Promise<SdSecureDocument>} The revealed document secured with the derived proof.
+   * @throws {CryptosuiteError} if the document has no base proof of the cryptosuite, the base proof does not match
+   * the document or a pointer is invalid.
+   */
+  deriveProof(params: DeriveProofParams): Promise<SdSecureDocument>;
+
+  /**
+   * Verify a derived proof, as the verifier: check the multikey signed the mandatory statements and the ephemeral
+   * key, and the ephemeral key signed every other revealed statement.
+   * @param {SdSecureDocument} secure The revealed document secured with a derived proof.
+   * @returns {Promise<SdVerificationResult>} The result of verifying the derived proof.
+   * @throws {CryptosuiteError} if the proof is a base proof or is malformed, or its options do not match the
+   * cryptosuite.
+   */
+  verifyProof(secure: SdSecureDocument): Promise<SdVerificationResult>;
+}
@@ -0,0 +1,487 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import jsonld from 'jsonld';
+import rdfc from 'rdf-canonize';
+import { CanonicalizableObject } from '../../types/cryptosuite.js';
+import { InsecureDocument } from '../../types/di-proof.js';
+import { DocumentLoader } from '../../types/document-loader.js';
+import {
+  BaseProofValue,
+  CanonicalGroup,
+  CanonicalGrouping,
+  CborValue,
+  DerivedProofValue,
+  JsonPointer,
+  LabelMap
+} from '../../types/selective-disclosure.js';
+import { Bytes } from '../../types/shared.js';
+import { CryptosuiteError } from '../../utils/error.js';
+import { Canonicalize, RdfcOptions } from '../cryptosuite/canonicalize.js';
+import { Cbor } from './cbor.js';
+
+/** The IRI prefix given to blank nodes while they are skolemized */
+const SKOLEM_PREFIX = 'urn:bnid:';
+
+/** The CBOR tag headers of base and derived proof values */
+const BASE_PROOF_HEADER = [0xd9, 0x5d, 0x00];
+const DERIVED_PROOF_HEADER = [0xd9, 0x5d, 0x01];
+
+/** The BIP340 Multikey header (0xe14a) prefixed to the x-only ephemeral public key */
+const BIP340_PUB_HEADER = [0xe1, 0x4a];
+
+/** The label prefix of blank nodes canonicalized with RDFC-1.0 */
+const C14N_PREFIX = 'c14n';
+
+/** Error type thrown when a proof value cannot be parsed */
+const MALFORMED_PROOF_ERROR = 'MALFORMED_PROOF_ERROR';
+
+/**
+ * Implements the primitives of
+ * {@link https://www.w3.org/TR/vc-di-ecdsa/#selective-disclosure-functions | ecdsa-sd-2023 Selective Disclosure}
+ * used by the bip340-sd-2025 cryptosuite: JSON pointer selection, skolemization, HMAC blank node labels,
+ * canonical grouping of statements and proof value serialization.
+ * @export
+ * @class SdPrimitives
+ * @type {SdPrimitives}
+ */
+export class SdPrimitives {
+  /**
+   * Parse a JSON pointer ({@link https://www.rfc-editor.org/rfc/rfc6901 | RFC 6901}) into its reference tokens.
+   * @static
+   * @param {JsonPointer} pointer The JSON pointer.
+   * @returns {string[]} The unescaped reference tokens; none for the whole document.
+   * @throws {CryptosuiteError} with type PROOF_GENERATION_ERROR if the pointer does not start with "/".
+   */
+  public static parsePointer(pointer: JsonPointer): string[] {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+      throw new CryptosuiteError(`Invalid JSON pointer: ${pointer}`, 'PROOF_GENERATION_ERROR');
+    }
+    return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+
+  /**
+   * Select the parts of a compact JSON-LD document the JSON pointers point to. The selection keeps the
+   * `@context` of the document and the `id` (unless a blank node identifier) and `type` of every object on
+   * the way to each selected value, so that the selection expands to a subset of the document's statements.
+   * @static
+   * @param {InsecureDocument} document The compact JSON-LD document.
+   * @param {JsonPointer[]} pointers The JSON pointers to select.
+   * @returns {InsecureDocument | null} The selected document, or null if there are no pointers.
+   * @throws {CryptosuiteError} with type PROOF_GENERATION_ERROR if a pointer is invalid or points to nothing.
+   */
+  public static selectJsonLd(document: InsecureDocument, pointers: JsonPointer[]): InsecureDocument | null {
+    if (!pointers.length) return null;
+
+    // Start from the context of the document
+    const arrays: any[][] = [];
+    const selection: InsecureDocument = this.initialSelection(document);
+    if (document['@context']) {
+      selection['@context'] = structuredClone(document['@context']);
+    }
+
+    for (const pointer of pointers) {
+      // Walk the document and the selection down the pointer, creating the selection as needed
+      const tokens = this.parsePointer(pointer);
+      if (!tokens.length) return structuredClone(document);
+      let value: any = document;
+      let selectedParent: any;
+      let selectedValue: any = selection;
+      for (const token of tokens) {
+        if (value === null || typeof value !== 'object' || !(token in value)) {
+          throw new CryptosuiteError(`JSON pointer not found in document: ${pointer}`, 'PROOF_GENERATION_ERROR');
+        }
+        selectedParent = selectedValue;
+        value = value[token];
+        selectedValue = selectedParent[token];
+        if (selectedValue === undefined) {
+          selectedValue = Array.isArray(value) ? [] : this.initialSelection(value);
+          if (Array.isArray(value)) arrays.push(selectedValue);
+          selectedParent[token] = selectedValue;
+        }
+      }
+
+      // Select the whole value the pointer points to
+      selectedParent[tokens[tokens.length - 1]] = value !== null && typeof value === 'object' && !Array.isArray(value)
+        ? { ...selectedValue, ...structuredClone(value) }
+        : structuredClone(value);
+    }
+
+    // Remove the holes left in arrays by unselected elements
+    for (const array of arrays) {
+      const elements = array.filter(element => element !== undefined);
+      array.splice(0, array.length, ...elements);
+    }
+    return selection;
+  }
+
+  /**
+   * Skolemize a compact JSON-LD document: expand it, give every blank node an IRI with the `urn:bnid:` prefix
+   * and compact it again with its own `@context`, so that its blank nodes keep their identity when parts of
+   * it are selected.
+   * @static
+   * @param {InsecureDocument} document The compact JSON-LD document.
+   * @param {RdfcOptions} options The JSON-LD options.
+   * @returns {Promise<InsecureDocument>} The skolemized compact document.
+   * @throws {CryptosuiteError} if the document cannot be expanded, or with type PROOF_TRANSFORMATION_ERROR if
+   * safe mode is on and terms were dropped during expansion.
+   */
+  public static async skolemize(document: InsecureDocument, options: RdfcOptions): Promise<InsecureDocument> {
+    const expanded = await Canonicalize.expand(document, options);
+    const skolemized = this.skolemizeExpanded(expanded, { next: 0 });
+    const context = { '@context': document['@context'] ?? {} };
+    return await jsonld.compact(skolemized, context, { documentLoader: options.documentLoader });
+  }
+
+  /**
+   * Convert a skolemized JSON-LD document to N-Quads, turning its `urn:bnid:` IRIs back into blank nodes.
+   * @static
+   * @param {InsecureDocument} document The skolemized JSON-LD document.
+   * @param {DocumentLoader} documentLoader The JSON-LD document loader.
+   * @returns {Promise<string[]>} The N-Quads of the document, one per statement.
+   */
+  public static async toDeskolemizedNQuads(
+    document: InsecureDocument,
+    documentLoader?: DocumentLoader
+  ): Promise<string[]> {
+    const nquads: string = await jsonld.toRDF(document, { format: 'application/n-quads', documentLoader });
+    return this.mapTerms(this.split(nquads), term =>
+      term.termType === 'NamedNode' && term.value.startsWith(SKOLEM_PREFIX)
+        ? { termType: 'BlankNode', value: term.value.slice(SKOLEM_PREFIX.length) }
+        : term
+    );
+  }
+
+  /**
+   * Canonicalize N-Quads with RDFC-1.0.
+   * @static
+   * @param {string[]} nquads The N-Quads to canonicalize.
+   * @returns {Promise<{ nquads: string[]; canonicalIdMap: LabelMap }>} The canonical N-Quads and the map of each
+   * input blank node label to its canonical label.
+   * @throws {CryptosuiteError} with type CANONICALIZATION_ERROR if the N-Quads cannot be canonicalized.
+   */
+  public static async canonicalize(nquads: string[]): Promise<{ nquads: string[]; canonicalIdMap: LabelMap }> {
+    const canonicalIdMap: LabelMap = new Map();
+    try {
+      const input = nquads.join('');
+      const options = { algorithm: 'RDFC-1.0', inputFormat: 'application/n-quads', canonicalIdMap };
+      const canonical: string = await rdfc.canonize(input, options);
+      return { nquads: this.split(canonical), canonicalIdMap };
+    } catch (error: any) {
+      throw new CryptosuiteError(`RDFC canonicalization failed: ${error.message}`, 'CANONICALIZATION_ERROR');
+    }
+  }
+
+  /**
+   * Create the HMAC label of each canonical blank node label: `u` followed by the base64url HMAC-SHA256 of the
+   * canonical label. The labels hide the shape of the document, as canonical labels leak it.
+   * @static
+   * @param {LabelMap} canonicalIdMap The map of each input blank node label to its canonical label.
+   * @param {Bytes} hmacKey The HMAC key.
+   * @returns {LabelMap} The map of each input blank node label to its HMAC label.
+   */
+  public static hmacLabelMap(canonicalIdMap: LabelMap, hmacKey: Bytes): LabelMap {
+    const labelMap: LabelMap = new Map();
+    for (const [input, canonical] of canonicalIdMap) {
+      const digest = hmac(sha256, hmacKey, Buffer.from(canonical, 'utf-8'));
+      labelMap.set(input, `u${Buffer.from(digest).toString('base64url')}`);
+    }
+    return labelMap;
+  }
+
+  /**
+   * Replace the blank node labels of N-Quads and sort them.
+   * @static
+   * @param {string[]} nquads The N-Quads.
+   * @param {LabelMap} labelMap The map of each blank node label to its replacement.
+   * @returns {string[]} The relabeled N-Quads, sorted and without duplicates.
+   * @throws {CryptosuiteError} with type PROOF_VERIFICATION_ERROR if a blank node label is not in the map.
+   */
+  public static relabel(nquads: string[], labelMap: LabelMap): string[] {
+    const relabeled = this.mapTerms(nquads, term => {
+      if (term.termType !== 'BlankNode') return term;
+      const value = labelMap.get(term.value);
+      if (!value) {
+        throw new CryptosuiteError(`Missing blank node label: _:${term.value}`, 'PROOF_VERIFICATION_ERROR');
+      }
+      return { ...term, value };
+    });
+    return [...new Set(relabeled)].sort();
+  }
+
+  /**
+   * Skolemize and canonicalize a document with HMAC blank node labels, and split its statements, for each
+   * group of JSON pointers, into those matching the selection of the group and the others.
+   * @static
+   * @param {object} params The parameters to group the statements.
+   * @param {InsecureDocument} params.document The compact JSON-LD document.
+   * @param {Bytes} params.hmacKey The HMAC key.
+   * @param {Record<string, JsonPointer[]>} params.groups The JSON pointers of each group.
+   * @param {DocumentLoader} params.documentLoader The JSON-LD document loader (optional).
+   * @param {boolean} params.safeMode Whether to fail on terms dropped during expansion (optional).
+   * @returns {Promise<CanonicalGrouping>} The groups, the HMAC label map and the labeled canonical N-Quads.
+   * @throws {CryptosuiteError} if the document cannot be canonicalized or a pointer is invalid.
+   */
+  public static async canonicalizeAndGroup({ document, hmacKey, groups, documentLoader, safeMode }: {
+    document: InsecureDocument;
+    hmacKey: Bytes;
+    groups: Record<string, JsonPointer[]>;
+    documentLoader?: DocumentLoader;
+    safeMode?: boolean;
+  }): Promise<CanonicalGrouping> {
+    // Skolemize the document and canonicalize its N-Quads with HMAC labels
+    const skolemized = await this.skolemize(document, { documentLoader, safeMode });
+    const deskolemized = await this.toDeskolemizedNQuads(skolemized, documentLoader);
+    const { canonicalIdMap } = await this.canonicalize(deskolemized);
+    const labelMap = this.hmacLabelMap(canonicalIdMap, hmacKey);
+    const nquads = this.relabel(deskolemized, labelMap);
+
+    // Split the statements by the selection of each group
+    const grouped: Record<string, CanonicalGroup> = {};
+    for (const [name, pointers] of Object.entries(groups)) {
+      const selection = this.selectJsonLd(skolemized, pointers);
+      const deskolemizedNQuads = selection ? await this.toDeskolemizedNQuads(selection, documentLoader) : [];
+      const selected = new Set(this.relabel(deskolemizedNQuads, labelMap));
+      const matching = new Map<number, string>();
+      const nonMatching = new Map<number, string>();
+      nquads.forEach((nquad, index) => (selected.has(nquad) ? matching : nonMatching).set(index, nquad));
+      grouped[name] = { matching, nonMatching, deskolemizedNQuads };
+    }
+
+    return { groups: grouped, labelMap, nquads };
+  }
+
+  /**
+   * Encode an x-only public key as a BIP340 Multikey: the 0xe14a header followed by the key.
+   * @static
+   * @param {Bytes} publicKey The x-only public key.
+   * @returns {Bytes} The encoded public key.
+   */
+  public static encodePublicKey(publicKey: Bytes): Bytes {
+    return new Uint8Array([...BIP340_PUB_HEADER, ...publicKey]);
+  }
+
+  /**
+   * Decode a BIP340 Multikey encoded public key to its x-only public key.
+   * @static
+   * @param {Bytes} publicKey The encoded public key.
+   * @returns {Bytes} The x-only public key.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the header or length is invalid.
+   */
+  public static decodePublicKey(publicKey: Bytes): Bytes {
+    if (publicKey.length !== 34 || publicKey[0] !== BIP340_PUB_HEADER[0] || publicKey[1] !== BIP340_PUB_HEADER[1]) {
+      throw new CryptosuiteError('Malformed proofValue: invalid ephemeral public key', MALFORMED_PROOF_ERROR);
+    }
+    return publicKey.slice(2);
+  }
+
+  /**
+   * Serialize the components of a base proof to a proof value.
+   * @static
+   * @param {BaseProofValue} value The components of the base proof.
+   * @returns {string} The multibase base64url proof value.
+   */
+  public static serializeBaseProofValue(value: BaseProofValue): string {
+    const { baseSignature, publicKey, hmacKey, signatures, mandatoryPointers } = value;
+    const components = [baseSignature, publicKey, hmacKey, signatures, mandatoryPointers];
+    return this.serializeProofValue(BASE_PROOF_HEADER, components);
+  }
+
+  /**
+   * Parse a base proof value to its components.
+   * @static
+   * @param {string} proofValue The multibase base64url proof value.
+   * @returns {BaseProofValue} The components of the base proof.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the proof value is not a base proof value.
+   */
+  public static parseBaseProofValue(proofValue: string): BaseProofValue {
+    const components = this.parseProofValue(proofValue, BASE_PROOF_HEADER, 'base');
+    const [baseSignature, publicKey, hmacKey, signatures, mandatoryPointers] = components;
+    if (
+      !this.isBytes(baseSignature, 64) || !this.isBytes(publicKey, 34) || !this.isBytes(hmacKey, 32)
+      || !Array.isArray(signatures) || !signatures.every(signature => this.isBytes(signature, 64))
+      || !Array.isArray(mandatoryPointers) || !mandatoryPointers.every(pointer => typeof pointer === 'string')
+    ) {
+      throw new CryptosuiteError('Malformed proofValue: invalid base proof components', MALFORMED_PROOF_ERROR);
+    }
+    return {
+      baseSignature,
+      publicKey,
+      hmacKey,
+      signatures        : signatures as Bytes[],
+      mandatoryPointers : mandatoryPointers as JsonPointer[]
+    };
+  }
+
+  /**
+   * Serialize the components of a derived proof to a proof value. The HMAC label map is compressed to a map
+   * of canonical label indexes to HMAC digests.
+   * @static
+   * @param {DerivedProofValue} value The components of the derived proof.
+   * @returns {string} The multibase base64url proof value.
+   */
+  public static serializeDerivedProofValue(value: DerivedProofValue): string {
+    const { baseSignature, publicKey, signatures, labelMap, mandatoryIndexes } = value;
+    const compressed = new Map<number, CborValue>();
+    for (const [canonical, label] of labelMap) {
+      compressed.set(Number(canonical.slice(C14N_PREFIX.length)), Buffer.from(label.slice(1), 'base64url'));
+    }
+    const components = [baseSignature, publicKey, signatures, compressed, mandatoryIndexes];
+    return this.serializeProofValue(DERIVED_PROOF_HEADER, components);
+  }
+
+  /**
+   * Parse a derived proof value to its components, decompressing the HMAC label map.
+   * @static
+   * @param {string} proofValue The multibase base64url proof value.
+   * @returns {DerivedProofValue} The components of the derived proof.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the proof value is not a derived proof value.
+   */
+  public static parseDerivedProofValue(proofValue: string): DerivedProofValue {
+    const components = this.parseProofValue(proofValue, DERIVED_PROOF_HEADER, 'derived');
+    const [baseSignature, publicKey, signatures, compressed, mandatoryIndexes] = components;
+    if (
+      !this.isBytes(baseSignature, 64) || !this.isBytes(publicKey, 34)
+      || !Array.isArray(signatures) || !signatures.every(signature => this.isBytes(signature, 64))
+      || !(compressed instanceof Map) || ![...compressed.values()].every(digest => this.isBytes(digest, 32))
+      || !Array.isArray(mandatoryIndexes) || !mandatoryIndexes.every(index => typeof index === 'number')
+    ) {
+      throw new CryptosuiteError('Malformed proofValue: invalid derived proof components', MALFORMED_PROOF_ERROR);
+    }
+    const labelMap: LabelMap = new Map();
+    for (const [index, digest] of compressed) {
+      labelMap.set(`${C14N_PREFIX}${index}`, `u${Buffer.from(digest as Bytes).toString('base64url')}`);
+    }
+    return {
+      baseSignature,
+      publicKey,
+      signatures       : signatures as Bytes[],
+      labelMap,
+      mandatoryIndexes : mandatoryIndexes as number[]
+    };
+  }
+
+  /**
+   * Serialize proof value components as a CBOR array after a header, encoded as multibase base64url.
+   * @private
+   * @static
+   * @param {number[]} header The proof value header.
+   * @param {CborValue[]} components The proof value components.
+   * @returns {string} The multibase base64url proof value.
+   */
+  private static serializeProofValue(header: number[], components: CborValue[]): string {
+    const bytes = Buffer.concat([Uint8Array.from(header), Cbor.encode(components)]);
+    return `u${bytes.toString('base64url')}`;
+  }
+
+  /**
+   * Parse a multibase base64url proof value to the CBOR array of components following its header.
+   * @private
+   * @static
+   * @param {string} proofValue The multibase base64url proof value.
+   * @param {number[]} header The expected proof value header.
+   * @param {string} kind The kind of proof value, used for error messages.
+   * @returns {CborValue[]} The 5 proof value components.
+   * @throws {CryptosuiteError} with type MALFORMED_PROOF_ERROR if the proof value is malformed.
+   */
+  private static parseProofValue(proofValue: string, header: number[], kind: string): CborValue[] {
+    if (typeof proofValue !== 'string' || !proofValue.startsWith('u')) {
+      throw new CryptosuiteError('Malformed proofValue: not multibase base64url', MALFORMED_PROOF_ERROR);
+    }
+    const bytes = Buffer.from(proofValue.slice(1), 'base64url');
+    if (!header.every((byte, i) => bytes[i] === byte)) {
+      throw new CryptosuiteError(`Malformed proofValue: not a ${kind} proof value`, MALFORMED_PROOF_ERROR);
+    }
+    const components = Cbor.decode(bytes.subarray(header.length));
+    if (!Array.isArray(components) || components.length !== 5) {
+      throw new CryptosuiteError(`Malformed proofValue: expected 5 ${kind} proof components`, MALFORMED_PROOF_ERROR);
+    }
+    return components;
+  }
+
+  /**
+   * Check a value is a byte string of a given length.
+   * @private
+   * @static
+   * @param {CborValue} value The value.
+   * @param {number} length The expected length.
+   * @returns {boolean} Whether the value is a byte string of the length.
+   */
+  private static isBytes(value: CborValue, length: number): value is Bytes {
+    return value instanceof Uint8Array && value.length === length;
+  }
+
+  /**
+   * Create the initial selection of an object: its `id`, unless a blank node identifier, and its `type`.
+   * @private
+   * @static
+   * @param {any} object The object.
+   * @returns {InsecureDocument} The initial selection.
+   */
+  private static initialSelection(object: any): InsecureDocument {
+    const selection: InsecureDocument = {};
+    if (object === null || typeof object !== 'object') return selection;
+    if (typeof object.id === 'string' && !object.id.startsWith('_:')) selection.id = object.id;
+    if (object.type) selection.type = structuredClone(object.type);
+    return selection;
+  }
+
+  /**
+   * Give every node of an expanded JSON-LD document a `urn:bnid:` IRI if it is a blank node.
+   * @private
+   * @static
+   * @param {any} element The expanded element.
+   * @param {{ next: number }} counter The counter of the generated blank node labels.
+   * @returns {any} The skolemized element.
+   */
+  private static skolemizeExpanded(element: any, counter: { next: number }): any {
+    if (Array.isArray(element)) {
+      return element.map(item => this.skolemizeExpanded(item, counter));
+    }
+
+    // Values are left as they are
+    if (element === null || typeof element !== 'object' || '@value' in element) {
+      return element;
+    }
+
+    // Skolemize the properties and, unless it is a list, the node itself
+    const node: CanonicalizableObject = {};
+    for (const [key, value] of Object.entries(element)) {
+      node[key] = key === '@id' ? value : this.skolemizeExpanded(value, counter);
+    }
+    if ('@list' in element) return node;
+    const id = node['@id'];
+    if (id === undefined) {
+      node['@id'] = `${SKOLEM_PREFIX}g${counter.next++}`;
+    } else if (typeof id === 'string' && id.startsWith('_:')) {
+      node['@id'] = `${SKOLEM_PREFIX}e${id.slice(2)}`;
+    }
+    return node;
+  }
+
+  /**
+   * Map the terms of N-Quads.
+   * @private
+   * @static
+   * @param {string[]} nquads The N-Quads.
+   * @param {Function} map The function mapping each term.
+   * @returns {string[]} The mapped N-Quads.
+   */
+  private static mapTerms(nquads: string[], map: (term: any) => any): string[] {
+    return nquads.map(nquad => {
+      const [quad] = rdfc.NQuads.parse(nquad);
+      const { subject, predicate, object, graph } = quad;
+      return rdfc.NQuads.serializeQuad({ subject: map(subject), predicate, object: map(object), graph: map(graph) });
+    });
+  }
+
+  /**
+   * Split N-Quads into one N-Quad per statement, each ending with a newline.
+   * @static
+   * @param {string} nquads The N-Quads.
+   * @returns {string[]} The N-Quads.
+   */
+  public static split(nquads: string): string[] {
+    return nquads.split('\n').filter(Boolean).map(nquad => `${nquad}\n`);
+  }
+}
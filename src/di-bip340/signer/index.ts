@@ -0,0 +1,49 @@
+import { PrivateKey, PublicKey } from '@did-btc1/bip340-key-pair';
+import { schnorr } from '@noble/curves/secp256k1';
+import { Bytes, HashBytes, SignatureBytes } from '../../types/shared.js';
+import { MultikeyError } from '../../utils/error.js';
+import { MultikeyUtils } from '../multikey/index.js';
+import { AuxRandSource } from '../multikey/interface.js';
+import { ISigner } from './interface.js';
+
+/**
+ * The in-process reference `ISigner`, holding the private key in memory.
+ * @export
+ * @class LocalSigner
+ * @type {LocalSigner}
+ * @implements {ISigner}
+ */
+export class LocalSigner implements ISigner {
+  /** @type {PublicKey} The public key of the signer */
+  public readonly publicKey: PublicKey;
+
+  /** @type {PrivateKey} The private key of the signer */
+  private readonly _privateKey: PrivateKey;
+
+  /** @type {AuxRandSource} The source of BIP340 auxiliary randomness used when none is given */
+  private readonly _auxRand: AuxRandSource;
+
+  /**
+   * Creates an instance of LocalSigner.
+   * @constructor
+   * @param {PrivateKey} privateKey The private key to sign with.
+   * @param {AuxRandSource} auxRand The source of BIP340 auxiliary randomness (optional, defaults to random)
+   */
+  constructor(privateKey: PrivateKey, auxRand?: AuxRandSource) {
+    this._privateKey = privateKey;
+    this._auxRand = auxRand ?? MultikeyUtils.randomAuxRand;
+    this.publicKey = privateKey.computePublicKey();
+  }
+
+  /** @see ISigner.sign */
+  public async sign(hash: HashBytes, auxRand?: Bytes): Promise<SignatureBytes> {
+    // Use the given auxiliary randomness or draw it from the auxRand source
+    auxRand ??= this._auxRand();
+    // If the auxiliary randomness is not 32 bytes, throw an error
+    if (auxRand.length !== 32) {
+      throw new MultikeyError(`Invalid auxRand: expected 32 bytes, got ${auxRand.length}`, 'MULTIKEY_SIGN_ERROR');
+    }
+    // Sign the hash and return it
+    return schnorr.sign(hash, this._privateKey.bytes, auxRand);
+  }
+}
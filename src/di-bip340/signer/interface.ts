@@ -0,0 +1,22 @@
+import { PublicKey } from '@did-btc1/bip340-key-pair';
+import { Bytes, HashBytes, SignatureBytes } from '../../types/shared.js';
+
+/**
+ * Interface representing an external BIP340 signer, e.g. a remote KMS, a hardware wallet bridge or a worker
+ * process, which signs hashes without exposing its private key.
+ * @export
+ * @interface ISigner
+ * @type {ISigner}
+ */
+export interface ISigner {
+  /** @type {PublicKey} @readonly The public key of the signer. */
+  readonly publicKey: PublicKey;
+
+  /**
+   * Produce a BIP340 Schnorr signature over a hash.
+   * @param {HashBytes} hash The 32-byte hash to sign.
+   * @param {Bytes} auxRand Optional 32 bytes of BIP340 auxiliary randomness; signers may draw their own instead.
+   * @returns {Promise<SignatureBytes>} The 64-byte signature.
+   */
+  sign(hash: HashBytes, auxRand?: Bytes): Promise<SignatureBytes>;
+}
@@ -1,5 +1,12 @@
 /** {@link https://dcdpr.github.io/data-integrity-schnorr-secp256k1 | Data Integrity BIP340 Cryptosuites v0.1} */
 
+export * from './di-bip340/challenge/index.js';
+export * from './di-bip340/challenge/interface.js';
+
+export * from './di-bip340/credential/index.js';
+export * from './di-bip340/credential/interface.js';
+
+export * from './di-bip340/cryptosuite/batch.js';
 export * from './di-bip340/cryptosuite/canonicalize.js';
 export * from './di-bip340/cryptosuite/index.js';
 export * from './di-bip340/cryptosuite/interface.js';
@@ -7,13 +14,57 @@ export * from './di-bip340/cryptosuite/interface.js';
 export * from './di-bip340/data-integrity-proof/index.js';
 export * from './di-bip340/data-integrity-proof/interface.js';
 
+export * from './di-bip340/document-loader/contexts.js';
+export * from './di-bip340/document-loader/index.js';
+
+export * from './di-bip340/frost/dkg.js';
+export * from './di-bip340/frost/index.js';
+export * from './di-bip340/frost/interface.js';
+
+export * from './di-bip340/hd-key/index.js';
+export * from './di-bip340/hd-key/interface.js';
+
+export * from './di-bip340/identifier/index.js';
+
+export * from './di-bip340/mnemonic/index.js';
+export * from './di-bip340/mnemonic/wordlist.js';
+
 export * from './di-bip340/multikey/index.js';
 export * from './di-bip340/multikey/interface.js';
 
+export * from './di-bip340/musig2/index.js';
+export * from './di-bip340/musig2/interface.js';
+
+export * from './di-bip340/presentation/index.js';
+export * from './di-bip340/presentation/interface.js';
+
+export * from './di-bip340/resolver/index.js';
+export * from './di-bip340/resolver/interface.js';
+
+export * from './di-bip340/selective-disclosure/cbor.js';
+export * from './di-bip340/selective-disclosure/index.js';
+export * from './di-bip340/selective-disclosure/interface.js';
+export * from './di-bip340/selective-disclosure/primitives.js';
+
+export * from './di-bip340/signer/index.js';
+export * from './di-bip340/signer/interface.js';
+
+export * from './types/challenge.js';
+export * from './types/credential.js';
 export * from './types/cryptosuite.js';
 export * from './types/di-proof.js';
+export * from './types/document-loader.js';
+export * from './types/frost.js';
+export * from './types/hd-key.js';
+export * from './types/identifier.js';
+export * from './types/mnemonic.js';
+export * from './types/musig2.js';
+export * from './types/presentation.js';
+export * from './types/selective-disclosure.js';
 export * from './types/shared.js';
 
+export * from './utils/date-time.js';
 export * from './utils/error.js';
 export * from './utils/logger.js';
-export * from './utils/object-utils.js';
\ No newline at end of file
+export * from './utils/object-utils.js';
+export * from './utils/problem-details.js';
\ No newline at end of file
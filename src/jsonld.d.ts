@@ -0,0 +1,5 @@
+// jsonld.d.ts
+declare module 'jsonld' {
+  const jsonld: any;
+  export default jsonld;
+}
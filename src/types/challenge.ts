@@ -0,0 +1,23 @@
+import { IChallengeStore } from '../di-bip340/challenge/interface.js';
+import { DataIntegrityProof } from '../di-bip340/data-integrity-proof/index.js';
+import { VerifyProofParams } from './di-proof.js';
+
+/** Types */
+export type IssueChallengeParams = { domain?: string | string[]; ttl?: number };
+export type VerifyChallengeParams = Omit<VerifyProofParams, 'expectedChallenge'> & {
+  diProof: DataIntegrityProof;
+  expectedChallenge: string;
+};
+
+/** Interfaces */
+export interface ChallengeRecord {
+  challenge: string;
+  domain?: string | string[];
+  expires: string;
+  consumed: boolean;
+}
+export interface ChallengeManagerParams {
+  store?: IChallengeStore;
+  ttl?: number;
+  clock?: () => Date;
+}
@@ -0,0 +1,19 @@
+import { Context, ProofOptions, VerifyProofParams } from './di-proof.js';
+
+/** Types */
+export type CredentialIssuer = string | { id: string; [key: string]: any };
+export type CredentialOptions = Omit<ProofOptions, 'proofPurpose'>;
+export type IssueCredentialParams = { credential: UnsecuredCredential; options: CredentialOptions };
+export type VerifyCredentialParams = Omit<VerifyProofParams, 'expectedPurpose'>;
+
+/** Interfaces */
+export interface UnsecuredCredential {
+  '@context': Context;
+  id?: string;
+  type: string | string[];
+  issuer: CredentialIssuer;
+  validFrom?: string;
+  validUntil?: string;
+  credentialSubject: Record<string, any> | Record<string, any>[];
+  [key: string]: any;
+}
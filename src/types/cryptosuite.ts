@@ -1,10 +1,13 @@
 import { Multikey } from '../di-bip340/multikey/index.js';
-import { DataIntegrityProofType, InsecureDocument, ProofOptions, SecureDocument } from './di-proof.js';
-import { HashBytes, SignatureBytes } from './shared.js';
+import { AuxRandSource } from '../di-bip340/multikey/interface.js';
+import { DocumentLoader } from './document-loader.js';
+import { DataIntegrityProofType, InsecureDocument, Proof, ProofOptions, SecureDocument } from './di-proof.js';
+import { Bytes, HashBytes, SignatureBytes } from './shared.js';
 
 export type ProofOptionsParam = { options: ProofOptions }
 export type InsecureDocumentParams = ProofOptionsParam & {
-  document: InsecureDocument
+  document: InsecureDocument;
+  previousProofs?: Proof[];
 }
 export type SecureDocumentParams = ProofOptionsParam & {
   document: SecureDocument
@@ -25,6 +28,11 @@ export type VerificationParams = {
   signature: SignatureBytes;
   options: ProofOptions;
 }
+export type SchnorrBatchItem = {
+  publicKey: Bytes;
+  message: HashBytes;
+  signature: SignatureBytes;
+}
 export type GenerateHashParams = {
   canonicalConfig: string;
   canonicalDocument: string
@@ -36,4 +44,7 @@ export interface CryptosuiteParams {
   type?: DataIntegrityProofType;
   cryptosuite: CryptosuiteType;
   multikey: Multikey;
+  auxRand?: Bytes | AuxRandSource;
+  documentLoader?: DocumentLoader;
+  safeMode?: boolean;
 }
\ No newline at end of file
@@ -1,38 +1,72 @@
+import { DidDocument } from '@web5/dids';
 import { CryptosuiteType } from './cryptosuite.js';
 import { Btc1Identifier } from './shared.js';
 
 /** Types */
 export type DataIntegrityProofType = 'DataIntegrityProof';
 export type InsecureDocument = Record<string | number | symbol, any>;
-export type SecureDocument = InsecureDocument & { proof: Proof };
+export type ProofSet = Proof[];
+export type SecureDocument = InsecureDocument & { proof: Proof | ProofSet };
 export type ContextObject = Record<string | number | symbol, any>;
 export type Context = string | string[] | ContextObject | ContextObject[]
 export type ProofOptions = Partial<Proof>;
 export type AddProofParams = { document: InsecureDocument, options: ProofOptions };
 export type CanonicalizedProofConfig = string;
+export type DomainMatch = 'exact' | 'membership';
+export type ProofSetPolicy =
+  | { type: 'all' }
+  | { type: 'threshold'; threshold: number; distinctControllers?: boolean };
+export type BatchVerifyProofParams = Omit<VerifyProofParams, 'document' | 'throwOnError'> & {
+  documents: string[];
+};
 
 /** Interfaces */
 export interface Proof {
   '@context': Context;
+  id?: string;
   type?: DataIntegrityProofType;
   '@type'?: DataIntegrityProofType;
   created?: string;
+  expires?: string;
   cryptosuite: CryptosuiteType;
   verificationMethod: `${Btc1Identifier}#initialKey`;
   proofPurpose: string;
   proofValue: string;
-  domain?: string[];
+  domain?: string | string[];
   challenge?: string;
+  previousProof?: string | string[];
 }
 export interface VerifyProofParams {
   mediaType?: string;
   document: string;
   expectedPurpose: string;
-  expectedDomain?: string[];
+  expectedDomain?: string | string[];
+  domainMatch?: DomainMatch;
   expectedChallenge?: string;
+  policy?: ProofSetPolicy;
+  throwOnError?: boolean;
+  clock?: () => Date;
+  clockSkew?: number;
+  maxProofAge?: number;
+  controllerDocument?: DidDocument;
 };
+export interface ProofResult {
+  proof: Proof;
+  verified: boolean;
+  error?: string;
+}
+export interface ProblemDetails {
+  type: string;
+  code: string;
+  title: string;
+  detail: string;
+  proofIndex?: number;
+}
 export interface VerificationResult {
   verified: boolean;
   verifiedDocument?: SecureDocument;
   mediaType?: string;
+  results?: ProofResult[];
+  chain?: number[];
+  problemDetails?: ProblemDetails[];
 }
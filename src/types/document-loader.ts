@@ -0,0 +1,13 @@
+/** Types */
+export type RemoteDocument = {
+  contextUrl: string | null;
+  documentUrl: string;
+  document: any;
+};
+export type DocumentLoader = (url: string) => Promise<RemoteDocument>;
+
+/** Interfaces */
+export interface OfflineDocumentLoaderParams {
+  documents?: Record<string, any>;
+  fallback?: DocumentLoader;
+}
@@ -0,0 +1,78 @@
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { Bytes, HashBytes } from './shared.js';
+
+/** Types */
+export type FrostPoint = ProjPointType<bigint>;
+export type FrostExchange = (message: FrostSignatureShareMessage) => Promise<FrostSignatureShareMessage[]>;
+export type FrostCommitment = {
+  identifier: number;
+  hiding: Bytes;
+  binding: Bytes;
+};
+export type FrostSigningContext = {
+  groupPublicKey: Bytes;
+  commitments: FrostCommitment[];
+  message: HashBytes;
+};
+export type FrostSignShareParams = {
+  identifier: number;
+  secretShare: Bytes;
+  nonce: FrostNonce;
+  context: FrostSigningContext;
+};
+export type FrostVerifyShareParams = {
+  identifier: number;
+  signatureShare: Bytes;
+  publicShare: Bytes;
+  context: FrostSigningContext;
+};
+export type TrustedDealerParams = {
+  threshold: number;
+  participants: number;
+  secret?: Bytes;
+};
+
+/** Interfaces */
+export interface FrostKeyShare {
+  identifier: number;
+  threshold: number;
+  secretShare: string;
+  groupPublicKey: string;
+  commitment: string[];
+}
+export interface FrostNonce {
+  hiding: bigint;
+  binding: bigint;
+}
+export interface FrostSigningValues {
+  bindingFactors: Map<number, bigint>;
+  R: FrostPoint;
+  c: bigint;
+}
+export interface FrostSessionParams {
+  share: FrostKeyShare;
+}
+export interface FrostDkgParams {
+  identifier: number;
+  threshold: number;
+  participants: number;
+}
+export interface FrostCommitmentMessage {
+  identifier: number;
+  hiding: string;
+  binding: string;
+}
+export interface FrostSignatureShareMessage {
+  identifier: number;
+  signatureShare: string;
+}
+export interface FrostDkgRound1Message {
+  identifier: number;
+  commitment: string[];
+  proofOfKnowledge: string;
+}
+export interface FrostDkgRound2Message {
+  sender: number;
+  recipient: number;
+  secretShare: string;
+}
@@ -0,0 +1,22 @@
+import { Bytes, CompressedPublicKeyBytes, PrivateKeyBytes } from './shared.js';
+
+/** Types */
+export type HDKeyVersions = {
+  private: number;
+  public: number;
+};
+export type HDKeyParams = {
+  versions?: HDKeyVersions;
+  depth?: number;
+  index?: number;
+  parentFingerprint?: number;
+  chainCode: Bytes;
+  privateKey?: PrivateKeyBytes;
+  publicKey?: CompressedPublicKeyBytes;
+};
+
+/** Interfaces */
+export interface DerivationPath {
+  absolute: boolean;
+  indexes: number[];
+}
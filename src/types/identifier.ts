@@ -0,0 +1,16 @@
+import { Multikey } from '../di-bip340/multikey/index.js';
+import { Btc1Network, CompressedPublicKeyBytes } from './shared.js';
+
+/** Types */
+export type ParsedBtc1Identifier = {
+  version: number;
+  network: Btc1Network;
+  genesisBytes: CompressedPublicKeyBytes;
+};
+
+/** Interfaces */
+export interface EncodeIdentifierParams {
+  multikey: Multikey;
+  version?: number;
+  network?: Btc1Network;
+}
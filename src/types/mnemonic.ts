@@ -0,0 +1,2 @@
+/** Types */
+export type MnemonicStrength = 128 | 160 | 192 | 224 | 256;
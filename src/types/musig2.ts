@@ -0,0 +1,62 @@
+import { PrivateKey } from '@did-btc1/bip340-key-pair';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { Bytes, CompressedPublicKeyBytes, HashBytes } from './shared.js';
+
+/** Types */
+export type MuSig2Point = ProjPointType<bigint>;
+export type MuSig2Exchange = (message: MuSig2PartialSignatureMessage) => Promise<MuSig2PartialSignatureMessage[]>;
+export type NonceGenParams = {
+  privateKey?: Bytes;
+  publicKey: CompressedPublicKeyBytes;
+  aggregatePublicKey?: Bytes;
+  message?: Bytes;
+  extraIn?: Bytes;
+  rand?: Bytes;
+};
+export type MuSig2SessionContext = {
+  aggnonce: Bytes;
+  publicKeys: CompressedPublicKeyBytes[];
+  message: HashBytes;
+};
+export type PartialSignParams = {
+  secnonce: Bytes;
+  privateKey: Bytes;
+  context: MuSig2SessionContext;
+};
+export type PartialSigVerifyParams = {
+  partialSignature: Bytes;
+  pubnonce: Bytes;
+  publicKey: CompressedPublicKeyBytes;
+  context: MuSig2SessionContext;
+};
+
+/** Interfaces */
+export interface KeyAggContext {
+  Q: MuSig2Point;
+  gacc: bigint;
+  tacc: bigint;
+}
+export interface MuSig2Nonce {
+  secnonce: Bytes;
+  pubnonce: Bytes;
+}
+export interface SessionValues {
+  Q: MuSig2Point;
+  gacc: bigint;
+  tacc: bigint;
+  b: bigint;
+  R: MuSig2Point;
+  e: bigint;
+}
+export interface MuSig2SessionParams {
+  privateKey: PrivateKey;
+  publicKeys: CompressedPublicKeyBytes[];
+}
+export interface MuSig2NonceMessage {
+  publicKey: string;
+  pubnonce: string;
+}
+export interface MuSig2PartialSignatureMessage {
+  publicKey: string;
+  partialSignature: string;
+}
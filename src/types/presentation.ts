@@ -0,0 +1,43 @@
+import {
+  Context,
+  Proof,
+  ProofOptions,
+  ProofSet,
+  SecureDocument,
+  VerificationResult,
+  VerifyProofParams
+} from './di-proof.js';
+
+/** Types */
+export type PresentationHolder = string | { id: string; [key: string]: any };
+export type PresentationOptions = Omit<ProofOptions, 'proofPurpose' | 'challenge'> & { challenge: string };
+export type CreatePresentationParams = {
+  credentials: SecureDocument[];
+  holder?: string;
+  id?: string;
+  options: PresentationOptions;
+};
+export type VerifyPresentationParams = Omit<
+  VerifyProofParams,
+  'expectedPurpose' | 'expectedChallenge' | 'policy' | 'throwOnError'
+> & {
+  expectedChallenge: string;
+  credentialPurpose?: string;
+};
+
+/** Interfaces */
+export interface PresentationVerificationResult {
+  verified: boolean;
+  presentation: VerificationResult;
+  credentials: VerificationResult[];
+}
+
+export interface VerifiablePresentation {
+  '@context': Context;
+  id?: string;
+  type: string | string[];
+  holder?: PresentationHolder;
+  verifiableCredential?: SecureDocument | SecureDocument[];
+  proof?: Proof | ProofSet;
+  [key: string]: any;
+}
@@ -0,0 +1,56 @@
+import { Multikey } from '../di-bip340/multikey/index.js';
+import { DocumentLoader } from './document-loader.js';
+import { InsecureDocument, Proof, ProofOptions, VerificationResult } from './di-proof.js';
+import { Bytes, PublicKeyBytes, SignatureBytes } from './shared.js';
+
+/** Types */
+export type SdCryptosuiteType = 'bip340-sd-2025';
+export type SdProof = Omit<Proof, 'cryptosuite'> & { cryptosuite: SdCryptosuiteType };
+export type SdProofOptions = Omit<ProofOptions, 'cryptosuite'> & { cryptosuite: SdCryptosuiteType };
+export type SdSecureDocument = InsecureDocument & { proof: SdProof };
+export type SdVerificationResult = Omit<VerificationResult, 'verifiedDocument'> & {
+  verifiedDocument?: SdSecureDocument;
+};
+export type CborValue = number | string | Bytes | CborValue[] | Map<number, CborValue>;
+export type JsonPointer = string;
+export type LabelMap = Map<string, string>;
+export type CreateBaseProofParams = {
+  document: InsecureDocument;
+  options: SdProofOptions;
+  mandatoryPointers?: JsonPointer[];
+};
+export type DeriveProofParams = {
+  document: SdSecureDocument;
+  selectivePointers: JsonPointer[];
+};
+
+/** Interfaces */
+export interface SelectiveDisclosureCryptosuiteParams {
+  multikey: Multikey;
+  documentLoader?: DocumentLoader;
+  safeMode?: boolean;
+}
+export interface BaseProofValue {
+  baseSignature: SignatureBytes;
+  publicKey: PublicKeyBytes;
+  hmacKey: Bytes;
+  signatures: SignatureBytes[];
+  mandatoryPointers: JsonPointer[];
+}
+export interface DerivedProofValue {
+  baseSignature: SignatureBytes;
+  publicKey: PublicKeyBytes;
+  signatures: SignatureBytes[];
+  labelMap: LabelMap;
+  mandatoryIndexes: number[];
+}
+export interface CanonicalGroup {
+  matching: Map<number, string>;
+  nonMatching: Map<number, string>;
+  deskolemizedNQuads: string[];
+}
+export interface CanonicalGrouping {
+  groups: Record<string, CanonicalGroup>;
+  labelMap: LabelMap;
+  nquads: string[];
+}
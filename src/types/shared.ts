@@ -7,6 +7,7 @@ export type HashHex = Hex;
 export type Bytes = Uint8Array;
 export type PrivateKeyBytes = Bytes;
 export type PublicKeyBytes = Bytes;
+export type CompressedPublicKeyBytes = Bytes;
 export type PrefixBytes = Bytes;
 export type PublicKeyMultibaseBytes = Bytes;
 export type SignatureBytes = Bytes;
@@ -37,6 +38,13 @@ export type Btc1Prefix = `${Btc1DeterministicPrefix | Btc1ExternalPrefix}1`;
 export type Bech32Id = string;
 export type Btc1Id = `${Btc1Prefix}${Bech32Id}`
 export type Btc1Identifier = `${DID}:${Btc1MethodName}:${Btc1Id}`;
+export type VerificationRelationship =
+  | 'assertionMethod'
+  | 'authentication'
+  | 'capabilityInvocation'
+  | 'capabilityDelegation'
+  | 'keyAgreement';
+export type Btc1Network = 'mainnet' | 'signet' | 'regtest' | 'testnet3' | 'testnet4' | 'mutinynet';
 export type Controller = Btc1Identifier;
 export type Id = 'initialKey';
 export type FullId = `${Controller}#${Id}`;
@@ -0,0 +1,71 @@
+/** Matches an XMLSchema dateTimeStamp: a dateTime with a required timezone */
+const DATE_TIME_STAMP = /^(-?\d{4,})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?(Z|[+-](\d{2}):(\d{2}))$/;
+
+export class DateTimeUtils {
+  /**
+   * Checks a value is an {@link https://www.w3.org/TR/xmlschema11-2/#dateTimeStamp | XMLSchema 1.1 dateTimeStamp}:
+   * `yyyy-mm-ddThh:mm:ss[.s+]` followed by `Z` or a `±hh:mm` offset of at most 14 hours, with every field in range
+   * (days checked against the month and leap years) and `24:00:00` allowed as the end of a day.
+   * @static
+   * @param {unknown} value The value to check.
+   * @returns {boolean} Whether the value is a valid dateTimeStamp.
+   */
+  static isDateTimeStamp(value: unknown): boolean {
+    // Check the value has the lexical form of a dateTimeStamp
+    if (typeof value !== 'string') return false;
+    const match = DATE_TIME_STAMP.exec(value);
+    if (!match) return false;
+    const [, year, month, day, hour, minute, second, fraction = '0', zone, zoneHour, zoneMinute] = match;
+
+    // Years of more than four digits must not have leading zeros
+    if (year.replace('-', '').length > 4 && year.replace('-', '').startsWith('0')) return false;
+
+    // Check the month and the day against the length of the month
+    const [y, mo, d] = [Number(year), Number(month), Number(day)];
+    const leap = y % 4 === 0 && (y % 100 !== 0 || y % 400 === 0);
+    const days = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][mo - 1];
+    if (!days || d < 1 || d > days) return false;
+
+    // Check the time, allowing 24:00:00 only as the end of the day
+    const [h, mi, s] = [Number(hour), Number(minute), Number(second)];
+    if (h === 24 ? mi !== 0 || s !== 0 || Number(fraction) !== 0 : h > 23 || mi > 59 || s > 59) return false;
+
+    // Check the timezone offset is at most 14:00
+    if (zone !== 'Z') {
+      const [zh, zm] = [Number(zoneHour), Number(zoneMinute)];
+      if (zm > 59 || zh > 14 || (zh === 14 && zm !== 0)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Parses an XMLSchema dateTimeStamp into the number of milliseconds since the epoch. The time is computed from
+   * the fields of the proleptic Gregorian calendar rather than with `Date`, so every dateTimeStamp accepted by
+   * `isDateTimeStamp` has one, including years outside of the range of `Date`; years too large for a number
+   * give an infinite time. Fractions of a millisecond are truncated.
+   * @static
+   * @param {string} value The dateTimeStamp to parse.
+   * @returns {number | undefined} The time in milliseconds, or undefined if the value is not a valid
+   * dateTimeStamp.
+   */
+  static parse(value: string): number | undefined {
+    if (!this.isDateTimeStamp(value)) return undefined;
+    const [, year, month, day, hour, minute, second, fraction = '', zone, zoneHour, zoneMinute] =
+      DATE_TIME_STAMP.exec(value)!;
+
+    // Count the days since the epoch of the date, in years of March to February so leap days come last
+    const mo = BigInt(month);
+    const y = BigInt(year) - (mo <= 2n ? 1n : 0n);
+    const era = (y >= 0n ? y : y - 399n) / 400n;
+    const yearOfEra = y - era * 400n;
+    const dayOfYear = (153n * ((mo + 9n) % 12n) + 2n) / 5n + BigInt(day) - 1n;
+    const dayOfEra = yearOfEra * 365n + yearOfEra / 4n - yearOfEra / 100n + dayOfYear;
+    const days = era * 146097n + dayOfEra - 719468n;
+
+    // Add the time of day, less the timezone offset
+    const offset = zone === 'Z' ? 0n : BigInt(`${zone[0]}1`) * (BigInt(zoneHour) * 60n + BigInt(zoneMinute));
+    const minutes = (days * 24n + BigInt(hour)) * 60n + BigInt(minute) - offset;
+    return Number((minutes * 60n + BigInt(second)) * 1000n + BigInt(fraction.padEnd(3, '0').slice(0, 3)));
+  }
+}
@@ -45,4 +45,51 @@ export class ProofError extends Btc1KeyManagerError {
   constructor(message: string, type?: string) {
     super(message, type ?? 'ProofError', 'ProofError');
   }
-}
\ No newline at end of file
+}
+export class ResolverError extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'ResolverError', 'ResolverError');
+  }
+}
+
+export class IdentifierError extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'IdentifierError', 'IdentifierError');
+  }
+}
+
+export class ChallengeError extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'ChallengeError', 'ChallengeError');
+  }
+}
+
+export class CredentialError extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'CredentialError', 'CredentialError');
+  }
+}
+
+export class MuSig2Error extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'MuSig2Error', 'MuSig2Error');
+  }
+}
+
+export class FrostError extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'FrostError', 'FrostError');
+  }
+}
+
+export class HDKeyError extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'HDKeyError', 'HDKeyError');
+  }
+}
+
+export class MnemonicError extends Btc1KeyManagerError {
+  constructor(message: string, type?: string) {
+    super(message, type ?? 'MnemonicError', 'MnemonicError');
+  }
+}
@@ -0,0 +1,86 @@
+import { ProblemDetails } from '../types/di-proof.js';
+import { Btc1KeyManagerError } from './error.js';
+
+/** @type {Record<string, { type: string; title: string }>} The problem type URI and title of each error code */
+const PROBLEM_TYPES: Record<string, { type: string; title: string }> = {
+  PARSING_ERROR : {
+    type  : 'https://www.w3.org/TR/vc-data-model#PARSING_ERROR',
+    title : 'Parsing error'
+  },
+  MALFORMED_VALUE_ERROR : {
+    type  : 'https://www.w3.org/TR/vc-data-model#MALFORMED_VALUE_ERROR',
+    title : 'Malformed value'
+  },
+  INVALID_ISSUER_ERROR : {
+    type  : 'https://www.w3.org/TR/vc-data-model#CRYPTOGRAPHIC_SECURITY_ERROR',
+    title : 'Invalid issuer'
+  },
+  INVALID_HOLDER_ERROR : {
+    type  : 'https://www.w3.org/TR/vc-data-model#CRYPTOGRAPHIC_SECURITY_ERROR',
+    title : 'Invalid holder'
+  },
+  CREDENTIAL_NOT_YET_VALID_ERROR : {
+    type  : 'https://www.w3.org/TR/vc-data-model#RANGE_ERROR',
+    title : 'Credential not yet valid'
+  },
+  CREDENTIAL_EXPIRED_ERROR : {
+    type  : 'https://www.w3.org/TR/vc-data-model#RANGE_ERROR',
+    title : 'Credential expired'
+  },
+  MALFORMED_PROOF_ERROR : {
+    type  : 'https://w3id.org/security#MALFORMED_PROOF_ERROR',
+    title : 'Malformed proof'
+  },
+  MISMATCHED_PROOF_PURPOSE_ERROR : {
+    type  : 'https://w3id.org/security#MISMATCHED_PROOF_PURPOSE_ERROR',
+    title : 'Mismatched proof purpose'
+  },
+  INVALID_DOMAIN_ERROR : {
+    type  : 'https://w3id.org/security#INVALID_DOMAIN_ERROR',
+    title : 'Invalid domain'
+  },
+  INVALID_CHALLENGE_ERROR : {
+    type  : 'https://w3id.org/security#INVALID_CHALLENGE_ERROR',
+    title : 'Invalid challenge'
+  },
+  INVALID_PROOF_DATETIME_ERROR : {
+    type  : 'https://w3id.org/security#MALFORMED_PROOF_ERROR',
+    title : 'Invalid proof datetime'
+  },
+  PROOF_CREATED_IN_FUTURE_ERROR : {
+    type  : 'https://w3id.org/security#PROOF_VERIFICATION_ERROR',
+    title : 'Proof created in the future'
+  },
+  PROOF_EXPIRED_ERROR : {
+    type  : 'https://w3id.org/security#PROOF_VERIFICATION_ERROR',
+    title : 'Proof expired'
+  },
+  INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD : {
+    type  : 'https://w3id.org/security#INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD',
+    title : 'Invalid relationship for verification method'
+  },
+  PROOF_TRANSFORMATION_ERROR : {
+    type  : 'https://w3id.org/security#PROOF_TRANSFORMATION_ERROR',
+    title : 'Proof transformation error'
+  },
+  PROOF_VERIFICATION_ERROR : {
+    type  : 'https://w3id.org/security#PROOF_VERIFICATION_ERROR',
+    title : 'Proof verification error'
+  }
+};
+
+export class ProblemDetailsUtils {
+  /**
+   * Describe an error as a problem detail. Errors with a Data Integrity or Verifiable Credentials error code
+   * keep its type and title; any other error is a proof verification error keeping its own type as its code.
+   * @static
+   * @param {any} error The error thrown while verifying.
+   * @param {number} proofIndex The index of the failing proof in the document (optional).
+   * @returns {ProblemDetails} The problem detail.
+   */
+  static fromError(error: any, proofIndex?: number): ProblemDetails {
+    const code = error instanceof Btc1KeyManagerError ? error.type : 'PROOF_VERIFICATION_ERROR';
+    const { type, title } = PROBLEM_TYPES[code] ?? PROBLEM_TYPES.PROOF_VERIFICATION_ERROR;
+    return { type, code, title, detail: error.message, proofIndex };
+  }
+}
@@ -0,0 +1,127 @@
+import { KeyPair, PrivateKey } from '@did-btc1/bip340-key-pair';
+import { expect } from 'chai';
+import { SchnorrBatch } from '../src/di-bip340/cryptosuite/batch.js';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { DataIntegrityProof } from '../src/di-bip340/data-integrity-proof/index.js';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { SchnorrBatchItem } from '../src/types/cryptosuite.js';
+import { Proof, SecureDocument } from '../src/types/di-proof.js';
+import { loadBip340TestVectors } from './fixtures/bip340.js';
+import { JCS_TEST_VECTORS, RDFC_TEST_VECTORS } from './fixtures/cryptosuite.js';
+
+const bytes = (hex: string): Uint8Array => Buffer.from(hex, 'hex');
+
+/**
+ * Batch Verification Test Cases
+ *
+ * 1. SchnorrBatch → should agree with the BIP340 test vectors, at once and item by item
+ * 2. Cryptosuite.verifyProofs → should verify many documents and find the tampered ones
+ * 3. DataIntegrityProof.verifyProofs → should verify many documents with problem details
+ *
+ */
+describe('Batch Verification', () => {
+  const vectors = loadBip340TestVectors();
+  const toItem = ({ publicKey, message, signature }: typeof vectors[number]): SchnorrBatchItem => ({
+    publicKey : bytes(publicKey),
+    message   : bytes(message),
+    signature : bytes(signature)
+  });
+  const valid = vectors.filter(vector => vector.verificationResult).map(toItem);
+
+  describe('SchnorrBatch', () => {
+    it('should verify a batch of the valid BIP340 test vectors', () => {
+      expect(SchnorrBatch.verify(valid)).to.be.true;
+      expect(SchnorrBatch.verifyEach(valid)).to.deep.equal(valid.map(() => true));
+    });
+
+    it('should verify an empty batch', () => {
+      expect(SchnorrBatch.verify([])).to.be.true;
+      expect(SchnorrBatch.verifyEach([])).to.deep.equal([]);
+    });
+
+    for (const vector of vectors.filter(vector => !vector.verificationResult)) {
+      it(`should not verify a batch containing invalid vector ${vector.index}: ${vector.comment}`, () => {
+        const items = [...valid, toItem(vector)];
+        expect(SchnorrBatch.verify(items)).to.be.false;
+        expect(SchnorrBatch.verifyEach(items)).to.deep.equal([...valid.map(() => true), false]);
+      });
+    }
+
+    it('should not verify a batch with a signature of the wrong length', () => {
+      const [item] = valid;
+      expect(SchnorrBatch.verifyEach([item, { ...item, signature: item.signature.subarray(1) }]))
+        .to.deep.equal([true, false]);
+    });
+  });
+
+  for (const vector of [...JCS_TEST_VECTORS, ...RDFC_TEST_VECTORS]) {
+    describe(`${vector.cryptosuite}: verifyProofs`, () => {
+      const { id, controller, proofOptions } = vector;
+      const privateKey = new PrivateKey(bytes(vector.privateKey));
+      const multikey = new Multikey({ id, controller, keyPair: new KeyPair({ privateKey }) });
+      const cryptosuite = new Cryptosuite({ cryptosuite: vector.cryptosuite, multikey });
+      const diProof = new DataIntegrityProof(cryptosuite);
+      const documents = ['58473', '58474', '58475', '58476'].map(serial => ({
+        ...vector.unsecuredDocument,
+        id : `http://university.example/credentials/${serial}`
+      }));
+      let secures: SecureDocument[];
+
+      before(async () => {
+        secures = await Promise.all(documents.map(document => diProof.addProof({ document, options: proofOptions })));
+      });
+
+      it('should verify every document of a batch', async () => {
+        const results = await cryptosuite.verifyProofs(secures);
+        expect(results.map(result => result.verified)).to.deep.equal([true, true, true, true]);
+        expect(results.map(result => result.verifiedDocument)).to.deep.equal(secures);
+      });
+
+      it('should find the tampered and malformed documents of a batch', async () => {
+        const [first, second, third, fourth] = secures;
+        const malformed = { ...fourth, proof: { ...fourth.proof as Proof, proofValue: 'zabc' } };
+        const tampered = { ...second, validFrom: '2021-01-01T00:00:00Z' };
+        const results = await cryptosuite.verifyProofs([first, tampered, third, malformed]);
+        expect(results.map(result => result.verified)).to.deep.equal([true, false, true, false]);
+        expect(results[3].problemDetails![0]).to.include({ code: 'MALFORMED_PROOF_ERROR', proofIndex: 0 });
+      });
+
+      it('should verify serialized documents with DataIntegrityProof', async () => {
+        const tampered = { ...secures[1], validFrom: '2021-01-01T00:00:00Z' };
+        const results = await diProof.verifyProofs({
+          documents       : [secures[0], tampered, secures[2], '{ not json'].map(
+            document => typeof document === 'string' ? document : JSON.stringify(document)
+          ),
+          expectedPurpose : proofOptions.proofPurpose!,
+          mediaType       : 'application/json'
+        });
+        expect(results.map(result => result.verified)).to.deep.equal([true, false, true, false]);
+        expect(results[0]).to.deep.equal({
+          verified         : true,
+          verifiedDocument : documents[0],
+          mediaType        : 'application/json',
+          problemDetails   : []
+        });
+        expect(results[1].problemDetails![0]).to.include({ code: 'PROOF_VERIFICATION_ERROR', proofIndex: 0 });
+        expect(results[3].problemDetails![0].code).to.equal('PARSING_ERROR');
+      });
+
+      it('should match verifyProof for every document', async () => {
+        const expectedPurpose = proofOptions.proofPurpose!;
+        const serialized = [
+          ...secures,
+          { ...secures[0], validFrom: '2021-01-01T00:00:00Z' },
+          { ...secures[0], proof: [secures[0].proof, secures[1].proof] }
+        ].map(document => JSON.stringify(document));
+        const batch = await diProof.verifyProofs({ documents: serialized, expectedPurpose: 'authentication' });
+        const single = await Promise.all(serialized.map(
+          document => diProof.verifyProof({ document, expectedPurpose: 'authentication', throwOnError: false })
+        ));
+        expect(JSON.parse(JSON.stringify(batch))).to.deep.equal(JSON.parse(JSON.stringify(single)));
+
+        const verified = await diProof.verifyProofs({ documents: serialized, expectedPurpose });
+        expect(verified.map(result => result.verified)).to.deep.equal([true, true, true, true, false, false]);
+      });
+    });
+  }
+});
@@ -0,0 +1,70 @@
+import { KeyPair, PrivateKey } from '@did-btc1/bip340-key-pair';
+import { schnorr } from '@noble/curves/secp256k1';
+import { performance } from 'perf_hooks';
+import { SchnorrBatch } from '../../src/di-bip340/cryptosuite/batch.js';
+import { Cryptosuite } from '../../src/di-bip340/cryptosuite/index.js';
+import { DataIntegrityProof } from '../../src/di-bip340/data-integrity-proof/index.js';
+import { Multikey } from '../../src/di-bip340/multikey/index.js';
+import { CryptosuiteType, SchnorrBatchItem } from '../../src/types/cryptosuite.js';
+import { JCS_TEST_VECTORS } from '../fixtures/cryptosuite.js';
+
+/**
+ * Batch Verification Benchmark
+ *
+ * Compares verifying documents one by one with verifying them as a batch, for the signatures alone and for
+ * whole documents with each cryptosuite. Run with `pnpm bench [count]` (default 1000 documents).
+ *
+ */
+const count = Number(process.argv[2] ?? 1000);
+const [vector] = JCS_TEST_VECTORS;
+const { id, controller, proofOptions } = vector;
+
+/** Time an async function and print the total and per-item time */
+const time = async (label: string, fn: () => Promise<unknown> | unknown): Promise<number> => {
+  const start = performance.now();
+  await fn();
+  const ms = performance.now() - start;
+  console.log(`${label.padEnd(44)} ${ms.toFixed(0).padStart(7)} ms ${(ms / count).toFixed(3).padStart(8)} ms/item`);
+  return ms;
+};
+
+const main = async () => {
+  console.log(`Verifying ${count} items\n`);
+
+  // Signatures alone, each over its own random key and message
+  const items: SchnorrBatchItem[] = Array.from({ length: count }, () => {
+    const secretKey = schnorr.utils.randomPrivateKey();
+    const message = schnorr.utils.randomPrivateKey();
+    return { publicKey: schnorr.getPublicKey(secretKey), message, signature: schnorr.sign(message, secretKey) };
+  });
+  const single = await time('schnorr.verify, one by one', () =>
+    items.forEach(({ publicKey, message, signature }) => schnorr.verify(signature, message, publicKey)));
+  const batch = await time('SchnorrBatch.verify', () => SchnorrBatch.verify(items));
+  console.log(`${'speedup'.padEnd(44)} ${(single / batch).toFixed(2).padStart(7)}x\n`);
+
+  // Whole documents, with each cryptosuite
+  const privateKey = new PrivateKey(Buffer.from(vector.privateKey, 'hex'));
+  const multikey = new Multikey({ id, controller, keyPair: new KeyPair({ privateKey }) });
+  for (const name of ['bip340-jcs-2025', 'bip340-rdfc-2025'] as CryptosuiteType[]) {
+    const cryptosuite = new Cryptosuite({ cryptosuite: name, multikey });
+    const diProof = new DataIntegrityProof(cryptosuite);
+    const options = { ...proofOptions, cryptosuite: name };
+    const secures = await Promise.all(Array.from({ length: count }, (_, i) => diProof.addProof({
+      document : { ...vector.unsecuredDocument, id: `http://university.example/credentials/${i}` },
+      options
+    })));
+    const documents = secures.map(secure => JSON.stringify(secure));
+    const expectedPurpose = options.proofPurpose!;
+
+    console.log(name);
+    const one = await time('  DataIntegrityProof.verifyProof, one by one', async () => {
+      for (const document of documents) await diProof.verifyProof({ document, expectedPurpose });
+    });
+    const all = await time('  DataIntegrityProof.verifyProofs', () =>
+      diProof.verifyProofs({ documents, expectedPurpose }));
+    await time('  Cryptosuite.verifyProofs', () => cryptosuite.verifyProofs(secures));
+    console.log(`${'  speedup'.padEnd(44)} ${(one / all).toFixed(2).padStart(7)}x\n`);
+  }
+};
+
+main();
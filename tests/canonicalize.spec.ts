@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { Canonicalize } from '../src/di-bip340/cryptosuite/canonicalize.js';
+import { CryptosuiteError } from '../src/utils/error.js';
+import { JCS_NUMBER_SAMPLES, JCS_TEST_DATA } from './fixtures/jcs.js';
+
+/**
+ * Canonicalize Test Cases
+ *
+ * 1. RFC 8785 testdata corpus → should match expected output
+ * 2. RFC 8785 Appendix B number samples → should match or throw
+ * 3. non-JSON values → should throw CryptosuiteError
+ * 4. rdfc safe mode → should throw on terms dropped during JSON-LD expansion
+ *
+ */
+describe('Canonicalize', () => {
+  describe('jcs', () => {
+    describe('RFC 8785 testdata', () => {
+      for (const { name, input, output } of JCS_TEST_DATA) {
+        it(`should canonicalize ${name}.json`, () => {
+          expect(Canonicalize.jcs(JSON.parse(input))).to.equal(output);
+        });
+      }
+
+      it('should be idempotent over its own output', () => {
+        for (const { output } of JCS_TEST_DATA) {
+          expect(Canonicalize.jcs(JSON.parse(output))).to.equal(output);
+        }
+      });
+    });
+
+    describe('RFC 8785 Appendix B number samples', () => {
+      for (const { ieee, output } of JCS_NUMBER_SAMPLES) {
+        const value = Buffer.from(ieee, 'hex').readDoubleBE(0);
+        if (output === null) {
+          it(`should reject ${ieee} (${value})`, () => {
+            expect(() => Canonicalize.jcs({ value }))
+              .to.throw(CryptosuiteError, 'Invalid JSON number at "/value"');
+          });
+        } else {
+          it(`should serialize ${ieee} as ${output}`, () => {
+            expect(Canonicalize.jcs([value])).to.equal(`[${output}]`);
+          });
+        }
+      }
+    });
+
+    describe('with non-JSON values', () => {
+      it('should reject undefined', () => {
+        expect(() => Canonicalize.jcs({ a: { b: undefined } }))
+          .to.throw(CryptosuiteError, 'Invalid JSON value at "/a/b": undefined');
+      });
+
+      it('should reject functions, symbols and bigints', () => {
+        expect(() => Canonicalize.jcs({ a: () => null })).to.throw(CryptosuiteError);
+        expect(() => Canonicalize.jcs({ a: Symbol('a') })).to.throw(CryptosuiteError);
+        expect(() => Canonicalize.jcs({ a: 1n })).to.throw(CryptosuiteError);
+      });
+
+      it('should reject sparse arrays', () => {
+        // eslint-disable-next-line no-sparse-arrays
+        expect(() => Canonicalize.jcs([1, , 3])).to.throw(CryptosuiteError, 'Invalid JSON value at "/1"');
+      });
+
+      it('should reject non-plain objects', () => {
+        expect(() => Canonicalize.jcs({ a: new Date(0) }))
+          .to.throw(CryptosuiteError, 'Invalid JSON value at "/a": Date object');
+        expect(() => Canonicalize.jcs({ a: new Uint8Array(1) })).to.throw(CryptosuiteError);
+      });
+
+      it('should reject lone surrogates in values and keys', () => {
+        expect(() => Canonicalize.jcs({ a: '\ud83d' }))
+          .to.throw(CryptosuiteError, 'Invalid JSON string at "/a": lone surrogate');
+        expect(() => Canonicalize.jcs({ '\ude02': 1 })).to.throw(CryptosuiteError, 'lone surrogate');
+      });
+
+      it('should reject circular references', () => {
+        const a: Record<string, any> = {};
+        a.self = a;
+        expect(() => Canonicalize.jcs(a)).to.throw(CryptosuiteError, 'Circular reference at "/self"');
+      });
+
+      it('should accept repeated non-circular references', () => {
+        const shared = { x: 1 };
+        expect(Canonicalize.jcs({ b: shared, a: shared })).to.equal('{"a":{"x":1},"b":{"x":1}}');
+      });
+
+      it('should throw with type CANONICALIZATION_ERROR', () => {
+        try {
+          Canonicalize.jcs({ a: NaN });
+          expect.fail('expected to throw');
+        } catch (error: any) {
+          expect(error).to.be.instanceOf(CryptosuiteError);
+          expect(error.type).to.equal('CANONICALIZATION_ERROR');
+        }
+      });
+    });
+  });
+
+  describe('rdfc', () => {
+    const document = {
+      '@context'        : ['https://www.w3.org/ns/credentials/v2'],
+      type              : ['VerifiableCredential', 'UndefinedCredential'],
+      issuer            : 'did:example:issuer',
+      credentialSubject : { id: 'did:example:subject', favoriteColor: 'blue' }
+    };
+
+    it('should drop undefined terms when safe mode is off', async () => {
+      const canonical = await Canonicalize.rdfc(document, 'RDFC-1.0');
+      expect(canonical).to.not.include('blue');
+      expect(canonical).to.not.include('UndefinedCredential');
+    });
+
+    it('should throw PROOF_TRANSFORMATION_ERROR listing the dropped terms in safe mode', async () => {
+      const error = await Canonicalize.rdfc(document, 'RDFC-1.0', { safeMode: true }).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('PROOF_TRANSFORMATION_ERROR');
+      expect(error.message).to.include('favoriteColor');
+      expect(error.message).to.include('UndefinedCredential');
+    });
+
+    it('should canonicalize a fully defined document in safe mode', async () => {
+      const { credentialSubject: { favoriteColor: _, ...credentialSubject } } = document;
+      const defined = { ...document, type: ['VerifiableCredential'], credentialSubject };
+      const canonical = await Canonicalize.rdfc(defined, 'RDFC-1.0', { safeMode: true });
+      expect(canonical).to.include('<https://www.w3.org/2018/credentials#credentialSubject> <did:example:subject>');
+    });
+  });
+});
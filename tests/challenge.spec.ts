@@ -0,0 +1,186 @@
+import { expect } from 'chai';
+import { ChallengeManager, MemoryChallengeStore } from '../src/di-bip340/challenge/index.js';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { DataIntegrityProof } from '../src/di-bip340/data-integrity-proof/index.js';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { KeyPair, PrivateKeyUtils } from '../src/index.js';
+import { ProofOptions } from '../src/types/di-proof.js';
+import { ChallengeError, ProofError } from '../src/utils/error.js';
+
+const document = {
+  '@context' : ['https://www.w3.org/ns/credentials/v2'],
+  type       : ['VerifiablePresentation'],
+  holder     : 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65'
+};
+const id = '#initialKey';
+const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const SECRET = 52464508790539176856770556715241483442035423615466097401201513777400180778402n;
+const options: ProofOptions = {
+  type               : 'DataIntegrityProof',
+  cryptosuite        : 'bip340-jcs-2025',
+  verificationMethod : `${controller}#initialKey`,
+  proofPurpose       : 'authentication'
+};
+const expectedPurpose = 'authentication';
+
+describe('ChallengeManager', () => {
+  const keyPair = new KeyPair({ privateKey: PrivateKeyUtils.fromSecret(SECRET) });
+  const multikey = new Multikey({ id, controller, keyPair });
+  const diProof = new DataIntegrityProof(new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey }));
+
+  // A clock that can be moved forward by the tests
+  let now: number;
+  const clock = () => new Date(now);
+
+  beforeEach(() => now = Date.parse('2025-01-01T00:00:00Z'));
+
+  const present = async (proofOptions: ProofOptions) =>
+    JSON.stringify(await diProof.addProof({ document, options: { ...options, ...proofOptions } }));
+
+  describe('issue', () => {
+    it('should issue distinct random challenges that expire after the time to live', async () => {
+      const manager = new ChallengeManager({ clock, ttl: 60_000 });
+      const first = await manager.issue();
+      const second = await manager.issue({ ttl: 1_000, domain: 'example.com' });
+      expect(first.challenge).to.match(/^[A-Za-z0-9_-]{22}$/);
+      expect(first.challenge).to.not.equal(second.challenge);
+      expect(first).to.deep.equal({ challenge: first.challenge, expires: '2025-01-01T00:01:00.000Z', consumed: false });
+      expect(second).to.include({ domain: 'example.com', expires: '2025-01-01T00:00:01.000Z' });
+      expect(await manager.store.get(second.challenge)).to.deep.equal(second);
+    });
+
+    it('should throw ChallengeError given an invalid time to live', async () => {
+      expect(() => new ChallengeManager({ ttl: 0 })).to.throw(ChallengeError);
+      const error = await new ChallengeManager().issue({ ttl: NaN }).catch(error => error);
+      expect(error).to.be.instanceOf(ChallengeError);
+      expect(error.type).to.equal('INVALID_TTL_ERROR');
+    });
+  });
+
+  describe('verifyProof', () => {
+    it('should verify a proof over an issued challenge and consume the challenge', async () => {
+      const manager = new ChallengeManager({ clock });
+      const { challenge } = await manager.issue();
+      const presentation = await present({ challenge });
+
+      const result = await manager.verifyProof({
+        diProof,
+        document          : presentation,
+        expectedPurpose,
+        expectedChallenge : challenge
+      });
+      expect(result.verified).to.be.true;
+      expect((await manager.store.get(challenge))!.consumed).to.be.true;
+    });
+
+    it('should reject a replayed proof', async () => {
+      const manager = new ChallengeManager({ clock });
+      const { challenge } = await manager.issue();
+      const params = { diProof, document: await present({ challenge }), expectedPurpose, expectedChallenge: challenge };
+      expect((await manager.verifyProof(params)).verified).to.be.true;
+
+      const error = await manager.verifyProof(params).catch(error => error);
+      expect(error).to.be.instanceOf(ProofError);
+      expect(error.type).to.equal('INVALID_CHALLENGE_ERROR');
+      expect(error.message).to.include('already used');
+    });
+
+    it('should let only one of two concurrent verifications of the same proof succeed', async () => {
+      const manager = new ChallengeManager({ clock });
+      const { challenge } = await manager.issue();
+      const params = {
+        diProof,
+        document          : await present({ challenge }),
+        expectedPurpose,
+        expectedChallenge : challenge,
+        throwOnError      : false
+      };
+
+      const results = await Promise.all([manager.verifyProof(params), manager.verifyProof(params)]);
+      expect(results.map(({ verified }) => verified).sort()).to.deep.equal([false, true]);
+      const [rejected] = results.filter(({ verified }) => !verified);
+      expect(rejected.problemDetails![0].code).to.equal('INVALID_CHALLENGE_ERROR');
+    });
+
+    it('should reject an unknown or expired challenge', async () => {
+      const manager = new ChallengeManager({ clock, ttl: 1_000 });
+      const { challenge } = await manager.issue();
+      const presentation = await present({ challenge });
+
+      const unknown = await manager.verifyProof({
+        diProof,
+        document          : await present({ challenge: 'not-issued' }),
+        expectedPurpose,
+        expectedChallenge : 'not-issued'
+      }).catch(error => error);
+      expect(unknown).to.be.instanceOf(ProofError);
+      expect(unknown.message).to.include('Unknown challenge');
+
+      now += 1_000;
+      const expired = await manager.verifyProof({
+        diProof,
+        document          : presentation,
+        expectedPurpose,
+        expectedChallenge : challenge,
+        throwOnError      : false
+      });
+      expect(expired.verified).to.be.false;
+      expect(expired.problemDetails![0]).to.include({ code: 'INVALID_CHALLENGE_ERROR' });
+      expect(expired.problemDetails![0].detail).to.include('expired');
+      expect((await manager.store.get(challenge))!.consumed).to.be.false;
+    });
+
+    it('should reject a proof over another challenge without consuming the challenge', async () => {
+      const manager = new ChallengeManager({ clock });
+      const { challenge } = await manager.issue();
+      const result = await manager.verifyProof({
+        diProof,
+        document          : await present({ challenge: 'another-challenge' }),
+        expectedPurpose,
+        expectedChallenge : challenge,
+        throwOnError      : false
+      });
+      expect(result.verified).to.be.false;
+      expect(result.problemDetails![0].code).to.equal('INVALID_CHALLENGE_ERROR');
+      expect((await manager.store.get(challenge))!.consumed).to.be.false;
+    });
+
+    it('should require the domain a challenge is bound to', async () => {
+      const manager = new ChallengeManager({ clock });
+      const { challenge } = await manager.issue({ domain: 'verifier.example' });
+      const params = { diProof, expectedPurpose, expectedChallenge: challenge, throwOnError: false };
+
+      const evil = await present({ challenge, domain: 'evil.example' });
+      const other = await manager.verifyProof({ ...params, document: evil });
+      expect(other.verified).to.be.false;
+      expect(other.problemDetails![0].code).to.equal('INVALID_DOMAIN_ERROR');
+
+      const none = await manager.verifyProof({ ...params, document: await present({ challenge }) });
+      expect(none.problemDetails![0].code).to.equal('INVALID_DOMAIN_ERROR');
+
+      const bound = await present({ challenge, domain: 'verifier.example' });
+      expect((await manager.verifyProof({ ...params, document: bound })).verified).to.be.true;
+    });
+  });
+
+  describe('MemoryChallengeStore', () => {
+    it('should consume a challenge only once', async () => {
+      const store = new MemoryChallengeStore(clock);
+      await store.put({ challenge: 'abc', expires: '2025-01-01T00:05:00Z', consumed: false });
+      expect(await store.consume('abc')).to.be.true;
+      expect(await store.consume('abc')).to.be.false;
+      expect(await store.consume('unknown')).to.be.false;
+      await store.delete('abc');
+      expect(await store.get('abc')).to.be.undefined;
+    });
+
+    it('should sweep expired challenges when storing a challenge', async () => {
+      const store = new MemoryChallengeStore(clock);
+      await store.put({ challenge: 'old', expires: '2025-01-01T00:01:00Z', consumed: true });
+      now = Date.parse('2025-01-01T00:02:00Z');
+      await store.put({ challenge: 'new', expires: '2025-01-01T00:07:00Z', consumed: false });
+      expect(store.size).to.equal(1);
+      expect(await store.get('old')).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { expect } from 'chai';
+import { Credential, CredentialUtils } from '../src/di-bip340/credential/index.js';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { DataIntegrityProof } from '../src/di-bip340/data-integrity-proof/index.js';
+import { Btc1IdentifierUtils } from '../src/di-bip340/identifier/index.js';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { LocalResolver } from '../src/di-bip340/resolver/index.js';
+import { KeyPair, PrivateKeyUtils } from '../src/index.js';
+import { CredentialOptions, UnsecuredCredential } from '../src/types/credential.js';
+import { Proof } from '../src/types/di-proof.js';
+import { CredentialError, ProofError } from '../src/utils/error.js';
+
+const id = '#initialKey';
+const issuer = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const SECRET = 52464508790539176856770556715241483442035423615466097401201513777400180778402n;
+const credential: UnsecuredCredential = {
+  '@context' : [
+    'https://www.w3.org/ns/credentials/v2',
+    'https://www.w3.org/ns/credentials/examples/v2',
+  ],
+  id                : 'http://university.example/credentials/58473',
+  type              : ['VerifiableCredential', 'ExampleAlumniCredential'],
+  issuer,
+  validFrom         : '2020-01-01T00:00:00Z',
+  validUntil        : '2030-01-01T00:00:00Z',
+  credentialSubject : {
+    id       : 'did:example:ebfeb1f712ebc6f1c276e12ec21',
+    alumniOf : { id: 'did:example:c276e12ec21ebfeb1f712ebc6f1', name: 'Example University' },
+  },
+};
+const options: CredentialOptions = {
+  cryptosuite        : 'bip340-jcs-2025',
+  verificationMethod : `${issuer}#initialKey`
+};
+
+describe('Credential', () => {
+  const keyPair = new KeyPair({ privateKey: PrivateKeyUtils.fromSecret(SECRET) });
+  const multikey = new Multikey({ id, controller: issuer, keyPair });
+  const cryptosuite = new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey });
+  const issuing = new Credential(new DataIntegrityProof(cryptosuite));
+  const resolver = new LocalResolver([
+    { id: issuer, verificationMethod: [multikey.toVerificationMethod()], assertionMethod: [id] }
+  ]);
+  const verifying = new Credential(new DataIntegrityProof(undefined, resolver));
+  const clock = () => new Date('2025-01-01T00:00:00Z');
+
+  describe('issueCredential', () => {
+    it('should sign a valid credential for assertion', async () => {
+      const secured = await issuing.issueCredential({ credential, options });
+      expect(secured.proof).to.include({
+        type               : 'DataIntegrityProof',
+        proofPurpose       : 'assertionMethod',
+        verificationMethod : options.verificationMethod
+      });
+    });
+
+    it('should accept an issuer object with an id', async () => {
+      const secured = await issuing.issueCredential({
+        credential : { ...credential, issuer: { id: issuer, name: 'Example University' } },
+        options
+      });
+      expect(secured.issuer).to.deep.equal({ id: issuer, name: 'Example University' });
+    });
+
+    const contexts = credential['@context'] as string[];
+    const invalid: [string, Record<string, any>, string][] = [
+      ['a @context not starting with the VC v2 context', { '@context': [...contexts].reverse() }, '@context'],
+      ['a single @context of another version', { '@context': 'https://www.w3.org/2018/credentials/v1' }, '@context'],
+      ['a type without VerifiableCredential', { type: ['ExampleAlumniCredential'] }, 'type'],
+      ['an id that is not a URL', { id: '58473' }, 'id'],
+      ['an issuer that is not a URL', { issuer: 'University' }, 'issuer'],
+      ['an issuer object without an id', { issuer: { name: 'Example University' } }, 'issuer'],
+      ['a validFrom without a timezone', { validFrom: '2020-01-01T00:00:00' }, 'validFrom'],
+      ['a validUntil that is not a date', { validUntil: 'tomorrow' }, 'validUntil'],
+      ['a validUntil before validFrom', { validUntil: '2019-01-01T00:00:00Z' }, 'validity period'],
+      ['a validUntil before year 0001', { validUntil: '-0001-01-01T00:00:00Z' }, 'validity period'],
+      ['a validFrom after year 9999', { validFrom: '10000-01-01T00:00:00Z' }, 'validity period'],
+      ['a missing credentialSubject', { credentialSubject: undefined }, 'credentialSubject'],
+      ['an empty credentialSubject', { credentialSubject: {} }, 'credentialSubject'],
+      ['an empty credentialSubject array', { credentialSubject: [] }, 'credentialSubject'],
+    ];
+    for (const [name, changes, message] of invalid) {
+      it(`should throw CredentialError given ${name}`, async () => {
+        const error = await issuing
+          .issueCredential({ credential: { ...credential, ...changes }, options })
+          .catch(error => error);
+        expect(error).to.be.instanceOf(CredentialError);
+        expect(error.type).to.equal('MALFORMED_VALUE_ERROR');
+        expect(error.message).to.include(message);
+      });
+    }
+
+    it('should throw CredentialError given an issuer that is not the controller of the multikey', async () => {
+      const error = await issuing
+        .issueCredential({ credential: { ...credential, issuer: 'did:example:other' }, options })
+        .catch(error => error);
+      expect(error).to.be.instanceOf(CredentialError);
+      expect(error.message).to.include('Issuer mismatch');
+    });
+
+    it('should throw ProofError without a cryptosuite', async () => {
+      const error = await verifying.issueCredential({ credential, options }).catch(error => error);
+      expect(error).to.be.instanceOf(ProofError);
+    });
+  });
+
+  describe('verifyCredential', () => {
+    it('should verify an issued credential within its validity period', async () => {
+      const document = JSON.stringify(await issuing.issueCredential({ credential, options }));
+      for (const credentials of [issuing, verifying]) {
+        const { verified, verifiedDocument, problemDetails } = await credentials.verifyCredential({
+          document,
+          clock
+        });
+        expect(verified).to.be.true;
+        expect(verifiedDocument).to.include({ issuer });
+        expect(problemDetails).to.deep.equal([]);
+      }
+    });
+
+    it('should not verify a credential outside of its validity period', async () => {
+      const document = JSON.stringify(await issuing.issueCredential({ credential, options }));
+      const periods: [string, string][] = [
+        ['2019-12-31T23:59:59Z', 'CREDENTIAL_NOT_YET_VALID_ERROR'],
+        ['2030-01-01T00:00:01Z', 'CREDENTIAL_EXPIRED_ERROR']
+      ];
+      for (const [now, code] of periods) {
+        const clock = () => new Date(now);
+        const error = await verifying.verifyCredential({ document, clock }).catch(error => error);
+        expect(error).to.be.instanceOf(CredentialError);
+        expect(error.type).to.equal(code);
+
+        const result = await verifying.verifyCredential({ document, clock, throwOnError: false });
+        expect(result.verified).to.be.false;
+        expect(result.verifiedDocument).to.be.undefined;
+        expect(result.problemDetails!.map(problem => problem.code)).to.deep.equal([code]);
+      }
+
+      const skewed = await verifying.verifyCredential({
+        document,
+        clock     : () => new Date('2030-01-01T00:00:01Z'),
+        clockSkew : 1000
+      });
+      expect(skewed.verified).to.be.true;
+    });
+
+    it('should check validity periods with years before 0001 and after 9999', async () => {
+      const periods: [Record<string, string>, string][] = [
+        [{ validFrom: '-0001-01-01T00:00:00Z', validUntil: '-0001-12-31T23:59:59Z' }, 'CREDENTIAL_EXPIRED_ERROR'],
+        [{ validFrom: '10000-01-01T00:00:00Z', validUntil: '10001-01-01T00:00:00Z' }, 'CREDENTIAL_NOT_YET_VALID_ERROR']
+      ];
+      for (const [period, code] of periods) {
+        const secured = await issuing.issueCredential({ credential: { ...credential, ...period }, options });
+        const document = JSON.stringify(secured);
+        const { verified, problemDetails } = await verifying.verifyCredential({ document, clock, throwOnError: false });
+        expect(verified).to.be.false;
+        expect(problemDetails!.map(problem => problem.code)).to.deep.equal([code]);
+      }
+    });
+
+    it('should not verify a credential whose issuer is not the controller of the verification method', async () => {
+      // The issuer's key signs a credential claiming to be from another issuer
+      const forged = { ...credential, issuer: 'did:example:other' };
+      const secured = await new DataIntegrityProof(cryptosuite).addProof({
+        document : forged,
+        options  : { ...options, type: 'DataIntegrityProof', proofPurpose: 'assertionMethod' }
+      });
+
+      const document = JSON.stringify(secured);
+      const result = await verifying.verifyCredential({ document, clock, throwOnError: false });
+      expect(result.verified).to.be.false;
+      expect(result.problemDetails!.map(problem => problem.code)).to.deep.equal(['INVALID_ISSUER_ERROR']);
+      expect(result.problemDetails![0].type).to.equal(
+        'https://www.w3.org/TR/vc-data-model#CRYPTOGRAPHIC_SECURITY_ERROR'
+      );
+    });
+
+    it('should not verify a credential signed by a key whose document names the issuer as its controller', async () => {
+      // The attacker's document claims the issuer controls the attacker's key
+      const attackerKeyPair = new KeyPair({ privateKey: PrivateKeyUtils.fromSecret(SECRET - 2n) });
+      const attacker = Btc1IdentifierUtils.encode({
+        multikey : new Multikey({ id, controller: issuer, keyPair: attackerKeyPair })
+      });
+      const attackerKey = new Multikey({ id, controller: attacker, keyPair: attackerKeyPair });
+      const attackerResolver = new LocalResolver([
+        { id: issuer, verificationMethod: [multikey.toVerificationMethod()], assertionMethod: [id] },
+        {
+          id                 : attacker,
+          verificationMethod : [{ ...attackerKey.toVerificationMethod(), controller: issuer }],
+          assertionMethod    : [id]
+        }
+      ]);
+      const attackerSuite = new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey: attackerKey });
+      const secured = await new DataIntegrityProof(attackerSuite).addProof({
+        document : credential,
+        options  : {
+          cryptosuite        : 'bip340-jcs-2025',
+          type               : 'DataIntegrityProof',
+          proofPurpose       : 'assertionMethod',
+          verificationMethod : attackerKey.fullId() as Proof['verificationMethod']
+        }
+      });
+
+      const document = JSON.stringify(secured);
+      const result = await new Credential(new DataIntegrityProof(undefined, attackerResolver))
+        .verifyCredential({ document, clock, throwOnError: false });
+      expect(result.verified).to.be.false;
+      expect(result.problemDetails!.map(problem => problem.code)).to.include('INVALID_ISSUER_ERROR');
+    });
+
+    it('should not verify a malformed or tampered credential', async () => {
+      const secured = await issuing.issueCredential({ credential, options });
+      const malformed = await verifying.verifyCredential({
+        document     : JSON.stringify({ ...secured, type: ['ExampleAlumniCredential'] }),
+        clock,
+        throwOnError : false
+      });
+      expect(malformed.verified).to.be.false;
+      expect(malformed.problemDetails!.map(problem => problem.code)).to.deep.equal(['MALFORMED_VALUE_ERROR']);
+
+      const tampered = await verifying.verifyCredential({
+        document : JSON.stringify({ ...secured, credentialSubject: { id: 'did:example:mallory' } }),
+        clock
+      });
+      expect(tampered.verified).to.be.false;
+      expect(tampered.problemDetails!.map(problem => problem.code)).to.deep.equal(['PROOF_VERIFICATION_ERROR']);
+    });
+
+    it('should not verify a proof for another purpose', async () => {
+      const secured = await new DataIntegrityProof(cryptosuite).addProof({
+        document : credential,
+        options  : { ...options, type: 'DataIntegrityProof', proofPurpose: 'authentication' }
+      });
+      const document = JSON.stringify(secured);
+      const result = await verifying.verifyCredential({ document, clock, throwOnError: false });
+      expect(result.verified).to.be.false;
+      expect(result.problemDetails![0].code).to.equal('MISMATCHED_PROOF_PURPOSE_ERROR');
+    });
+  });
+
+  describe('CredentialUtils', () => {
+    it('should throw CredentialError with type MALFORMED_VALUE_ERROR checking malformed validity timestamps', () => {
+      for (const period of [{ validFrom: '2020-01-01' }, { validUntil: 'tomorrow' }]) {
+        expect(() => CredentialUtils.checkValidity(period, Date.now()))
+          .to.throw(CredentialError)
+          .with.property('type', 'MALFORMED_VALUE_ERROR');
+      }
+    });
+
+    it('should throw CredentialError with type PARSING_ERROR given a document that is not JSON', () => {
+      expect(() => CredentialUtils.parse('{')).to.throw(CredentialError).with.property('type', 'PARSING_ERROR');
+    });
+
+    it('should accept several credential subjects and URNs as ids', () => {
+      expect(() => CredentialUtils.validate({
+        ...credential,
+        id                : 'urn:uuid:8a9f2f4e-1c5a-4c36-9b2c-2b5e7f6a1d3e',
+        credentialSubject : [{ id: 'did:example:alice' }, { name: 'Bob' }]
+      })).to.not.throw();
+    });
+  });
+});
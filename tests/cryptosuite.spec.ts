@@ -1,7 +1,145 @@
-// import { expect } from 'chai';
+import { KeyPair, PrivateKey } from '@did-btc1/bip340-key-pair';
+import { sha256 } from '@noble/hashes/sha256';
+import { expect } from 'chai';
+import { base58btc } from 'multiformats/bases/base58';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { Multikey, MultikeyUtils } from '../src/di-bip340/multikey/index.js';
+import { Proof, SecureDocument } from '../src/types/di-proof.js';
+import { CryptosuiteError } from '../src/utils/error.js';
+import { JCS_TEST_VECTORS, RDFC_TEST_VECTORS } from './fixtures/cryptosuite.js';
 
-// describe('Cryptosuite', () => {
-//   it('should pass', () => {
-//     expect(true).to.be.true;
-//   });
-// });
\ No newline at end of file
+const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+/**
+ * Cryptosuite Test Vectors
+ *
+ * For each vector, every step of createProof and verifyProof is checked:
+ * 1. proofConfiguration → canonical proof config
+ * 2. transformDocument → canonical document
+ * 3. generateHash → proof config hash, document hash and hash data
+ * 4. proofSerialization → signature
+ * 5. createProof → proofValue
+ * 6. verifyProof → verified (and not verified once tampered)
+ *
+ */
+describe('Cryptosuite', () => {
+  for (const vector of [...JCS_TEST_VECTORS, ...RDFC_TEST_VECTORS]) {
+    describe(`${vector.cryptosuite}: ${vector.name}`, () => {
+      const { id, controller, unsecuredDocument, proofOptions } = vector;
+      const privateKey = new PrivateKey(Buffer.from(vector.privateKey, 'hex'));
+      const keyPair = new KeyPair({ privateKey });
+      const multikey = new Multikey({ id, controller, keyPair });
+      const auxRand = Buffer.from(vector.auxRand, 'hex');
+      const cryptosuite = new Cryptosuite({ cryptosuite: vector.cryptosuite, multikey, auxRand });
+      const proofConfig = { ...proofOptions, '@context': unsecuredDocument['@context'] };
+
+      it('should derive the expected publicKeyMultibase', () => {
+        expect(multikey.publicKey.multibase).to.equal(vector.publicKeyMultibase);
+      });
+
+      it('should produce the expected canonical proof configuration', async () => {
+        const canonicalConfig = await cryptosuite.proofConfiguration({ options: proofConfig });
+        expect(canonicalConfig).to.equal(vector.canonicalProofConfig);
+      });
+
+      it('should produce the expected canonical document', async () => {
+        const canonicalDocument = await cryptosuite.transformDocument({
+          document : unsecuredDocument,
+          options  : proofOptions
+        });
+        expect(canonicalDocument).to.equal(vector.canonicalDocument);
+      });
+
+      it('should produce the expected intermediate and final hashes', () => {
+        const { canonicalProofConfig: canonicalConfig, canonicalDocument } = vector;
+        expect(hex(sha256(Buffer.from(canonicalConfig, 'utf-8')))).to.equal(vector.proofConfigHash);
+        expect(hex(sha256(Buffer.from(canonicalDocument, 'utf-8')))).to.equal(vector.documentHash);
+        expect(hex(cryptosuite.generateHash({ canonicalConfig, canonicalDocument }))).to.equal(vector.hashData);
+      });
+
+      it('should produce the expected signature', async () => {
+        const hash = Buffer.from(vector.hashData, 'hex');
+        const signature = await cryptosuite.proofSerialization({ hash, options: proofOptions });
+        expect(hex(signature)).to.equal(vector.signature);
+        expect(base58btc.encode(signature)).to.equal(vector.proofValue);
+      });
+
+      it('should create a proof with the expected proofValue', async () => {
+        const proof = await cryptosuite.createProof({ document: unsecuredDocument, options: proofOptions });
+        expect(proof.proofValue).to.equal(vector.proofValue);
+        expect(proof.cryptosuite).to.equal(vector.cryptosuite);
+      });
+
+      it('should create the expected proofValue drawing auxRand from a source', async () => {
+        const zeroAux = vector.auxRand === '00'.repeat(32);
+        const source = zeroAux ? MultikeyUtils.zeroAuxRand : () => Buffer.from(vector.auxRand, 'hex');
+        const sourced = new Cryptosuite({ cryptosuite: vector.cryptosuite, multikey, auxRand: source });
+        const proof = await sourced.createProof({ document: unsecuredDocument, options: proofOptions });
+        expect(proof.proofValue).to.equal(vector.proofValue);
+      });
+
+      it('should verify the expected proof', async () => {
+        const proof = { ...proofConfig, proofValue: vector.proofValue } as Proof;
+        const secure: SecureDocument = { ...unsecuredDocument, proof };
+        const { verified, verifiedDocument } = await cryptosuite.verifyProof(secure);
+        expect(verified).to.be.true;
+        expect(verifiedDocument).to.deep.equal(secure);
+      });
+
+      it('should not verify the expected proof over a tampered document', async () => {
+        const proof = { ...proofConfig, proofValue: vector.proofValue } as Proof;
+        const secure: SecureDocument = { ...unsecuredDocument, validFrom: '2021-01-01T00:00:00Z', proof };
+        const { verified, verifiedDocument } = await cryptosuite.verifyProof(secure);
+        expect(verified).to.be.false;
+        expect(verifiedDocument).to.be.undefined;
+      });
+    });
+  }
+
+  describe('bip340-rdfc-2025 safe mode', () => {
+    const [vector] = RDFC_TEST_VECTORS;
+    const { id, controller, proofOptions } = vector;
+    const privateKey = new PrivateKey(Buffer.from(vector.privateKey, 'hex'));
+    const multikey = new Multikey({ id, controller, keyPair: new KeyPair({ privateKey }) });
+    const document = {
+      ...vector.unsecuredDocument,
+      '@context' : ['https://www.w3.org/ns/credentials/v2'],
+      unsigned   : 'not covered by the signature'
+    };
+
+    it('should refuse to create a proof over a document with undefined terms by default', async () => {
+      const cryptosuite = new Cryptosuite({ cryptosuite: vector.cryptosuite, multikey });
+      const error = await cryptosuite.createProof({ document, options: proofOptions }).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('PROOF_TRANSFORMATION_ERROR');
+      expect(error.message).to.include('unsigned');
+    });
+
+    it('should create a proof over a document with undefined terms when safe mode is off', async () => {
+      const cryptosuite = new Cryptosuite({ cryptosuite: vector.cryptosuite, multikey, safeMode: false });
+      const proof = await cryptosuite.createProof({ document, options: proofOptions });
+      const { verified } = await cryptosuite.verifyProof({ ...document, proof });
+      expect(verified).to.be.true;
+    });
+  });
+
+  describe('constructor', () => {
+    const [vector] = JCS_TEST_VECTORS;
+    const { id, controller } = vector;
+    const privateKey = new PrivateKey(Buffer.from(vector.privateKey, 'hex'));
+    const multikey = new Multikey({ id, controller, keyPair: new KeyPair({ privateKey }) });
+
+    it('should pick the canonicalization algorithm of each cryptosuite', () => {
+      expect(new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey }).algorithm).to.equal('JCS');
+      expect(new Cryptosuite({ cryptosuite: 'bip340-rdfc-2025', multikey }).algorithm).to.equal('RDFC-1.0');
+    });
+
+    it('should throw CryptosuiteError for an unknown cryptosuite', () => {
+      for (const cryptosuite of ['anything', 'bip340-rdfc-2026', 'bip340-sd-2025', undefined]) {
+        expect(() => new Cryptosuite({ cryptosuite: cryptosuite as any, multikey }))
+          .to.throw(CryptosuiteError, 'Unknown cryptosuite')
+          .with.property('type', 'UNKNOWN_CRYPTOSUITE_ERROR');
+      }
+    });
+  });
+});
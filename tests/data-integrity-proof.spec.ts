@@ -1,9 +1,12 @@
 import { expect } from 'chai';
 import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
 import { DataIntegrityProof } from '../src/di-bip340/data-integrity-proof/index.js';
+import { Btc1IdentifierUtils } from '../src/di-bip340/identifier/index.js';
 import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { LocalResolver } from '../src/di-bip340/resolver/index.js';
 import { KeyPair, PrivateKey, PrivateKeyUtils } from '../src/index.js';
-import { ProofOptions } from '../src/types/di-proof.js';
+import { Proof, ProofOptions } from '../src/types/di-proof.js';
+import { CryptosuiteError, ProofError, ResolverError } from '../src/utils/error.js';
 
 const unsecuredDocument = {
   '@context' : [
@@ -29,7 +32,7 @@ const options: ProofOptions = {
   type               : 'DataIntegrityProof',
   cryptosuite        : 'bip340-jcs-2025',
   verificationMethod : 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65#initialKey',
-  proofPurpose       : 'attestationMethod'
+  proofPurpose       : 'assertionMethod'
 };
 
 describe('Data Integrity Proof', () => {
@@ -46,10 +49,613 @@ describe('Data Integrity Proof', () => {
 
       const verifiedProof = await diProof.verifyProof({
         document        : JSON.stringify(securedDocument),
-        expectedPurpose : 'attestationMethod',
+        expectedPurpose : 'assertionMethod',
         mediaType       : 'application/json'
       });
       expect(verifiedProof.verified).to.be.true;
     });
   });
-});
\ No newline at end of file
+
+  describe('verifyProof in verifier mode', () => {
+    const resolver = new LocalResolver([
+      { id: controller, verificationMethod: [multikey.toVerificationMethod()], assertionMethod: [id] }
+    ]);
+    const verifier = new DataIntegrityProof(undefined, resolver);
+
+    it('should verify a proof by resolving its verificationMethod', async () => {
+      const securedDocument = await diProof.addProof({ document: unsecuredDocument, options });
+      const { verified } = await verifier.verifyProof({
+        document        : JSON.stringify(securedDocument),
+        expectedPurpose : 'assertionMethod'
+      });
+      expect(verified).to.be.true;
+    });
+
+    it('should not verify a tampered document', async () => {
+      const securedDocument = await diProof.addProof({ document: unsecuredDocument, options });
+      const { verified } = await verifier.verifyProof({
+        document        : JSON.stringify({ ...securedDocument, validFrom: '2021-01-01T00:00:00Z' }),
+        expectedPurpose : 'assertionMethod'
+      });
+      expect(verified).to.be.false;
+    });
+
+    it('should throw ResolverError when the verificationMethod cannot be resolved', async () => {
+      const securedDocument = await diProof.addProof({ document: unsecuredDocument, options });
+      const error = await new DataIntegrityProof(undefined, new LocalResolver())
+        .verifyProof({ document: JSON.stringify(securedDocument), expectedPurpose: 'assertionMethod' })
+        .catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+    });
+
+    it('should throw ProofError when adding a proof without a cryptosuite', async () => {
+      const error = await verifier.addProof({ document: unsecuredDocument, options }).catch(error => error);
+      expect(error).to.be.instanceOf(ProofError);
+    });
+
+    it('should not verify a proof whose verificationMethod is not authorized for its proofPurpose', async () => {
+      const securedDocument = await diProof.addProof({
+        document : unsecuredDocument,
+        options  : { ...options, proofPurpose: 'authentication' }
+      });
+      const document = JSON.stringify(securedDocument);
+      const error = await verifier.verifyProof({ document, expectedPurpose: 'authentication' }).catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD');
+
+      const { verified, problemDetails } = await verifier.verifyProof({
+        document,
+        expectedPurpose : 'authentication',
+        throwOnError    : false
+      });
+      expect(verified).to.be.false;
+      expect(problemDetails![0]).to.include({
+        code : 'INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD',
+        type : 'https://w3id.org/security#INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD'
+      });
+    });
+
+    it('should not verify a proof for an unknown proofPurpose', async () => {
+      const securedDocument = await diProof.addProof({
+        document : unsecuredDocument,
+        options  : { ...options, proofPurpose: 'attestationMethod' }
+      });
+      const { verified, problemDetails } = await verifier.verifyProof({
+        document        : JSON.stringify(securedDocument),
+        expectedPurpose : 'attestationMethod',
+        throwOnError    : false
+      });
+      expect(verified).to.be.false;
+      expect(problemDetails![0].code).to.equal('INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD');
+    });
+
+    it('should return a MALFORMED_PROOF_ERROR for a proof of an unknown or missing cryptosuite', async () => {
+      const securedDocument = await diProof.addProof({ document: unsecuredDocument, options });
+      for (const cryptosuite of ['anything', 'bip340-sd-2025', undefined]) {
+        const proof = { ...securedDocument.proof, cryptosuite };
+        const { verified, problemDetails } = await verifier.verifyProof({
+          document        : JSON.stringify({ ...securedDocument, proof }),
+          expectedPurpose : 'assertionMethod',
+          throwOnError    : false
+        });
+        expect(verified, cryptosuite).to.be.false;
+        expect(problemDetails![0]).to.include({ code: 'MALFORMED_PROOF_ERROR', proofIndex: 0 });
+      }
+    });
+
+    it('should check the relationship in a controller document supplied by the caller', async () => {
+      const securedDocument = await diProof.addProof({
+        document : unsecuredDocument,
+        options  : { ...options, proofPurpose: 'capabilityInvocation' }
+      });
+      const params = { document: JSON.stringify(securedDocument), expectedPurpose: 'capabilityInvocation' };
+
+      // The verification method is embedded under capabilityInvocation only
+      const embedded = { id: controller, capabilityInvocation: [multikey.toVerificationMethod()] };
+      for (const proof of [verifier, new DataIntegrityProof()]) {
+        const { verified } = await proof.verifyProof({ ...params, controllerDocument: embedded });
+        expect(verified).to.be.true;
+      }
+
+      // The supplied controller document takes precedence over the resolver
+      const listed = { id: controller, verificationMethod: embedded.capabilityInvocation };
+      const error = await verifier.verifyProof({ ...params, controllerDocument: listed }).catch(error => error);
+      expect(error.type).to.equal('INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD');
+    });
+  });
+
+  describe('proof sets', () => {
+    const coKey = new KeyPair({ privateKey: PrivateKeyUtils.fromSecret(SECRET - 1n) });
+    const coController = Btc1IdentifierUtils.encode({ multikey: new Multikey({ id, controller, keyPair: coKey }) });
+    const coMultikey = new Multikey({ id, controller: coController, keyPair: coKey });
+    const coProof = new DataIntegrityProof(new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey: coMultikey }));
+    const coOptions: ProofOptions = {
+      ...options,
+      verificationMethod : `${coController}#initialKey` as Proof['verificationMethod']
+    };
+    const resolver = new LocalResolver([
+      { id: controller, verificationMethod: [multikey.toVerificationMethod()], assertionMethod: [id] },
+      { id: coController, verificationMethod: [coMultikey.toVerificationMethod()], assertionMethod: [id] }
+    ]);
+    const verifier = new DataIntegrityProof(undefined, resolver);
+
+    const coSign = async () => {
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      return await coProof.addProof({ document: secured, options: coOptions });
+    };
+
+    it('should append a proof to an already secured document', async () => {
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      const coSigned = await coProof.addProof({ document: secured, options: coOptions });
+      expect(coSigned.proof).to.be.an('array').with.length(2);
+      expect((coSigned.proof as Proof[])[0]).to.deep.equal(secured.proof);
+
+      const signedAgain = await diProof.addProof({ document: coSigned, options });
+      expect(signedAgain.proof).to.be.an('array').with.length(3);
+    });
+
+    it('should verify every proof of a co-signed document', async () => {
+      const { verified, verifiedDocument, results } = await verifier.verifyProof({
+        document        : JSON.stringify(await coSign()),
+        expectedPurpose : 'assertionMethod'
+      });
+      expect(verified).to.be.true;
+      expect(verifiedDocument).to.deep.equal(unsecuredDocument);
+      expect(results!.map(result => result.verified)).to.deep.equal([true, true]);
+    });
+
+    it('should verify each proof of a set with its own cryptosuite', async () => {
+      const rdfcSuite = new Cryptosuite({ cryptosuite: 'bip340-rdfc-2025', multikey: coMultikey });
+      const rdfcCoProof = new DataIntegrityProof(rdfcSuite);
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      const mixed = await rdfcCoProof.addProof({
+        document : secured,
+        options  : { ...coOptions, cryptosuite: 'bip340-rdfc-2025' }
+      });
+
+      // A verifier configured for bip340-jcs-2025 still verifies the bip340-rdfc-2025 proof
+      const { verified, results } = await new DataIntegrityProof(cryptosuite, resolver).verifyProof({
+        document        : JSON.stringify(mixed),
+        expectedPurpose : 'assertionMethod'
+      });
+      expect(verified).to.be.true;
+      expect(results!.map(result => result.verified)).to.deep.equal([true, true]);
+    });
+
+    it('should report a tampered proof and fail the all policy', async () => {
+      const coSigned = await coSign();
+      const [first, second] = coSigned.proof as Proof[];
+      const tampered = { ...second, proofValue: first.proofValue };
+      const { verified, verifiedDocument, results } = await verifier.verifyProof({
+        document        : JSON.stringify({ ...coSigned, proof: [first, tampered] }),
+        expectedPurpose : 'assertionMethod'
+      });
+      expect(verified).to.be.false;
+      expect(verifiedDocument).to.be.undefined;
+      expect(results!.map(result => result.verified)).to.deep.equal([true, false]);
+    });
+
+    it('should record the error of a proof that cannot be verified', async () => {
+      const coSigned = await coSign();
+      const { verified, results } = await new DataIntegrityProof(undefined, new LocalResolver([
+        { id: controller, verificationMethod: [multikey.toVerificationMethod()], assertionMethod: [id] }
+      ])).verifyProof({ document: JSON.stringify(coSigned), expectedPurpose: 'assertionMethod' });
+      expect(verified).to.be.false;
+      expect(results![0]).to.include({ verified: true });
+      expect(results![1].verified).to.be.false;
+      expect(results![1].error).to.be.a('string');
+    });
+
+    it('should verify at least a threshold of proofs', async () => {
+      const coSigned = await coSign();
+      const [first, second] = coSigned.proof as Proof[];
+      const document = JSON.stringify({ ...coSigned, proof: [first, { ...second, proofValue: first.proofValue }] });
+      const expectedPurpose = 'assertionMethod';
+      const threshold = (threshold: number) => ({ type: 'threshold', threshold }) as const;
+
+      const one = await verifier.verifyProof({ document, expectedPurpose, policy: threshold(1) });
+      expect(one.verified).to.be.true;
+      expect(one.verifiedDocument).to.deep.equal(unsecuredDocument);
+
+      const two = await verifier.verifyProof({ document, expectedPurpose, policy: threshold(2) });
+      expect(two.verified).to.be.false;
+    });
+
+    it('should count one proof per controller with distinct controllers', async () => {
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      const signedTwice = await diProof.addProof({ document: secured, options: { ...options, challenge: 'again' } });
+      const document = JSON.stringify(signedTwice);
+      const expectedPurpose = 'assertionMethod';
+
+      const twice = await verifier.verifyProof({
+        document,
+        expectedPurpose,
+        policy : { type: 'threshold', threshold: 2 }
+      });
+      expect(twice.verified).to.be.true;
+
+      const distinct = await verifier.verifyProof({
+        document,
+        expectedPurpose,
+        policy : { type: 'threshold', threshold: 2, distinctControllers: true }
+      });
+      expect(distinct.verified).to.be.false;
+
+      const coSigned = await verifier.verifyProof({
+        document : JSON.stringify(await coSign()),
+        expectedPurpose,
+        policy   : { type: 'threshold', threshold: 2, distinctControllers: true }
+      });
+      expect(coSigned.verified).to.be.true;
+    });
+
+    it('should throw CryptosuiteError when a cryptosuite is given a proof set', async () => {
+      const error = await cryptosuite.verifyProof(await coSign()).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('PROOF_VERIFICATION_ERROR');
+    });
+
+    describe('chained with previousProof', () => {
+      const expectedPurpose = 'assertionMethod';
+      const first = { ...options, id: 'urn:uuid:first' };
+      const second = { ...coOptions, id: 'urn:uuid:second', previousProof: 'urn:uuid:first' };
+
+      const chain = async () => {
+        const secured = await diProof.addProof({ document: unsecuredDocument, options: first });
+        return await coProof.addProof({ document: secured, options: second });
+      };
+
+      it('should sign over the referenced proof and verify the chain in order', async () => {
+        const chained = await chain();
+        const [previous, proof] = chained.proof as Proof[];
+        expect(proof.previousProof).to.equal(previous.id);
+
+        const result = await verifier.verifyProof({ document: JSON.stringify(chained), expectedPurpose });
+        expect(result.verified).to.be.true;
+        expect(result.chain).to.deep.equal([0, 1]);
+
+        const reordered = JSON.stringify({ ...chained, proof: [proof, previous] });
+        const { verified, chain: order } = await verifier.verifyProof({ document: reordered, expectedPurpose });
+        expect(verified).to.be.true;
+        expect(order).to.deep.equal([1, 0]);
+      });
+
+      it('should not verify a chained proof whose previous proof was replaced', async () => {
+        const chained = await chain();
+        const replaced = await diProof.addProof({
+          document : unsecuredDocument,
+          options  : { ...first, challenge: 'other' }
+        });
+        const proof = [replaced.proof, (chained.proof as Proof[])[1]];
+        const { verified, results } = await verifier.verifyProof({
+          document : JSON.stringify({ ...chained, proof }),
+          expectedPurpose
+        });
+        expect(verified).to.be.false;
+        expect(results!.map(result => result.verified)).to.deep.equal([true, false]);
+      });
+
+      it('should chain to several previous proofs', async () => {
+        const coSigned = await chain();
+        const third = { ...options, id: 'urn:uuid:third', previousProof: ['urn:uuid:second', 'urn:uuid:first'] };
+        const secured = await diProof.addProof({ document: coSigned, options: third });
+        const { verified, chain: order } = await verifier.verifyProof({
+          document : JSON.stringify(secured),
+          expectedPurpose
+        });
+        expect(verified).to.be.true;
+        expect(order).to.deep.equal([0, 1, 2]);
+      });
+
+      it('should chain proofs of the bip340-rdfc-2025 cryptosuite', async () => {
+        const rdfcOptions = { cryptosuite: 'bip340-rdfc-2025' } as const;
+        const rdfcProof = new DataIntegrityProof(new Cryptosuite({ ...rdfcOptions, multikey }));
+        const rdfcCoProof = new DataIntegrityProof(new Cryptosuite({ ...rdfcOptions, multikey: coMultikey }));
+        const secured = await rdfcProof.addProof({
+          document : unsecuredDocument,
+          options  : { ...first, ...rdfcOptions }
+        });
+        const chained = await rdfcCoProof.addProof({ document: secured, options: { ...second, ...rdfcOptions } });
+        const { verified } = await verifier.verifyProof({ document: JSON.stringify(chained), expectedPurpose });
+        expect(verified).to.be.true;
+      });
+
+      it('should throw ProofError when adding a proof with a dangling previousProof', async () => {
+        const secured = await diProof.addProof({ document: unsecuredDocument, options: first });
+        const error = await coProof
+          .addProof({ document: secured, options: { ...second, previousProof: 'urn:uuid:missing' } })
+          .catch(error => error);
+        expect(error).to.be.instanceOf(ProofError);
+        expect(error.type).to.equal('PROOF_GENERATION_ERROR');
+      });
+
+      it('should reject dangling previousProof references', async () => {
+        const chained = await chain();
+        const [, proof] = chained.proof as Proof[];
+        for (const document of [{ ...chained, proof: [proof] }, { ...chained, proof }]) {
+          const error = await verifier
+            .verifyProof({ document: JSON.stringify(document), expectedPurpose })
+            .catch(error => error);
+          expect(error).to.be.instanceOf(ProofError);
+          expect(error.message).to.include('Dangling previousProof');
+        }
+      });
+
+      it('should reject cyclic previousProof references', async () => {
+        const chained = await chain();
+        const [previous, proof] = chained.proof as Proof[];
+        const cyclic = [{ ...previous, previousProof: 'urn:uuid:second' }, proof];
+        const error = await verifier
+          .verifyProof({ document: JSON.stringify({ ...chained, proof: cyclic }), expectedPurpose })
+          .catch(error => error);
+        expect(error).to.be.instanceOf(ProofError);
+        expect(error.message).to.include('Cyclic previousProof');
+      });
+
+      it('should throw CryptosuiteError when a chained proof is verified without its previous proofs', async () => {
+        const chained = await chain();
+        const [previous, proof] = chained.proof as Proof[];
+        const coCryptosuite = coProof.cryptosuite!;
+        const error = await coCryptosuite.verifyProof({ ...chained, proof }).catch(error => error);
+        expect(error).to.be.instanceOf(CryptosuiteError);
+        expect((await coCryptosuite.verifyProof({ ...chained, proof }, [previous])).verified).to.be.true;
+      });
+    });
+  });
+
+  describe('problemDetails', () => {
+    const expectedPurpose = 'assertionMethod';
+    const verify = async (document: string, params = {}) =>
+      await diProof.verifyProof({ document, expectedPurpose, throwOnError: false, ...params });
+
+    it('should return no problems for a verified proof', async () => {
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      const { verified, problemDetails } = await verify(JSON.stringify(secured));
+      expect(verified).to.be.true;
+      expect(problemDetails).to.deep.equal([]);
+    });
+
+    it('should return a PARSING_ERROR for a document that is not JSON', async () => {
+      const { verified, problemDetails } = await verify('{ not json');
+      expect(verified).to.be.false;
+      expect(problemDetails).to.have.length(1);
+      expect(problemDetails![0]).to.include({
+        type  : 'https://www.w3.org/TR/vc-data-model#PARSING_ERROR',
+        code  : 'PARSING_ERROR',
+        title : 'Parsing error'
+      });
+      expect(problemDetails![0].proofIndex).to.be.undefined;
+    });
+
+    it('should return a MALFORMED_PROOF_ERROR for a document without a proof', async () => {
+      const { problemDetails } = await verify(JSON.stringify(unsecuredDocument));
+      expect(problemDetails![0].code).to.equal('MALFORMED_PROOF_ERROR');
+    });
+
+    const mismatches: [string, Record<string, any>, string][] = [
+      ['purpose', { expectedPurpose: 'authentication' }, 'MISMATCHED_PROOF_PURPOSE_ERROR'],
+      ['domain', { expectedDomain: ['https://example.com'] }, 'INVALID_DOMAIN_ERROR'],
+      ['challenge', { expectedChallenge: 'abc123' }, 'INVALID_CHALLENGE_ERROR'],
+    ];
+    for (const [name, params, code] of mismatches) {
+      it(`should return an ${code} for a ${name} mismatch`, async () => {
+        const secured = await diProof.addProof({ document: unsecuredDocument, options });
+        const { verified, problemDetails } = await verify(JSON.stringify(secured), params);
+        expect(verified).to.be.false;
+        expect(problemDetails).to.have.length(1);
+        expect(problemDetails![0]).to.include({ type: `https://w3id.org/security#${code}`, code, proofIndex: 0 });
+      });
+
+      it(`should throw a ProofError with type ${code} for a ${name} mismatch by default`, async () => {
+        const secured = await diProof.addProof({ document: unsecuredDocument, options });
+        const error = await diProof
+          .verifyProof({ document: JSON.stringify(secured), expectedPurpose, ...params })
+          .catch(error => error);
+        expect(error).to.be.instanceOf(ProofError);
+        expect(error.type).to.equal(code);
+      });
+    }
+
+    it('should return a MALFORMED_PROOF_ERROR for a malformed proofValue', async () => {
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      for (const proofValue of ['not-multibase', 'z2v5Fr4eK35ejV5H3BU4foyRJekGkwShypKmkB3muZJVxs']) {
+        const tampered = { ...secured, proof: { ...secured.proof, proofValue } };
+        const { verified, problemDetails } = await verify(JSON.stringify(tampered));
+        expect(verified).to.be.false;
+        expect(problemDetails![0]).to.include({ code: 'MALFORMED_PROOF_ERROR', proofIndex: 0 });
+        expect(problemDetails![0].detail).to.include('Malformed proofValue');
+      }
+    });
+
+    it('should return a PROOF_VERIFICATION_ERROR for a bad signature without throwing', async () => {
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      const tampered = JSON.stringify({ ...secured, validFrom: '2021-01-01T00:00:00Z' });
+      for (const throwOnError of [true, false]) {
+        const { verified, problemDetails } = await verify(tampered, { throwOnError });
+        expect(verified).to.be.false;
+        expect(problemDetails).to.have.length(1);
+        expect(problemDetails![0]).to.include({
+          type       : 'https://w3id.org/security#PROOF_VERIFICATION_ERROR',
+          code       : 'PROOF_VERIFICATION_ERROR',
+          title      : 'Proof verification error',
+          proofIndex : 0
+        });
+      }
+    });
+
+    it('should return the index of each failing proof of a proof set', async () => {
+      const secured = await diProof.addProof({ document: unsecuredDocument, options });
+      const signedTwice = await diProof.addProof({ document: secured, options: { ...options, challenge: 'abc123' } });
+      const { verified, problemDetails } = await verify(JSON.stringify(signedTwice), {
+        expectedChallenge : 'abc123',
+        throwOnError      : true
+      });
+      expect(verified).to.be.false;
+      expect(problemDetails).to.have.length(1);
+      expect(problemDetails![0]).to.include({ code: 'INVALID_CHALLENGE_ERROR', proofIndex: 0 });
+    });
+  });
+
+  describe('time windows', () => {
+    const expectedPurpose = 'assertionMethod';
+    const created = '2025-01-01T00:00:00Z';
+    const expires = '2025-02-01T00:00:00Z';
+    const clock = (time: string) => () => new Date(time);
+    const secure = async (window: ProofOptions) =>
+      JSON.stringify(await diProof.addProof({ document: unsecuredDocument, options: { ...options, ...window } }));
+    const codeOf = async (document: string, window = {}) => {
+      const params = { document, expectedPurpose, throwOnError: false, ...window };
+      const { problemDetails } = await diProof.verifyProof(params);
+      return problemDetails!.map(problem => problem.code);
+    };
+
+    it('should verify a proof within its time window', async () => {
+      const document = await secure({ created, expires });
+      const now = clock('2025-01-15T00:00:00Z');
+      const { verified } = await diProof.verifyProof({ document, expectedPurpose, clock: now });
+      expect(verified).to.be.true;
+    });
+
+    it('should reject a proof created in the future unless within the clock skew', async () => {
+      const document = await secure({ created });
+      expect(await codeOf(document, { clock: clock('2024-12-31T23:59:00Z') }))
+        .to.deep.equal(['PROOF_CREATED_IN_FUTURE_ERROR']);
+      expect(await codeOf(document, { clock: clock('2024-12-31T23:59:00Z'), clockSkew: 60_000 })).to.deep.equal([]);
+    });
+
+    it('should reject an expired proof unless within the clock skew', async () => {
+      const document = await secure({ created, expires });
+      expect(await codeOf(document, { clock: clock('2025-02-01T00:01:00Z') })).to.deep.equal(['PROOF_EXPIRED_ERROR']);
+      expect(await codeOf(document, { clock: clock('2025-02-01T00:01:00Z'), clockSkew: 60_000 })).to.deep.equal([]);
+    });
+
+    it('should reject a proof older than the maximum proof age', async () => {
+      const document = await secure({ created });
+      const maxProofAge = 24 * 60 * 60 * 1000;
+      expect(await codeOf(document, { clock: clock('2025-01-01T12:00:00Z'), maxProofAge })).to.deep.equal([]);
+      expect(await codeOf(document, { clock: clock('2025-01-02T12:00:00Z'), maxProofAge }))
+        .to.deep.equal(['PROOF_EXPIRED_ERROR']);
+    });
+
+    it('should require created to check the maximum proof age', async () => {
+      const document = await secure({});
+      expect(await codeOf(document, { maxProofAge: 1000 })).to.deep.equal(['INVALID_PROOF_DATETIME_ERROR']);
+    });
+
+    it('should reject malformed timestamps', async () => {
+      const document = JSON.parse(await secure({ created }));
+      const windows = [
+        { created: '2025-01-01T00:00:00' },
+        { expires: 'tomorrow' },
+        { expires: '2024-01-01T00:00:00Z' }
+      ];
+      for (const window of windows) {
+        const tampered = JSON.stringify({ ...document, proof: { ...document.proof, ...window } });
+        expect(await codeOf(tampered)).to.deep.equal(['INVALID_PROOF_DATETIME_ERROR']);
+      }
+    });
+
+    it('should check timestamps with years before 0001 and after 9999', async () => {
+      const ancient = '-0001-01-01T00:00:00Z';
+      const distant = '10000-01-01T00:00:00Z';
+      expect(await codeOf(await secure({ created: ancient, expires: distant }))).to.deep.equal([]);
+      expect(await codeOf(await secure({ expires: ancient }))).to.deep.equal(['PROOF_EXPIRED_ERROR']);
+      expect(await codeOf(await secure({ created: distant }))).to.deep.equal(['PROOF_CREATED_IN_FUTURE_ERROR']);
+    });
+
+    it('should throw ProofError with the error code by default', async () => {
+      const document = await secure({ created, expires });
+      const error = await diProof
+        .verifyProof({ document, expectedPurpose, clock: clock('2026-01-01T00:00:00Z') })
+        .catch(error => error);
+      expect(error).to.be.instanceOf(ProofError);
+      expect(error.type).to.equal('PROOF_EXPIRED_ERROR');
+    });
+
+    it('should throw CryptosuiteError when adding a proof with a malformed timestamp', async () => {
+      for (const window of [{ created: '2025-01-01' }, { expires: '2025-02-30T00:00:00Z' }]) {
+        const error = await diProof
+          .addProof({ document: unsecuredDocument, options: { ...options, ...window } })
+          .catch(error => error);
+        expect(error).to.be.instanceOf(CryptosuiteError);
+        expect(error.type).to.equal('PROOF_GENERATION_ERROR');
+      }
+    });
+  });
+
+  describe('domain', () => {
+    const expectedPurpose = 'assertionMethod';
+    const [a, b, c] = ['example.com', 'https://verifier.example/presentations', 'localhost:8443'];
+    const secure = async (domain?: string | string[]) => JSON.stringify(
+      await diProof.addProof({ document: unsecuredDocument, options: domain ? { ...options, domain } : options })
+    );
+
+    const cases: [string | string[] | undefined, string | string[], boolean, boolean][] = [
+      // proof domain, expected domain, verifies in exact mode, verifies in membership mode
+      [a, a, true, true],
+      [a, [a], true, true],
+      [[a], a, true, true],
+      [[a, b], a, false, true],
+      [[a, b], [b, a], true, true],
+      [[a, b], [a, c], false, true],
+      [a, [a, c], false, true],
+      [a, c, false, false],
+      [[a, b], [c], false, false],
+      [undefined, a, false, false],
+    ];
+    for (const [domain, expectedDomain, exact, membership] of cases) {
+      for (const [domainMatch, verifies] of [['exact', exact], ['membership', membership]] as const) {
+        const name = `${JSON.stringify(domain)} against ${JSON.stringify(expectedDomain)} in ${domainMatch} mode`;
+        it(`should ${verifies ? '' : 'not '}verify a proof with domain ${name}`, async () => {
+          const document = await secure(domain);
+          const { verified, problemDetails } = await diProof.verifyProof({
+            document,
+            expectedPurpose,
+            expectedDomain,
+            domainMatch,
+            throwOnError : false
+          });
+          expect(verified).to.equal(verifies);
+          expect(problemDetails!.map(problem => problem.code)).to.deep.equal(verifies ? [] : ['INVALID_DOMAIN_ERROR']);
+        });
+      }
+    }
+
+    it('should default to exact mode', async () => {
+      const document = await secure([a, b]);
+      const error = await diProof.verifyProof({ document, expectedPurpose, expectedDomain: a }).catch(error => error);
+      expect(error).to.be.instanceOf(ProofError);
+      expect(error.type).to.equal('INVALID_DOMAIN_ERROR');
+    });
+
+    it('should add a proof with a domain of URLs, hosts and DIDs, as a string or an array', async () => {
+      for (const domain of [a, b, c, [a, b, c], 'did:example:verifier']) {
+        const secured = await diProof.addProof({ document: unsecuredDocument, options: { ...options, domain } });
+        expect((secured.proof as Proof).domain).to.deep.equal(domain);
+      }
+    });
+
+    it('should throw ProofError when adding a proof with an invalid domain, before signing', async () => {
+      // Count the proofs the cryptosuite creates
+      const signing = new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey });
+      const createProof = signing.createProof.bind(signing);
+      let created = 0;
+      signing.createProof = async params => {
+        created++;
+        return await createProof(params);
+      };
+
+      const invalid = [
+        'not a domain', '', [], [a, 'bad_host!'], '-example.com', 'javascript:x', 'foo:bar', [a, 'data:,x']
+      ];
+      for (const domain of invalid) {
+        const error = await new DataIntegrityProof(signing)
+          .addProof({ document: unsecuredDocument, options: { ...options, domain } })
+          .catch(error => error);
+        expect(error).to.be.instanceOf(ProofError);
+        expect(error.type).to.equal('PROOF_GENERATION_ERROR');
+      }
+      expect(created).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { DateTimeUtils } from '../src/utils/date-time.js';
+
+/**
+ * DateTimeUtils Test Cases
+ *
+ * 1. isDateTimeStamp → should accept XMLSchema dateTimeStamps and reject malformed ones
+ * 2. parse → should return the time in milliseconds, or undefined
+ *
+ */
+describe('DateTimeUtils', () => {
+  describe('isDateTimeStamp', () => {
+    const valid = [
+      '2020-01-01T00:00:00Z',
+      '2020-01-01T00:00:00.123456Z',
+      '2020-02-29T23:59:59+14:00',
+      '2000-02-29T12:00:00-05:30',
+      '2020-01-01T24:00:00Z',
+      '-0001-01-01T00:00:00Z',
+      '10000-01-01T00:00:00Z',
+    ];
+    for (const value of valid) {
+      it(`should accept ${value}`, () => {
+        expect(DateTimeUtils.isDateTimeStamp(value)).to.be.true;
+      });
+    }
+
+    const invalid = [
+      '2020-01-01T00:00:00',
+      '2020-01-01',
+      '2020-1-01T00:00:00Z',
+      '2020-13-01T00:00:00Z',
+      '2020-00-01T00:00:00Z',
+      '2021-02-29T00:00:00Z',
+      '1900-02-29T00:00:00Z',
+      '2020-04-31T00:00:00Z',
+      '2020-01-01T24:00:01Z',
+      '2020-01-01T23:60:00Z',
+      '2020-01-01T23:59:60Z',
+      '2020-01-01T00:00:00+14:30',
+      '2020-01-01T00:00:00+15:00',
+      '2020-01-01 00:00:00Z',
+      '02020-01-01T00:00:00Z',
+      '2020-01-01T00:00:00.Z',
+    ];
+    for (const value of invalid) {
+      it(`should reject ${value}`, () => {
+        expect(DateTimeUtils.isDateTimeStamp(value)).to.be.false;
+      });
+    }
+
+    it('should reject values that are not strings', () => {
+      expect(DateTimeUtils.isDateTimeStamp(undefined)).to.be.false;
+      expect(DateTimeUtils.isDateTimeStamp(1577836800000)).to.be.false;
+    });
+  });
+
+  describe('parse', () => {
+    it('should return the time in milliseconds of a dateTimeStamp', () => {
+      expect(DateTimeUtils.parse('2020-01-01T00:00:00Z')).to.equal(Date.UTC(2020, 0, 1));
+      expect(DateTimeUtils.parse('2020-01-01T05:30:00+05:30')).to.equal(Date.UTC(2020, 0, 1));
+    });
+
+    it('should return undefined for a malformed dateTimeStamp', () => {
+      expect(DateTimeUtils.parse('2020-01-01T00:00:00')).to.be.undefined;
+      expect(DateTimeUtils.parse('2021-02-29T00:00:00Z')).to.be.undefined;
+    });
+
+    it('should truncate fractions of a millisecond', () => {
+      expect(DateTimeUtils.parse('2020-01-01T00:00:00.1Z')).to.equal(Date.UTC(2020, 0, 1) + 100);
+      expect(DateTimeUtils.parse('2020-01-01T00:00:00.123999Z')).to.equal(Date.UTC(2020, 0, 1) + 123);
+    });
+
+    it('should parse 24:00:00 as the start of the next day', () => {
+      expect(DateTimeUtils.parse('2020-12-31T24:00:00Z')).to.equal(Date.UTC(2021, 0, 1));
+    });
+
+    it('should parse leap days and negative offsets across the end of a year', () => {
+      expect(DateTimeUtils.parse('2000-02-29T12:00:00Z')).to.equal(Date.parse('2000-02-29T12:00:00Z'));
+      expect(DateTimeUtils.parse('2020-12-31T20:00:00-05:00')).to.equal(Date.UTC(2021, 0, 1, 1));
+    });
+
+    it('should parse every dateTimeStamp it accepts, including years before 0001 and after 9999', () => {
+      expect(DateTimeUtils.parse('-0001-01-01T00:00:00Z')).to.equal(Date.parse('-000001-01-01T00:00:00Z'));
+      expect(DateTimeUtils.parse('0000-03-01T00:00:00Z')).to.equal(Date.parse('+000000-03-01T00:00:00Z'));
+      expect(DateTimeUtils.parse('10000-01-01T00:00:00Z')).to.equal(Date.parse('+010000-01-01T00:00:00Z'));
+      expect(DateTimeUtils.parse('-0001-01-01T00:00:00Z')).to.be.below(DateTimeUtils.parse('0001-01-01T00:00:00Z')!);
+      expect(DateTimeUtils.parse('300000-01-01T00:00:00Z')).to.be.above(8.64e15);
+      expect(DateTimeUtils.parse(`1${'0'.repeat(400)}-01-01T00:00:00Z`)).to.equal(Infinity);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import { Canonicalize } from '../src/di-bip340/cryptosuite/canonicalize.js';
+import { CONTEXTS, CREDENTIALS_V2_URL } from '../src/di-bip340/document-loader/contexts.js';
+import { DocumentLoaderUtils } from '../src/di-bip340/document-loader/index.js';
+import { RemoteDocument } from '../src/types/document-loader.js';
+import { CryptosuiteError } from '../src/utils/error.js';
+
+/**
+ * DocumentLoaderUtils Test Cases
+ *
+ * 1. offline loader → should serve bundled contexts and given documents without network access
+ * 2. offline loader → should delegate unknown URLs to the fallback or reject them
+ * 3. rdfc canonicalization → should resolve contexts through the given loader
+ *
+ */
+describe('DocumentLoaderUtils', () => {
+  describe('offline', () => {
+    it('should serve every bundled context', async () => {
+      const loader = DocumentLoaderUtils.offline();
+      for (const [url, context] of CONTEXTS) {
+        const { documentUrl, document } = await loader(url);
+        expect(documentUrl).to.equal(url);
+        expect(document).to.deep.equal(context);
+      }
+    });
+
+    it('should serve given documents before the bundled contexts', async () => {
+      const override = { '@context': { name: 'https://example.com/name' } };
+      const loader = DocumentLoaderUtils.offline({ documents: { [CREDENTIALS_V2_URL]: override } });
+      const { document } = await loader(CREDENTIALS_V2_URL);
+      expect(document).to.equal(override);
+    });
+
+    it('should delegate unknown URLs to the fallback loader', async () => {
+      const url = 'https://example.com/context/v1';
+      const remote: RemoteDocument = { contextUrl: null, documentUrl: url, document: { '@context': {} } };
+      const loader = DocumentLoaderUtils.offline({ fallback: async () => remote });
+      expect(await loader(url)).to.equal(remote);
+    });
+
+    it('should reject unknown URLs without a fallback loader', async () => {
+      const loader = DocumentLoaderUtils.offline();
+      const error = await loader('https://example.com/context/v1').catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('DOCUMENT_LOADER_ERROR');
+    });
+  });
+
+  describe('rdfc', () => {
+    const document = {
+      '@context' : ['https://www.w3.org/ns/credentials/v2'],
+      type       : ['VerifiableCredential'],
+      issuer     : 'did:example:issuer'
+    };
+
+    it('should canonicalize a document with the bundled contexts', async () => {
+      const canonical = await Canonicalize.rdfc(document, 'RDFC-1.0');
+      expect(canonical).to.equal(
+        '_:c14n0 <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <https://www.w3.org/2018/credentials#VerifiableCredential> .\n'
+        + '_:c14n0 <https://www.w3.org/2018/credentials#issuer> <did:example:issuer> .\n'
+      );
+    });
+
+    it('should throw CANONICALIZATION_ERROR when a context cannot be loaded', async () => {
+      const documentLoader = DocumentLoaderUtils.offline({ documents: {} });
+      const unknown = { ...document, '@context': ['https://example.com/context/v1'] };
+      const error = await Canonicalize.rdfc(unknown, 'RDFC-1.0', { documentLoader }).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('CANONICALIZATION_ERROR');
+      expect(error.message).to.include('https://example.com/context/v1');
+    });
+  });
+});
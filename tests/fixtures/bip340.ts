@@ -0,0 +1,40 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * A row of the official BIP340 test vectors.
+ * {@link https://github.com/bitcoin/bips/blob/master/bip-0340/test-vectors.csv | test-vectors.csv}
+ */
+export type Bip340TestVector = {
+  index: number;
+  secretKey: string;
+  publicKey: string;
+  auxRand: string;
+  message: string;
+  signature: string;
+  verificationResult: boolean;
+  comment: string;
+};
+
+/**
+ * Parses the BIP340 test vectors from `tests/fixtures/bip340-test-vectors.csv` (path relative to the
+ * directory tests are run from). Fields are hex strings; empty fields are empty strings.
+ * @returns {Bip340TestVector[]} The parsed test vectors.
+ */
+export function loadBip340TestVectors(): Bip340TestVector[] {
+  const csv = readFileSync(join(process.cwd(), 'tests', 'fixtures', 'bip340-test-vectors.csv'), 'utf-8');
+  const [_header, ...rows] = csv.trim().split('\n');
+  return rows.map(row => {
+    const [index, secretKey, publicKey, auxRand, message, signature, verificationResult, ...comment] = row.split(',');
+    return {
+      index              : Number(index),
+      secretKey,
+      publicKey,
+      auxRand,
+      message,
+      signature,
+      verificationResult : verificationResult === 'TRUE',
+      comment            : comment.join(',').replace(/^"|"$/g, '')
+    };
+  });
+}
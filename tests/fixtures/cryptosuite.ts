@@ -0,0 +1,139 @@
+import { CryptosuiteType } from '../../src/types/cryptosuite.js';
+import { InsecureDocument, ProofOptions } from '../../src/types/di-proof.js';
+
+/**
+ * A deterministic test vector for a Data Integrity BIP340 cryptosuite.
+ * Every intermediate value of Create Proof is recorded so each step can be checked.
+ */
+export type CryptosuiteTestVector = {
+  /** Name of the vector */
+  name: string;
+  /** Cryptosuite used to create the proof */
+  cryptosuite: CryptosuiteType;
+  /** Hex-encoded 32-byte secp256k1 private key */
+  privateKey: string;
+  /** Multikey publicKeyMultibase of the private key */
+  publicKeyMultibase: string;
+  /** Multikey id */
+  id: string;
+  /** Multikey controller */
+  controller: string;
+  /** Hex-encoded 32-byte BIP340 auxiliary randomness */
+  auxRand: string;
+  /** The document to secure */
+  unsecuredDocument: InsecureDocument;
+  /** The proof options passed to createProof */
+  proofOptions: ProofOptions;
+  /** Output of proofConfiguration */
+  canonicalProofConfig: string;
+  /** Output of transformDocument */
+  canonicalDocument: string;
+  /** Hex-encoded SHA-256 of the canonical proof configuration */
+  proofConfigHash: string;
+  /** Hex-encoded SHA-256 of the canonical document */
+  documentHash: string;
+  /** Hex-encoded output of generateHash */
+  hashData: string;
+  /** Hex-encoded 64-byte BIP340 signature over hashData */
+  signature: string;
+  /** Multibase base58btc proofValue */
+  proofValue: string;
+};
+
+const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+
+const alumniCredential: InsecureDocument = {
+  '@context' : [
+    'https://www.w3.org/ns/credentials/v2',
+    'https://www.w3.org/ns/credentials/examples/v2',
+  ],
+  id                : 'http://university.example/credentials/58473',
+  type              : ['VerifiableCredential', 'ExampleAlumniCredential'],
+  validFrom         : '2020-01-01T00:00:00Z',
+  issuer            : controller,
+  credentialSubject : {
+    id       : 'did:example:ebfeb1f712ebc6f1c276e12ec21',
+    alumniOf : {
+      id   : 'did:example:c276e12ec21ebfeb1f712ebc6f1',
+      name : 'Example University',
+    },
+  },
+};
+
+/** Test vectors for the bip340-jcs-2025 representation */
+export const JCS_TEST_VECTORS: CryptosuiteTestVector[] = [
+  {
+    name               : 'alumni credential with zero auxiliary randomness',
+    cryptosuite        : 'bip340-jcs-2025',
+    privateKey         : '73fddc12fc9342bb29ae9b5ed476323bdc693a116e36512455aee830fe8a25a2',
+    publicKeyMultibase : 'z66PwJnYvwJLhGrVc8vcuUkKs99sKCzYRM2HQ2gDCGTAStHk',
+    id                 : '#initialKey',
+    controller,
+    auxRand            : '0000000000000000000000000000000000000000000000000000000000000000',
+    unsecuredDocument  : alumniCredential,
+    proofOptions       : {
+      type               : 'DataIntegrityProof',
+      cryptosuite        : 'bip340-jcs-2025',
+      verificationMethod : `${controller}#initialKey`,
+      proofPurpose       : 'assertionMethod'
+    },
+    canonicalProofConfig : '{"@context":["https://www.w3.org/ns/credentials/v2","https://www.w3.org/ns/credentials/examples/v2"],'
+      + '"cryptosuite":"bip340-jcs-2025","proofPurpose":"assertionMethod","type":"DataIntegrityProof",'
+      + '"verificationMethod":"did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65#initialKey"}',
+    canonicalDocument : '{"@context":["https://www.w3.org/ns/credentials/v2","https://www.w3.org/ns/credentials/examples/v2"],'
+      + '"credentialSubject":{"alumniOf":{"id":"did:example:c276e12ec21ebfeb1f712ebc6f1","name":"Example University"},'
+      + '"id":"did:example:ebfeb1f712ebc6f1c276e12ec21"},"id":"http://university.example/credentials/58473",'
+      + '"issuer":"did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65",'
+      + '"type":["VerifiableCredential","ExampleAlumniCredential"],"validFrom":"2020-01-01T00:00:00Z"}',
+    proofConfigHash : '0fb8bb34415b77b7c4a2fa1cce9e4d82af31cc2189bcbcf28eac33d69de1cb3d',
+    documentHash    : '29842264d21215449d10d551a1d673deef497db0ee308939102b769881f27098',
+    hashData        : 'acc469d5e347f014b2be213de096592e70da37aaaca484db00c65d37ed51b5c4',
+    signature       : '5fc91445544136b79e95e12a33a6b2538a86a80312bcb72078417c81f94f1df4'
+      + 'f87a8d6d32e722f482a637117b430931f08fe0d064195776dda4726d8bc14b3f',
+    proofValue : 'z2v5Fr4eK35ejV5H3BU4foyRJekGkwShypKmkB3muZJVxsB1aJfYZCy7xUCadz8aV3supW9a5p8SthwZik8JS3ksY'
+  }
+];
+
+/** Test vectors for the bip340-rdfc-2025 representation */
+export const RDFC_TEST_VECTORS: CryptosuiteTestVector[] = [
+  {
+    name               : 'alumni credential with zero auxiliary randomness',
+    cryptosuite        : 'bip340-rdfc-2025',
+    privateKey         : '73fddc12fc9342bb29ae9b5ed476323bdc693a116e36512455aee830fe8a25a2',
+    publicKeyMultibase : 'z66PwJnYvwJLhGrVc8vcuUkKs99sKCzYRM2HQ2gDCGTAStHk',
+    id                 : '#initialKey',
+    controller,
+    auxRand            : '0000000000000000000000000000000000000000000000000000000000000000',
+    unsecuredDocument  : alumniCredential,
+    proofOptions       : {
+      type               : 'DataIntegrityProof',
+      cryptosuite        : 'bip340-rdfc-2025',
+      verificationMethod : `${controller}#initialKey`,
+      proofPurpose       : 'assertionMethod'
+    },
+    canonicalProofConfig : '_:c14n0 <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <https://w3id.org/security#DataIntegrityProof> .\n'
+      + '_:c14n0 <https://w3id.org/security#cryptosuite> "bip340-rdfc-2025"^^<https://w3id.org/security#cryptosuiteString> .\n'
+      + '_:c14n0 <https://w3id.org/security#proofPurpose> <https://w3id.org/security#assertionMethod> .\n'
+      + '_:c14n0 <https://w3id.org/security#verificationMethod> '
+      + '<did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65#initialKey> .\n',
+    canonicalDocument : '<did:example:c276e12ec21ebfeb1f712ebc6f1> <https://schema.org/name> "Example University" .\n'
+      + '<did:example:ebfeb1f712ebc6f1c276e12ec21> <https://www.w3.org/ns/credentials/examples#alumniOf> '
+      + '<did:example:c276e12ec21ebfeb1f712ebc6f1> .\n'
+      + '<http://university.example/credentials/58473> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> '
+      + '<https://www.w3.org/2018/credentials#VerifiableCredential> .\n'
+      + '<http://university.example/credentials/58473> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> '
+      + '<https://www.w3.org/ns/credentials/examples#ExampleAlumniCredential> .\n'
+      + '<http://university.example/credentials/58473> <https://www.w3.org/2018/credentials#credentialSubject> '
+      + '<did:example:ebfeb1f712ebc6f1c276e12ec21> .\n'
+      + '<http://university.example/credentials/58473> <https://www.w3.org/2018/credentials#issuer> '
+      + '<did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65> .\n'
+      + '<http://university.example/credentials/58473> <https://www.w3.org/2018/credentials#validFrom> '
+      + '"2020-01-01T00:00:00Z"^^<http://www.w3.org/2001/XMLSchema#dateTime> .\n',
+    proofConfigHash : '32645a98954deb8b19189269ed4d6fc28d51dfd0b0f8ccce416db2a4ac5bb82f',
+    documentHash    : '680888848f8025853479f8c82fb70c43aa6b46da11677ae622dddeefaf1fec5b',
+    hashData        : 'b524c9300796e0f81aabb12a9520d2cbe224f55bf7ff7ebc55740157f78f587f',
+    signature       : 'dc41368434ec0981e7d6320991a5252554a4ceccc37438b6221defd03f5ea0ab'
+      + '3746610093398abc5f53f347a954736ae8208d19683a91738b55897a8a731a5d',
+    proofValue : 'z5QQhkYdQ67Z8Uf4hCmDWSzBQ8HGkSTbTT6gKgxnmw6s3vzosQegTQCc9EUxhrNEa2cysg2xjWtkDwLUYm9LMxquW'
+  }
+];
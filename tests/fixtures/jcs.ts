@@ -0,0 +1,109 @@
+/**
+ * RFC 8785 JSON Canonicalization Scheme test corpus.
+ * Inputs and outputs from {@link https://github.com/cyberphone/json-canonicalization/tree/master/testdata | testdata}
+ * and number samples from {@link https://www.rfc-editor.org/rfc/rfc8785#appendix-B | RFC 8785 Appendix B}.
+ */
+
+/** JSON text inputs and their expected canonical form */
+export const JCS_TEST_DATA: { name: string; input: string; output: string }[] = [
+  {
+    name   : 'arrays',
+    input  : String.raw`[
+      56,
+      {
+        "d": true,
+        "10": null,
+        "1": [ ]
+      }
+    ]`,
+    output : '[56,{"1":[],"10":null,"d":true}]'
+  },
+  {
+    name   : 'french',
+    input  : String.raw`{
+      "peach": "This sorting order",
+      "péché": "is wrong according to French",
+      "pêche": "but canonicalization MUST",
+      "sin":   "ignore locale"
+    }`,
+    output : '{"peach":"This sorting order","péché":"is wrong according to French",'
+      + '"pêche":"but canonicalization MUST","sin":"ignore locale"}'
+  },
+  {
+    name   : 'structures',
+    input  : String.raw`{
+      "1": {"f": {"f":  "hi","F":  5} ,"\n":  56.0},
+      "10": { },
+      "":  "empty",
+      "a": { },
+      "111": [ {"e": "yes","E": "no" } ],
+      "A": { }
+    }`,
+    output : '{"":"empty","1":{"\\n":56,"f":{"F":5,"f":"hi"}},"10":{},"111":[{"E":"no","e":"yes"}],"A":{},"a":{}}'
+  },
+  {
+    name   : 'unicode',
+    input  : String.raw`{
+      "Unnormalized Unicode":"A\u030a"
+    }`,
+    output : '{"Unnormalized Unicode":"A\u030a"}'
+  },
+  {
+    name   : 'values',
+    input  : String.raw`{
+      "numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+      "string": "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"\/",
+      "literals": [null, true, false]
+    }`,
+    output : '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],'
+      + '"string":"\u20ac$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+  },
+  {
+    name   : 'weird',
+    input  : String.raw`{
+      "\u20ac": "Euro Sign",
+      "\r": "Carriage Return",
+      "\u000a": "Newline",
+      "1": "One",
+      "\u0080": "Control\u007f",
+      "\ud83d\ude02": "Smiley",
+      "\u00f6": "Latin Small Letter O With Diaeresis",
+      "\ufb33": "Hebrew Letter Dalet With Dagesh",
+      "</script>": "Browser Challenge"
+    }`,
+    output : '{"\\n":"Newline","\\r":"Carriage Return","1":"One","</script>":"Browser Challenge",'
+      + '"\u0080":"Control\u007f","\u00f6":"Latin Small Letter O With Diaeresis","\u20ac":"Euro Sign",'
+      + '"\ud83d\ude02":"Smiley","\ufb33":"Hebrew Letter Dalet With Dagesh"}'
+  }
+];
+
+/** IEEE 754 double precision values (hex) and their expected serialization; `null` marks invalid JSON numbers */
+export const JCS_NUMBER_SAMPLES: { ieee: string; output: string | null }[] = [
+  { ieee: '0000000000000000', output: '0' },
+  { ieee: '8000000000000000', output: '0' },
+  { ieee: '0000000000000001', output: '5e-324' },
+  { ieee: '8000000000000001', output: '-5e-324' },
+  { ieee: '7fefffffffffffff', output: '1.7976931348623157e+308' },
+  { ieee: 'ffefffffffffffff', output: '-1.7976931348623157e+308' },
+  { ieee: '4340000000000000', output: '9007199254740992' },
+  { ieee: 'c340000000000000', output: '-9007199254740992' },
+  { ieee: '4430000000000000', output: '295147905179352830000' },
+  { ieee: '7fffffffffffffff', output: null },
+  { ieee: '7ff0000000000000', output: null },
+  { ieee: '44b52d02c7e14af5', output: '9.999999999999997e+22' },
+  { ieee: '44b52d02c7e14af6', output: '1e+23' },
+  { ieee: '44b52d02c7e14af7', output: '1.0000000000000001e+23' },
+  { ieee: '444b1ae4d6e2ef4e', output: '999999999999999700000' },
+  { ieee: '444b1ae4d6e2ef4f', output: '999999999999999900000' },
+  { ieee: '444b1ae4d6e2ef50', output: '1e+21' },
+  { ieee: '3eb0c6f7a0b5ed8c', output: '9.999999999999997e-7' },
+  { ieee: '3eb0c6f7a0b5ed8d', output: '0.000001' },
+  { ieee: '41b3de4355555553', output: '333333333.3333332' },
+  { ieee: '41b3de4355555554', output: '333333333.33333325' },
+  { ieee: '41b3de4355555555', output: '333333333.3333333' },
+  { ieee: '41b3de4355555556', output: '333333333.3333334' },
+  { ieee: '41b3de4355555557', output: '333333333.33333343' },
+  { ieee: 'becbf647612f3696', output: '-0.0000033333333333333333' },
+  { ieee: '43143ff3c1cb0959', output: '1424953923781206.2' }
+];
+
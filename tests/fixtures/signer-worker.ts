@@ -0,0 +1,21 @@
+import { schnorr } from '@noble/curves/secp256k1';
+import { parentPort, workerData } from 'worker_threads';
+import { SignRequest, SignResponse } from './signer.js';
+
+/**
+ * The key holder of `MockRemoteSigner`, run in a worker thread. It receives the hex private key as its worker
+ * data and signs the requests arriving from the signer. Without auxRand, it signs with zero auxiliary randomness.
+ */
+const secret = Buffer.from((workerData as { privateKey: string }).privateKey, 'hex');
+
+parentPort!.on('message', ({ id, hash, auxRand }: SignRequest) => {
+  let response: SignResponse;
+  try {
+    const aux = auxRand ? Buffer.from(auxRand, 'hex') : new Uint8Array(32);
+    const signature = schnorr.sign(Buffer.from(hash, 'hex'), secret, aux);
+    response = { id, signature: Buffer.from(signature).toString('hex') };
+  } catch (error: any) {
+    response = { id, error: error.message };
+  }
+  parentPort!.postMessage(response);
+});
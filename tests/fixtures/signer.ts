@@ -0,0 +1,61 @@
+import { PrivateKey, PublicKey } from '@did-btc1/bip340-key-pair';
+import { Worker } from 'worker_threads';
+import { ISigner } from '../../src/di-bip340/signer/interface.js';
+import { Bytes, HashBytes, SignatureBytes } from '../../src/types/shared.js';
+
+export type SignRequest = { id: number; hash: string; auxRand?: string };
+export type SignResponse = { id: number; signature?: string; error?: string };
+
+/**
+ * A mock of an out-of-process signer such as a KMS or hardware wallet bridge. The private key is handed to a
+ * worker thread (./signer-worker.ts) on construction and lives only there: requests and responses cross the
+ * thread boundary as hex strings, so the signer never holds key material.
+ */
+export class MockRemoteSigner implements ISigner {
+  public readonly publicKey: PublicKey;
+
+  /** Number of sign requests served by the key holder */
+  public requests = 0;
+
+  private readonly worker: Worker;
+  private readonly pending = new Map<number, (response: SignResponse) => void>();
+  private nextId = 0;
+
+  constructor(privateKeyBytes: Bytes) {
+    this.publicKey = new PrivateKey(privateKeyBytes).computePublicKey();
+
+    // The key holder: a worker thread given the private key
+    const privateKey = Buffer.from(privateKeyBytes).toString('hex');
+    this.worker = new Worker(new URL('./signer-worker.js', import.meta.url), { workerData: { privateKey } });
+
+    // The signer: resolves pending requests as responses arrive
+    this.worker.on('message', (response: SignResponse) => {
+      this.requests++;
+      this.pending.get(response.id)?.(response);
+      this.pending.delete(response.id);
+    });
+
+    // Fail the pending requests if the key holder crashes
+    this.worker.on('error', (error: Error) => {
+      for (const [id, resolve] of this.pending) resolve({ id, error: error.message });
+      this.pending.clear();
+    });
+  }
+
+  public async sign(hash: HashBytes, auxRand?: Bytes): Promise<SignatureBytes> {
+    const id = this.nextId++;
+    const response = await new Promise<SignResponse>(resolve => {
+      this.pending.set(id, resolve);
+      const request: SignRequest = { id, hash: Buffer.from(hash).toString('hex') };
+      if (auxRand) request.auxRand = Buffer.from(auxRand).toString('hex');
+      this.worker.postMessage(request);
+    });
+    if (response.error) throw new Error(response.error);
+    return Buffer.from(response.signature!, 'hex');
+  }
+
+  /** Stops the worker thread */
+  public async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
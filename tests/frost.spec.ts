@@ -0,0 +1,257 @@
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { expect } from 'chai';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { FrostDkgParticipant } from '../src/di-bip340/frost/dkg.js';
+import { FrostSession, FrostSigner, FrostUtils, MemoryFrostShareStore } from '../src/di-bip340/frost/index.js';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { PrivateKeyUtils } from '../src/index.js';
+import { ProofOptions } from '../src/types/di-proof.js';
+import { FrostExchange, FrostKeyShare, FrostSignatureShareMessage } from '../src/types/frost.js';
+import { FrostError } from '../src/utils/error.js';
+
+const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const SECRET = 52464508790539176856770556715241483442035423615466097401201513777400180778402n;
+const message = sha256(Buffer.from('committee credential', 'utf-8'));
+
+/** Creates FROST sessions for the given key shares and runs the commitment round between them */
+const sessions = (shares: FrostKeyShare[]): FrostSession[] => {
+  const all = shares.map(share => new FrostSession({ share }));
+  const commitments = all.map(session => session.commitmentMessage());
+  for (const session of all) {
+    commitments.filter(({ identifier }) => identifier !== session.identifier)
+      .forEach(commitment => session.receiveCommitment(commitment));
+  }
+  return all;
+};
+
+/** Runs the signature share round between sessions and returns the signature of each */
+const sign = (all: FrostSession[]): Uint8Array[] => {
+  const shares = all.map(session => session.sign(message));
+  for (const session of all) {
+    shares.filter(({ identifier }) => identifier !== session.identifier)
+      .forEach(share => session.receiveSignatureShare(share));
+  }
+  return all.map(session => session.signature());
+};
+
+/** Creates an in-process exchange: each call resolves once every signer has sent its message */
+const exchange = (count: number): FrostExchange => {
+  const messages: FrostSignatureShareMessage[] = [];
+  const waiting: ((messages: FrostSignatureShareMessage[]) => void)[] = [];
+  return async (message) => {
+    messages.push(message);
+    if (messages.length === count) waiting.forEach(resolve => resolve(messages));
+    return messages.length === count ? messages : new Promise(resolve => waiting.push(resolve));
+  };
+};
+
+/** Runs a distributed key generation between every participant and returns their key shares */
+const dkg = (threshold: number, participants: number): FrostKeyShare[] => {
+  const all = Array.from({ length: participants }, (_, i) =>
+    new FrostDkgParticipant({ identifier: i + 1, threshold, participants }));
+  const round1 = all.map(participant => participant.round1Message());
+  for (const participant of all) {
+    round1.filter(({ identifier }) => identifier !== participant.identifier)
+      .forEach(message => participant.receiveRound1(message));
+  }
+  const round2 = all.flatMap(participant => participant.round2Messages());
+  for (const participant of all) {
+    round2.filter(({ recipient }) => recipient === participant.identifier)
+      .forEach(message => participant.receiveRound2(message));
+  }
+  return all.map(participant => participant.finalize());
+};
+
+describe('FROST', () => {
+  describe('FrostUtils', () => {
+    it('should split a secret into shares that verify against the commitment, with an even-y group key', () => {
+      const secret = PrivateKeyUtils.fromSecret(SECRET);
+      const shares = FrostUtils.trustedDealerKeygen({ threshold: 2, participants: 3, secret: secret.bytes });
+      expect(shares.map(({ identifier }) => identifier)).to.deep.equal([1, 2, 3]);
+      shares.forEach(share => expect(FrostUtils.verifySecretShare(share)).to.be.true);
+      expect(shares[0].groupPublicKey).to.equal(Buffer.from(secret.computePublicKey().x).toString('hex'));
+      expect(shares[0].commitment[0].startsWith('02')).to.be.true;
+    });
+
+    it('should not verify a share that does not match the commitment', () => {
+      const [share, other] = FrostUtils.trustedDealerKeygen({ threshold: 2, participants: 3 });
+      expect(FrostUtils.verifySecretShare({ ...share, secretShare: other.secretShare })).to.be.false;
+      expect(FrostUtils.verifySecretShare({ ...share, threshold: 3 })).to.be.false;
+    });
+
+    it('should reject an invalid threshold', () => {
+      for (const [threshold, participants] of [[1, 3], [4, 3], [2.5, 3]]) {
+        const error = (() => {
+          try { FrostUtils.trustedDealerKeygen({ threshold, participants }); } catch (e) { return e; }
+        })();
+        expect(error).to.be.instanceOf(FrostError);
+        expect((error as FrostError).type).to.equal('INVALID_PARAMETERS_ERROR');
+      }
+    });
+
+    it('should interpolate the secret from any threshold of shares with Lagrange coefficients', () => {
+      const secret = PrivateKeyUtils.fromSecret(SECRET).bytes;
+      const shares = FrostUtils.trustedDealerKeygen({ threshold: 3, participants: 5, secret });
+      const { n } = secp256k1.CURVE;
+      for (const set of [[1, 2, 3], [2, 4, 5], [1, 3, 5]]) {
+        const interpolated = set.reduce((sum, id) => (sum + FrostUtils.lagrangeCoefficient(id, set)
+          * BigInt(`0x${shares[id - 1].secretShare}`)) % n, 0n);
+        expect(Buffer.from(PrivateKeyUtils.fromSecret(interpolated).computePublicKey().x).toString('hex'))
+          .to.equal(shares[0].groupPublicKey);
+      }
+    });
+  });
+
+  describe('FrostDkgParticipant', () => {
+    it('should give every participant a verifying share of the same even-y group key', () => {
+      const shares = dkg(2, 3);
+      shares.forEach(share => expect(FrostUtils.verifySecretShare(share)).to.be.true);
+      expect(new Set(shares.map(({ groupPublicKey }) => groupPublicKey)).size).to.equal(1);
+      expect(new Set(shares.map(({ commitment }) => commitment.join())).size).to.equal(1);
+    });
+
+    it('should sign with the shares of any threshold of participants', () => {
+      const shares = dkg(2, 3);
+      const [signature] = sign(sessions([shares[0], shares[2]]));
+      expect(schnorr.verify(signature, message, shares[0].groupPublicKey)).to.be.true;
+    });
+
+    it('should reject an invalid proof of knowledge', () => {
+      const [alice, bob] = [1, 2].map(identifier =>
+        new FrostDkgParticipant({ identifier, threshold: 2, participants: 2 }));
+      const forged = { ...bob.round1Message(), proofOfKnowledge: alice.round1Message().proofOfKnowledge };
+      expect(() => alice.receiveRound1(forged)).to.throw(FrostError, 'Invalid proof of knowledge from participant 2');
+    });
+
+    it('should reject a secret share that does not match the commitment of its sender', () => {
+      const all = [1, 2, 3].map(identifier => new FrostDkgParticipant({ identifier, threshold: 2, participants: 3 }));
+      const round1 = all.map(participant => participant.round1Message());
+      all.forEach(participant => round1.filter(({ identifier }) => identifier !== participant.identifier)
+        .forEach(message => participant.receiveRound1(message)));
+      const [toAlice] = all[1].round2Messages();
+      const error = (() => {
+        try { all[0].receiveRound2({ ...toAlice, secretShare: '01'.padStart(64, '0') }); } catch (e) { return e; }
+      })();
+      expect(error).to.be.instanceOf(FrostError);
+      expect((error as FrostError).type).to.equal('INVALID_SHARE_ERROR');
+    });
+
+    it('should not finalize before receiving every secret share', () => {
+      const [alice, bob] = [1, 2].map(identifier =>
+        new FrostDkgParticipant({ identifier, threshold: 2, participants: 2 }));
+      alice.receiveRound1(bob.round1Message());
+      expect(() => alice.finalize()).to.throw(FrostError, 'Missing secret shares from participants: 2');
+    });
+  });
+
+  describe('MemoryFrostShareStore', () => {
+    it('should store, get and delete shares by group public key', async () => {
+      const [share] = FrostUtils.trustedDealerKeygen({ threshold: 2, participants: 3 });
+      const store = new MemoryFrostShareStore();
+      await store.put(share);
+      expect(await store.get(share.groupPublicKey)).to.deep.equal(share);
+      await store.delete(share.groupPublicKey);
+      expect(await store.get(share.groupPublicKey)).to.be.undefined;
+    });
+
+    it('should not store an invalid share', async () => {
+      const [share] = FrostUtils.trustedDealerKeygen({ threshold: 2, participants: 3 });
+      const error = await new MemoryFrostShareStore().put({ ...share, identifier: 2 }).catch(error => error);
+      expect(error).to.be.instanceOf(FrostError);
+      expect(error.type).to.equal('INVALID_SHARE_ERROR');
+    });
+  });
+
+  describe('FrostSession', () => {
+    const shares = FrostUtils.trustedDealerKeygen({ threshold: 3, participants: 5 });
+
+    it('should produce a BIP340 signature for the group key from a threshold of signers', () => {
+      const [signature, ...others] = sign(sessions([shares[0], shares[2], shares[4]]));
+      others.forEach(other => expect(other).to.deep.equal(signature));
+      expect(schnorr.verify(signature, message, shares[0].groupPublicKey)).to.be.true;
+
+      const groupPublicKey = Buffer.from(shares[0].groupPublicKey, 'hex');
+      const multikey = FrostUtils.groupMultikey({ id: '#initialKey', controller, groupPublicKey });
+      expect(multikey.verify(signature, message)).to.be.true;
+    });
+
+    it('should produce a BIP340 signature from more than a threshold of signers', () => {
+      const [signature] = sign(sessions(shares));
+      expect(schnorr.verify(signature, message, shares[0].groupPublicKey)).to.be.true;
+    });
+
+    it('should not sign below the threshold', () => {
+      const [alice] = sessions([shares[0], shares[1]]);
+      expect(() => alice.sign(message)).to.throw(FrostError, '2 commitments, need 3');
+    });
+
+    it('should reject an invalid signature share, naming its signer', () => {
+      const [alice, bob] = sessions([shares[0], shares[1], shares[2]]);
+      alice.sign(message);
+      const share = bob.sign(sha256(Buffer.from('another message', 'utf-8')));
+      expect(() => alice.receiveSignatureShare(share))
+        .to.throw(FrostError, `Invalid signature share from participant ${share.identifier}`);
+    });
+
+    it('should not sign twice with the same nonces', () => {
+      const [alice] = sessions([shares[0], shares[1], shares[2]]);
+      alice.sign(message);
+      expect(() => alice.sign(message)).to.throw(FrostError, 'the session has signed');
+    });
+
+    it('should reject conflicting commitments and shares from outside the signing set', () => {
+      const [alice, bob, carol] = sessions([shares[0], shares[1], shares[2]]);
+      const conflicting = new FrostSession({ share: shares[1] }).commitmentMessage();
+      expect(() => alice.receiveCommitment(conflicting)).to.throw(FrostError, 'Conflicting commitment');
+      alice.sign(message);
+      bob.sign(message);
+      const outsider = { identifier: 4, signatureShare: carol.sign(message).signatureShare };
+      expect(() => alice.receiveSignatureShare(outsider)).to.throw(FrostError, 'not in the signing set');
+    });
+
+    it('should not aggregate before receiving every signature share', () => {
+      const [alice] = sessions([shares[0], shares[1], shares[2]]);
+      alice.sign(message);
+      expect(() => alice.signature()).to.throw(FrostError, 'Missing signature shares from participants: 2, 3');
+    });
+  });
+
+  describe('FrostSigner', () => {
+    for (const cryptosuite of ['bip340-jcs-2025', 'bip340-rdfc-2025'] as const) {
+      it(`should co-issue a ${cryptosuite} proof verifiable with the group Multikey`, async () => {
+        const document = {
+          '@context'        : ['https://www.w3.org/ns/credentials/v2'],
+          type              : ['VerifiableCredential'],
+          issuer            : controller,
+          credentialSubject : { id: 'did:example:ebfeb1f712ebc6f1c276e12ec21' },
+        };
+        const options: ProofOptions = {
+          type               : 'DataIntegrityProof',
+          cryptosuite,
+          verificationMethod : `${controller}#initialKey`,
+          proofPurpose       : 'assertionMethod',
+          created            : '2025-01-01T00:00:00Z'
+        };
+
+        // Two of three committee members create the same proof with their own FrostSigner
+        const shares = dkg(2, 3);
+        const all = sessions([shares[1], shares[2]]);
+        const broadcast = exchange(all.length);
+        const proofs = await Promise.all(all.map(session => {
+          const signer = new FrostSigner(session, broadcast);
+          const multikey = new Multikey({ id: '#initialKey', controller, signer });
+          return new Cryptosuite({ cryptosuite, multikey }).createProof({ document, options });
+        }));
+        proofs.forEach(proof => expect(proof).to.deep.equal(proofs[0]));
+
+        // Anyone verifies the proof with the public-only group multikey
+        const groupPublicKey = Buffer.from(shares[0].groupPublicKey, 'hex');
+        const multikey = FrostUtils.groupMultikey({ id: '#initialKey', controller, groupPublicKey });
+        const verifier = new Cryptosuite({ cryptosuite, multikey });
+        const { verified } = await verifier.verifyProof({ ...document, proof: proofs[0] });
+        expect(verified).to.be.true;
+      });
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { createBase58check } from '@scure/base';
+import { expect } from 'chai';
+import { HDKey, HDKeyUtils } from '../src/di-bip340/hd-key/index.js';
+import { MultikeyUtils } from '../src/di-bip340/multikey/index.js';
+import { MultikeyTemplate } from '../src/di-bip340/multikey/interface.js';
+import { HDKeyError, MultikeyError } from '../src/utils/error.js';
+import { BIP32_TEST_VECTORS } from './fixtures/bip32.js';
+
+const base58check = createBase58check(sha256);
+const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const template: MultikeyTemplate = { id: '#key-{index}', controller };
+
+/** Returns the error thrown by a function */
+const thrown = (fn: () => unknown): any => {
+  try { fn(); } catch (error) { return error; }
+};
+
+/** Re-encodes an extended key with some of its 78 bytes replaced */
+const tamper = (extendedKey: string, offset: number, bytes: number[]): string => {
+  const data = Buffer.from(base58check.decode(extendedKey));
+  data.set(bytes, offset);
+  return base58check.encode(data);
+};
+
+describe('HDKey', () => {
+  describe('BIP32 test vectors', () => {
+    for (const [v, { seed, chain }] of BIP32_TEST_VECTORS.entries()) {
+      const master = HDKeyUtils.fromMasterSeed(Buffer.from(seed, 'hex'));
+
+      for (const { path, xpub, xprv } of chain) {
+        it(`should derive the extended keys of vector ${v + 1} chain ${path}`, () => {
+          const key = master.derive(path);
+          expect(key.privateExtendedKey).to.equal(xprv);
+          expect(key.publicExtendedKey).to.equal(xpub);
+        });
+
+        it(`should round-trip the extended keys of vector ${v + 1} chain ${path}`, () => {
+          expect(HDKeyUtils.fromExtendedKey(xprv).privateExtendedKey).to.equal(xprv);
+          const publicOnly = HDKeyUtils.fromExtendedKey(xpub);
+          expect(publicOnly.privateKey).to.be.undefined;
+          expect(publicOnly.publicExtendedKey).to.equal(xpub);
+        });
+      }
+    }
+
+    it('should derive the same non-hardened children from an xpub as from its xprv', () => {
+      const { chain } = BIP32_TEST_VECTORS[0];
+      const parent = HDKeyUtils.fromExtendedKey(chain[3].xpub);
+      expect(parent.derive('2').publicExtendedKey).to.equal(chain[4].xpub);
+      expect(parent.derive('2/1000000000').publicExtendedKey).to.equal(chain[5].xpub);
+      expect(HDKeyUtils.fromExtendedKey(chain[3].xprv).derive('2').neuter().publicExtendedKey).to.equal(chain[4].xpub);
+    });
+  });
+
+  describe('HDKeyUtils.parsePath', () => {
+    it('should parse absolute and relative paths with hardened markers', () => {
+      expect(HDKeyUtils.parsePath('m')).to.deep.equal({ absolute: true, indexes: [] });
+      expect(HDKeyUtils.parsePath(`m/86'/0h/1H/2`)).to.deep.equal({
+        absolute : true,
+        indexes  : [0x80000056, 0x80000000, 0x80000001, 2]
+      });
+      expect(HDKeyUtils.parsePath('0/5')).to.deep.equal({ absolute: false, indexes: [0, 5] });
+    });
+
+    it('should reject malformed paths and out of range indexes', () => {
+      for (const path of ['', 'm/', 'm//1', 'm/-1', 'm/1x', 'm/2147483648', 'n/1']) {
+        const error = thrown(() => HDKeyUtils.parsePath(path));
+        expect(error, path).to.be.instanceOf(HDKeyError);
+        expect(error.type).to.equal('INVALID_PATH_ERROR');
+      }
+    });
+  });
+
+  describe('invalid keys', () => {
+    const { chain } = BIP32_TEST_VECTORS[0];
+
+    it('should reject a seed shorter than 16 or longer than 64 bytes', () => {
+      for (const length of [15, 65]) {
+        const error = thrown(() => HDKeyUtils.fromMasterSeed(new Uint8Array(length)));
+        expect(error).to.be.instanceOf(HDKeyError);
+        expect(error.type).to.equal('INVALID_SEED_ERROR');
+      }
+    });
+
+    it('should reject a hardened derivation from a public-only key', () => {
+      const error = thrown(() => HDKeyUtils.fromExtendedKey(chain[0].xpub).derive(`m/0'`));
+      expect(error).to.be.instanceOf(HDKeyError);
+      expect(error.type).to.equal('INVALID_DERIVATION_ERROR');
+    });
+
+    it('should reject an absolute path from a key that is not a master key', () => {
+      expect(() => HDKeyUtils.fromExtendedKey(chain[1].xprv).derive('m/1'))
+        .to.throw(HDKeyError, 'from a key at depth 1');
+    });
+
+    it('should reject a public-only key serialized as private', () => {
+      expect(() => HDKeyUtils.fromExtendedKey(chain[0].xpub).privateExtendedKey)
+        .to.throw(HDKeyError, 'public-only key');
+    });
+
+    const INVALID_EXTENDED_KEYS: [string, string][] = [
+      ['a bad checksum', `${chain[0].xpub.slice(0, -1)}9`],
+      ['an unknown version', tamper(chain[0].xpub, 0, [0x04, 0x88, 0xb2, 0x1f])],
+      ['a public key with the private version', tamper(chain[0].xpub, 0, [0x04, 0x88, 0xad, 0xe4])],
+      ['a private key with the public version', tamper(chain[0].xprv, 0, [0x04, 0x88, 0xb2, 0x1e])],
+      ['an invalid public key prefix', tamper(chain[0].xpub, 45, [0x04])],
+      ['a public key not on the curve', tamper(chain[0].xpub, 45, [0x02, ...new Array(32).fill(0xff)])],
+      ['a zero private key', tamper(chain[0].xprv, 46, new Array(32).fill(0))],
+      ['a private key above the curve order', tamper(chain[0].xprv, 46, new Array(32).fill(0xff))],
+      ['a master key with a parent fingerprint', tamper(chain[0].xpub, 5, [0, 0, 0, 1])],
+      ['a master key with a child index', tamper(chain[0].xprv, 9, [0, 0, 0, 1])],
+    ];
+    for (const [reason, extendedKey] of INVALID_EXTENDED_KEYS) {
+      it(`should reject an extended key with ${reason}`, () => {
+        const error = thrown(() => HDKeyUtils.fromExtendedKey(extendedKey));
+        expect(error).to.be.instanceOf(HDKeyError);
+        expect(error.type).to.equal('INVALID_EXTENDED_KEY_ERROR');
+      });
+    }
+
+    it('should read testnet extended keys with the testnet versions only', () => {
+      const { TESTNET_VERSIONS } = HDKeyUtils;
+      const master = HDKeyUtils.fromMasterSeed(Buffer.from(BIP32_TEST_VECTORS[0].seed, 'hex'), TESTNET_VERSIONS);
+      expect(master.publicExtendedKey.startsWith('tpub')).to.be.true;
+      expect(master.privateExtendedKey.startsWith('tprv')).to.be.true;
+      expect(HDKeyUtils.fromExtendedKey(master.privateExtendedKey, TESTNET_VERSIONS)).to.be.instanceOf(HDKey);
+      expect(() => HDKeyUtils.fromExtendedKey(master.privateExtendedKey)).to.throw(HDKeyError, 'unknown version');
+    });
+  });
+
+  describe('MultikeyUtils', () => {
+    const { seed, chain } = BIP32_TEST_VECTORS[0];
+    const seedBytes = Buffer.from(seed, 'hex');
+
+    it('should derive a signing Multikey from a seed with its id and controller from the template', () => {
+      const multikey = MultikeyUtils.fromSeed({ seed: seedBytes, path: `m/0'/1/2'/2`, template });
+      const expected = HDKeyUtils.fromExtendedKey(chain[4].xprv);
+      expect(multikey.id).to.equal('#key-2');
+      expect(multikey.controller).to.equal(controller);
+      expect(multikey.isSigner).to.be.true;
+      expect(multikey.publicKey.compressed).to.deep.equal(expected.publicKey);
+    });
+
+    it('should rotate keys deterministically by deriving successive indexes', () => {
+      const keys = [0, 1, 2].map(i =>
+        MultikeyUtils.fromSeed({ seed: seedBytes, path: `m/86'/0'/0'/0/${i}`, template }));
+      expect(keys.map(({ id }) => id)).to.deep.equal(['#key-0', '#key-1', '#key-2']);
+      const hexes = keys.map(({ publicKey }) => Buffer.from(publicKey.compressed).toString('hex'));
+      expect(new Set(hexes).size).to.equal(3);
+      const again = MultikeyUtils.fromSeed({ seed: seedBytes, path: `m/86'/0'/0'/0/1`, template });
+      expect(again.publicKey.compressed).to.deep.equal(keys[1].publicKey.compressed);
+    });
+
+    it('should derive a public-only Multikey from an xpub', () => {
+      const multikey = MultikeyUtils.fromExtendedKey({ extendedKey: chain[3].xpub, path: '2', template });
+      expect(() => multikey.privateKey).to.throw('Private key not available');
+      expect(multikey.publicKey.compressed).to.deep.equal(HDKeyUtils.fromExtendedKey(chain[4].xpub).publicKey);
+      expect(() => MultikeyUtils.fromExtendedKey({ extendedKey: chain[3].xpub, path: `2'`, template }))
+        .to.throw(HDKeyError, 'public-only key');
+    });
+
+    it('should render every placeholder and function templates', () => {
+      const multikey = MultikeyUtils.fromExtendedKey({
+        extendedKey : chain[0].xprv,
+        path        : `m/0'`,
+        template    : {
+          id         : '#{depth}-{index}-{fingerprint}-{path}',
+          controller : ({ hardened, index }) => `${controller}?key=${index}${hardened ? 'h' : ''}`
+        }
+      });
+      const fingerprint = HDKeyUtils.fromExtendedKey(chain[1].xprv).fingerprint.toString(16).padStart(8, '0');
+      expect(multikey.id).to.equal(`#1-0-${fingerprint}-m/0'`);
+      expect(multikey.controller).to.equal(`${controller}?key=0h`);
+    });
+
+    it('should reject a template with an unknown placeholder', () => {
+      const error = thrown(() => MultikeyUtils.fromSeed({
+        seed     : seedBytes,
+        path     : 'm/0',
+        template : { id: '#key-{account}', controller }
+      }));
+      expect(error).to.be.instanceOf(MultikeyError);
+      expect(error.type).to.equal('INVALID_TEMPLATE_ERROR');
+    });
+  });
+});
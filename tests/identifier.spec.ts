@@ -0,0 +1,99 @@
+import { KeyPair, PrivateKey } from '@did-btc1/bip340-key-pair';
+import { expect } from 'chai';
+import { Btc1IdentifierUtils } from '../src/di-bip340/identifier/index.js';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { IdentifierError } from '../src/utils/error.js';
+
+/**
+ * Btc1IdentifierUtils Test Cases
+ *
+ * 1. encode → should produce the known did:btc1 k1 identifier of a key
+ * 2. encode/parse → should round-trip version and network
+ * 3. decode → should produce a public-only Multikey with id #initialKey
+ * 4. invalid identifiers → should throw IdentifierError
+ *
+ */
+describe('Btc1IdentifierUtils', () => {
+  const identifier = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+  const privateKey = new PrivateKey(Buffer.from('73fddc12fc9342bb29ae9b5ed476323bdc693a116e36512455aee830fe8a25a2', 'hex'));
+  const multikey = new Multikey({ id: '#initialKey', controller: identifier, keyPair: new KeyPair({ privateKey }) });
+  const compressed = '029ad5f6a85d27ee69b133aed273b4f2f5d70ed4a71675019c1a76f04c663526ef';
+
+  describe('encode', () => {
+    it('should encode a mainnet version 1 identifier without version or network', () => {
+      expect(Btc1IdentifierUtils.encode({ multikey })).to.equal(identifier);
+    });
+
+    it('should include a non-default version and network', () => {
+      const encoded = Btc1IdentifierUtils.encode({ multikey, version: 2, network: 'signet' });
+      expect(encoded).to.equal(identifier.replace('did:btc1:', 'did:btc1:2:signet:'));
+    });
+
+    it('should throw INVALID_NETWORK_ERROR for an unknown network', () => {
+      expect(() => Btc1IdentifierUtils.encode({ multikey, network: 'litecoin' as any }))
+        .to.throw(IdentifierError, 'Invalid network');
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse the genesis bytes of an identifier', () => {
+      const { version, network, genesisBytes } = Btc1IdentifierUtils.parse(identifier);
+      expect(version).to.equal(1);
+      expect(network).to.equal('mainnet');
+      expect(Buffer.from(genesisBytes).toString('hex')).to.equal(compressed);
+    });
+
+    for (const [version, network] of [[1, 'regtest'], [3, 'mainnet'], [1, 'testnet4']] as const) {
+      it(`should round-trip version ${version} on ${network}`, () => {
+        const encoded = Btc1IdentifierUtils.encode({ multikey, version, network });
+        const parsed = Btc1IdentifierUtils.parse(encoded);
+        expect(parsed.version).to.equal(version);
+        expect(parsed.network).to.equal(network);
+      });
+    }
+  });
+
+  describe('decode', () => {
+    it('should decode to a public-only Multikey with id #initialKey', () => {
+      const decoded = Btc1IdentifierUtils.decode(identifier);
+      expect(decoded.id).to.equal('#initialKey');
+      expect(decoded.controller).to.equal(identifier);
+      expect(decoded.fullId()).to.equal(`${identifier}#initialKey`);
+      expect(decoded.publicKey.multibase).to.equal(multikey.publicKey.multibase);
+    });
+
+    it('should verify signatures made by the identifier key', () => {
+      const hash = new Uint8Array(32).fill(1);
+      expect(Btc1IdentifierUtils.decode(identifier).verify(multikey.sign(hash), hash)).to.be.true;
+    });
+  });
+
+  describe('invalid identifiers', () => {
+    const invalid: [string, string, string][] = [
+      ['another method', 'did:example:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65', 'INVALID_DID_ERROR'],
+      ['a bad checksum', identifier.slice(0, -1) + 'q', 'INVALID_DID_ERROR'],
+      ['an unknown network', identifier.replace('did:btc1:', 'did:btc1:litecoin:'), 'INVALID_NETWORK_ERROR'],
+      ['version 0', identifier.replace('did:btc1:', 'did:btc1:0:'), 'INVALID_DID_ERROR'],
+      ['too many segments', identifier.replace('did:btc1:', 'did:btc1:1:signet:extra:'), 'INVALID_DID_ERROR'],
+      ['a short genesis key', 'did:btc1:k1qypqxpq9qcrskxxw30', 'INVALID_DID_ERROR'],
+    ];
+
+    for (const [name, value, type] of invalid) {
+      it(`should throw ${type} for ${name}`, () => {
+        try {
+          Btc1IdentifierUtils.decode(value);
+          expect.fail('expected to throw');
+        } catch (error: any) {
+          expect(error).to.be.instanceOf(IdentifierError);
+          expect(error.type).to.equal(type);
+        }
+      });
+    }
+
+    it('should throw UNSUPPORTED_ID_TYPE_ERROR for an external identifier', () => {
+      const external = 'did:btc1:x1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7lmhp8a';
+      expect(() => Btc1IdentifierUtils.decode(external))
+        .to.throw(IdentifierError, 'Unsupported external identifier');
+    });
+  });
+});
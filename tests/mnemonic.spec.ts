@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import { HDKeyUtils } from '../src/di-bip340/hd-key/index.js';
+import { MnemonicUtils } from '../src/di-bip340/mnemonic/index.js';
+import { ENGLISH_WORDLIST } from '../src/di-bip340/mnemonic/wordlist.js';
+import { MultikeyUtils } from '../src/di-bip340/multikey/index.js';
+import { MultikeyTemplate } from '../src/di-bip340/multikey/interface.js';
+import { MnemonicError, MultikeyError } from '../src/utils/error.js';
+import { BIP39_PASSPHRASE, BIP39_TEST_VECTORS } from './fixtures/bip39.js';
+
+const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const template: MultikeyTemplate = { id: '#key-{index}', controller };
+
+/** The first vector restored with its passphrase along `m/86'/0'/0'/0/0`, compressed and x-only */
+const { mnemonic } = BIP39_TEST_VECTORS[0];
+const publicKeyMultibase = 'zQ3shmyQBbCPD6QKGG5o9jcFozyGnCbAUVgVA4xNtZ3iVG8Jx';
+const xOnlyPublicKeyMultibase = 'z66PtDfbGFVHmcwwpvCU6KQhFrZeBrT9EFm9x9ypEg5GfQLU';
+
+/** Returns the error thrown by a function */
+const thrown = (fn: () => unknown): any => {
+  try { fn(); } catch (error) { return error; }
+};
+
+describe('MnemonicUtils', () => {
+  it('should have the 2048 sorted words of the English wordlist', () => {
+    expect(ENGLISH_WORDLIST).to.have.length(2048);
+    expect(ENGLISH_WORDLIST).to.deep.equal([...ENGLISH_WORDLIST].sort());
+    expect(new Set(ENGLISH_WORDLIST.map(word => word.slice(0, 4))).size).to.equal(2048);
+  });
+
+  describe('BIP39 test vectors', () => {
+    for (const [v, { entropy, mnemonic, seed, xprv }] of BIP39_TEST_VECTORS.entries()) {
+      it(`should convert vector ${v + 1} between entropy and mnemonic`, () => {
+        expect(MnemonicUtils.entropyToMnemonic(Buffer.from(entropy, 'hex'))).to.equal(mnemonic);
+        expect(Buffer.from(MnemonicUtils.mnemonicToEntropy(mnemonic)).toString('hex')).to.equal(entropy);
+        expect(MnemonicUtils.validateMnemonic(mnemonic)).to.be.true;
+      });
+
+      it(`should derive the seed and root key of vector ${v + 1}`, () => {
+        const bytes = MnemonicUtils.mnemonicToSeed(mnemonic, BIP39_PASSPHRASE);
+        expect(Buffer.from(bytes).toString('hex')).to.equal(seed);
+        expect(HDKeyUtils.fromMasterSeed(bytes).privateExtendedKey).to.equal(xprv);
+      });
+    }
+  });
+
+  it('should generate valid mnemonics of each strength', () => {
+    for (const [strength, words] of [[128, 12], [160, 15], [192, 18], [224, 21], [256, 24]] as const) {
+      const generated = MnemonicUtils.generateMnemonic(strength);
+      expect(generated.split(' ')).to.have.length(words);
+      expect(MnemonicUtils.validateMnemonic(generated)).to.be.true;
+      expect(MnemonicUtils.entropyToMnemonic(MnemonicUtils.mnemonicToEntropy(generated))).to.equal(generated);
+    }
+    expect(MnemonicUtils.generateMnemonic()).to.not.equal(MnemonicUtils.generateMnemonic());
+  });
+
+  it('should ignore surrounding and repeated whitespace', () => {
+    const spaced = `  ${mnemonic.replace(/ /g, '  \n')} `;
+    expect(MnemonicUtils.mnemonicToSeed(spaced)).to.deep.equal(MnemonicUtils.mnemonicToSeed(mnemonic));
+  });
+
+  it('should derive a different seed with a different passphrase', () => {
+    expect(MnemonicUtils.mnemonicToSeed(mnemonic)).to.not.deep.equal(MnemonicUtils.mnemonicToSeed(mnemonic, 'x'));
+  });
+
+  const INVALID_MNEMONICS: [string, string, string][] = [
+    ['a bad checksum', mnemonic.replace(/about$/, 'abandon'), 'INVALID_CHECKSUM_ERROR'],
+    ['an unknown word', mnemonic.replace(/about$/, 'bitcoin'), 'INVALID_MNEMONIC_ERROR'],
+    ['an uppercase word', mnemonic.replace(/about$/, 'About'), 'INVALID_MNEMONIC_ERROR'],
+    ['too few words', mnemonic.split(' ').slice(1).join(' '), 'INVALID_MNEMONIC_ERROR'],
+    ['no words', '', 'INVALID_MNEMONIC_ERROR'],
+  ];
+  for (const [reason, invalid, type] of INVALID_MNEMONICS) {
+    it(`should reject a mnemonic with ${reason}`, () => {
+      expect(MnemonicUtils.validateMnemonic(invalid)).to.be.false;
+      const error = thrown(() => MnemonicUtils.mnemonicToSeed(invalid));
+      expect(error).to.be.instanceOf(MnemonicError);
+      expect(error.type).to.equal(type);
+    });
+  }
+
+  it('should reject entropy of an invalid length', () => {
+    for (const length of [0, 15, 17, 33]) {
+      const error = thrown(() => MnemonicUtils.entropyToMnemonic(new Uint8Array(length)));
+      expect(error).to.be.instanceOf(MnemonicError);
+      expect(error.type).to.equal('INVALID_ENTROPY_ERROR');
+    }
+    expect(() => MnemonicUtils.generateMnemonic(64 as any)).to.throw(MnemonicError, 'Invalid strength');
+  });
+
+  describe('MultikeyUtils.fromMnemonic', () => {
+    it('should restore a signing Multikey matching its publicKeyMultibase', () => {
+      for (const expected of [publicKeyMultibase, xOnlyPublicKeyMultibase]) {
+        const multikey = MultikeyUtils.fromMnemonic({
+          mnemonic,
+          passphrase         : BIP39_PASSPHRASE,
+          template,
+          publicKeyMultibase : expected
+        });
+        expect(multikey.id).to.equal('#key-0');
+        expect(multikey.controller).to.equal(controller);
+        expect(multikey.isSigner).to.be.true;
+        expect(Buffer.from(multikey.publicKey.compressed).toString('hex'))
+          .to.equal('036cf32115c2fd0dc462fe82e267d89a17e5f5b43087cfcb3be52b89ac70fac245');
+      }
+    });
+
+    it('should restore the same key as deriving the seed along the path', () => {
+      const path = `m/86'/0'/0'/0/3`;
+      const restored = MultikeyUtils.fromMnemonic({ mnemonic, passphrase: BIP39_PASSPHRASE, path, template });
+      const seed = MnemonicUtils.mnemonicToSeed(mnemonic, BIP39_PASSPHRASE);
+      expect(restored.id).to.equal('#key-3');
+      const derived = MultikeyUtils.fromSeed({ seed, path, template });
+      expect(restored.publicKey.compressed).to.deep.equal(derived.publicKey.compressed);
+    });
+
+    it('should reject a restored key that does not match the publicKeyMultibase', () => {
+      for (const params of [{}, { passphrase: BIP39_PASSPHRASE, path: `m/86'/0'/0'/0/1` }]) {
+        const error = thrown(() => MultikeyUtils.fromMnemonic({ mnemonic, template, publicKeyMultibase, ...params }));
+        expect(error).to.be.instanceOf(MultikeyError);
+        expect(error.type).to.equal('PUBLIC_KEY_MISMATCH_ERROR');
+      }
+    });
+
+    it('should reject an invalid mnemonic', () => {
+      const invalid = mnemonic.replace(/about$/, 'abandon');
+      expect(() => MultikeyUtils.fromMnemonic({ mnemonic: invalid, template })).to.throw(MnemonicError, 'checksum');
+    });
+  });
+});
@@ -1,7 +1,9 @@
 import { expect } from 'chai';
-import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { base58btc } from 'multiformats/bases/base58';
+import { Multikey, MultikeyUtils } from '../src/di-bip340/multikey/index.js';
 import { KeyPair, KeyPairError, KeyPairUtils, MultikeyError, PrivateKey, PrivateKeyUtils, PublicKey } from '../src/index.js';
 import ObjectUtils from '../src/utils/object-utils.js';
+import { loadBip340TestVectors } from './fixtures/bip340.js';
 
 /**
  * Multikey Test Cases
@@ -310,4 +312,259 @@ describe('Multikey instantiated', () => {
 
     });
   });
-});
\ No newline at end of file
+});
+
+/**
+ * Multikey BIP340 Test Cases
+ *
+ * 1. official test-vectors.csv signing rows → should match signature (caller-supplied and injected auxRand)
+ * 2. official test-vectors.csv rows → should match verification result
+ * 3. zero / random / invalid auxRand → deterministic, randomized, should throw
+ *
+ */
+describe('Multikey BIP340', () => {
+  const id = '#initialKey';
+  const controller = 'did:btc1:k1qvddh3hl7n5czluwhz9ry35tunkhtldhgr66zp907ewg4l7p6u786tz863a';
+  const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex').toUpperCase();
+  const vectors = loadBip340TestVectors();
+
+  describe('test-vectors.csv', () => {
+    for (const vector of vectors.filter(({ secretKey }) => secretKey)) {
+      const privateKeyBytes = Buffer.from(vector.secretKey, 'hex');
+      const auxRand = Buffer.from(vector.auxRand, 'hex');
+      const message = Buffer.from(vector.message, 'hex');
+
+      it(`should produce the signature of vector ${vector.index} given its auxRand`, () => {
+        const multikey = MultikeyUtils.fromPrivateKey({ id, controller, privateKeyBytes });
+        expect(hex(multikey.publicKey.x)).to.equal(vector.publicKey);
+        expect(hex(multikey.sign(message, auxRand))).to.equal(vector.signature);
+      });
+
+      it(`should produce the signature of vector ${vector.index} given an auxRand source`, () => {
+        const multikey = MultikeyUtils.fromPrivateKey({ id, controller, privateKeyBytes, auxRand: () => auxRand });
+        expect(hex(multikey.sign(message))).to.equal(vector.signature);
+      });
+    }
+
+    for (const vector of vectors) {
+      it(`should verify vector ${vector.index} as ${vector.verificationResult} ${vector.comment}`.trim(), () => {
+        const signature = Buffer.from(vector.signature, 'hex');
+        const message = Buffer.from(vector.message, 'hex');
+        let verified: boolean;
+        try {
+          // BIP340 public keys are x-only: lift to the point with an even y coordinate
+          const publicKeyBytes = Buffer.concat([Buffer.from([0x02]), Buffer.from(vector.publicKey, 'hex')]);
+          verified = MultikeyUtils.fromPublicKey({ id, controller, publicKeyBytes }).verify(signature, message);
+        } catch {
+          verified = false;
+        }
+        expect(verified).to.equal(vector.verificationResult);
+      });
+    }
+  });
+
+  describe('auxiliary randomness', () => {
+    const privateKeyBytes = Buffer.from(vectors[1].secretKey, 'hex');
+    const message = Buffer.from(vectors[1].message, 'hex');
+
+    it('should sign deterministically with the zero auxRand source', () => {
+      const multikey = MultikeyUtils.fromPrivateKey({
+        id,
+        controller,
+        privateKeyBytes,
+        auxRand : MultikeyUtils.zeroAuxRand
+      });
+      const signature = multikey.sign(message);
+      expect(hex(multikey.sign(message))).to.equal(hex(signature));
+      expect(hex(multikey.sign(message, new Uint8Array(32)))).to.equal(hex(signature));
+    });
+
+    it('should sign with fresh randomness by default', () => {
+      const multikey = MultikeyUtils.fromPrivateKey({ id, controller, privateKeyBytes });
+      const [first, second] = [multikey.sign(message), multikey.sign(message)];
+      expect(hex(first)).to.not.equal(hex(second));
+      expect(multikey.verify(first, message)).to.be.true;
+      expect(multikey.verify(second, message)).to.be.true;
+    });
+
+    it('should throw MultikeyError given auxRand that is not 32 bytes', () => {
+      const multikey = MultikeyUtils.fromPrivateKey({ id, controller, privateKeyBytes, auxRand: () => new Uint8Array(31) });
+      expect(() => multikey.sign(message)).to.throw(MultikeyError, 'Invalid auxRand: expected 32 bytes, got 31');
+      expect(() => multikey.sign(message, new Uint8Array(33))).to.throw(MultikeyError, 'got 33');
+    });
+  });
+});
+
+describe('Multikey.fromVerificationMethod', () => {
+  const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+  const multikey = MultikeyUtils.fromPrivateKey({
+    id              : '#initialKey',
+    controller,
+    privateKeyBytes : Buffer.from('73fddc12fc9342bb29ae9b5ed476323bdc693a116e36512455aee830fe8a25a2', 'hex')
+  });
+  const compressed = Buffer.from('029ad5f6a85d27ee69b133aed273b4f2f5d70ed4a71675019c1a76f04c663526ef', 'hex');
+  const encode = (...bytes: Iterable<number>[]) => base58btc.encode(new Uint8Array(bytes.flatMap(b => [...b])));
+  const vmWith = (publicKeyMultibase: string) => ({ ...multikey.toVerificationMethod(), publicKeyMultibase });
+
+  describe('round trip', () => {
+    it('should round-trip toVerificationMethod', () => {
+      const vm = multikey.toVerificationMethod();
+      const decoded = Multikey.fromVerificationMethod(vm);
+      expect(decoded.id).to.equal(multikey.id);
+      expect(decoded.controller).to.equal(controller);
+      expect(decoded.publicKey.multibase).to.equal(multikey.publicKey.multibase);
+      expect(ObjectUtils.deepEqual(decoded.toVerificationMethod(), vm)).to.be.true;
+    });
+
+    it('should decode the supplied key rather than its own', () => {
+      const other = MultikeyUtils.fromPrivateKey({ id: '#other', controller, privateKeyBytes: new Uint8Array(32).fill(1) });
+      const decoded = multikey.fromVerificationMethod(other.toVerificationMethod());
+      expect(decoded.publicKey.multibase).to.equal(other.publicKey.multibase);
+      expect(decoded.publicKey.multibase).to.not.equal(multikey.publicKey.multibase);
+    });
+
+    it('should decode a secp256k1-pub compressed publicKeyMultibase', () => {
+      const decoded = Multikey.fromVerificationMethod(vmWith(encode([0xe7, 0x01], compressed)));
+      expect(decoded.publicKey.multibase).to.equal(multikey.publicKey.multibase);
+      const hash = new Uint8Array(32).fill(2);
+      expect(decoded.verify(multikey.sign(hash), hash)).to.be.true;
+    });
+  });
+
+  describe('invalid publicKeyMultibase', () => {
+    const invalid: [string, string, string][] = [
+      ['a base64url prefix', `u${Buffer.from([0xe7, 0x01, ...compressed]).toString('base64url')}`,
+        'INVALID_MULTIBASE_PREFIX_ERROR'],
+      ['invalid base58btc characters', 'z0OIl', 'INVALID_MULTIBASE_PREFIX_ERROR'],
+      ['a secp256k1-priv header', encode([0x81, 0x26], compressed.subarray(1)), 'INVALID_MULTICODEC_HEADER_ERROR'],
+      ['an ed25519-pub header', encode([0xed, 0x01], compressed.subarray(1)), 'INVALID_MULTICODEC_HEADER_ERROR'],
+      ['a 32-byte secp256k1-pub key', encode([0xe7, 0x01], compressed.subarray(1)), 'INVALID_PUBLIC_KEY_LENGTH_ERROR'],
+      ['a 65-byte secp256k1-pub key', encode([0xe7, 0x01], [0x04], new Uint8Array(64)), 'INVALID_PUBLIC_KEY_LENGTH_ERROR'],
+      ['a key off the curve', encode([0xe7, 0x01], [0x02], new Uint8Array(32).fill(0xff)), 'INVALID_PUBLIC_KEY_POINT_ERROR'],
+      ['an invalid parity byte', encode([0xe7, 0x01], [0x05], compressed.subarray(1)), 'INVALID_PUBLIC_KEY_POINT_ERROR'],
+    ];
+
+    for (const [name, publicKeyMultibase, type] of invalid) {
+      it(`should throw ${type} for ${name}`, () => {
+        try {
+          Multikey.fromVerificationMethod(vmWith(publicKeyMultibase));
+          expect.fail('expected to throw');
+        } catch (error: any) {
+          expect(error).to.be.instanceOf(MultikeyError);
+          expect(error.type).to.equal(type);
+        }
+      });
+    }
+
+    it('should throw MULTIKEY_VERIFICATION_METHOD_ERROR for an unsupported type', () => {
+      expect(() => Multikey.fromVerificationMethod({ ...multikey.toVerificationMethod(), type: 'EcdsaSecp256k1' }))
+        .to.throw(MultikeyError, 'verificationMethod type is invalid');
+    });
+  });
+});
+
+describe('Multikey private key export and import', () => {
+  const id = '#initialKey';
+  const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+  const privateKeyBytes = Buffer.from('73fddc12fc9342bb29ae9b5ed476323bdc693a116e36512455aee830fe8a25a2', 'hex');
+  const multikey = MultikeyUtils.fromPrivateKey({ id, controller, privateKeyBytes });
+  const secretKeyMultibase = 'z3vLbog4piYgdSN6qFU8tzHAfWcLzLaPd7SvCFwq1T4FLroT';
+  const jwk = {
+    kty : 'EC',
+    crv : 'secp256k1',
+    x   : 'mtX2qF0n7mmxM67Sc7Ty9dcO1KcWdQGcGnbwTGY1Ju8',
+    y   : 'xodRWa1ESA74iRH6Ow8l_pf2UaayTY3E26slCkyUWGI',
+  } as const;
+  const d = 'c_3cEvyTQrsprpte1HYyO9xpOhFuNlEkVa7oMP6KJaI';
+  const message = new Uint8Array(32).fill(3);
+
+  describe('secretKeyMultibase', () => {
+    it('should export the expected secretKeyMultibase', () => {
+      expect(multikey.toSecretKeyMultibase()).to.equal(secretKeyMultibase);
+    });
+
+    it('should import a secretKeyMultibase into a signing Multikey', () => {
+      const imported = MultikeyUtils.fromSecretKeyMultibase({ id, controller, secretKeyMultibase });
+      expect(imported.publicKey.multibase).to.equal(multikey.publicKey.multibase);
+      expect(multikey.verify(imported.sign(message), message)).to.be.true;
+    });
+
+    it('should reject a secretKeyMultibase with another header', () => {
+      const publicKeyMultibase = multikey.publicKey.multibase;
+      expect(() => MultikeyUtils.fromSecretKeyMultibase({ id, controller, secretKeyMultibase: publicKeyMultibase }))
+        .to.throw(MultikeyError, 'expected secp256k1-priv header');
+    });
+
+    it('should reject a secretKeyMultibase of the wrong length', () => {
+      const short = base58btc.encode(new Uint8Array([0x81, 0x26, ...privateKeyBytes.subarray(1)]));
+      expect(() => MultikeyUtils.fromSecretKeyMultibase({ id, controller, secretKeyMultibase: short }))
+        .to.throw(MultikeyError, 'expected 32 bytes, got 31');
+    });
+  });
+
+  describe('JWK', () => {
+    it('should export the expected public JWK', () => {
+      expect(multikey.toJwk()).to.deep.equal(jwk);
+    });
+
+    it('should export the expected private JWK', () => {
+      expect(multikey.toJwk(true)).to.deep.equal({ ...jwk, d });
+    });
+
+    it('should import a private JWK into a signing Multikey', () => {
+      const imported = MultikeyUtils.fromJwk({ id, controller, jwk: { ...jwk, d } });
+      expect(imported.toSecretKeyMultibase()).to.equal(secretKeyMultibase);
+      expect(multikey.verify(imported.sign(message), message)).to.be.true;
+    });
+
+    it('should import a public JWK into a public-only Multikey', () => {
+      const imported = MultikeyUtils.fromJwk({ id, controller, jwk });
+      expect(imported.publicKey.multibase).to.equal(multikey.publicKey.multibase);
+      expect(() => imported.sign(message)).to.throw('Private key not available');
+    });
+
+    it('should reject a JWK for another curve', () => {
+      expect(() => MultikeyUtils.fromJwk({ id, controller, jwk: { ...jwk, crv: 'P-256' as any } }))
+        .to.throw(MultikeyError, 'expected kty "EC" and crv "secp256k1"');
+    });
+
+    it('should reject a JWK whose point is not on the curve', () => {
+      const y = Buffer.alloc(32, 1).toString('base64url');
+      expect(() => MultikeyUtils.fromJwk({ id, controller, jwk: { ...jwk, y } }))
+        .to.throw(MultikeyError, 'not a point on secp256k1');
+    });
+
+    it('should reject a JWK whose private key does not match its public key', () => {
+      const other = Buffer.alloc(32, 1).toString('base64url');
+      expect(() => MultikeyUtils.fromJwk({ id, controller, jwk: { ...jwk, d: other } }))
+        .to.throw(MultikeyError, 'd does not match x and y');
+    });
+  });
+
+  describe('verification methods', () => {
+    it('should round-trip a JsonWebKey verification method', () => {
+      const vm = multikey.toVerificationMethod('JsonWebKey');
+      expect(vm).to.deep.equal({ id, type: 'JsonWebKey', controller, publicKeyJwk: jwk });
+      const decoded = Multikey.fromVerificationMethod(vm);
+      expect(decoded.publicKey.multibase).to.equal(multikey.publicKey.multibase);
+      expect(ObjectUtils.deepEqual(decoded.toVerificationMethod('JsonWebKey'), vm)).to.be.true;
+    });
+
+    it('should reject a JsonWebKey verification method containing a private key', () => {
+      const vm = { ...multikey.toVerificationMethod('JsonWebKey'), publicKeyJwk: { ...jwk, d } };
+      expect(() => Multikey.fromVerificationMethod(vm)).to.throw(MultikeyError, 'must not contain a private key');
+    });
+
+    it('should import a Multikey verification method with a secretKeyMultibase', () => {
+      const vm = { ...multikey.toVerificationMethod(), secretKeyMultibase };
+      const decoded = Multikey.fromVerificationMethod(vm);
+      expect(multikey.verify(decoded.sign(message), message)).to.be.true;
+    });
+
+    it('should reject a secretKeyMultibase that does not match the publicKeyMultibase', () => {
+      const other = MultikeyUtils.fromPrivateKey({ id, controller, privateKeyBytes: new Uint8Array(32).fill(1) });
+      const vm = { ...multikey.toVerificationMethod(), secretKeyMultibase: other.toSecretKeyMultibase() };
+      expect(() => Multikey.fromVerificationMethod(vm)).to.throw(MultikeyError, 'does not match publicKeyMultibase');
+    });
+  });
+});
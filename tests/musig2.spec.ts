@@ -0,0 +1,188 @@
+import { schnorr } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { expect } from 'chai';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { MuSig2Session, MuSig2Signer, MuSig2Utils } from '../src/di-bip340/musig2/index.js';
+import { PrivateKeyUtils } from '../src/index.js';
+import { ProofOptions } from '../src/types/di-proof.js';
+import { MuSig2Exchange, MuSig2PartialSignatureMessage } from '../src/types/musig2.js';
+import { MuSig2Error } from '../src/utils/error.js';
+
+const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+const bytes = (hex: string): Uint8Array => Buffer.from(hex, 'hex');
+
+/** BIP327 key aggregation test vectors (key_agg_vectors.json) */
+const X1 = bytes('02f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9');
+const X2 = bytes('03dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659');
+const X3 = bytes('023590a94e768f8e1815c2f24b4d80a8e3149316c3518ce7b7ad338368d038ca66');
+const KEY_AGG_VECTORS = [
+  { keys: [X1, X2, X3], expected: '90539eede565f5d054f32cc0c220126889ed1e5d193baf15aef344fe59d4610c' },
+  { keys: [X3, X2, X1], expected: '6204de8b083426dc6eaf9502d27024d53fc826bf7d2012148a0575435df54b2b' },
+  { keys: [X1, X1, X1], expected: 'b436e3bad62b8cd409969a224731c193d051162d8c5ae8b109306127da3aa935' },
+  { keys: [X1, X1, X2, X2], expected: '69bc22bfa5d106306e48a20679de1d7389386124d07571d0d872686028c26a3e' },
+];
+
+const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const SECRETS = [
+  52464508790539176856770556715241483442035423615466097401201513777400180778402n,
+  3n * 52464508790539176856770556715241483442035423615466097401201513777400180778n,
+  7n * 52464508790539176856770556715241483442035423615466097401201513777400180779n,
+];
+
+/** Creates MuSig2 sessions for every signer and runs the nonce round between them */
+const sessions = (): MuSig2Session[] => {
+  const privateKeys = SECRETS.map(secret => PrivateKeyUtils.fromSecret(secret));
+  const publicKeys = privateKeys.map(privateKey => privateKey.computePublicKey().compressed);
+  const all = privateKeys.map(privateKey => new MuSig2Session({ privateKey, publicKeys }));
+  const nonces = all.map(session => session.nonceMessage());
+  for (const session of all) {
+    nonces.filter(nonce => nonce.publicKey !== hex(session.publicKey)).forEach(nonce => session.receiveNonce(nonce));
+  }
+  return all;
+};
+
+/** Creates an in-process exchange: each call resolves once every signer has sent its message */
+const exchange = (count: number): MuSig2Exchange => {
+  const messages: MuSig2PartialSignatureMessage[] = [];
+  const waiting: ((messages: MuSig2PartialSignatureMessage[]) => void)[] = [];
+  return async (message) => {
+    messages.push(message);
+    if (messages.length === count) waiting.forEach(resolve => resolve(messages));
+    return messages.length === count ? messages : new Promise(resolve => waiting.push(resolve));
+  };
+};
+
+describe('MuSig2', () => {
+  describe('MuSig2Utils', () => {
+    for (const [i, { keys, expected }] of KEY_AGG_VECTORS.entries()) {
+      it(`should aggregate the keys of BIP327 key aggregation vector ${i}`, () => {
+        expect(hex(MuSig2Utils.aggregatePublicKey(keys))).to.equal(expected);
+      });
+    }
+
+    it('should sort keys lexicographically, making the aggregate key independent of their order', () => {
+      const sorted = MuSig2Utils.keySort([X1, X2, X3]);
+      expect(sorted.map(hex)).to.deep.equal([X3, X1, X2].map(hex));
+      expect(MuSig2Utils.aggregatePublicKey(MuSig2Utils.keySort([X3, X2, X1])))
+        .to.deep.equal(MuSig2Utils.aggregatePublicKey(sorted));
+    });
+
+    it('should not aggregate an invalid public key', () => {
+      const invalid = bytes(`02${'ff'.repeat(32)}`);
+      expect(() => MuSig2Utils.keyAgg([X1, invalid])).to.throw(MuSig2Error, 'Invalid public key at index 1');
+    });
+
+    it('should generate nonces deterministically from fixed randomness', () => {
+      const params = { publicKey: X1, rand: new Uint8Array(32) };
+      const { pubnonce } = MuSig2Utils.nonceGen(params);
+      expect(MuSig2Utils.nonceGen(params).pubnonce).to.deep.equal(pubnonce);
+      expect(MuSig2Utils.nonceGen({ ...params, message: new Uint8Array(32) }).pubnonce).to.not.deep.equal(pubnonce);
+      expect(pubnonce.length).to.equal(66);
+    });
+  });
+
+  describe('MuSig2Session', () => {
+    const message = sha256(Buffer.from('co-issued credential', 'utf-8'));
+
+    it('should produce a BIP340 signature for the aggregate key', () => {
+      const all = sessions();
+      const partials = all.map(session => session.sign(message));
+      for (const session of all) {
+        partials.filter(partial => partial.publicKey !== hex(session.publicKey))
+          .forEach(partial => session.receivePartialSignature(partial));
+      }
+      const [signature, ...others] = all.map(session => session.signature());
+      others.forEach(other => expect(other).to.deep.equal(signature));
+      expect(schnorr.verify(signature, message, all[0].aggregatePublicKey)).to.be.true;
+
+      const multikey = MuSig2Utils.aggregateMultikey({ id: '#initialKey', controller, publicKeys: all[0].publicKeys });
+      expect(multikey.verify(signature, message)).to.be.true;
+    });
+
+    it('should reject an invalid partial signature, naming its signer', () => {
+      const [alice, bob] = sessions();
+      alice.sign(message);
+      const partial = bob.sign(sha256(Buffer.from('another message', 'utf-8')));
+      expect(() => alice.receivePartialSignature(partial))
+        .to.throw(MuSig2Error, `Invalid partial signature from signer ${partial.publicKey}`);
+    });
+
+    it('should not sign twice with the same nonce', () => {
+      const [alice] = sessions();
+      alice.sign(message);
+      expect(() => alice.sign(message)).to.throw(MuSig2Error, 'the session has signed');
+      expect(() => alice.nonceMessage()).to.not.throw();
+    });
+
+    it('should not sign before receiving every nonce', () => {
+      const privateKeys = SECRETS.map(secret => PrivateKeyUtils.fromSecret(secret));
+      const publicKeys = privateKeys.map(privateKey => privateKey.computePublicKey().compressed);
+      const alice = new MuSig2Session({ privateKey: privateKeys[0], publicKeys });
+      alice.nonceMessage();
+      expect(() => alice.sign(message)).to.throw(MuSig2Error, 'Missing nonces from signers');
+    });
+
+    it('should not aggregate before receiving every partial signature', () => {
+      const [alice] = sessions();
+      alice.sign(message);
+      expect(() => alice.signature()).to.throw(MuSig2Error, 'Missing partial signatures from signers');
+    });
+
+    it('should reject round messages from unknown signers and conflicting nonces', () => {
+      const [alice, bob] = sessions();
+      const stranger = hex(schnorr.utils.randomPrivateKey());
+      expect(() => alice.receiveNonce({ publicKey: stranger, pubnonce: bob.nonceMessage().pubnonce }))
+        .to.throw(MuSig2Error, 'unknown signer');
+      const conflicting = MuSig2Utils.nonceGen({ publicKey: bob.publicKey }).pubnonce;
+      expect(() => alice.receiveNonce({ publicKey: hex(bob.publicKey), pubnonce: hex(conflicting) }))
+        .to.throw(MuSig2Error, 'Conflicting nonce');
+    });
+
+    it('should not create a session without the key of its signer', () => {
+      const privateKey = PrivateKeyUtils.fromSecret(SECRETS[0]);
+      const error = (() => {
+        try { new MuSig2Session({ privateKey, publicKeys: [X1, X2] }); } catch (e) { return e; }
+      })();
+      expect(error).to.be.instanceOf(MuSig2Error);
+      expect((error as MuSig2Error).type).to.equal('INVALID_PUBLIC_KEY_ERROR');
+    });
+  });
+
+  describe('MuSig2Signer', () => {
+    for (const cryptosuite of ['bip340-jcs-2025', 'bip340-rdfc-2025'] as const) {
+      it(`should co-issue a ${cryptosuite} proof verifiable with the aggregate Multikey`, async () => {
+        const document = {
+          '@context'        : ['https://www.w3.org/ns/credentials/v2'],
+          type              : ['VerifiableCredential'],
+          issuer            : controller,
+          credentialSubject : { id: 'did:example:ebfeb1f712ebc6f1c276e12ec21' },
+        };
+        const options: ProofOptions = {
+          type               : 'DataIntegrityProof',
+          cryptosuite,
+          verificationMethod : `${controller}#initialKey`,
+          proofPurpose       : 'assertionMethod',
+          created            : '2025-01-01T00:00:00Z'
+        };
+
+        // Each signer creates the same proof with its own MuSig2Signer
+        const all = sessions();
+        const broadcast = exchange(all.length);
+        const proofs = await Promise.all(all.map(session => {
+          const signer = new MuSig2Signer(session, broadcast);
+          const multikey = new Multikey({ id: '#initialKey', controller, signer });
+          return new Cryptosuite({ cryptosuite, multikey }).createProof({ document, options });
+        }));
+        proofs.forEach(proof => expect(proof).to.deep.equal(proofs[0]));
+
+        // Anyone verifies the proof with the public-only aggregate multikey
+        const { publicKeys } = all[0];
+        const multikey = MuSig2Utils.aggregateMultikey({ id: '#initialKey', controller, publicKeys });
+        const verifier = new Cryptosuite({ cryptosuite, multikey });
+        const { verified } = await verifier.verifyProof({ ...document, proof: proofs[0] });
+        expect(verified).to.be.true;
+      });
+    }
+  });
+});
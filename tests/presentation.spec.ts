@@ -0,0 +1,257 @@
+import { expect } from 'chai';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { DataIntegrityProof } from '../src/di-bip340/data-integrity-proof/index.js';
+import { Btc1IdentifierUtils } from '../src/di-bip340/identifier/index.js';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { Presentation } from '../src/di-bip340/presentation/index.js';
+import { LocalResolver } from '../src/di-bip340/resolver/index.js';
+import { KeyPair, PrivateKeyUtils } from '../src/index.js';
+import { Proof, ProofOptions, SecureDocument } from '../src/types/di-proof.js';
+import { ProofError } from '../src/utils/error.js';
+
+const credential = {
+  '@context' : [
+    'https://www.w3.org/ns/credentials/v2',
+    'https://www.w3.org/ns/credentials/examples/v2',
+  ],
+  id                : 'http://university.example/credentials/58473',
+  type              : ['VerifiableCredential', 'ExampleAlumniCredential'],
+  validFrom         : '2020-01-01T00:00:00Z',
+  issuer            : 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65',
+  credentialSubject : {
+    id       : 'did:example:ebfeb1f712ebc6f1c276e12ec21',
+    alumniOf : { id: 'did:example:c276e12ec21ebfeb1f712ebc6f1', name: 'Example University' },
+  },
+};
+const id = '#initialKey';
+const issuer = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const SECRET = 52464508790539176856770556715241483442035423615466097401201513777400180778402n;
+const challenge = 'ZmxpcC1mbG9wLWNoYWxsZW5nZQ';
+const domain = 'verifier.example';
+
+describe('Presentation', () => {
+  // The issuer signs credentials for assertion
+  const issuerKeyPair = new KeyPair({ privateKey: PrivateKeyUtils.fromSecret(SECRET) });
+  const issuerKey = new Multikey({ id, controller: issuer, keyPair: issuerKeyPair });
+  const issuerProof = new DataIntegrityProof(new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey: issuerKey }));
+  const issuerOptions: ProofOptions = {
+    type               : 'DataIntegrityProof',
+    cryptosuite        : 'bip340-jcs-2025',
+    verificationMethod : `${issuer}#initialKey`,
+    proofPurpose       : 'assertionMethod'
+  };
+
+  // The holder signs presentations for authentication
+  const holderKeyPair = new KeyPair({ privateKey: PrivateKeyUtils.fromSecret(SECRET - 1n) });
+  const holder = Btc1IdentifierUtils.encode({
+    multikey : new Multikey({ id, controller: issuer, keyPair: holderKeyPair })
+  });
+  const holderKey = new Multikey({ id, controller: holder, keyPair: holderKeyPair });
+  const holderPresentation = new Presentation(
+    new DataIntegrityProof(new Cryptosuite({ cryptosuite: 'bip340-jcs-2025', multikey: holderKey }))
+  );
+  const holderOptions = {
+    cryptosuite        : 'bip340-jcs-2025',
+    verificationMethod : `${holder}#initialKey` as Proof['verificationMethod'],
+    challenge,
+    domain
+  } as const;
+
+  // The verifier resolves the keys of both
+  const resolver = new LocalResolver([
+    { id: issuer, verificationMethod: [issuerKey.toVerificationMethod()], assertionMethod: [id] },
+    { id: holder, verificationMethod: [holderKey.toVerificationMethod()], authentication: [id] }
+  ]);
+  const verifier = new Presentation(new DataIntegrityProof(undefined, resolver));
+
+  let credentials: SecureDocument[];
+
+  before(async () => {
+    credentials = [
+      await issuerProof.addProof({ document: credential, options: issuerOptions }),
+      await issuerProof.addProof({ document: { ...credential, id: 'urn:uuid:2' }, options: issuerOptions })
+    ];
+  });
+
+  describe('createPresentation', () => {
+    it('should wrap the credentials in a VerifiablePresentation signed for authentication', async () => {
+      const presentation = await holderPresentation.createPresentation({
+        credentials,
+        id      : 'urn:uuid:presentation',
+        options : holderOptions
+      });
+      expect(presentation).to.include({ id: 'urn:uuid:presentation', holder });
+      expect(presentation['@context']).to.deep.equal(['https://www.w3.org/ns/credentials/v2']);
+      expect(presentation.type).to.deep.equal(['VerifiablePresentation']);
+      expect(presentation.verifiableCredential).to.deep.equal(credentials);
+      expect(presentation.proof).to.include({
+        type         : 'DataIntegrityProof',
+        proofPurpose : 'authentication',
+        challenge,
+        domain
+      });
+    });
+
+    it('should throw ProofError given an unsecured credential or no challenge', async () => {
+      const unsecured = await holderPresentation
+        .createPresentation({ credentials: [credentials[0], credential as any], options: holderOptions })
+        .catch(error => error);
+      expect(unsecured).to.be.instanceOf(ProofError);
+      expect(unsecured.message).to.include('Credential 1 is not secured');
+
+      const unchallenged = await holderPresentation
+        .createPresentation({ credentials, options: { ...holderOptions, challenge: '' } })
+        .catch(error => error);
+      expect(unchallenged).to.be.instanceOf(ProofError);
+      expect(unchallenged.type).to.equal('PROOF_GENERATION_ERROR');
+    });
+  });
+
+  describe('verifyPresentation', () => {
+    const present = async () =>
+      JSON.stringify(await holderPresentation.createPresentation({ credentials, options: holderOptions }));
+    const verify = (document: string) =>
+      verifier.verifyPresentation({ document, expectedChallenge: challenge, expectedDomain: domain });
+
+    it('should verify the presentation and every credential', async () => {
+      const result = await verify(await present());
+      expect(result.verified).to.be.true;
+      expect(result.presentation.verified).to.be.true;
+      expect(result.credentials.map(({ verified }) => verified)).to.deep.equal([true, true]);
+    });
+
+    it('should not verify a presentation over another challenge or domain', async () => {
+      const document = await present();
+      const challenged = await verifier.verifyPresentation({
+        document,
+        expectedChallenge : 'other',
+        expectedDomain    : domain
+      });
+      expect(challenged.verified).to.be.false;
+      expect(challenged.presentation.problemDetails![0].code).to.equal('INVALID_CHALLENGE_ERROR');
+      expect(challenged.credentials.map(({ verified }) => verified)).to.deep.equal([true, true]);
+
+      const domained = await verifier.verifyPresentation({
+        document,
+        expectedChallenge : challenge,
+        expectedDomain    : 'x.example'
+      });
+      expect(domained.verified).to.be.false;
+      expect(domained.presentation.problemDetails![0].code).to.equal('INVALID_DOMAIN_ERROR');
+    });
+
+    it('should report a tampered credential in the result tree', async () => {
+      // The holder presents a credential whose subject was changed after issuance
+      const [first, second] = credentials;
+      const tampered = { ...second, credentialSubject: { id: 'did:example:mallory' } };
+      const document = JSON.stringify(await holderPresentation.createPresentation({
+        credentials : [first, tampered],
+        options     : holderOptions
+      }));
+
+      const result = await verify(document);
+      expect(result.verified).to.be.false;
+      expect(result.presentation.verified).to.be.true;
+      expect(result.credentials.map(({ verified }) => verified)).to.deep.equal([true, false]);
+      expect(result.credentials[1].problemDetails![0].code).to.equal('PROOF_VERIFICATION_ERROR');
+    });
+
+    it('should check the purpose of the credential proofs', async () => {
+      const result = await verifier.verifyPresentation({
+        document          : await present(),
+        expectedChallenge : challenge,
+        expectedDomain    : domain,
+        credentialPurpose : 'authentication'
+      });
+      expect(result.verified).to.be.false;
+      expect(result.credentials[0].problemDetails![0].code).to.equal('MISMATCHED_PROOF_PURPOSE_ERROR');
+    });
+
+    it('should not verify a presentation whose credentials were swapped after signing', async () => {
+      const secured = JSON.parse(await present());
+      const document = JSON.stringify({ ...secured, verifiableCredential: [credentials[1], credentials[0]] });
+      const result = await verify(document);
+      expect(result.verified).to.be.false;
+      expect(result.presentation.problemDetails![0].code).to.equal('PROOF_VERIFICATION_ERROR');
+    });
+
+    it('should not verify a presentation whose holder is not the controller of the verification method', async () => {
+      // The holder's key signs a presentation claiming to be held by the issuer
+      const document = JSON.stringify(await holderPresentation.createPresentation({
+        credentials,
+        holder  : issuer,
+        options : holderOptions
+      }));
+
+      const result = await verify(document);
+      expect(result.verified).to.be.false;
+      expect(result.presentation.verified).to.be.false;
+      expect(result.presentation.verifiedDocument).to.be.undefined;
+      expect(result.presentation.problemDetails!.map(problem => problem.code)).to.deep.equal(['INVALID_HOLDER_ERROR']);
+      expect(result.presentation.problemDetails![0].type).to.equal(
+        'https://www.w3.org/TR/vc-data-model#CRYPTOGRAPHIC_SECURITY_ERROR'
+      );
+      expect(result.credentials.map(({ verified }) => verified)).to.deep.equal([true, true]);
+    });
+
+    it('should verify a presentation whose holder is an object with the controller as id', async () => {
+      const { proof: _proof, ...unsigned } = await holderPresentation.createPresentation({
+        credentials,
+        options : holderOptions
+      });
+      const signed = await holderPresentation.diProof.addProof({
+        document : { ...unsigned, holder: { id: holder } },
+        options  : { type: 'DataIntegrityProof', ...holderOptions, proofPurpose: 'authentication' }
+      });
+      expect((await verify(JSON.stringify(signed))).verified).to.be.true;
+    });
+
+    it('should not verify a presentation signed by a key whose document names the holder as controller', async () => {
+      // The issuer's document claims the holder controls the issuer's key
+      const forged = new Presentation(new DataIntegrityProof(undefined, new LocalResolver([
+        {
+          id                 : issuer,
+          verificationMethod : [{ ...issuerKey.toVerificationMethod(), controller: holder }],
+          authentication     : [id]
+        },
+        { id: holder, verificationMethod: [holderKey.toVerificationMethod()], authentication: [id] }
+      ])));
+      const document = JSON.stringify(await new Presentation(issuerProof).createPresentation({
+        credentials,
+        holder,
+        options : { ...holderOptions, verificationMethod: issuerOptions.verificationMethod }
+      }));
+
+      const result = await forged.verifyPresentation({
+        document,
+        expectedChallenge : challenge,
+        expectedDomain    : domain
+      });
+      expect(result.presentation.verified).to.be.false;
+      expect(result.presentation.problemDetails!.map(problem => problem.code)).to.include('INVALID_HOLDER_ERROR');
+    });
+
+    it('should verify a presentation without a holder, unbound to one', async () => {
+      const { proof: _proof, holder: _holder, ...unsigned } = await holderPresentation.createPresentation({
+        credentials,
+        options : holderOptions
+      });
+      const signed = await holderPresentation.diProof.addProof({
+        document : unsigned,
+        options  : { type: 'DataIntegrityProof', ...holderOptions, proofPurpose: 'authentication' }
+      });
+      const result = await verify(JSON.stringify(signed));
+      expect(result.verified).to.be.true;
+      expect(result.presentation.verifiedDocument).to.not.have.property('holder');
+    });
+
+    it('should not verify a document that is not a presentation', async () => {
+      for (const document of ['{', JSON.stringify(credentials[0])]) {
+        const result = await verifier.verifyPresentation({ document, expectedChallenge: challenge });
+        expect(result.verified).to.be.false;
+        expect(result.credentials).to.deep.equal([]);
+        expect(result.presentation.problemDetails![0].code).to.equal('PARSING_ERROR');
+      }
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { KeyPair, PrivateKey } from '@did-btc1/bip340-key-pair';
+import { DidDocument } from '@web5/dids';
+import { expect } from 'chai';
+import { Multikey } from '../src/di-bip340/multikey/index.js';
+import { LocalResolver, ResolverUtils } from '../src/di-bip340/resolver/index.js';
+import { VerificationRelationship } from '../src/types/shared.js';
+import { ResolverError } from '../src/utils/error.js';
+
+/**
+ * Resolver Test Cases
+ *
+ * 1. LocalResolver → should resolve known DIDs and reject unknown DIDs
+ * 2. dereference → should find verification methods by absolute or relative id, listed or embedded, and check
+ *    their controller and verification relationship
+ * 3. resolveMultikey → should build a public-only Multikey matching the signer
+ *
+ */
+describe('Resolver', () => {
+  const controller = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+  const privateKey = new PrivateKey(Buffer.from('73fddc12fc9342bb29ae9b5ed476323bdc693a116e36512455aee830fe8a25a2', 'hex'));
+  const signer = new Multikey({ id: '#initialKey', controller, keyPair: new KeyPair({ privateKey }) });
+  const document: DidDocument = {
+    id                 : controller,
+    verificationMethod : [signer.toVerificationMethod()],
+    assertionMethod    : ['#initialKey']
+  };
+  const resolver = new LocalResolver([document]);
+
+  describe('LocalResolver', () => {
+    it('should resolve a known DID', async () => {
+      expect(await resolver.resolve(controller)).to.equal(document);
+    });
+
+    it('should throw DID_NOT_FOUND_ERROR for an unknown DID', async () => {
+      const error = await resolver.resolve('did:example:unknown').catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('DID_NOT_FOUND_ERROR');
+    });
+  });
+
+  describe('dereference', () => {
+    it('should find a verification method by its relative id', async () => {
+      const vm = await ResolverUtils.dereference(resolver, `${controller}#initialKey`);
+      expect(vm.id).to.equal(`${controller}#initialKey`);
+      expect(vm.publicKeyMultibase).to.equal(signer.publicKey.multibase);
+    });
+
+    it('should find a verification method by its absolute id', async () => {
+      const absolute = { ...document, verificationMethod: [{ ...signer.toVerificationMethod(), id: signer.fullId() }] };
+      const vm = await ResolverUtils.dereference(new LocalResolver([absolute]), signer.fullId());
+      expect(vm.publicKeyMultibase).to.equal(signer.publicKey.multibase);
+    });
+
+    it('should throw VERIFICATION_METHOD_NOT_FOUND_ERROR for an unknown fragment', async () => {
+      const error = await ResolverUtils.dereference(resolver, `${controller}#otherKey`).catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('VERIFICATION_METHOD_NOT_FOUND_ERROR');
+    });
+
+    it('should reject a verification method controlled by another DID', async () => {
+      const other = 'did:example:attacker';
+      const foreign = new LocalResolver([{
+        ...document,
+        verificationMethod : [{ ...signer.toVerificationMethod(), controller: other }]
+      }]);
+      const error = await ResolverUtils.dereference(foreign, signer.fullId()).catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('INVALID_VERIFICATION_METHOD_ERROR');
+    });
+
+    it('should reject a document resolved for another DID', async () => {
+      const mismatched = { resolve: async () => ({ ...document, id: 'did:example:attacker' }) };
+      const error = await ResolverUtils.dereference(mismatched, signer.fullId()).catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('INVALID_VERIFICATION_METHOD_ERROR');
+    });
+
+    it('should throw INVALID_DID_URL_ERROR without a fragment', async () => {
+      const error = await ResolverUtils.dereference(resolver, controller).catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('INVALID_DID_URL_ERROR');
+    });
+
+    it('should find a verification method referenced by a relationship by its relative or absolute id', async () => {
+      for (const reference of ['#initialKey', signer.fullId()]) {
+        const referenced = new LocalResolver([{ ...document, authentication: [reference] }]);
+        const vm = await ResolverUtils.dereference(referenced, signer.fullId(), 'authentication');
+        expect(vm.publicKeyMultibase).to.equal(signer.publicKey.multibase);
+      }
+    });
+
+    it('should find a verification method embedded in a relationship', async () => {
+      const embedded = new LocalResolver([{
+        id                   : controller,
+        capabilityInvocation : [{ ...signer.toVerificationMethod(), id: '#embeddedKey' }]
+      }]);
+      const vm = await ResolverUtils.dereference(embedded, `${controller}#embeddedKey`, 'capabilityInvocation');
+      expect(vm).to.include({ id: `${controller}#embeddedKey`, controller });
+      expect(vm.publicKeyMultibase).to.equal(signer.publicKey.multibase);
+
+      // An embedded verification method has only the relationship it is embedded in
+      const error = await ResolverUtils
+        .dereference(embedded, `${controller}#embeddedKey`, 'assertionMethod')
+        .catch(error => error);
+      expect(error.type).to.equal('INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD');
+    });
+
+    it('should reject a verification method embedded in a relationship and controlled by another DID', async () => {
+      const foreign = new LocalResolver([{
+        ...document,
+        assertionMethod : [{ ...signer.toVerificationMethod(), controller: 'did:example:attacker' }]
+      }]);
+      const error = await ResolverUtils.dereference(foreign, signer.fullId(), 'assertionMethod').catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('INVALID_VERIFICATION_METHOD_ERROR');
+    });
+
+    it('should reject a verification method not listed under the relationship', async () => {
+      for (const relationship of ['authentication', 'capabilityDelegation', 'keyAgreement'] as const) {
+        const error = await ResolverUtils.dereference(resolver, signer.fullId(), relationship).catch(error => error);
+        expect(error).to.be.instanceOf(ResolverError);
+        expect(error.type).to.equal('INVALID_RELATIONSHIP_FOR_VERIFICATION_METHOD');
+      }
+    });
+
+    it('should reject an unknown relationship', async () => {
+      const unknown = new LocalResolver([{ ...document, attestationMethod: ['#initialKey'] } as DidDocument]);
+      const error = await ResolverUtils
+        .dereference(unknown, signer.fullId(), 'attestationMethod' as VerificationRelationship)
+        .catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.message).to.include('Unknown verification relationship');
+    });
+  });
+
+  describe('resolveMultikey', () => {
+    it('should build a public-only Multikey that verifies the signer\'s signatures', async () => {
+      const multikey = await ResolverUtils.resolveMultikey(resolver, signer.fullId());
+      const hash = new Uint8Array(32).fill(7);
+      expect(() => multikey.sign(hash)).to.throw('Private key not available');
+      expect(multikey.fullId()).to.equal(signer.fullId());
+      expect(multikey.publicKey.multibase).to.equal(signer.publicKey.multibase);
+      expect(multikey.verify(signer.sign(hash), hash)).to.be.true;
+    });
+
+    it('should reject an assertion method controlled by another DID', async () => {
+      const foreign = new LocalResolver([{
+        ...document,
+        verificationMethod : [{ ...signer.toVerificationMethod(), controller: 'did:example:attacker' }]
+      }]);
+      const error = await ResolverUtils
+        .resolveMultikey(foreign, signer.fullId(), 'assertionMethod')
+        .catch(error => error);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('INVALID_VERIFICATION_METHOD_ERROR');
+    });
+
+    it('should throw INVALID_VERIFICATION_METHOD_ERROR for a non-Multikey verification method', async () => {
+      const jwk = { ...document, verificationMethod: [{ ...signer.toVerificationMethod(), type: 'JsonWebKey' }] };
+      const error = await ResolverUtils.resolveMultikey(new LocalResolver([jwk]), signer.fullId()).catch(e => e);
+      expect(error).to.be.instanceOf(ResolverError);
+      expect(error.type).to.equal('INVALID_VERIFICATION_METHOD_ERROR');
+    });
+  });
+});
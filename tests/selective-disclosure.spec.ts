@@ -0,0 +1,186 @@
+import { expect } from 'chai';
+import { Multikey, MultikeyUtils } from '../src/di-bip340/multikey/index.js';
+import { Cbor } from '../src/di-bip340/selective-disclosure/cbor.js';
+import { SelectiveDisclosureCryptosuite } from '../src/di-bip340/selective-disclosure/index.js';
+import { SdPrimitives } from '../src/di-bip340/selective-disclosure/primitives.js';
+import { KeyPair, PrivateKeyUtils } from '../src/index.js';
+import { InsecureDocument } from '../src/types/di-proof.js';
+import { SdProofOptions, SdSecureDocument } from '../src/types/selective-disclosure.js';
+import { CryptosuiteError } from '../src/utils/error.js';
+
+const id = '#initialKey';
+const issuer = 'did:btc1:k1q2ddta4gt5n7u6d3xwhdyua57t6awrk55ut82qvurfm0qnrxx5nw7vnsy65';
+const SECRET = 52464508790539176856770556715241483442035423615466097401201513777400180778402n;
+const credential: InsecureDocument = {
+  '@context' : [
+    'https://www.w3.org/ns/credentials/v2',
+    'https://www.w3.org/ns/credentials/examples/v2',
+  ],
+  type              : ['VerifiableCredential', 'ExampleDrivingLicenseCredential'],
+  issuer,
+  validFrom         : '2020-01-01T00:00:00Z',
+  credentialSubject : {
+    driverLicense : {
+      dateOfBirth      : '1990-01-01',
+      expirationDate   : '2030-01-01',
+      issuingAuthority : 'VA',
+      licenseNumber    : '123-456-789',
+    },
+    endorsements : [{ name: 'Motorcycle' }, { name: 'Tanker' }, { name: 'Hazmat' }],
+  },
+};
+const options: SdProofOptions = {
+  type               : 'DataIntegrityProof',
+  cryptosuite        : 'bip340-sd-2025',
+  verificationMethod : `${issuer}#initialKey`,
+  proofPurpose       : 'assertionMethod',
+  created            : '2025-01-01T00:00:00Z'
+};
+const mandatoryPointers = ['/issuer', '/credentialSubject/driverLicense/issuingAuthority'];
+
+describe('Selective Disclosure', () => {
+  describe('Cbor', () => {
+    it('should round-trip integers, byte and text strings, arrays and maps', () => {
+      const value = [0, 23, 24, 255, 256, 65536, 2 ** 40, new Uint8Array([1, 2, 3]), 'bip340', new Map([[7, ['x']]])];
+      expect(Cbor.decode(Cbor.encode(value))).to.deep.equal(value);
+    });
+
+    it('should encode integers in their shortest form', () => {
+      expect([...Cbor.encode(23)]).to.deep.equal([0x17]);
+      expect([...Cbor.encode(24)]).to.deep.equal([0x18, 0x18]);
+      expect([...Cbor.encode(1000)]).to.deep.equal([0x19, 0x03, 0xe8]);
+    });
+
+    it('should not decode truncated input or trailing bytes', () => {
+      for (const bytes of [[0x43, 0x01], [0x82, 0x01], [0x01, 0x02]]) {
+        const error = (() => { try { Cbor.decode(new Uint8Array(bytes)); } catch (e) { return e; } })();
+        expect(error).to.be.instanceOf(CryptosuiteError);
+        expect((error as CryptosuiteError).type).to.equal('MALFORMED_PROOF_ERROR');
+      }
+    });
+  });
+
+  describe('SdPrimitives', () => {
+    it('should parse JSON pointers, unescaping ~1 and ~0', () => {
+      expect(SdPrimitives.parsePointer('')).to.deep.equal([]);
+      expect(SdPrimitives.parsePointer('/a~1b/c~0d/0')).to.deep.equal(['a/b', 'c~d', '0']);
+      expect(() => SdPrimitives.parsePointer('a')).to.throw(CryptosuiteError, 'Invalid JSON pointer');
+    });
+
+    it('should select the pointed claims with the context and type, removing holes from arrays', () => {
+      const selection = SdPrimitives.selectJsonLd(credential, ['/credentialSubject/endorsements/2', '/issuer']);
+      expect(selection).to.deep.equal({
+        '@context'        : credential['@context'],
+        type              : credential.type,
+        issuer,
+        credentialSubject : { endorsements: [{ name: 'Hazmat' }] }
+      });
+    });
+
+    it('should return null for no pointers and throw for a pointer to nothing', () => {
+      expect(SdPrimitives.selectJsonLd(credential, [])).to.be.null;
+      expect(() => SdPrimitives.selectJsonLd(credential, ['/credentialSubject/name']))
+        .to.throw(CryptosuiteError, 'JSON pointer not found');
+    });
+  });
+
+  describe('SelectiveDisclosureCryptosuite', () => {
+    const keyPair = new KeyPair({ privateKey: PrivateKeyUtils.fromSecret(SECRET) });
+    const multikey = new Multikey({ id, controller: issuer, keyPair });
+    const issuing = new SelectiveDisclosureCryptosuite({ multikey });
+    const publicKeyBytes = multikey.publicKey.compressed;
+    const verifying = new SelectiveDisclosureCryptosuite({
+      multikey : MultikeyUtils.fromPublicKey({ id, controller: issuer, publicKeyBytes })
+    });
+    const selectivePointers = ['/credentialSubject/driverLicense/dateOfBirth', '/credentialSubject/endorsements/1'];
+    let secured: SdSecureDocument;
+    let derived: SdSecureDocument;
+
+    before(async () => {
+      const proof = await issuing.createBaseProof({ document: credential, options, mandatoryPointers });
+      secured = { ...credential, proof };
+      derived = await verifying.deriveProof({ document: secured, selectivePointers });
+    });
+
+    it('should create a base proof with a base proof value', () => {
+      expect(secured.proof.cryptosuite).to.equal('bip340-sd-2025');
+      expect(secured.proof.proofValue.startsWith('u2V0A')).to.be.true;
+      const { mandatoryPointers: pointers, signatures } = SdPrimitives.parseBaseProofValue(secured.proof.proofValue);
+      expect(pointers).to.deep.equal(mandatoryPointers);
+      expect(signatures).to.not.be.empty;
+    });
+
+    it('should derive a proof revealing only the mandatory and selected claims', () => {
+      const { proof, ...reveal } = derived;
+      expect(proof.proofValue.startsWith('u2V0B')).to.be.true;
+      expect(reveal).to.deep.equal({
+        '@context'        : credential['@context'],
+        type              : credential.type,
+        issuer,
+        credentialSubject : {
+          driverLicense : { dateOfBirth: '1990-01-01', issuingAuthority: 'VA' },
+          endorsements  : [{ name: 'Tanker' }]
+        }
+      });
+    });
+
+    it('should verify a derived proof', async () => {
+      const { verified, verifiedDocument } = await verifying.verifyProof(derived);
+      expect(verified).to.be.true;
+      expect(verifiedDocument).to.deep.equal(derived);
+    });
+
+    it('should verify a derived proof revealing only the mandatory claims', async () => {
+      const minimal = await verifying.deriveProof({ document: secured, selectivePointers: [] });
+      expect(minimal.credentialSubject).to.deep.equal({ driverLicense: { issuingAuthority: 'VA' } });
+      expect((await verifying.verifyProof(minimal)).verified).to.be.true;
+    });
+
+    it('should not verify a derived proof over a tampered claim', async () => {
+      const tampered = structuredClone(derived);
+      tampered.credentialSubject.driverLicense.dateOfBirth = '1980-01-01';
+      const { verified, verifiedDocument } = await verifying.verifyProof(tampered);
+      expect(verified).to.be.false;
+      expect(verifiedDocument).to.be.undefined;
+    });
+
+    it('should not verify a derived proof without a mandatory claim', async () => {
+      const stripped = structuredClone(derived);
+      delete stripped.credentialSubject.driverLicense.issuingAuthority;
+      expect((await verifying.verifyProof(stripped)).verified).to.be.false;
+    });
+
+    it('should not verify a derived proof with a claim added', async () => {
+      const added = structuredClone(derived);
+      added.credentialSubject.endorsements.push({ name: 'Hazmat' });
+      expect((await verifying.verifyProof(added)).verified).to.be.false;
+    });
+
+    it('should refuse to verify a base proof', async () => {
+      const error = await verifying.verifyProof(secured).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('MALFORMED_PROOF_ERROR');
+    });
+
+    it('should refuse to verify a derived proof for another verification method', async () => {
+      const other = { ...derived, proof: { ...derived.proof, verificationMethod: `${issuer}#otherKey` } };
+      const error = await verifying.verifyProof(other as SdSecureDocument).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('PROOF_VERIFICATION_ERROR');
+    });
+
+    it('should refuse to derive a proof from a selective pointer to nothing', async () => {
+      const document = secured;
+      const error = await verifying.deriveProof({ document, selectivePointers: ['/name'] }).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('PROOF_GENERATION_ERROR');
+    });
+
+    it('should refuse to derive a proof from a document that does not match the base proof', async () => {
+      const document = { ...secured, validUntil: '2030-01-01T00:00:00Z' };
+      const error = await verifying.deriveProof({ document, selectivePointers }).catch(error => error);
+      expect(error).to.be.instanceOf(CryptosuiteError);
+      expect(error.type).to.equal('PROOF_GENERATION_ERROR');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { PrivateKey } from '@did-btc1/bip340-key-pair';
+import { schnorr } from '@noble/curves/secp256k1';
+import { expect } from 'chai';
+import { base58btc } from 'multiformats/bases/base58';
+import { Cryptosuite } from '../src/di-bip340/cryptosuite/index.js';
+import { DataIntegrityProof } from '../src/di-bip340/data-integrity-proof/index.js';
+import { Multikey, MultikeyUtils } from '../src/di-bip340/multikey/index.js';
+import { LocalSigner } from '../src/di-bip340/signer/index.js';
+import { Proof } from '../src/types/di-proof.js';
+import { MultikeyError } from '../src/utils/error.js';
+import { JCS_TEST_VECTORS, RDFC_TEST_VECTORS } from './fixtures/cryptosuite.js';
+import { MockRemoteSigner } from './fixtures/signer.js';
+
+/**
+ * Signer Test Cases
+ *
+ * 1. LocalSigner → should sign like the Multikey it replaces
+ * 2. Multikey with a signer → should sign asynchronously, reject faulty signatures and refuse to sign
+ *    synchronously
+ * 3. Cryptosuite with a remote signer → should produce the test vector proofs
+ *
+ */
+describe('Signer', () => {
+  const [vector] = JCS_TEST_VECTORS;
+  const { id, controller } = vector;
+  const privateKeyBytes = Buffer.from(vector.privateKey, 'hex');
+  const hash = Buffer.from(vector.hashData, 'hex');
+
+  describe('LocalSigner', () => {
+    const signer = new LocalSigner(new PrivateKey(privateKeyBytes), MultikeyUtils.zeroAuxRand);
+
+    it('should expose the public key of the private key', () => {
+      expect(signer.publicKey.multibase).to.equal(vector.publicKeyMultibase);
+    });
+
+    it('should produce the expected signature with zero auxiliary randomness', async () => {
+      expect(Buffer.from(await signer.sign(hash)).toString('hex')).to.equal(vector.signature);
+    });
+
+    it('should reject auxiliary randomness that is not 32 bytes', async () => {
+      const error = await signer.sign(hash, new Uint8Array(31)).catch(error => error);
+      expect(error).to.be.instanceOf(MultikeyError);
+    });
+  });
+
+  describe('Multikey with a signer', () => {
+    const signer = new MockRemoteSigner(privateKeyBytes);
+    const multikey = new Multikey({ id, controller, signer });
+
+    after(() => signer.close());
+
+    it('should take its public key from the signer', () => {
+      expect(multikey.publicKey.multibase).to.equal(vector.publicKeyMultibase);
+      expect(multikey.isSigner).to.be.true;
+    });
+
+    it('should sign through the signer with signAsync', async () => {
+      const signature = await multikey.signAsync(hash);
+      expect(Buffer.from(signature).toString('hex')).to.equal(vector.signature);
+      expect(multikey.verify(signature, hash)).to.be.true;
+    });
+
+    it('should pass the Multikey auxRand source to the signer', async () => {
+      const auxRand = new Uint8Array(32).fill(9);
+      const sourced = new Multikey({ id, controller, signer, auxRand: () => auxRand });
+      const signature = await sourced.signAsync(hash);
+      expect(signature).to.deep.equal(await signer.sign(hash, auxRand));
+      expect(Buffer.from(signature).toString('hex')).to.not.equal(vector.signature);
+    });
+
+    it('should reject a signature from the signer that is not 64 bytes or does not verify', async () => {
+      const otherKey = new Uint8Array(32).fill(1);
+      const faulty: [string, (hash: Uint8Array) => Promise<Uint8Array>][] = [
+        ['expected 64 bytes, got 63', async hash => (await signer.sign(hash)).slice(0, 63)],
+        ['does not verify', async () => await signer.sign(new Uint8Array(32))],
+        ['does not verify', async hash => schnorr.sign(hash, otherKey, new Uint8Array(32))],
+        ['does not verify', async () => new Uint8Array(64)],
+      ];
+      for (const [message, sign] of faulty) {
+        const faultyMultikey = new Multikey({ id, controller, signer: { publicKey: signer.publicKey, sign } });
+        const error = await faultyMultikey.signAsync(hash).catch(error => error);
+        expect(error).to.be.instanceOf(MultikeyError);
+        expect(error.type).to.equal('MULTIKEY_SIGN_ERROR');
+        expect(error.message).to.include(message);
+      }
+    });
+
+    it('should refuse to sign synchronously', () => {
+      expect(() => multikey.sign(hash)).to.throw(MultikeyError, 'use signAsync');
+    });
+
+    it('should reject both a keyPair and a signer', () => {
+      const { keyPair } = MultikeyUtils.fromPrivateKey({ id, controller, privateKeyBytes });
+      expect(() => new Multikey({ id, controller, keyPair, signer }))
+        .to.throw(MultikeyError, 'pass either "keyPair" or "signer"');
+    });
+  });
+
+  describe('Cryptosuite with a remote signer', () => {
+    const signer = new MockRemoteSigner(privateKeyBytes);
+    const vectors = [...JCS_TEST_VECTORS, ...RDFC_TEST_VECTORS];
+
+    after(() => signer.close());
+
+    for (const { cryptosuite, name, unsecuredDocument, proofOptions, proofValue } of vectors) {
+      it(`should create the expected ${cryptosuite} proof for ${name}`, async () => {
+        const multikey = new Multikey({ id, controller, signer });
+        const suite = new Cryptosuite({ cryptosuite, multikey });
+        const requests = signer.requests;
+        const proof = await suite.createProof({ document: unsecuredDocument, options: proofOptions });
+        expect(proof.proofValue).to.equal(proofValue);
+        expect(signer.requests).to.equal(requests + 1);
+      });
+    }
+
+    it('should add a proof that verifies with the public key alone', async () => {
+      const multikey = new Multikey({ id, controller, signer });
+      const diProof = new DataIntegrityProof(new Cryptosuite({ cryptosuite: vector.cryptosuite, multikey }));
+      const secure = await diProof.addProof({ document: vector.unsecuredDocument, options: vector.proofOptions });
+      const verifier = new Cryptosuite({
+        cryptosuite : vector.cryptosuite,
+        multikey    : Multikey.fromVerificationMethod(multikey.toVerificationMethod())
+      });
+      expect(base58btc.decode((secure.proof as Proof).proofValue)).to.have.length(64);
+      expect((await verifier.verifyProof(secure)).verified).to.be.true;
+    });
+  });
+});